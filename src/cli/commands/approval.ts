@@ -0,0 +1,258 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import os from 'os';
+import { ExecutionOrchestrator } from '../../core/execution-engine/orchestrator';
+import { MCPClientPool } from '../../core/execution-engine/mcp-code-api/mcp-client';
+import {
+  ApprovalGate,
+  ApprovalRequest,
+} from '../../core/execution-engine/security/approval-gate';
+import { resolveToolsDirectory } from './mcp-execute';
+
+interface ListOptions {
+  all?: boolean;
+}
+
+interface DecisionOptions {
+  reason?: string;
+  by?: string;
+}
+
+interface ApproveOptions extends DecisionOptions {
+  /** Code hash from `approval:show` */
+  hash: string;
+}
+
+interface ResumeOptions {
+  /** Tools directory of the original run */
+  toolsDir?: string;
+}
+
+/**
+ * Default reviewer identity (OS user)
+ */
+function defaultReviewer(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Color a request status for display
+ */
+function formatStatus(status: ApprovalRequest['status']): string {
+  switch (status) {
+    case 'pending':
+      return chalk.yellow(status);
+    case 'approved':
+      return chalk.green(status);
+    case 'rejected':
+      return chalk.red(status);
+    default:
+      return chalk.gray(status);
+  }
+}
+
+/**
+ * List approval requests (pending only unless --all)
+ */
+export async function approvalListCommand(options: ListOptions): Promise<void> {
+  const gate = new ApprovalGate();
+  const requests = options.all
+    ? await gate.listRequests()
+    : await gate.getPendingApprovals();
+
+  if (requests.length === 0) {
+    console.log(
+      chalk.gray(
+        options.all ? 'No approval requests.' : 'No pending approval requests.'
+      )
+    );
+    return;
+  }
+
+  console.log(chalk.blue.bold(`\n📋 Approval Requests (${requests.length})\n`));
+
+  for (const request of requests) {
+    console.log(
+      `${chalk.cyan(request.id)}  ${formatStatus(request.status)}  ` +
+        `${request.riskAssessment.riskLevel.toUpperCase()} (${request.riskAssessment.riskScore}/100)  ` +
+        chalk.gray(request.requestedAt.toISOString())
+    );
+    if (request.userRequest) {
+      console.log(chalk.gray(`    ${request.userRequest}`));
+    }
+  }
+  console.log();
+}
+
+/**
+ * Show full details of an approval request, including the code
+ */
+export async function approvalShowCommand(requestId: string): Promise<void> {
+  const gate = new ApprovalGate();
+  const request = await gate.getRequest(requestId);
+
+  if (!request) {
+    console.error(chalk.red(`Approval request not found: ${requestId}`));
+    process.exit(1);
+  }
+
+  console.log(gate.formatRequest(request));
+
+  if (request.approvedBy) {
+    console.log(
+      chalk.gray(
+        `Decided by ${request.approvedBy} at ${request.approvedAt?.toISOString()}`
+      )
+    );
+    if (request.reason) {
+      console.log(chalk.gray(`Reason: ${request.reason}`));
+    }
+    console.log();
+  }
+
+  console.log(chalk.cyan('Code:\n'));
+  console.log(request.code);
+  console.log();
+}
+
+/**
+ * Approve a pending request
+ * Requires the code hash shown by `approval:show`, so only reviewed code is approved
+ */
+export async function approvalApproveCommand(
+  requestId: string,
+  options: ApproveOptions
+): Promise<void> {
+  const gate = new ApprovalGate();
+  const reviewer = options.by || defaultReviewer();
+
+  let approved: boolean;
+  try {
+    approved = await gate.approve(
+      requestId,
+      reviewer,
+      options.hash,
+      options.reason
+    );
+  } catch (error) {
+    console.error(
+      chalk.red(
+        `Cannot approve ${requestId}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+    process.exit(1);
+  }
+
+  if (!approved) {
+    console.error(
+      chalk.red(`Cannot approve ${requestId}: not found or not pending`)
+    );
+    process.exit(1);
+  }
+
+  console.log(chalk.green(`✓ Approved ${requestId} as ${reviewer}`));
+  console.log(
+    chalk.gray(
+      `Resume with: code-assistant-claude approval:resume ${requestId}`
+    )
+  );
+}
+
+/**
+ * Reject a pending request (reason required)
+ */
+export async function approvalRejectCommand(
+  requestId: string,
+  options: DecisionOptions
+): Promise<void> {
+  const gate = new ApprovalGate();
+  const reviewer = options.by || defaultReviewer();
+
+  if (!(await gate.reject(requestId, reviewer, options.reason || ''))) {
+    console.error(
+      chalk.red(`Cannot reject ${requestId}: not found or not pending`)
+    );
+    process.exit(1);
+  }
+
+  console.log(chalk.yellow(`✓ Rejected ${requestId} as ${reviewer}`));
+}
+
+/**
+ * Resume an approved request through sandbox execution and result processing
+ * Tools resolve as in `mcp-execute`, and calls reach the configured servers.
+ */
+export async function approvalResumeCommand(
+  requestId: string,
+  options: ResumeOptions = {}
+): Promise<void> {
+  let mcpServers: MCPClientPool | undefined;
+  let orchestrator: ExecutionOrchestrator | undefined;
+
+  try {
+    const toolsDir = await resolveToolsDirectory(options.toolsDir);
+    mcpServers = await MCPClientPool.fromConfig();
+    orchestrator = new ExecutionOrchestrator(toolsDir, { mcpServers });
+    await orchestrator.initialize();
+    const result = await orchestrator.resumeApproved(requestId);
+
+    if (result.success) {
+      console.log(chalk.green('\n✅ Result:\n'));
+      console.log(chalk.gray(result.summary));
+    } else {
+      console.log(chalk.red('\n❌ Error:\n'));
+      console.log(chalk.gray(result.error || 'Unknown error'));
+      process.exitCode = 1;
+    }
+  } finally {
+    await orchestrator?.shutdown();
+    await mcpServers?.disconnectAll();
+  }
+}
+
+/**
+ * Register approval commands with Commander
+ */
+export function registerApprovalCommands(program: Command): void {
+  program
+    .command('approval:list')
+    .description('List approval requests for high-risk executions')
+    .option('--all', 'Include approved, rejected and executed requests')
+    .action(approvalListCommand);
+
+  program
+    .command('approval:show <id>')
+    .description('Show an approval request with its code and risk factors')
+    .action(approvalShowCommand);
+
+  program
+    .command('approval:approve <id>')
+    .description('Approve a pending execution request')
+    .requiredOption(
+      '--hash <hash>',
+      'Code hash shown by approval:show for the code, language and tools you reviewed'
+    )
+    .option('-r, --reason <reason>', 'Reason for approval')
+    .option('--by <name>', 'Reviewer name (default: current OS user)')
+    .action(approvalApproveCommand);
+
+  program
+    .command('approval:reject <id>')
+    .description('Reject a pending execution request')
+    .requiredOption('-r, --reason <reason>', 'Reason for rejection')
+    .option('--by <name>', 'Reviewer name (default: current OS user)')
+    .action(approvalRejectCommand);
+
+  program
+    .command('approval:resume <id>')
+    .description('Execute the exact code of an approved request')
+    .option(
+      '-d, --tools-dir <path>',
+      'MCP tools directory the request was made with'
+    )
+    .action(approvalResumeCommand);
+}
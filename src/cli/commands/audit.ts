@@ -0,0 +1,101 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AuditLogger } from '../../core/execution-engine/audit/logger';
+import { ComplianceManager } from '../../core/execution-engine/audit/compliance';
+import {
+  EVIDENCE_FORMATS,
+  EvidenceFormat,
+  formatEvidencePack,
+} from '../../core/execution-engine/audit/evidence-export';
+
+interface ReportOptions {
+  from?: string;
+  to?: string;
+  format?: string;
+  output?: string;
+  logFile?: string;
+}
+
+/**
+ * Parse a --from/--to date
+ */
+function parseDate(value: string, option: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${option} date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Generate a compliance evidence pack from the audit trail
+ */
+export async function auditReportCommand(
+  options: ReportOptions
+): Promise<void> {
+  try {
+    const format = (options.format || 'markdown') as EvidenceFormat;
+    if (!EVIDENCE_FORMATS.includes(format)) {
+      throw new Error(
+        `Unknown format: ${format} (expected ${EVIDENCE_FORMATS.join(', ')})`
+      );
+    }
+
+    const end = options.to ? parseDate(options.to, '--to') : new Date();
+    const start = options.from
+      ? parseDate(options.from, '--from')
+      : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const manager = new ComplianceManager(new AuditLogger(options.logFile));
+    const pack = await manager.generateEvidencePack(start, end);
+    const report = formatEvidencePack(pack, format);
+
+    if (!options.output) {
+      process.stdout.write(report);
+    } else {
+      await fs.mkdir(path.dirname(path.resolve(options.output)), {
+        recursive: true,
+      });
+      await fs.writeFile(options.output, report, 'utf-8');
+
+      const failing = pack.controls.filter((c) => c.status === 'fail');
+      console.log(chalk.green(`✓ Evidence pack written to ${options.output}`));
+      console.log(
+        chalk.gray(
+          `  ${pack.controls.length} controls, ${failing.length} failing; audit chain ${pack.auditChain.valid ? 'verified' : 'FAILED verification'}`
+        )
+      );
+    }
+
+    if (!pack.auditChain.valid) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(
+      chalk.red('Failed to generate audit report:'),
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Register audit commands with Commander
+ */
+export function registerAuditCommands(program: Command): void {
+  program
+    .command('audit:report')
+    .description('Export a SOC2/GDPR/HIPAA evidence pack from the audit trail')
+    .option('--from <date>', 'Start of the period (default: 30 days ago)')
+    .option('--to <date>', 'End of the period (default: now)')
+    .option(
+      '-f, --format <format>',
+      `Output format (${EVIDENCE_FORMATS.join('|')})`,
+      'markdown'
+    )
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .option('--log-file <path>', 'Audit log (default: logs/mcp-audit.log)')
+    .action(auditReportCommand);
+}
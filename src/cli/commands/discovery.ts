@@ -0,0 +1,124 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import path from 'path';
+import { HybridToolSearch } from '../../core/execution-engine/discovery/hybrid-search';
+import { MCPOrchestrator } from '../../core/execution-engine/mcp-code-api/orchestrator';
+
+interface ExplainOptions {
+  /** Tools directory (default: templates/mcp-tools) */
+  toolsDir?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+const formatScore = (value: number) => value.toFixed(2);
+
+/**
+ * Show how discovery scores each tool for an intent
+ *
+ * @example
+ * ```bash
+ * code-assistant-claude discovery:explain "list my pull requests awaiting review"
+ * ```
+ */
+export async function discoveryExplainCommand(
+  intent: string,
+  options: ExplainOptions
+): Promise<void> {
+  try {
+    const limit = Number.parseInt(options.limit ?? '10', 10);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error(`Invalid --limit: ${options.limit}`);
+    }
+
+    const orchestrator = new MCPOrchestrator(
+      path.resolve(options.toolsDir ?? path.join('templates', 'mcp-tools'))
+    );
+    // Same vectors and feedback as executions use
+    orchestrator.setToolSearch(HybridToolSearch.persistent());
+
+    // Indexing progress would end up in the table and the JSON
+    const log = console.log;
+    console.log = () => {};
+    try {
+      await orchestrator.initialize();
+    } finally {
+      console.log = log;
+    }
+
+    const results = (await orchestrator.explainDiscovery(intent)).slice(
+      0,
+      limit
+    );
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          results.map(({ tool, ...scores }) => ({
+            tool: tool.name,
+            ...scores,
+          })),
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    if (results.length === 0) {
+      console.log(chalk.yellow('No tools indexed'));
+      return;
+    }
+
+    console.log(chalk.bold(`\nDiscovery for "${intent}"\n`));
+    console.log(
+      chalk.gray('  score = 0.5 × bm25 + 0.5 × cosine + 0.3 × prior\n')
+    );
+    const width = Math.max(...results.map((r) => r.tool.name.length));
+    for (const result of results) {
+      const name = result.tool.name.padEnd(width);
+      const scores = [
+        `score ${formatScore(result.score)}`,
+        `bm25 ${formatScore(result.bm25)}`,
+        `cosine ${formatScore(result.cosine)}`,
+        `prior ${result.prior >= 0 ? '+' : ''}${formatScore(result.prior)}`,
+      ].join('  ');
+      const history = result.history
+        ? chalk.gray(
+            `  (${formatScore(result.history.successes)} successes, ${formatScore(result.history.failures)} failures on similar intents)`
+          )
+        : '';
+
+      if (result.included) {
+        console.log(
+          `${chalk.green('✓')} ${chalk.bold(name)}  ${scores}${history}`
+        );
+      } else {
+        console.log(chalk.gray(`  ${name}  ${scores}`) + history);
+      }
+    }
+    console.log(chalk.gray('\n✓ = above the cutoff, would be discovered'));
+  } catch (error) {
+    console.error(
+      chalk.red('Failed to explain discovery:'),
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Register discovery commands with Commander
+ */
+export function registerDiscoveryCommands(program: Command): void {
+  program
+    .command('discovery:explain <intent>')
+    .description('Show the score breakdown of each tool for an intent')
+    .option(
+      '-d, --tools-dir <path>',
+      'Tools directory (default: templates/mcp-tools)'
+    )
+    .option('-n, --limit <count>', 'Number of tools to show', '10')
+    .option('--json', 'Output as JSON')
+    .action(discoveryExplainCommand);
+}
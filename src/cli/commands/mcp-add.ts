@@ -3,8 +3,24 @@ import ora from 'ora';
 import chalk from 'chalk';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { URL } from 'url';
 import { spawn, ChildProcess } from 'child_process';
 import { z } from 'zod';
+import { RealMCPClient } from '../../core/execution-engine/mcp-code-api/mcp-client';
+import { SchemaParser } from '../../core/execution-engine/mcp-code-api/schema-parser';
+import {
+  diffToolSchemas,
+  nextSchemaVersion,
+  readToolSchemaFile,
+  toolSchemaPath,
+  writeToolSchemaFile,
+} from '../../core/execution-engine/mcp-code-api/schema-sync';
+import {
+  createTransport,
+  MCPServerConfig,
+  MCPServersConfig,
+  MCPServersConfigSchema,
+} from '../../core/execution-engine/mcp-code-api/server-config';
 import type { MCPToolSchema } from '../../core/execution-engine/types';
 import { Logger } from '../../core/utils/logger';
 
@@ -35,6 +51,9 @@ const MCPRegistryEntrySchema = z.object({
   category: z.string(),
   official: z.boolean(),
   installation: z.object({
+    /** Remote servers (`http`, `sse`) are reached at `url` instead */
+    type: z.enum(['stdio', 'http', 'sse']).optional(),
+    url: z.string().optional(),
     command: z.string(),
     args: z.array(z.string()),
     requiresInstall: z.boolean(),
@@ -91,21 +110,10 @@ const JSONRPCResponseSchema = z.object({
     .optional(),
 });
 
-const MCPConfigSchema = z.object({
-  mcpServers: z.record(
-    z.object({
-      command: z.string(),
-      args: z.array(z.string()),
-      env: z.record(z.string()).optional(),
-    })
-  ),
-});
-
 // Types
 type MCPRegistryEntry = z.infer<typeof MCPRegistryEntrySchema>;
 type MCPRegistry = z.infer<typeof MCPRegistrySchema>;
 type JSONRPCResponse = z.infer<typeof JSONRPCResponseSchema>;
-type MCPConfig = z.infer<typeof MCPConfigSchema>;
 
 interface AddMCPOptions {
   name?: string;
@@ -416,15 +424,41 @@ async function customMCPConfiguration(
         { name: 'Node.js script (e.g., node ./server.js)', value: 'node' },
         { name: 'Python script (e.g., python ./server.py)', value: 'python' },
         { name: 'Custom command', value: 'custom' },
+        {
+          name: 'Remote server over Streamable HTTP (e.g., https://host/mcp)',
+          value: 'http',
+        },
+        {
+          name: 'Remote server over legacy HTTP+SSE (e.g., https://host/sse)',
+          value: 'sse',
+        },
       ],
     },
   ]);
 
-  let command: string;
-  let args: string[];
+  let command = '';
+  let args: string[] = [];
+  let url: string | undefined;
 
   // Configure command based on type
-  if (answers.commandType === 'npx') {
+  if (answers.commandType === 'http' || answers.commandType === 'sse') {
+    ({ url } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'url',
+        message: 'Server URL:',
+        validate: (input: string) => {
+          try {
+            return /^https?:$/.test(new URL(input).protocol)
+              ? true
+              : 'Use an http(s) URL';
+          } catch {
+            return 'Enter a valid URL';
+          }
+        },
+      },
+    ]));
+  } else if (answers.commandType === 'npx') {
     const { packageName } = await inquirer.prompt([
       {
         type: 'input',
@@ -478,7 +512,11 @@ async function customMCPConfiguration(
     args = customArgs ? parseArguments(customArgs) : [];
   }
 
-  logger.info('Custom MCP configured', { name: answers.name, command });
+  logger.info('Custom MCP configured', {
+    name: answers.name,
+    command,
+    url,
+  });
 
   // Return custom MCP entry
   return {
@@ -488,6 +526,7 @@ async function customMCPConfiguration(
     category: 'custom',
     official: false,
     installation: {
+      ...(url ? { type: answers.commandType, url } : {}),
       command,
       args,
       requiresInstall: false,
@@ -589,27 +628,29 @@ async function testMCPConnection(
         server: mcpEntry.name,
       });
 
-      // Spawn MCP server process
-      const client = new MCPClient(
-        mcpEntry.installation.command,
-        mcpEntry.installation.args,
-        envConfig
-      );
+      let tools: MCPToolSchema[];
+      const server = toServerConfig(mcpEntry, envConfig);
+      if ('url' in server) {
+        tools = await listRemoteTools(server);
+      } else {
+        // Spawn MCP server process
+        const client = new MCPClient(server.command, server.args, envConfig);
+
+        await client.connect();
 
-      await client.connect();
+        spinner.text = 'Fetching available tools...';
 
-      spinner.text = 'Fetching available tools...';
+        // Get tools list
+        tools = await client.listTools();
 
-      // Get tools list
-      const tools = await client.listTools();
+        await client.disconnect();
+      }
 
       spinner.succeed(
         `Connection successful! Found ${chalk.bold(tools.length)} tools`
       );
       logger.info('MCP connection successful', { toolCount: tools.length });
 
-      await client.disconnect();
-
       return tools;
     } catch (error) {
       spinner.fail('Connection test failed');
@@ -948,6 +989,46 @@ class MCPClient {
   }
 }
 
+/**
+ * Connect to a remote server over its HTTP transport and list its tools
+ */
+async function listRemoteTools(
+  server: MCPServerConfig
+): Promise<MCPToolSchema[]> {
+  const client = new RealMCPClient(createTransport(server), [], {
+    timeout: CONFIG.REQUEST_TIMEOUT_MS,
+  });
+  await client.connect();
+
+  try {
+    return client.getAvailableTools().map((name) => {
+      const tool = client.getToolSchema(name);
+      return {
+        name,
+        description: tool.description || '',
+        inputSchema: tool.inputSchema || { type: 'object', properties: {} },
+        outputSchema: { type: 'object' },
+      };
+    });
+  } finally {
+    await client.disconnect();
+  }
+}
+
+/**
+ * `.mcp.json` entry for a registry entry
+ */
+function toServerConfig(
+  mcpEntry: MCPRegistryEntry,
+  envConfig: Record<string, string>
+): MCPServerConfig {
+  const { type, url, command, args } = mcpEntry.installation;
+  if ((type === 'http' || type === 'sse') && url) {
+    return { type, url };
+  }
+  return { command, args, env: envConfig };
+}
+
 /**
  * Generate tool schema JSON file
  */
@@ -955,30 +1036,24 @@ async function generateToolSchema(
   mcpName: string,
   tools: MCPToolSchema[]
 ): Promise<void> {
-  const schemaPath = path.join(
-    process.cwd(),
-    'templates',
-    'mcp-tools',
-    `${mcpName}-tools.json`
+  const schemaPath = toolSchemaPath(
+    path.join(process.cwd(), 'templates', 'mcp-tools'),
+    mcpName
   );
-
-  // Ensure directory exists
-  await fs.mkdir(path.dirname(schemaPath), { recursive: true });
-
-  // Write schema
-  const schema = {
-    version: '1.0.0',
-    mcp: mcpName,
+  const parser = new SchemaParser();
+  const schemas = tools.map((tool) => parser.parseFromMCPTool(tool));
+
+  // Re-adding a server keeps counting from the version it had
+  const existing = await readToolSchemaFile(schemaPath).catch(() => null);
+  await writeToolSchemaFile(schemaPath, {
+    version: nextSchemaVersion(
+      existing?.version,
+      diffToolSchemas(existing?.tools ?? [], schemas)
+    ),
+    server: mcpName,
     generatedAt: new Date().toISOString(),
-    tools: tools.map((tool) => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: tool.inputSchema,
-      outputSchema: tool.outputSchema,
-    })),
-  };
-
-  await fs.writeFile(schemaPath, JSON.stringify(schema, null, 2));
+    tools: schemas,
+  });
 
   console.log(
     chalk.green(
@@ -1001,11 +1076,11 @@ async function saveMCPConfiguration(
   const configPath = path.join(process.cwd(), '.claude', '.mcp.json');
 
   // Load existing config or create new
-  let config: MCPConfig;
+  let config: MCPServersConfig;
   try {
     const content = await fs.readFile(configPath, 'utf-8');
     const parsed = JSON.parse(content);
-    config = MCPConfigSchema.parse(parsed);
+    config = MCPServersConfigSchema.parse(parsed);
   } catch (error) {
     if (error instanceof z.ZodError) {
       logger.warn('Existing config invalid, creating new', {
@@ -1016,11 +1091,7 @@ async function saveMCPConfiguration(
   }
 
   // Add new MCP server
-  config.mcpServers[mcpEntry.name] = {
-    command: mcpEntry.installation.command,
-    args: mcpEntry.installation.args,
-    env: envConfig,
-  };
+  config.mcpServers[mcpEntry.name] = toServerConfig(mcpEntry, envConfig);
 
   // Ensure directory exists
   await fs.mkdir(path.dirname(configPath), { recursive: true });
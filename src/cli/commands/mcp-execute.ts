@@ -1,15 +1,33 @@
 import { Command } from 'commander';
-import ora from 'ora';
+import ora, { Ora } from 'ora';
 import chalk from 'chalk';
 import { ExecutionOrchestrator } from '../../core/execution-engine/orchestrator';
+import { ExecutionEvent, PHASES } from '../../core/execution-engine/events';
+import {
+  ExecutionPlan,
+  ExecutionResult,
+  SandboxLanguage,
+} from '../../core/execution-engine/types';
+import { parseExecutionPlan } from '../../core/execution-engine/mcp-code-api/plan';
+import { MCPClientPool } from '../../core/execution-engine/mcp-code-api/mcp-client';
+import {
+  LANGUAGE_RUNTIMES,
+  detectLanguages,
+} from '../../core/execution-engine/sandbox/runtimes';
 import { debug } from '../../core/utils/debug-display';
 import path from 'path';
 
 interface ExecuteOptions {
-  language?: 'typescript' | 'python';
+  /** True for a bare --language, which lists the languages */
+  language?: string | true;
   timeout?: number;
   maxTools?: number;
   toolsDir?: string;
+  /** False with --no-cache */
+  cache?: boolean;
+  refresh?: boolean;
+  /** JSON file with an execution plan (replaces the intent) */
+  plan?: string;
 }
 
 /**
@@ -27,14 +45,45 @@ interface ExecuteOptions {
  * # Specify language
  * code-assistant-claude mcp-execute "fetch GitHub data" --language python
  *
+ * # List the languages this machine can run
+ * code-assistant-claude mcp-execute --language
+ *
  * # Custom tools directory
  * code-assistant-claude mcp-execute "transform data" --tools-dir ./my-mcp-tools
+ *
+ * # Re-run and replace the cached result
+ * code-assistant-claude mcp-execute "fetch GitHub data" --refresh
+ *
+ * # Run a multi-step plan in one sandbox execution
+ * code-assistant-claude mcp-execute --plan ./triage-plan.json
  * ```
  */
 export async function mcpExecuteCommand(
-  intent: string,
+  intentArg: string | undefined,
   options: ExecuteOptions
 ): Promise<void> {
+  if (options.language === true) {
+    await printLanguages();
+    return;
+  }
+
+  let plan: ExecutionPlan | undefined;
+  let language: SandboxLanguage;
+  try {
+    language = await resolveLanguage(options.language ?? 'typescript');
+    plan = options.plan ? await loadPlan(options.plan) : undefined;
+    if (!plan && !intentArg) {
+      throw new Error('Provide an intent or --plan <file>');
+    }
+  } catch (error) {
+    console.error(
+      chalk.red('\n❌ Execution failed:'),
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    process.exit(1);
+  }
+  const intent = plan?.intent ?? intentArg ?? '';
+
   // Enable debug mode if DEBUG env var or --debug flag is set
   const debugEnabled =
     process.env.DEBUG === 'true' || process.env.DEBUG === '1';
@@ -44,73 +93,42 @@ export async function mcpExecuteCommand(
 
   console.log(chalk.blue.bold('\n🔧 MCP Code Execution\n'));
   console.log(chalk.gray(`Intent: ${intent}\n`));
+  if (plan) {
+    console.log(chalk.gray(`Plan: ${plan.steps.length} steps\n`));
+  }
 
   if (debugEnabled) {
     debug.info('Debug mode enabled', {
       intent,
-      language: options.language || 'typescript',
+      language,
       timeout: options.timeout || 30000,
       maxTools: options.maxTools || 5,
     });
   }
 
   const spinner = ora('Initializing execution engine...').start();
+  let mcpServers: MCPClientPool | undefined;
+  let orchestrator: ExecutionOrchestrator | undefined;
+  let failed = false;
 
   try {
-    // Determine tools directory
-    // Default: use bundled templates from installed package
-    let toolsDir = options.toolsDir;
-
-    if (!toolsDir) {
-      // Try to find templates in package installation
-      const { promises: fs } = await import('fs');
-
-      const possiblePaths = [
-        // From dist/cli in source repository
-        path.join(__dirname, '../../../templates/mcp-tools'),
-        // From dist/cli in npm package root
-        path.join(__dirname, '../../templates/mcp-tools'),
-        // Local development (cwd = repo root)
-        path.join(process.cwd(), 'templates/mcp-tools'),
-        // npm install in local project
-        path.join(
-          process.cwd(),
-          'node_modules/code-assistant-claude/templates/mcp-tools'
-        ),
-        // npm install -g (find package root from __dirname)
-        path.join(
-          __dirname,
-          '../../../lib/node_modules/code-assistant-claude/templates/mcp-tools'
-        ),
-      ];
-
-      for (const tryPath of possiblePaths) {
-        try {
-          await fs.access(tryPath);
-          toolsDir = tryPath;
-          break;
-        } catch {
-          // Try next path
-        }
-      }
+    const toolsDir = await resolveToolsDirectory(options.toolsDir);
 
-      if (!toolsDir) {
-        console.error(
-          chalk.yellow('\nCould not auto-discover MCP tools directory.')
-        );
-        console.error(chalk.gray('Tried paths:'));
-        possiblePaths.forEach((p) => console.error(chalk.gray(`  • ${p}`)));
-        console.error(
-          chalk.yellow('\nPlease specify with --tools-dir flag.\n')
-        );
-        throw new Error(
-          'MCP tools directory not found. Use --tools-dir to specify manually.'
-        );
-      }
-    }
+    // Generated clients call the servers configured in .claude/.mcp.json
+    mcpServers = await MCPClientPool.fromConfig();
 
     // Create main execution orchestrator (5-phase workflow)
-    const orchestrator = new ExecutionOrchestrator(toolsDir);
+    // Progress is rendered here from its events instead of console banners
+    orchestrator = new ExecutionOrchestrator(toolsDir, {
+      console: false,
+      cache:
+        options.cache === false
+          ? 'off'
+          : options.refresh
+            ? 'refresh'
+            : 'read-write',
+      mcpServers,
+    });
 
     // Initialize (index tools, start cleanup)
     await orchestrator.initialize();
@@ -120,16 +138,32 @@ export async function mcpExecuteCommand(
     // Execute with 5-phase workflow:
     // 1. Discovery, 2. Code Gen, 3. Security, 4. Sandbox, 5. Result Processing
     spinner.start('Executing with security validation...');
-    const result = await orchestrator.execute(
-      intent,
-      options.language || 'typescript'
-    );
+    let result: ExecutionResult | undefined;
+    const stream = plan
+      ? orchestrator.executePlanStream(plan, language)
+      : orchestrator.executeStream(intent, language);
+    for await (const event of stream) {
+      if (event.type === 'result') {
+        result = event.result;
+      } else {
+        renderEvent(event, spinner);
+      }
+    }
+
+    if (!result) {
+      throw new Error('Execution ended without a result');
+    }
 
     if (result.success) {
-      spinner.succeed('Execution completed successfully');
+      spinner.succeed(
+        result.cached
+          ? 'Execution result served from cache'
+          : 'Execution completed successfully'
+      );
 
       console.log(chalk.green('\n✅ Result:\n'));
       console.log(chalk.gray(result.summary));
+      printSteps(result);
 
       // Display metrics
       console.log(chalk.cyan('\n📊 Metrics:'));
@@ -159,14 +193,6 @@ export async function mcpExecuteCommand(
           `\n💡 Token Reduction: ${reduction}% vs traditional MCP\n`
         )
       );
-
-      // Cleanup
-      await orchestrator.shutdown();
-
-      // Debug: Show session summary
-      if (debugEnabled) {
-        debug.disable();
-      }
     } else {
       spinner.fail('Execution failed');
 
@@ -177,16 +203,8 @@ export async function mcpExecuteCommand(
         console.log(chalk.yellow('\nDetails:'));
         console.log(chalk.gray(result.summary));
       }
-
-      // Cleanup on error too
-      await orchestrator.shutdown();
-
-      // Debug: Show session summary even on error
-      if (debugEnabled) {
-        debug.disable();
-      }
-
-      process.exit(1);
+      printSteps(result);
+      failed = true;
     }
   } catch (error) {
     spinner.fail('Failed to execute');
@@ -195,32 +213,218 @@ export async function mcpExecuteCommand(
       chalk.red('\n❌ Execution failed:'),
       error instanceof Error ? error.message : 'Unknown error'
     );
+    failed = true;
+  } finally {
+    // Cleanup on error too; stopping the pool ends the server processes
+    await orchestrator?.shutdown();
+    await mcpServers?.disconnectAll();
 
-    // Debug: Show session summary on exception
+    // Debug: Show session summary
     if (debugEnabled) {
       debug.disable();
     }
+  }
 
+  if (failed) {
     process.exit(1);
   }
 }
 
+/**
+ * Find the MCP tools directory: the given one, else the bundled templates
+ *
+ * @throws {Error} If no tools directory is found
+ */
+export async function resolveToolsDirectory(
+  toolsDir?: string
+): Promise<string> {
+  if (toolsDir) {
+    return toolsDir;
+  }
+
+  // Try to find templates in package installation
+  const { promises: fs } = await import('fs');
+
+  const possiblePaths = [
+    // From dist/cli in source repository
+    path.join(__dirname, '../../../templates/mcp-tools'),
+    // From dist/cli in npm package root
+    path.join(__dirname, '../../templates/mcp-tools'),
+    // Local development (cwd = repo root)
+    path.join(process.cwd(), 'templates/mcp-tools'),
+    // npm install in local project
+    path.join(
+      process.cwd(),
+      'node_modules/code-assistant-claude/templates/mcp-tools'
+    ),
+    // npm install -g (find package root from __dirname)
+    path.join(
+      __dirname,
+      '../../../lib/node_modules/code-assistant-claude/templates/mcp-tools'
+    ),
+  ];
+
+  for (const tryPath of possiblePaths) {
+    try {
+      await fs.access(tryPath);
+      return tryPath;
+    } catch {
+      // Try next path
+    }
+  }
+
+  console.error(chalk.yellow('\nCould not auto-discover MCP tools directory.'));
+  console.error(chalk.gray('Tried paths:'));
+  possiblePaths.forEach((p) => console.error(chalk.gray(`  • ${p}`)));
+  console.error(chalk.yellow('\nPlease specify with --tools-dir flag.\n'));
+  throw new Error(
+    'MCP tools directory not found. Use --tools-dir to specify manually.'
+  );
+}
+
+/**
+ * Check that a language is known and can run on this machine
+ */
+async function resolveLanguage(name: string): Promise<SandboxLanguage> {
+  const known = Object.keys(LANGUAGE_RUNTIMES);
+  if (!known.includes(name)) {
+    throw new Error(
+      `Unknown language '${name}'. Choose one of: ${known.join(', ')}`
+    );
+  }
+
+  const support = (await detectLanguages()).find(
+    (candidate) => candidate.language === name
+  );
+  if (support && !support.available) {
+    throw new Error(
+      `${name} is not available on this machine (missing: ${support.missing.join(', ')})`
+    );
+  }
+  return name as SandboxLanguage;
+}
+
+/**
+ * Print each language and whether this machine can run it
+ */
+async function printLanguages(): Promise<void> {
+  console.log(chalk.blue.bold('\n🔧 MCP Code Execution languages\n'));
+  for (const support of await detectLanguages()) {
+    const mark = support.available ? chalk.green('✓') : chalk.red('✗');
+    const missing = support.available
+      ? ''
+      : chalk.yellow(` (missing: ${support.missing.join(', ')})`);
+    console.log(
+      `  ${mark} ${support.language.padEnd(12)}${chalk.gray(support.description)}${missing}`
+    );
+  }
+  console.log();
+}
+
+/**
+ * Read and validate an execution plan file
+ */
+async function loadPlan(file: string): Promise<ExecutionPlan> {
+  const { promises: fs } = await import('fs');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Cannot read plan ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return parseExecutionPlan(data);
+}
+
+/**
+ * Print the status of each plan step
+ */
+function printSteps(result: ExecutionResult): void {
+  if (!result.steps) return;
+
+  const icons = {
+    succeeded: chalk.green('✓'),
+    failed: chalk.red('✗'),
+    skipped: chalk.gray('-'),
+  };
+  console.log(chalk.cyan('\n🧩 Steps:'));
+  for (const step of result.steps) {
+    const detail = step.error ? chalk.gray(` (${step.error})`) : '';
+    console.log(
+      `  ${icons[step.status]} ${step.id}${step.tool ? chalk.gray(` ${step.tool}`) : ''}${detail}`
+    );
+  }
+}
+
+/**
+ * Render a live execution event around the spinner
+ */
+function renderEvent(event: ExecutionEvent, spinner: Ora): void {
+  const print = (line: string) => {
+    const spinning = spinner.isSpinning;
+    spinner.clear();
+    process.stdout.write(line);
+    if (spinning) spinner.render();
+  };
+
+  switch (event.type) {
+    case 'phase:start': {
+      const { step, title } = PHASES[event.phase];
+      spinner.start(`Phase ${step}/5 ${title}: ${event.message}`);
+      break;
+    }
+    case 'phase:end':
+      if (event.message) {
+        spinner.succeed(
+          `${event.message} ${chalk.gray(`(${event.durationMs}ms)`)}`
+        );
+      } else {
+        spinner.stop();
+      }
+      break;
+    case 'stdout':
+      print(chalk.gray(event.data));
+      break;
+    case 'stderr':
+      print(chalk.red(event.data));
+      break;
+    case 'tool:call':
+      print(chalk.cyan(`  → ${event.tool}\n`));
+      break;
+    case 'tool:result':
+      if (!event.success) {
+        print(chalk.red(`  ✗ ${event.tool} failed\n`));
+      }
+      break;
+    case 'log':
+      print(
+        `${event.level === 'warning' ? chalk.yellow(event.message) : chalk.gray(event.message)}\n`
+      );
+      break;
+  }
+}
+
 /**
  * Register mcp-execute command with Commander
  */
 export function registerMcpExecuteCommand(program: Command): void {
   program
-    .command('mcp-execute <intent>')
+    .command('mcp-execute [intent]')
     .description(
       'Execute MCP tools using code generation (98.7% token reduction)'
     )
     .option(
-      '-l, --language <lang>',
-      'Target language (typescript|python)',
+      '-l, --language [lang]',
+      'Target language (typescript|javascript|deno|python|bash); without a value, list the languages available here',
       'typescript'
     )
     .option('-t, --timeout <ms>', 'Execution timeout in milliseconds', '30000')
     .option('-m, --max-tools <number>', 'Maximum tools to discover', '5')
     .option('-d, --tools-dir <path>', 'Custom MCP tools directory')
+    .option('--no-cache', 'Neither read nor store cached results')
+    .option('--refresh', 'Ignore cached results and store the new one')
+    .option('--plan <file>', 'Run a multi-step execution plan (JSON)')
     .action(mcpExecuteCommand);
 }
@@ -0,0 +1,144 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { MCPClientPool } from '../../core/execution-engine/mcp-code-api/mcp-client';
+import {
+  loadMCPServers,
+  MCPServerConfig,
+} from '../../core/execution-engine/mcp-code-api/server-config';
+import { MCPServerHealth } from '../../core/execution-engine/mcp-code-api/supervisor';
+
+interface StatusOptions {
+  json?: boolean;
+  /** Server config (default: .claude/.mcp.json) */
+  config?: string;
+}
+
+interface ServerStatus extends MCPServerHealth {
+  transport: string;
+}
+
+const STATE_COLORS: Record<string, typeof chalk.green> = {
+  healthy: chalk.green,
+  degraded: chalk.yellow,
+  restarting: chalk.yellow,
+  connecting: chalk.gray,
+  stopped: chalk.gray,
+  failed: chalk.red,
+};
+
+/**
+ * Connect to every configured MCP server and report its health
+ *
+ * @example
+ * ```bash
+ * code-assistant-claude mcp:status
+ * code-assistant-claude mcp:status --json
+ * ```
+ */
+export async function mcpStatusCommand(options: StatusOptions): Promise<void> {
+  let servers: Record<string, MCPServerConfig>;
+  try {
+    servers = await loadMCPServers(options.config);
+  } catch (error) {
+    console.error(
+      chalk.red('Failed to read MCP server config:'),
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    process.exit(1);
+  }
+
+  // A one-off check: no background pings and no restarts
+  const pool = new MCPClientPool({ restart: false, pingInterval: 0 });
+  const failures = new Map<string, string>();
+  // The pool's progress lines would end up in the table and the JSON
+  const log = console.log;
+  console.log = () => {};
+  try {
+    for (const [name, server] of Object.entries(servers)) {
+      try {
+        await pool.addServer(name, server);
+      } catch (error) {
+        failures.set(
+          name,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+    await pool.pingAll();
+  } finally {
+    console.log = log;
+  }
+
+  const health = new Map(pool.getHealth().map((h) => [h.name, h]));
+  const statuses: ServerStatus[] = Object.entries(servers).map(
+    ([name, server]) => ({
+      ...(health.get(name) ?? {
+        name,
+        state: 'failed',
+        tools: 0,
+        restarts: 0,
+        calls: 0,
+        errors: 1,
+        lastError: failures.get(name),
+      }),
+      transport: server.type ?? 'stdio',
+    })
+  );
+  await pool.disconnectAll();
+
+  if (options.json) {
+    console.log(JSON.stringify(statuses, null, 2));
+  } else if (statuses.length === 0) {
+    console.log(chalk.yellow('No MCP servers configured'));
+    console.log(chalk.gray('  Add one with: code-assistant-claude mcp:add'));
+  } else {
+    printStatuses(statuses);
+  }
+
+  if (statuses.some((status) => status.state !== 'healthy')) {
+    process.exitCode = 1;
+  }
+}
+
+function printStatuses(statuses: ServerStatus[]): void {
+  const rows = statuses.map((status) => [
+    status.name,
+    status.transport,
+    status.state,
+    String(status.tools),
+    status.latencyMs !== undefined ? `${status.latencyMs}ms` : '-',
+    String(status.errors),
+  ]);
+  const header = ['SERVER', 'TRANSPORT', 'STATE', 'TOOLS', 'LATENCY', 'ERRORS'];
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map((row) => row[i]?.length ?? 0))
+  );
+  const pad = (cells: string[]) =>
+    cells
+      .map((cell, i) => cell.padEnd(widths[i] ?? 0))
+      .join('  ')
+      .trimEnd();
+
+  console.log(chalk.bold(pad(header)));
+  rows.forEach((row, i) => {
+    const status = statuses[i];
+    const line = pad(row);
+    const color = (status && STATE_COLORS[status.state]) ?? chalk.white;
+    console.log(color(line));
+    if (status?.lastError && status.state !== 'healthy') {
+      console.log(chalk.gray(`  ${status.lastError}`));
+    }
+  });
+}
+
+/**
+ * Register mcp:status with Commander
+ */
+export function registerMcpStatusCommand(program: Command): void {
+  program
+    .command('mcp:status')
+    .description('Show health, latency and errors of configured MCP servers')
+    .option('--json', 'Output as JSON')
+    .option('--config <path>', 'Server config (default: .claude/.mcp.json)')
+    .action(mcpStatusCommand);
+}
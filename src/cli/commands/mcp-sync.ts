@@ -0,0 +1,213 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import path from 'path';
+import { RealMCPClient } from '../../core/execution-engine/mcp-code-api/mcp-client';
+import { SchemaParser } from '../../core/execution-engine/mcp-code-api/schema-parser';
+import {
+  diffToolSchemas,
+  nextSchemaVersion,
+  readToolSchemaFile,
+  ToolChangeKind,
+  ToolSchemaDiff,
+  toolSchemaPath,
+  writeToolSchemaFile,
+} from '../../core/execution-engine/mcp-code-api/schema-sync';
+import {
+  createTransport,
+  loadMCPServers,
+  MCPServerConfig,
+} from '../../core/execution-engine/mcp-code-api/server-config';
+import type { MCPToolSchema } from '../../core/execution-engine/types';
+
+interface SyncOptions {
+  /** Only sync this server */
+  server?: string;
+  /** Server config (default: .claude/.mcp.json) */
+  config?: string;
+  /** Tools directory (default: templates/mcp-tools) */
+  toolsDir?: string;
+  category?: string;
+  dryRun?: boolean;
+  /** Overwrite breaking changes without asking */
+  yes?: boolean;
+}
+
+/**
+ * Pull the tools of configured MCP servers into `templates/mcp-tools`
+ *
+ * Prints what changed since the last sync before overwriting a schema
+ * file. Breaking changes are only written after confirmation, or with
+ * `--yes`.
+ *
+ * @example
+ * ```bash
+ * code-assistant-claude mcp:sync
+ * code-assistant-claude mcp:sync --server github --dry-run
+ * ```
+ */
+export async function mcpSyncCommand(options: SyncOptions): Promise<void> {
+  try {
+    const servers = await loadMCPServers(options.config);
+    if (options.server && !servers[options.server]) {
+      throw new Error(`Unknown MCP server: ${options.server}`);
+    }
+    const names = options.server ? [options.server] : Object.keys(servers);
+    if (names.length === 0) {
+      console.log(chalk.yellow('No MCP servers configured'));
+      console.log(chalk.gray('  Add one with: code-assistant-claude mcp:add'));
+      return;
+    }
+
+    const toolsDirectory = path.resolve(
+      options.toolsDir ?? path.join('templates', 'mcp-tools')
+    );
+    for (const name of names) {
+      const server = servers[name];
+      if (server) {
+        await syncServer(name, server, toolsDirectory, options);
+      }
+    }
+  } catch (error) {
+    console.error(
+      chalk.red('Failed to sync MCP tools:'),
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    process.exit(1);
+  }
+}
+
+async function syncServer(
+  name: string,
+  server: MCPServerConfig,
+  toolsDirectory: string,
+  options: SyncOptions
+): Promise<void> {
+  let tools: MCPToolSchema[];
+  try {
+    tools = await fetchTools(server);
+  } catch (error) {
+    console.error(
+      chalk.red(`✗ ${name}:`),
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const filePath = toolSchemaPath(toolsDirectory, name, options.category);
+  const existing = await readToolSchemaFile(filePath);
+  const diff = diffToolSchemas(existing?.tools ?? [], tools);
+  const version = nextSchemaVersion(existing?.version, diff);
+  const relative = path.relative(process.cwd(), filePath);
+
+  if (existing && diff.changes.length === 0) {
+    console.log(
+      chalk.green(`✓ ${name}`),
+      chalk.gray(`${relative} is up to date (v${existing.version})`)
+    );
+    return;
+  }
+
+  console.log(
+    chalk.bold(`\n${name}`),
+    chalk.gray(
+      existing
+        ? `v${existing.version} → v${version}`
+        : `new, ${tools.length} tools`
+    )
+  );
+  printDiff(diff);
+
+  if (options.dryRun) return;
+  if (diff.breaking && !options.yes && !(await confirmBreaking(name))) {
+    console.log(chalk.yellow(`  Skipped ${relative}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  await writeToolSchemaFile(filePath, {
+    version,
+    server: name,
+    generatedAt: new Date().toISOString(),
+    tools,
+  });
+  console.log(chalk.green(`  ✓ Wrote ${relative}`));
+}
+
+async function fetchTools(server: MCPServerConfig): Promise<MCPToolSchema[]> {
+  const client = new RealMCPClient(createTransport(server));
+  await client.connect();
+
+  try {
+    const parser = new SchemaParser();
+    return client.getToolSchemas().map((tool) => parser.parseFromMCPTool(tool));
+  } finally {
+    await client.disconnect();
+  }
+}
+
+const CHANGE_MARKERS: Partial<Record<ToolChangeKind, string>> = {
+  'tool-added': '+',
+  'tool-removed': '-',
+};
+
+function printDiff(diff: ToolSchemaDiff): void {
+  for (const change of diff.changes) {
+    const marker = CHANGE_MARKERS[change.kind] ?? '~';
+    const where = change.kind.startsWith('tool-') ? '' : `${change.tool}: `;
+    const line = `  ${marker} ${where}${change.detail}`;
+    if (change.breaking) {
+      console.log(chalk.red(`${line} [breaking]`));
+    } else {
+      console.log(change.kind === 'tool-added' ? chalk.green(line) : line);
+    }
+  }
+}
+
+/**
+ * Ask before overwriting breaking changes; never in non-interactive runs
+ */
+async function confirmBreaking(name: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    console.log(
+      chalk.yellow(`  ${name} has breaking changes; re-run with --yes`)
+    );
+    return false;
+  }
+
+  const { overwrite } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'overwrite',
+      message: `${name} has breaking changes. Overwrite its schema file?`,
+      default: false,
+    },
+  ]);
+  return overwrite;
+}
+
+/**
+ * Register mcp:sync with Commander
+ */
+export function registerMcpSyncCommand(program: Command): void {
+  program
+    .command('mcp:sync')
+    .description(
+      'Pull tool schemas from configured MCP servers into templates/mcp-tools'
+    )
+    .option('--server <name>', 'Only sync this server')
+    .option('--config <path>', 'Server config (default: .claude/.mcp.json)')
+    .option(
+      '--tools-dir <path>',
+      'Tools directory (default: templates/mcp-tools)'
+    )
+    .option(
+      '--category <name>',
+      'Category directory for the schemas',
+      'servers'
+    )
+    .option('--dry-run', 'Only print the changes')
+    .option('-y, --yes', 'Overwrite breaking changes without asking')
+    .action(mcpSyncCommand);
+}
@@ -5,6 +5,11 @@ import { configCommand } from './commands/config';
 import { resetCommand } from './commands/reset';
 import { mcpAddCommand } from './commands/mcp-add';
 import { registerMcpExecuteCommand } from './commands/mcp-execute';
+import { registerMcpStatusCommand } from './commands/mcp-status';
+import { registerMcpSyncCommand } from './commands/mcp-sync';
+import { registerApprovalCommands } from './commands/approval';
+import { registerAuditCommands } from './commands/audit';
+import { registerDiscoveryCommands } from './commands/discovery';
 import { Logger } from '../core/utils/logger';
 
 const program = new Command();
@@ -92,6 +97,21 @@ program
 // MCP Execute command - Execute MCP tools via code generation
 registerMcpExecuteCommand(program);
 
+// MCP Status command - Health of the configured MCP servers
+registerMcpStatusCommand(program);
+
+// MCP Sync command - Tool schemas from live MCP servers
+registerMcpSyncCommand(program);
+
+// Approval commands - Review and resume high-risk executions
+registerApprovalCommands(program);
+
+// Audit commands - Compliance evidence from the audit trail
+registerAuditCommands(program);
+
+// Discovery commands - How tools are ranked for an intent
+registerDiscoveryCommands(program);
+
 // Global error handler
 program.exitOverride((err) => {
   if (err.code === 'commander.help') {
@@ -0,0 +1,237 @@
+import dgram from 'dgram';
+import { promises as fs } from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { URL } from 'url';
+
+export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * Ordered from least to most severe
+ */
+export const ALERT_SEVERITIES: AlertSeverity[] = [
+  'low',
+  'medium',
+  'high',
+  'critical',
+];
+
+/**
+ * A security event worth telling someone about
+ */
+export interface SecurityAlert {
+  source: 'audit' | 'anomaly';
+  severity: AlertSeverity;
+  title: string;
+  timestamp: Date;
+  details?: Record<string, unknown>;
+  /** Alerts with the same fingerprint are deduplicated (default: source and title) */
+  fingerprint?: string;
+}
+
+/**
+ * Destination for security alerts
+ */
+export interface AlertSink {
+  readonly name: string;
+  send(alert: SecurityAlert): Promise<void>;
+  close?(): Promise<void>;
+}
+
+/**
+ * JSON body shared by the webhook and file sinks
+ */
+function toPayload(alert: SecurityAlert): Record<string, unknown> {
+  return {
+    source: alert.source,
+    severity: alert.severity,
+    title: alert.title,
+    timestamp: alert.timestamp.toISOString(),
+    hostname: os.hostname(),
+    details: alert.details ?? {},
+  };
+}
+
+export interface WebhookSinkOptions {
+  url: string;
+  headers?: Record<string, string>;
+  /** Request timeout in ms (default: 5000) */
+  timeout?: number;
+}
+
+/**
+ * POSTs each alert as JSON to a webhook
+ */
+export class WebhookSink implements AlertSink {
+  readonly name: string;
+  private options: WebhookSinkOptions;
+
+  constructor(options: WebhookSinkOptions) {
+    this.options = options;
+    this.name = `webhook(${new URL(options.url).host})`;
+  }
+
+  async send(alert: SecurityAlert): Promise<void> {
+    const response = await globalThis.fetch(this.options.url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...this.options.headers,
+      },
+      body: JSON.stringify(toPayload(alert)),
+      signal: globalThis.AbortSignal.timeout(this.options.timeout ?? 5000),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Webhook responded ${response.status} ${response.statusText}`
+      );
+    }
+  }
+}
+
+export interface SyslogSinkOptions {
+  host?: string;
+  port?: number;
+  protocol?: 'udp' | 'tcp';
+  /** Syslog facility code (default: 13, log audit) */
+  facility?: number;
+  appName?: string;
+  /** TCP connect and write timeout in ms (default: 5000) */
+  timeout?: number;
+}
+
+/**
+ * Syslog severity codes (RFC 5424 section 6.2.1)
+ */
+const SYSLOG_SEVERITIES: Record<AlertSeverity, number> = {
+  critical: 2,
+  high: 3,
+  medium: 4,
+  low: 5,
+};
+
+/**
+ * Private enterprise number reserved for documentation (RFC 5612)
+ */
+const SD_ID = 'alert@32473';
+
+/**
+ * Sends RFC 5424 messages to a syslog collector
+ * TCP uses octet-counting framing (RFC 6587) and one connection per alert.
+ */
+export class SyslogSink implements AlertSink {
+  readonly name: string;
+  private host: string;
+  private port: number;
+  private protocol: 'udp' | 'tcp';
+  private facility: number;
+  private appName: string;
+  private timeout: number;
+  private socket: dgram.Socket | null = null;
+
+  constructor(options: SyslogSinkOptions = {}) {
+    this.host = options.host ?? '127.0.0.1';
+    this.port = options.port ?? 514;
+    this.protocol = options.protocol ?? 'udp';
+    this.facility = options.facility ?? 13;
+    this.appName = options.appName ?? 'code-assistant-claude';
+    this.timeout = options.timeout ?? 5000;
+    this.name = `syslog(${this.protocol}://${this.host}:${this.port})`;
+  }
+
+  /**
+   * Render an alert as an RFC 5424 message
+   */
+  format(alert: SecurityAlert): string {
+    const pri = this.facility * 8 + SYSLOG_SEVERITIES[alert.severity];
+    const field = (value: string, max: number) =>
+      value.replace(/[^\x21-\x7e]/g, '').slice(0, max) || '-';
+    const param = (value: string) => value.replace(/(["\\\]])/g, '\\$1');
+
+    const header = [
+      `<${pri}>1`,
+      alert.timestamp.toISOString(),
+      field(os.hostname(), 255),
+      field(this.appName, 48),
+      String(process.pid),
+      alert.source.toUpperCase(),
+    ].join(' ');
+    const data = `[${SD_ID} severity="${alert.severity}" title="${param(alert.title)}"]`;
+    const message = alert.details
+      ? `${alert.title} ${JSON.stringify(alert.details)}`
+      : alert.title;
+
+    return `${header} ${data} ${message}`;
+  }
+
+  async send(alert: SecurityAlert): Promise<void> {
+    const message = Buffer.from(this.format(alert), 'utf-8');
+    if (this.protocol === 'tcp') {
+      await this.sendTCP(
+        Buffer.concat([Buffer.from(`${message.length} `), message])
+      );
+    } else {
+      await this.sendUDP(message);
+    }
+  }
+
+  private sendUDP(message: Buffer): Promise<void> {
+    if (!this.socket) {
+      this.socket = dgram.createSocket(net.isIPv6(this.host) ? 'udp6' : 'udp4');
+      this.socket.unref();
+    }
+    const socket = this.socket;
+
+    return new Promise((resolve, reject) => {
+      socket.send(message, this.port, this.host, (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+  }
+
+  private sendTCP(frame: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      socket.setTimeout(this.timeout, () =>
+        socket.destroy(new Error('Syslog connection timed out'))
+      );
+      socket.once('error', reject);
+      socket.once('connect', () => socket.end(frame));
+      socket.once('close', (hadError) => {
+        if (!hadError) resolve();
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      await new Promise<void>((resolve) => socket.close(() => resolve()));
+    }
+  }
+}
+
+/**
+ * Appends each alert as a JSON line to a local file
+ */
+export class FileSink implements AlertSink {
+  readonly name: string;
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.name = `file(${filePath})`;
+  }
+
+  async send(alert: SecurityAlert): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      JSON.stringify(toPayload(alert)) + '\n',
+      'utf-8'
+    );
+  }
+}
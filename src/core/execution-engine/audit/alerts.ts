@@ -0,0 +1,315 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { AuditLogEntry } from '../types';
+import {
+  ALERT_SEVERITIES,
+  AlertSeverity,
+  AlertSink,
+  FileSink,
+  SecurityAlert,
+  SyslogSink,
+  WebhookSink,
+} from './alert-sinks';
+
+/**
+ * Settings files read from `.claude/`; the local file wins
+ */
+export const ALERT_SETTINGS_FILES = ['settings.json', 'settings.local.json'];
+
+const SeveritySchema = z.enum(['low', 'medium', 'high', 'critical']);
+
+const SinkSchema = z.discriminatedUnion('type', [
+  z
+    .object({
+      type: z.literal('webhook'),
+      url: z.string().url(),
+      headers: z.record(z.string()).default({}),
+      timeout: z.number().int().positive().default(5000),
+      minSeverity: SeveritySchema.default('high'),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('syslog'),
+      host: z.string().default('127.0.0.1'),
+      port: z.number().int().min(1).max(65535).default(514),
+      protocol: z.enum(['udp', 'tcp']).default('udp'),
+      facility: z.number().int().min(0).max(23).default(13),
+      appName: z.string().min(1).max(48).default('code-assistant-claude'),
+      minSeverity: SeveritySchema.default('high'),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('file'),
+      path: z.string().default('logs/security-alerts.log'),
+      minSeverity: SeveritySchema.default('high'),
+    })
+    .strict(),
+]);
+
+/**
+ * `alerts` section of `.claude/settings.json`
+ */
+const AlertSettingsSchema = z
+  .object({
+    /** Identical alerts within this window are sent once */
+    dedupWindowSeconds: z.number().nonnegative().default(300),
+    /** Per-sink limit */
+    rateLimit: z
+      .object({
+        maxAlerts: z.number().int().positive().default(20),
+        perSeconds: z.number().positive().default(60),
+      })
+      .strict()
+      .default({}),
+    sinks: z.array(SinkSchema).default([]),
+  })
+  .strict();
+
+export type AlertSettings = z.infer<typeof AlertSettingsSchema>;
+export type AlertSinkSettings = z.infer<typeof SinkSchema>;
+
+/**
+ * Validate a parsed `alerts` section
+ *
+ * @throws {Error} Listing every invalid field
+ */
+export function parseAlertSettings(
+  data: unknown,
+  source = 'settings'
+): AlertSettings {
+  const result = AlertSettingsSchema.safeParse(data ?? {});
+
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((issue) => `alerts.${issue.path.join('.')}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid alert settings in ${source}: ${problems}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load the `alerts` section from `.claude/settings.json`, overridden by
+ * `.claude/settings.local.json` (for webhook secrets)
+ *
+ * @returns null when no settings file configures alerts
+ * @throws {Error} If a settings file cannot be parsed or is invalid
+ */
+export async function loadAlertSettings(
+  configDir: string = path.join(process.cwd(), '.claude')
+): Promise<AlertSettings | null> {
+  let settings: AlertSettings | null = null;
+
+  for (const fileName of ALERT_SETTINGS_FILES) {
+    const filePath = path.join(configDir, fileName);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    let data: { alerts?: unknown };
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Cannot parse settings ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (data.alerts !== undefined) {
+      settings = parseAlertSettings(data.alerts, filePath);
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Create the sink described by its settings
+ *
+ * @param baseDir - Directory relative file paths resolve against
+ */
+export function createAlertSink(
+  settings: AlertSinkSettings,
+  baseDir: string = process.cwd()
+): AlertSink {
+  switch (settings.type) {
+    case 'webhook':
+      return new WebhookSink(settings);
+    case 'syslog':
+      return new SyslogSink(settings);
+    case 'file':
+      return new FileSink(path.resolve(baseDir, settings.path));
+  }
+}
+
+/**
+ * A sink and the lowest severity routed to it
+ */
+export interface AlertRoute {
+  sink: AlertSink;
+  minSeverity: AlertSeverity;
+}
+
+export interface AlertManagerOptions {
+  /** Identical alerts within this window (ms) are sent once (default: 5 minutes) */
+  dedupWindow?: number;
+  /** At most this many alerts per sink per window (default: 20 per minute) */
+  rateLimit?: { maxAlerts: number; window: number };
+}
+
+/**
+ * Audit severities as alert severities
+ */
+const AUDIT_SEVERITIES: Record<AuditLogEntry['severity'], AlertSeverity> = {
+  info: 'low',
+  warning: 'medium',
+  error: 'high',
+  critical: 'critical',
+};
+
+/**
+ * Routes security alerts to sinks by severity
+ *
+ * Delivery runs in the background so a slow collector never delays an
+ * execution; `flush()` waits for it. Failed deliveries are counted and
+ * reported on the console, never thrown.
+ */
+export class AlertManager {
+  private routes: AlertRoute[];
+  private dedupWindow: number;
+  private rateLimit: { maxAlerts: number; window: number };
+  private lastSent: Map<string, number> = new Map();
+  private sentAt: Map<AlertSink, number[]> = new Map();
+  private pending: Set<Promise<void>> = new Set();
+  private stats = { sent: 0, suppressed: 0, rateLimited: 0, failed: 0 };
+
+  constructor(routes: AlertRoute[], options: AlertManagerOptions = {}) {
+    this.routes = routes;
+    this.dedupWindow = options.dedupWindow ?? 5 * 60 * 1000;
+    this.rateLimit = options.rateLimit ?? { maxAlerts: 20, window: 60 * 1000 };
+  }
+
+  /**
+   * Build a manager from the `alerts` settings section
+   */
+  static fromSettings(
+    settings: AlertSettings,
+    baseDir: string = process.cwd()
+  ): AlertManager {
+    return new AlertManager(
+      settings.sinks.map((sink) => ({
+        sink: createAlertSink(sink, baseDir),
+        minSeverity: sink.minSeverity,
+      })),
+      {
+        dedupWindow: settings.dedupWindowSeconds * 1000,
+        rateLimit: {
+          maxAlerts: settings.rateLimit.maxAlerts,
+          window: settings.rateLimit.perSeconds * 1000,
+        },
+      }
+    );
+  }
+
+  /**
+   * Send an alert to every sink that accepts its severity
+   */
+  notify(alert: SecurityAlert): void {
+    const routes = this.routes.filter(
+      (route) =>
+        ALERT_SEVERITIES.indexOf(alert.severity) >=
+        ALERT_SEVERITIES.indexOf(route.minSeverity)
+    );
+    if (routes.length === 0) return;
+
+    const now = Date.now();
+    const fingerprint = alert.fingerprint ?? `${alert.source}:${alert.title}`;
+    const last = this.lastSent.get(fingerprint);
+    if (last !== undefined && now - last < this.dedupWindow) {
+      this.stats.suppressed++;
+      return;
+    }
+    this.lastSent.set(fingerprint, now);
+
+    for (const { sink } of routes) {
+      const recent = (this.sentAt.get(sink) ?? []).filter(
+        (time) => now - time < this.rateLimit.window
+      );
+      if (recent.length >= this.rateLimit.maxAlerts) {
+        this.stats.rateLimited++;
+        continue;
+      }
+      this.sentAt.set(sink, [...recent, now]);
+
+      const delivery = this.deliver(sink, alert);
+      this.pending.add(delivery);
+      void delivery.finally(() => this.pending.delete(delivery));
+    }
+  }
+
+  /**
+   * Alert on a security audit entry
+   */
+  notifyAudit(entry: AuditLogEntry): void {
+    if (entry.type !== 'security') return;
+
+    this.notify({
+      source: 'audit',
+      severity: AUDIT_SEVERITIES[entry.severity],
+      title: entry.message,
+      timestamp: entry.timestamp,
+      details: { ...entry.metadata, policy: entry.policy },
+    });
+  }
+
+  private async deliver(sink: AlertSink, alert: SecurityAlert): Promise<void> {
+    try {
+      await sink.send(alert);
+      this.stats.sent++;
+    } catch (error) {
+      this.stats.failed++;
+      console.warn(
+        `⚠️  Alert sink ${sink.name} failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Wait for alerts still being delivered
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  /**
+   * Deliver pending alerts and close the sinks
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    await Promise.all(this.routes.map((route) => route.sink.close?.()));
+  }
+
+  /**
+   * Get statistics
+   */
+  getStats(): {
+    sinks: string[];
+    sent: number;
+    suppressed: number;
+    rateLimited: number;
+    failed: number;
+  } {
+    return {
+      sinks: this.routes.map((route) => route.sink.name),
+      ...this.stats,
+    };
+  }
+}
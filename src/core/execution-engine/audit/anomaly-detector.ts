@@ -1,88 +1,312 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
 import { AnomalyDetection, Anomaly, AuditLogEntry } from '../types';
+import type { SecurityPolicy } from '../security/security-policy';
+
+export type AnomalySensitivity = 'low' | 'medium' | 'high';
+
+/**
+ * Modified z-score above which a value is a spike, per sensitivity
+ */
+export const SENSITIVITY_THRESHOLDS: Record<AnomalySensitivity, number> = {
+  low: 5,
+  medium: 3.5,
+  high: 2.5,
+};
+
+export interface AnomalyDetectorOptions {
+  /** Baselines file; null keeps them in memory (default: .claude/anomaly-baselines.json) */
+  file?: string | null;
+  sensitivity?: AnomalySensitivity;
+  /** Spike threshold; overrides sensitivity */
+  zThreshold?: number;
+  /** Samples a baseline needs before it is used (default: 5) */
+  minSamples?: number;
+  /** Samples kept per baseline and metric (default: 100) */
+  windowSize?: number;
+}
+
+/**
+ * What is known about the execution besides its metrics
+ */
+export interface AnomalyContext {
+  /** MCP tools the code calls */
+  tools?: string[];
+  /** User request the code was generated for */
+  intent?: string;
+  /** Size of the serialized output in bytes */
+  outputSize?: number;
+  /** Hosts the code tried to reach */
+  networkHosts?: string[];
+}
+
+type Metric = 'executionTime' | 'memoryUsed' | 'outputSize';
+
+const METRIC_LABELS: Record<Metric, { name: string; unit: string }> = {
+  executionTime: { name: 'Execution time', unit: 'ms' },
+  memoryUsed: { name: 'Memory usage', unit: 'MB' },
+  outputSize: { name: 'Output size', unit: ' bytes' },
+};
+
+/**
+ * Rolling samples for one tool, one intent or all executions
+ */
+interface Baseline {
+  samples: Record<Metric, number[]>;
+  hosts: string[];
+  updatedAt: string;
+}
+
+interface BaselinesFile {
+  version: 1;
+  baselines: Record<string, Baseline>;
+}
+
+const GLOBAL_SCOPE = 'global';
+
+/**
+ * Smallest spread relative to the median, so a perfectly stable
+ * baseline does not turn every small deviation into a spike
+ */
+const MIN_RELATIVE_SPREAD = 0.05;
 
 /**
  * Detects anomalies in execution patterns
+ *
+ * Time, memory and output size are compared to per-tool and per-intent
+ * baselines with a modified z-score (median and median absolute
+ * deviation), which a few outliers cannot skew. Baselines are persisted,
+ * so detection works right after a restart.
  */
 export class AnomalyDetector {
-  private executionHistory: ExecutionMetrics[] = [];
-  private maxHistorySize: number = 1000;
+  private baselines: Map<string, Baseline> = new Map();
+  private file: string | null;
+  private zThreshold: number;
+  private minSamples: number;
+  private windowSize: number;
+  private dirty = false;
+
+  constructor(options: AnomalyDetectorOptions = {}) {
+    this.file =
+      options.file === undefined
+        ? path.join(process.cwd(), '.claude', 'anomaly-baselines.json')
+        : options.file;
+    this.zThreshold =
+      options.zThreshold ??
+      SENSITIVITY_THRESHOLDS[options.sensitivity ?? 'medium'];
+    this.minSamples = options.minSamples ?? 5;
+    this.windowSize = options.windowSize ?? 100;
+  }
+
+  /**
+   * Apply the `anomaly` section of a security policy
+   */
+  setPolicy(policy: SecurityPolicy): void {
+    this.zThreshold = SENSITIVITY_THRESHOLDS[policy.anomaly.sensitivity];
+    this.minSamples = policy.anomaly.minSamples;
+  }
+
+  /**
+   * Load persisted baselines
+   */
+  async load(): Promise<void> {
+    if (!this.file) return;
+
+    let data: BaselinesFile;
+    try {
+      data = JSON.parse(await fs.readFile(this.file, 'utf-8')) as BaselinesFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw new Error(
+        `Failed to load anomaly baselines from ${this.file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    this.baselines = new Map(Object.entries(data.baselines ?? {}));
+    this.dirty = false;
+  }
+
+  /**
+   * Persist baselines changed since the last load or save
+   */
+  async save(): Promise<void> {
+    if (!this.file || !this.dirty) return;
+
+    const data: BaselinesFile = {
+      version: 1,
+      baselines: Object.fromEntries(this.baselines),
+    };
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const tmpPath = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+    await fs.rename(tmpPath, this.file);
+    this.dirty = false;
+  }
 
   /**
    * Analyze execution for anomalies
+   *
+   * @param memoryUsed - Memory in MB
+   * @param context - Tools, intent, output size and hosts of the execution
    */
   analyze(
     executionTime: number,
     memoryUsed: number,
-    logs: AuditLogEntry[]
+    logs: AuditLogEntry[],
+    context: AnomalyContext = {}
   ): AnomalyDetection {
-    const anomalies: Anomaly[] = [];
+    const scopes = this.scopesFor(context);
+    const values: Partial<Record<Metric, number>> = {
+      executionTime,
+      memoryUsed,
+      outputSize: context.outputSize,
+    };
 
-    // Check for resource spikes
-    anomalies.push(...this.detectResourceSpikes(executionTime, memoryUsed));
+    const anomalies: Anomaly[] = [];
 
-    // Check for suspicious patterns
-    anomalies.push(...this.detectSuspiciousPatterns(logs));
+    // Check for spikes against the baselines
+    for (const metric of Object.keys(METRIC_LABELS) as Metric[]) {
+      const value = values[metric];
+      if (value === undefined) continue;
+      const spike = this.detectSpike(metric, value, scopes);
+      if (spike) anomalies.push(spike);
+    }
 
-    // Check for repeated failures
-    anomalies.push(...this.detectRepeatedFailures(logs));
+    // Check for hosts never seen for these tools
+    anomalies.push(...this.detectNewHosts(context.networkHosts ?? [], scopes));
 
     // Check for unusual timing
     anomalies.push(...this.detectUnusualTiming(executionTime));
 
-    // Record metrics
-    this.recordExecution(executionTime, memoryUsed);
+    // Check recent audit entries
+    anomalies.push(...this.inspectLogs(logs).anomalies);
 
-    // Calculate risk level
-    const riskLevel = this.calculateRiskLevel(anomalies);
+    // Record metrics
+    this.recordExecution(values, context.networkHosts ?? [], scopes);
 
-    return {
-      detected: anomalies.length > 0,
-      anomalies,
-      riskLevel,
-    };
+    return this.toDetection(anomalies);
   }
 
   /**
-   * Detect resource usage spikes
+   * Check recent audit entries only (for runs without metrics)
    */
-  private detectResourceSpikes(
-    executionTime: number,
-    memoryUsed: number
-  ): Anomaly[] {
-    const anomalies: Anomaly[] = [];
+  inspectLogs(logs: AuditLogEntry[]): AnomalyDetection {
+    return this.toDetection([
+      ...this.detectSuspiciousPatterns(logs),
+      ...this.detectRepeatedFailures(logs),
+      ...this.detectApprovalBypass(logs),
+    ]);
+  }
 
-    if (this.executionHistory.length < 10) {
-      return anomalies; // Not enough data
+  /**
+   * Baseline keys for an execution, most specific first
+   */
+  private scopesFor(context: AnomalyContext): string[] {
+    const scopes = Array.from(new Set(context.tools ?? [])).map(
+      (tool) => `tool:${tool}`
+    );
+    if (context.intent) {
+      scopes.push(`intent:${AnomalyDetector.hashIntent(context.intent)}`);
     }
+    scopes.push(GLOBAL_SCOPE);
+    return scopes;
+  }
 
-    // Calculate averages
-    const avgTime =
-      this.executionHistory.reduce((sum, m) => sum + m.executionTime, 0) /
-      this.executionHistory.length;
-    const avgMemory =
-      this.executionHistory.reduce((sum, m) => sum + m.memoryUsed, 0) /
-      this.executionHistory.length;
+  /**
+   * Stable key for equivalent phrasings of the same request
+   */
+  private static hashIntent(intent: string): string {
+    const normalized = intent
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/[.!?]+$/, '');
+    return crypto
+      .createHash('sha256')
+      .update(normalized)
+      .digest('hex')
+      .slice(0, 16);
+  }
 
-    // Check for spikes (3x average)
-    if (executionTime > avgTime * 3) {
-      anomalies.push({
-        type: 'resource_spike',
-        description: `Execution time (${executionTime}ms) is 3x higher than average (${avgTime.toFixed(0)}ms)`,
-        severity: 'high',
-        timestamp: new Date(),
-      });
+  /**
+   * Compare a value with the baselines that have enough samples
+   * Reports the largest deviation.
+   */
+  private detectSpike(
+    metric: Metric,
+    value: number,
+    scopes: string[]
+  ): Anomaly | null {
+    let worst: { scope: string; z: number; median: number } | null = null;
+    for (const [scope, baseline] of this.readyBaselines(scopes, metric)) {
+      const samples = baseline.samples[metric];
+      const median = AnomalyDetector.median(samples);
+      const mad = AnomalyDetector.median(
+        samples.map((sample) => Math.abs(sample - median))
+      );
+      const spread = Math.max(mad, Math.abs(median) * MIN_RELATIVE_SPREAD, 1);
+      const z = (0.6745 * (value - median)) / spread;
+
+      if (z > this.zThreshold && (!worst || z > worst.z)) {
+        worst = { scope, z, median };
+      }
     }
 
-    if (memoryUsed > avgMemory * 3) {
-      anomalies.push({
-        type: 'resource_spike',
-        description: `Memory usage (${memoryUsed}MB) is 3x higher than average (${avgMemory.toFixed(0)}MB)`,
-        severity: 'high',
-        timestamp: new Date(),
-      });
-    }
+    if (!worst) return null;
 
-    return anomalies;
+    const { name, unit } = METRIC_LABELS[metric];
+    return {
+      type: metric === 'outputSize' ? 'output_spike' : 'resource_spike',
+      description: `${name} (${AnomalyDetector.round(value)}${unit}) is far above the median (${AnomalyDetector.round(worst.median)}${unit}) for ${AnomalyDetector.describeScope(worst.scope)} (z=${worst.z.toFixed(1)})`,
+      severity: worst.z > this.zThreshold * 2 ? 'high' : 'medium',
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Baselines with enough samples to compare against
+   * The global baseline is only a fallback, so a spike on one tool is not
+   * averaged away by other tools.
+   */
+  private readyBaselines(
+    scopes: string[],
+    metric: Metric
+  ): Array<[string, Baseline]> {
+    const ready = scopes
+      .map((scope): [string, Baseline | undefined] => [
+        scope,
+        this.baselines.get(scope),
+      ])
+      .filter(
+        (entry): entry is [string, Baseline] =>
+          (entry[1]?.samples[metric].length ?? 0) >= this.minSamples
+      );
+
+    const specific = ready.filter(([scope]) => scope !== GLOBAL_SCOPE);
+    return specific.length > 0 ? specific : ready;
+  }
+
+  /**
+   * Detect hosts that established baselines have never seen
+   */
+  private detectNewHosts(hosts: string[], scopes: string[]): Anomaly[] {
+    const established = this.readyBaselines(scopes, 'executionTime');
+    if (established.length === 0) return [];
+
+    const known = new Set(
+      established.flatMap(([, baseline]) => baseline.hosts)
+    );
+
+    return Array.from(new Set(hosts))
+      .filter((host) => !known.has(host))
+      .map((host) => ({
+        type: 'new_network_host' as const,
+        description: `First connection attempt to ${host}`,
+        severity: 'medium' as const,
+        timestamp: new Date(),
+      }));
   }
 
   /**
@@ -145,6 +369,30 @@ export class AnomalyDetector {
     return anomalies;
   }
 
+  /**
+   * Detect attempts to resume requests that are not approved, were already
+   * executed or whose code changed
+   */
+  private detectApprovalBypass(logs: AuditLogEntry[]): Anomaly[] {
+    const attempts = logs.filter(
+      (log) =>
+        log.type === 'error' && log.metadata?.context === 'resumeApproved'
+    );
+    if (attempts.length === 0) return [];
+
+    const requests = Array.from(
+      new Set(attempts.map((log) => String(log.metadata?.approvalRequestId)))
+    );
+    return [
+      {
+        type: 'approval_bypass',
+        description: `${attempts.length} rejected attempt(s) to run code without a valid approval (${requests.join(', ')})`,
+        severity: attempts.length > 1 ? 'critical' : 'high',
+        timestamp: new Date(),
+      },
+    ];
+  }
+
   /**
    * Detect unusual timing patterns
    */
@@ -175,19 +423,41 @@ export class AnomalyDetector {
   }
 
   /**
-   * Record execution metrics
+   * Add the execution to every baseline it belongs to
    */
-  private recordExecution(executionTime: number, memoryUsed: number): void {
-    this.executionHistory.push({
-      executionTime,
-      memoryUsed,
-      timestamp: new Date(),
-    });
-
-    // Trim history if needed
-    if (this.executionHistory.length > this.maxHistorySize) {
-      this.executionHistory = this.executionHistory.slice(-this.maxHistorySize);
+  private recordExecution(
+    values: Partial<Record<Metric, number>>,
+    hosts: string[],
+    scopes: string[]
+  ): void {
+    for (const scope of scopes) {
+      const baseline = this.baselines.get(scope) ?? {
+        samples: { executionTime: [], memoryUsed: [], outputSize: [] },
+        hosts: [],
+        updatedAt: '',
+      };
+
+      for (const metric of Object.keys(METRIC_LABELS) as Metric[]) {
+        const value = values[metric];
+        if (value === undefined) continue;
+        baseline.samples[metric] = [...baseline.samples[metric], value].slice(
+          -this.windowSize
+        );
+      }
+      baseline.hosts = Array.from(new Set([...baseline.hosts, ...hosts]));
+      baseline.updatedAt = new Date().toISOString();
+
+      this.baselines.set(scope, baseline);
     }
+    this.dirty = true;
+  }
+
+  private toDetection(anomalies: Anomaly[]): AnomalyDetection {
+    return {
+      detected: anomalies.length > 0,
+      anomalies,
+      riskLevel: this.calculateRiskLevel(anomalies),
+    };
   }
 
   /**
@@ -209,11 +479,31 @@ export class AnomalyDetector {
     return 'low';
   }
 
+  private static median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+      ? (sorted[middle] ?? 0)
+      : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+  }
+
+  private static round(value: number): string {
+    return Number.isInteger(value) ? String(value) : value.toFixed(1);
+  }
+
+  private static describeScope(scope: string): string {
+    if (scope === GLOBAL_SCOPE) return 'all executions';
+    if (scope.startsWith('tool:')) return `tool ${scope.slice(5)}`;
+    return 'this request';
+  }
+
   /**
    * Clear history
    */
   clearHistory(): void {
-    this.executionHistory = [];
+    this.baselines.clear();
+    this.dirty = true;
   }
 
   /**
@@ -223,32 +513,21 @@ export class AnomalyDetector {
     historySize: number;
     avgExecutionTime: number;
     avgMemoryUsed: number;
+    baselines: number;
+    zThreshold: number;
   } {
-    const avgExecutionTime =
-      this.executionHistory.length > 0
-        ? this.executionHistory.reduce((sum, m) => sum + m.executionTime, 0) /
-          this.executionHistory.length
-        : 0;
-
-    const avgMemoryUsed =
-      this.executionHistory.length > 0
-        ? this.executionHistory.reduce((sum, m) => sum + m.memoryUsed, 0) /
-          this.executionHistory.length
+    const global = this.baselines.get(GLOBAL_SCOPE)?.samples;
+    const average = (values: number[] = []) =>
+      values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
         : 0;
 
     return {
-      historySize: this.executionHistory.length,
-      avgExecutionTime,
-      avgMemoryUsed,
+      historySize: global?.executionTime.length ?? 0,
+      avgExecutionTime: average(global?.executionTime),
+      avgMemoryUsed: average(global?.memoryUsed),
+      baselines: this.baselines.size,
+      zThreshold: this.zThreshold,
     };
   }
 }
-
-/**
- * Execution metrics for anomaly detection
- */
-interface ExecutionMetrics {
-  executionTime: number;
-  memoryUsed: number;
-  timestamp: Date;
-}
@@ -1,26 +1,78 @@
 import { ComplianceReport, AuditLogEntry } from '../types';
-import { AuditLogger } from './logger';
+import { AuditLogger, AuditVerification } from './logger';
+import {
+  COMPLIANCE_CONTROLS,
+  ComplianceControl,
+  ComplianceFramework,
+  ControlEvaluation,
+} from './controls';
+import { PIITokenizer } from '../security/pii-tokenizer';
+
+/**
+ * Audit entry quoted as evidence, with PII tokenized
+ */
+export interface EvidenceSample {
+  timestamp: string;
+  seq?: number;
+  type: AuditLogEntry['type'];
+  severity: AuditLogEntry['severity'];
+  message: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Evidence for one control
+ */
+export interface ControlEvidence extends ControlEvaluation {
+  id: string;
+  framework: ComplianceFramework;
+  title: string;
+  description: string;
+  eventCount: number;
+  samples: EvidenceSample[];
+}
+
+/**
+ * Per-control evidence for auditors, exportable as Markdown, JSON or HTML
+ */
+export interface EvidencePack extends ComplianceReport {
+  controls: ControlEvidence[];
+  auditChain: AuditVerification;
+}
+
+export interface EvidencePackOptions {
+  /** Sample entries quoted per control (default: 5) */
+  samplesPerControl?: number;
+  frameworks?: ComplianceFramework[];
+}
 
 /**
  * Compliance manager for GDPR, SOC2, HIPAA
  */
 export class ComplianceManager {
   private auditLogger: AuditLogger;
+  private tokenizer: PIITokenizer;
+  private controls: ComplianceControl[];
 
-  constructor(auditLogger: AuditLogger) {
+  constructor(
+    auditLogger: AuditLogger,
+    controls: ComplianceControl[] = COMPLIANCE_CONTROLS
+  ) {
     this.auditLogger = auditLogger;
+    this.tokenizer = new PIITokenizer();
+    this.controls = controls;
   }
 
   /**
    * Generate compliance report
+   * Reads the persisted audit trail (including rotated archives), so the
+   * period may reach back before the current process started.
    */
-  generateReport(startDate: Date, endDate: Date): ComplianceReport {
-    const logs = this.auditLogger.getRecentLogs();
-
-    // Filter logs within date range
-    const periodLogs = logs.filter(
-      (log) => log.timestamp >= startDate && log.timestamp <= endDate
-    );
+  async generateReport(
+    startDate: Date,
+    endDate: Date
+  ): Promise<ComplianceReport> {
+    const periodLogs = await this.queryPeriod(startDate, endDate);
 
     // Calculate metrics
     const metrics = this.calculateMetrics(periodLogs);
@@ -39,6 +91,107 @@ export class ComplianceManager {
     };
   }
 
+  /**
+   * Generate per-control evidence for a period
+   * Each control lists the audit events that evidence it, sample entries
+   * with PII tokenized, and the reasons it fails. The framework booleans
+   * in `compliance` are true when none of the framework's controls fail.
+   */
+  async generateEvidencePack(
+    startDate: Date,
+    endDate: Date,
+    options: EvidencePackOptions = {}
+  ): Promise<EvidencePack> {
+    const logs = await this.queryPeriod(startDate, endDate);
+    const metrics = this.calculateMetrics(logs);
+    const auditChain = await this.auditLogger.verify();
+    const samplesPerControl = options.samplesPerControl ?? 5;
+
+    const controls = this.controls
+      .filter(
+        (control) =>
+          !options.frameworks || options.frameworks.includes(control.framework)
+      )
+      .map((control): ControlEvidence => {
+        const evidence = logs.filter(control.matches);
+        const evaluation = control.evaluate({
+          evidence,
+          logs,
+          metrics,
+          auditChain,
+        });
+
+        return {
+          id: control.id,
+          framework: control.framework,
+          title: control.title,
+          description: control.description,
+          ...evaluation,
+          eventCount: evidence.length,
+          samples: evidence
+            .slice(-samplesPerControl)
+            .map((entry) => this.toSample(entry)),
+        };
+      });
+
+    const frameworkPasses = (framework: ComplianceFramework) =>
+      controls
+        .filter((control) => control.framework === framework)
+        .every((control) => control.status !== 'fail');
+
+    return {
+      generatedAt: new Date(),
+      period: {
+        start: startDate,
+        end: endDate,
+      },
+      metrics,
+      compliance: {
+        gdpr: frameworkPasses('gdpr'),
+        soc2: frameworkPasses('soc2'),
+        hipaa: frameworkPasses('hipaa'),
+      },
+      controls,
+      auditChain,
+    };
+  }
+
+  /**
+   * Persisted audit entries within a period
+   */
+  private async queryPeriod(
+    startDate: Date,
+    endDate: Date
+  ): Promise<AuditLogEntry[]> {
+    const logs: AuditLogEntry[] = [];
+    for await (const log of this.auditLogger.query({
+      since: startDate,
+      until: endDate,
+    })) {
+      logs.push(log);
+    }
+    return logs;
+  }
+
+  /**
+   * Quote an audit entry with PII tokenized
+   */
+  private toSample(entry: AuditLogEntry): EvidenceSample {
+    const { value } = this.tokenizer.tokenizeValue({
+      message: entry.message,
+      metadata: entry.metadata,
+    });
+
+    return {
+      timestamp: entry.timestamp.toISOString(),
+      seq: entry.seq,
+      type: entry.type,
+      severity: entry.severity,
+      message: value.message,
+      ...(value.metadata && { metadata: value.metadata }),
+    };
+  }
+
   /**
    * Calculate compliance metrics
    */
@@ -0,0 +1,272 @@
+import { AuditLogEntry, ComplianceReport } from '../types';
+import { AuditVerification } from './logger';
+
+export type ComplianceFramework = 'soc2' | 'gdpr' | 'hipaa';
+
+/**
+ * Facts a control is evaluated against
+ */
+export interface ControlContext {
+  /** Audit entries of the period that evidence this control */
+  evidence: AuditLogEntry[];
+  /** All audit entries of the period */
+  logs: AuditLogEntry[];
+  metrics: ComplianceReport['metrics'];
+  auditChain: AuditVerification;
+}
+
+export interface ControlEvaluation {
+  status: 'pass' | 'fail' | 'no_evidence';
+  reasons: string[];
+}
+
+/**
+ * Mapping from a compliance control to the audit events that evidence it
+ */
+export interface ComplianceControl {
+  id: string;
+  framework: ComplianceFramework;
+  title: string;
+  description: string;
+  /** Whether an audit entry is evidence for this control */
+  matches: (entry: AuditLogEntry) => boolean;
+  evaluate: (context: ControlContext) => ControlEvaluation;
+}
+
+const isValidation = (entry: AuditLogEntry) =>
+  entry.type === 'security' &&
+  (entry.message.startsWith('Code validation completed') ||
+    entry.message === 'Security policy loaded');
+
+const isIncident = (entry: AuditLogEntry) =>
+  entry.type === 'security' &&
+  (entry.severity === 'error' || entry.severity === 'critical');
+
+const isApproval = (entry: AuditLogEntry) =>
+  entry.type === 'security' &&
+  (entry.message === 'Execution held for approval' ||
+    entry.message === 'Resuming approved execution');
+
+const isNetworkBlock = (entry: AuditLogEntry) =>
+  entry.metadata?.issueType === 'network_blocked';
+
+const isPIIEvent = (entry: AuditLogEntry) =>
+  entry.metadata?.piiTokenized === true || entry.message.includes('PII');
+
+/**
+ * Pass when at least one evidence entry exists
+ */
+const requireEvidence =
+  (missing: string) =>
+  ({ evidence }: ControlContext): ControlEvaluation =>
+    evidence.length > 0
+      ? { status: 'pass', reasons: [] }
+      : { status: 'no_evidence', reasons: [missing] };
+
+/**
+ * Fail when the audit chain does not verify
+ */
+const requireIntactChain = (
+  { auditChain }: ControlContext,
+  reasons: string[]
+): void => {
+  if (!auditChain.valid) {
+    const problems = Array.from(
+      new Set(auditChain.issues.map((issue) => issue.problem))
+    );
+    reasons.push(
+      `Audit chain verification found ${auditChain.issues.length} issue(s): ${problems.join(', ')}`
+    );
+  }
+};
+
+const failIf = (reasons: string[]): ControlEvaluation => ({
+  status: reasons.length > 0 ? 'fail' : 'pass',
+  reasons,
+});
+
+/**
+ * Controls evidenced by the execution engine's audit trail
+ */
+export const COMPLIANCE_CONTROLS: ComplianceControl[] = [
+  {
+    id: 'SOC2 CC6.1',
+    framework: 'soc2',
+    title: 'Logical access security',
+    description:
+      'Generated code is validated against the security policy before it runs',
+    matches: isValidation,
+    evaluate: (context) => {
+      if (context.metrics.totalExecutions === 0) {
+        return requireEvidence('No security validation recorded')(context);
+      }
+      return failIf(
+        context.evidence.some((entry) =>
+          entry.message.startsWith('Code validation completed')
+        )
+          ? []
+          : ['Executions ran without a recorded security validation']
+      );
+    },
+  },
+  {
+    id: 'SOC2 CC6.8',
+    framework: 'soc2',
+    title: 'Prevention of unauthorized or malicious software',
+    description:
+      'Code runs in a sandbox; blocked network access and sandbox escapes are recorded',
+    matches: (entry) =>
+      isNetworkBlock(entry) ||
+      (entry.type === 'security' && entry.severity === 'critical'),
+    evaluate: ({ metrics }) =>
+      failIf(
+        metrics.sandboxEscapes > 0
+          ? [`${metrics.sandboxEscapes} sandbox escape(s) recorded`]
+          : []
+      ),
+  },
+  {
+    id: 'SOC2 CC7.2',
+    framework: 'soc2',
+    title: 'System monitoring',
+    description:
+      'Executions are monitored for anomalies and the audit trail is tamper-evident',
+    matches: (entry) =>
+      entry.message.startsWith('Anomalies detected') ||
+      entry.type === 'execution',
+    evaluate: (context) => {
+      const reasons: string[] = [];
+      requireIntactChain(context, reasons);
+      if (context.logs.length === 0) {
+        reasons.push('No audit entries in the period');
+      }
+      return failIf(reasons);
+    },
+  },
+  {
+    id: 'SOC2 CC7.3',
+    framework: 'soc2',
+    title: 'Evaluation of security events',
+    description: 'Security incidents are recorded with their severity',
+    matches: isIncident,
+    evaluate: ({ evidence }) =>
+      failIf(
+        evidence.length > 0
+          ? [
+              `${evidence.length} security incident(s) of severity error or critical`,
+            ]
+          : []
+      ),
+  },
+  {
+    id: 'SOC2 CC8.1',
+    framework: 'soc2',
+    title: 'Change authorization',
+    description:
+      'High-risk code is held for approval and only resumed once approved',
+    matches: isApproval,
+    evaluate: ({ evidence }) =>
+      failIf(
+        evidence
+          .filter((entry) => entry.message === 'Resuming approved execution')
+          .filter((entry) => !entry.metadata?.approvedBy)
+          .map(
+            (entry) =>
+              `Approved execution ${String(entry.metadata?.approvalRequestId ?? '')} has no approver`
+          )
+      ),
+  },
+  {
+    id: 'GDPR Art. 25',
+    framework: 'gdpr',
+    title: 'Data protection by design',
+    description:
+      'PII in results is tokenized before it reaches the model or the logs',
+    matches: isPIIEvent,
+    evaluate: ({ evidence }) => {
+      const untokenized = evidence.filter(
+        (entry) =>
+          entry.metadata?.piiTokenized !== true &&
+          !entry.message.startsWith('PII tokenized') &&
+          !entry.message.startsWith('PII detokeniz')
+      );
+      return failIf(
+        untokenized.length > 0
+          ? [`${untokenized.length} PII event(s) without tokenization`]
+          : []
+      );
+    },
+  },
+  {
+    id: 'GDPR Art. 30',
+    framework: 'gdpr',
+    title: 'Records of processing activities',
+    description: 'Every execution is recorded in the audit trail',
+    matches: (entry) => entry.type === 'execution',
+    evaluate: (context) => {
+      const reasons: string[] = [];
+      requireIntactChain(context, reasons);
+      return reasons.length > 0
+        ? failIf(reasons)
+        : requireEvidence('No executions recorded in the period')(context);
+    },
+  },
+  {
+    id: 'GDPR Art. 32',
+    framework: 'gdpr',
+    title: 'Security of processing',
+    description:
+      'Processing is validated, sandboxed and free of security incidents',
+    matches: (entry) =>
+      isValidation(entry) || isIncident(entry) || isNetworkBlock(entry),
+    evaluate: ({ metrics }) =>
+      failIf(
+        metrics.securityIncidents > 0
+          ? [`${metrics.securityIncidents} security incident(s) recorded`]
+          : []
+      ),
+  },
+  {
+    id: 'HIPAA §164.312(a)(1)',
+    framework: 'hipaa',
+    title: 'Access control',
+    description:
+      'Protected values are only revealed to approved tool calls through the token vault',
+    matches: (entry) =>
+      entry.message.startsWith('PII detokenized') || isApproval(entry),
+    evaluate: ({ evidence }) =>
+      failIf(
+        evidence
+          .filter((entry) => entry.message.startsWith('PII detokenized'))
+          .filter((entry) => !entry.metadata?.toolName)
+          .map(() => 'PII was detokenized without a tool call grant')
+      ),
+  },
+  {
+    id: 'HIPAA §164.312(b)',
+    framework: 'hipaa',
+    title: 'Audit controls',
+    description: 'Activity is recorded in a hash-chained audit trail',
+    matches: () => true,
+    evaluate: (context) => {
+      const reasons: string[] = [];
+      requireIntactChain(context, reasons);
+      return reasons.length > 0
+        ? failIf(reasons)
+        : requireEvidence('No audit entries in the period')(context);
+    },
+  },
+  {
+    id: 'HIPAA §164.312(c)(1)',
+    framework: 'hipaa',
+    title: 'Integrity',
+    description:
+      'Audit entries cannot be altered without detection (hash chain, optional HMAC)',
+    matches: () => false,
+    evaluate: (context) => {
+      const reasons: string[] = [];
+      requireIntactChain(context, reasons);
+      return failIf(reasons);
+    },
+  },
+];
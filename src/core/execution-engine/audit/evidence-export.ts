@@ -0,0 +1,216 @@
+import { ControlEvidence, EvidencePack, EvidenceSample } from './compliance';
+
+export type EvidenceFormat = 'markdown' | 'json' | 'html';
+
+export const EVIDENCE_FORMATS: EvidenceFormat[] = ['markdown', 'json', 'html'];
+
+const FRAMEWORK_NAMES: Record<ControlEvidence['framework'], string> = {
+  soc2: 'SOC 2',
+  gdpr: 'GDPR',
+  hipaa: 'HIPAA',
+};
+
+const STATUS_LABELS: Record<ControlEvidence['status'], string> = {
+  pass: 'PASS',
+  fail: 'FAIL',
+  no_evidence: 'NO EVIDENCE',
+};
+
+/**
+ * Render an evidence pack for auditors
+ * HTML output is a single self-contained file (inline styles, no scripts).
+ */
+export function formatEvidencePack(
+  pack: EvidencePack,
+  format: EvidenceFormat
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(pack, null, 2) + '\n';
+    case 'markdown':
+      return toMarkdown(pack);
+    case 'html':
+      return toHTML(pack);
+    default:
+      throw new Error(
+        `Unknown evidence format: ${String(format)} (expected ${EVIDENCE_FORMATS.join(', ')})`
+      );
+  }
+}
+
+function describeChain(pack: EvidencePack): string {
+  const { auditChain } = pack;
+  return auditChain.valid
+    ? `Verified: ${auditChain.entries} chained entries, no issues (head ${auditChain.lastHash ?? 'none'})`
+    : `FAILED: ${auditChain.issues.length} issue(s) in ${auditChain.entries} chained entries`;
+}
+
+function describeSample(sample: EvidenceSample): string {
+  const metadata = sample.metadata ? ` ${JSON.stringify(sample.metadata)}` : '';
+  return `${sample.timestamp} [${sample.type}/${sample.severity}] ${sample.message}${metadata}`;
+}
+
+function toMarkdown(pack: EvidencePack): string {
+  const lines: string[] = [
+    '# Compliance Evidence Pack',
+    '',
+    `- Period: ${pack.period.start.toISOString()} to ${pack.period.end.toISOString()}`,
+    `- Generated: ${pack.generatedAt.toISOString()}`,
+    `- Audit chain: ${describeChain(pack)}`,
+    '',
+    '## Summary',
+    '',
+    '| Framework | Status |',
+    '| --- | --- |',
+    ...(Object.keys(FRAMEWORK_NAMES) as ControlEvidence['framework'][]).map(
+      (framework) =>
+        `| ${FRAMEWORK_NAMES[framework]} | ${pack.compliance[framework] ? 'PASS' : 'FAIL'} |`
+    ),
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    `| Executions | ${pack.metrics.totalExecutions} |`,
+    `| Security incidents | ${pack.metrics.securityIncidents} |`,
+    `| PII events | ${pack.metrics.piiDataProcessed} |`,
+    `| Sandbox escapes | ${pack.metrics.sandboxEscapes} |`,
+    '',
+    '## Controls',
+    '',
+    '| Control | Title | Status | Events |',
+    '| --- | --- | --- | --- |',
+    ...pack.controls.map(
+      (control) =>
+        `| ${control.id} | ${control.title} | ${STATUS_LABELS[control.status]} | ${control.eventCount} |`
+    ),
+  ];
+
+  for (const control of pack.controls) {
+    lines.push(
+      '',
+      `### ${control.id}: ${control.title}`,
+      '',
+      control.description,
+      '',
+      `**Status:** ${STATUS_LABELS[control.status]} (${control.eventCount} events)`
+    );
+    if (control.reasons.length > 0) {
+      lines.push('', ...control.reasons.map((reason) => `- ${reason}`));
+    }
+    if (control.samples.length > 0) {
+      lines.push('', '```', ...control.samples.map(describeSample), '```');
+    }
+  }
+
+  if (pack.auditChain.issues.length > 0) {
+    lines.push(
+      '',
+      '## Audit Chain Issues',
+      '',
+      '| File | Line | Seq | Problem |',
+      '| --- | --- | --- | --- |',
+      ...pack.auditChain.issues.map(
+        (issue) =>
+          `| ${issue.file} | ${issue.line} | ${issue.seq ?? ''} | ${issue.problem} |`
+      )
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toHTML(pack: EvidencePack): string {
+  const badge = (status: ControlEvidence['status'] | 'pass' | 'fail') =>
+    `<span class="badge ${status}">${STATUS_LABELS[status]}</span>`;
+
+  const controls = pack.controls
+    .map(
+      (control) => `
+    <section class="control">
+      <h3>${escapeHTML(control.id)}: ${escapeHTML(control.title)} ${badge(control.status)}</h3>
+      <p>${escapeHTML(control.description)}</p>
+      <p class="muted">${control.eventCount} evidencing event(s)</p>
+      ${
+        control.reasons.length > 0
+          ? `<ul>${control.reasons.map((reason) => `<li>${escapeHTML(reason)}</li>`).join('')}</ul>`
+          : ''
+      }
+      ${
+        control.samples.length > 0
+          ? `<pre>${control.samples.map((sample) => escapeHTML(describeSample(sample))).join('\n')}</pre>`
+          : ''
+      }
+    </section>`
+    )
+    .join('');
+
+  const issues =
+    pack.auditChain.issues.length > 0
+      ? `
+    <h2>Audit Chain Issues</h2>
+    <table>
+      <tr><th>File</th><th>Line</th><th>Seq</th><th>Problem</th></tr>
+      ${pack.auditChain.issues
+        .map(
+          (issue) =>
+            `<tr><td>${escapeHTML(issue.file)}</td><td>${issue.line}</td><td>${issue.seq ?? ''}</td><td>${issue.problem}</td></tr>`
+        )
+        .join('\n      ')}
+    </table>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Compliance Evidence Pack</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #1f2328; }
+    table { border-collapse: collapse; margin: 1rem 0; }
+    th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: left; }
+    pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; font-size: 0.85rem; }
+    .control { border-top: 1px solid #d0d7de; padding-top: 0.5rem; }
+    .muted { color: #656d76; }
+    .badge { font-size: 0.75rem; padding: 0.1rem 0.5rem; border-radius: 1rem; color: #fff; vertical-align: middle; }
+    .pass { background: #1a7f37; }
+    .fail { background: #cf222e; }
+    .no_evidence { background: #9a6700; }
+  </style>
+</head>
+<body>
+  <h1>Compliance Evidence Pack</h1>
+  <p>Period: ${pack.period.start.toISOString()} to ${pack.period.end.toISOString()}<br>
+  Generated: ${pack.generatedAt.toISOString()}<br>
+  Audit chain: ${escapeHTML(describeChain(pack))}</p>
+
+  <h2>Summary</h2>
+  <table>
+    <tr><th>Framework</th><th>Status</th></tr>
+    ${(Object.keys(FRAMEWORK_NAMES) as ControlEvidence['framework'][])
+      .map(
+        (framework) =>
+          `<tr><td>${FRAMEWORK_NAMES[framework]}</td><td>${badge(pack.compliance[framework] ? 'pass' : 'fail')}</td></tr>`
+      )
+      .join('\n    ')}
+  </table>
+  <table>
+    <tr><th>Executions</th><td>${pack.metrics.totalExecutions}</td></tr>
+    <tr><th>Security incidents</th><td>${pack.metrics.securityIncidents}</td></tr>
+    <tr><th>PII events</th><td>${pack.metrics.piiDataProcessed}</td></tr>
+    <tr><th>Sandbox escapes</th><td>${pack.metrics.sandboxEscapes}</td></tr>
+  </table>
+
+  <h2>Controls</h2>${controls}
+${issues}
+</body>
+</html>
+`;
+}
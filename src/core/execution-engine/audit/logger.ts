@@ -1,18 +1,163 @@
 import { AuditLogEntry, ExecutionResult } from '../types';
-import { promises as fs } from 'fs';
+import { canonicalize } from '../security/security-policy';
+import type { AlertManager } from './alerts';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { pipeline } from 'stream/promises';
+import readline from 'readline';
+import zlib from 'zlib';
+import crypto from 'crypto';
 import path from 'path';
 
+/**
+ * Previous hash of the first entry in a chain
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Environment variable holding the optional HMAC key for log entries
+ */
+const HMAC_KEY_ENV = 'MCP_AUDIT_HMAC_KEY';
+
+export interface AuditLoggerOptions {
+  /** Key for an HMAC over each entry hash (default: MCP_AUDIT_HMAC_KEY) */
+  hmacKey?: string;
+  /** Rotate once the active file would exceed this size (default: 10MB) */
+  maxFileSize?: number;
+  /** Rotate once the active file's first entry is this old (default: 24 hours) */
+  maxFileAge?: number;
+}
+
+/**
+ * Filter for querying persisted audit entries
+ */
+export interface AuditQuery {
+  type?: AuditLogEntry['type'] | Array<AuditLogEntry['type']>;
+  severity?: AuditLogEntry['severity'] | Array<AuditLogEntry['severity']>;
+  since?: Date;
+  until?: Date;
+  workspaceId?: string;
+  limit?: number;
+}
+
+export interface AuditVerificationIssue {
+  file: string;
+  line: number;
+  seq?: number;
+  problem:
+    | 'unparseable'
+    | 'unchained'
+    | 'hash_mismatch'
+    | 'chain_broken'
+    | 'gap'
+    | 'mac_missing'
+    | 'mac_mismatch';
+}
+
+/**
+ * Result of verifying the hash chain across archives and the active file
+ */
+export interface AuditVerification {
+  valid: boolean;
+  /** Chained entries checked */
+  entries: number;
+  /** Entries written before chaining was introduced (ahead of the chain) */
+  unchained: number;
+  /** Hash of the last entry; anchor it elsewhere to detect truncation */
+  lastHash: string | null;
+  issues: AuditVerificationIssue[];
+}
+
+/**
+ * Lock file taken while appending: how long to wait for it, and when a
+ * lock whose holder cannot be checked counts as abandoned
+ */
+const LOCK_RETRY_MS = 10;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+
+/**
+ * Bytes read at a time when looking for the last entry of the active file
+ */
+const TAIL_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Chain and rotation state of one log file, shared by every logger
+ * writing to it in this process so they extend a single chain
+ * `size` and `inode` are those of the active file after our last write;
+ * when the file no longer matches, another process wrote or rotated it.
+ */
+interface LogFileState {
+  loaded: boolean;
+  queue: Promise<void>;
+  seq: number;
+  hash: string;
+  size: number;
+  inode: number | null;
+  startedAt: number | null;
+}
+
+const fileStates: Map<string, LogFileState> = new Map();
+
 /**
  * Execution audit logger
  * Logs all execution activities for compliance and debugging
+ *
+ * Every entry carries a sequence number, the previous entry's hash and its
+ * own SHA-256 hash (plus an HMAC when a key is configured), so edits,
+ * deletions and reordering are detected by `verify()`. The active file is
+ * rotated by size and age into gzip archives next to it, and `query()`
+ * streams entries from the archives and the active file.
+ *
+ * Appends hold a lock file next to the log and re-read the chain head when
+ * another process wrote since, so several processes extend one chain.
  */
 export class AuditLogger {
   private logs: AuditLogEntry[] = [];
   private logFile: string;
   private maxLogsInMemory: number = 1000;
+  private policy?: AuditLogEntry['policy'];
+  private alerts: AlertManager | null = null;
+  private hmacKey?: string;
+  private maxFileSize: number;
+  private maxFileAge: number;
+  private state: LogFileState;
+
+  constructor(logFile?: string, options: AuditLoggerOptions = {}) {
+    this.logFile = path.resolve(
+      logFile || path.join(process.cwd(), 'logs/mcp-audit.log')
+    );
+    this.hmacKey = options.hmacKey ?? process.env[HMAC_KEY_ENV];
+    this.maxFileSize = options.maxFileSize ?? 10 * 1024 * 1024;
+    this.maxFileAge = options.maxFileAge ?? 24 * 60 * 60 * 1000;
 
-  constructor(logFile?: string) {
-    this.logFile = logFile || path.join(process.cwd(), 'logs/mcp-audit.log');
+    let state = fileStates.get(this.logFile);
+    if (!state) {
+      state = {
+        loaded: false,
+        queue: Promise.resolve(),
+        seq: -1,
+        hash: GENESIS_HASH,
+        size: 0,
+        inode: null,
+        startedAt: null,
+      };
+      fileStates.set(this.logFile, state);
+    }
+    this.state = state;
+  }
+
+  /**
+   * Tag subsequent entries with the security policy version in force
+   */
+  setPolicy(policy: AuditLogEntry['policy']): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Send security entries to alert sinks (routed by severity)
+   */
+  setAlertManager(alerts: AlertManager | null): void {
+    this.alerts = alerts;
   }
 
   /**
@@ -30,12 +175,17 @@ export class AuditLogger {
       severity,
       message,
       metadata,
+      policy: this.policy,
     };
 
     this.logs.push(entry);
 
-    // Write to file
-    await this.writeToFile(entry);
+    // Write to file (chained writes are serialized per file)
+    const write = this.state.queue.then(() => this.writeToFile(entry));
+    this.state.queue = write;
+    await write;
+
+    this.alerts?.notifyAudit(entry);
 
     // Trim in-memory logs if needed
     if (this.logs.length > this.maxLogsInMemory) {
@@ -129,24 +279,468 @@ export class AuditLogger {
   }
 
   /**
-   * Write log entry to file
+   * Stream persisted entries (archives first, then the active file)
+   *
+   * @example
+   * for await (const entry of logger.query({ severity: 'critical', since })) {
+   *   console.log(entry.message);
+   * }
+   */
+  async *query(
+    filter: AuditQuery = {}
+  ): AsyncGenerator<AuditLogEntry, void, undefined> {
+    await this.state.queue;
+
+    const types = filter.type && [filter.type].flat();
+    const severities = filter.severity && [filter.severity].flat();
+    let yielded = 0;
+
+    for (const file of await this.getLogFiles()) {
+      // Archives are named after their rotation time, so older ones can be skipped
+      const rotatedAt = this.parseArchiveTime(file);
+      if (filter.since && rotatedAt !== null && rotatedAt < +filter.since) {
+        continue;
+      }
+
+      for await (const { entry } of this.readEntries(file)) {
+        if (!entry) continue;
+        if (types && !types.includes(entry.type)) continue;
+        if (severities && !severities.includes(entry.severity)) continue;
+        if (filter.since && entry.timestamp < filter.since) continue;
+        if (filter.until && entry.timestamp > filter.until) continue;
+        if (
+          filter.workspaceId &&
+          entry.metadata?.workspaceId !== filter.workspaceId
+        ) {
+          continue;
+        }
+
+        yield entry;
+        if (filter.limit && ++yielded >= filter.limit) return;
+      }
+    }
+  }
+
+  /**
+   * Verify the hash chain across archives and the active file
+   * Detects edited, inserted, removed and reordered entries, and forged
+   * entries when an HMAC key is configured.
+   */
+  async verify(): Promise<AuditVerification> {
+    await this.state.queue;
+
+    const issues: AuditVerificationIssue[] = [];
+    let previous: { seq: number; hash: string } | null = null;
+    let entries = 0;
+    let unchained = 0;
+
+    for (const file of await this.getLogFiles()) {
+      for await (const { entry, line } of this.readEntries(file)) {
+        const fileName = path.basename(file);
+        if (!entry) {
+          issues.push({ file: fileName, line, problem: 'unparseable' });
+          continue;
+        }
+
+        const { seq, hash } = entry;
+        if (seq === undefined || !hash) {
+          // Entries from before chaining are only accepted ahead of the chain
+          if (previous) {
+            issues.push({ file: fileName, line, problem: 'unchained' });
+          } else {
+            unchained++;
+          }
+          continue;
+        }
+
+        const problems: AuditVerificationIssue['problem'][] = [];
+        if (this.hashEntry(entry) !== hash) {
+          problems.push('hash_mismatch');
+        }
+        if (entry.prevHash !== (previous?.hash ?? GENESIS_HASH)) {
+          problems.push('chain_broken');
+        }
+        if (seq !== (previous ? previous.seq + 1 : 0)) {
+          problems.push('gap');
+        }
+        if (this.hmacKey) {
+          if (!entry.mac) {
+            problems.push('mac_missing');
+          } else if (entry.mac !== this.macFor(hash)) {
+            problems.push('mac_mismatch');
+          }
+        }
+
+        for (const problem of problems) {
+          issues.push({ file: fileName, line, seq, problem });
+        }
+
+        previous = { seq, hash };
+        entries++;
+      }
+    }
+
+    return {
+      valid: issues.length === 0,
+      entries,
+      unchained,
+      lastHash: previous?.hash ?? null,
+      issues,
+    };
+  }
+
+  /**
+   * Chain, rotate if needed and append a log entry
    */
   private async writeToFile(entry: AuditLogEntry): Promise<void> {
     try {
       // Ensure log directory exists
-      const logDir = path.dirname(this.logFile);
-      await fs.mkdir(logDir, { recursive: true });
+      await fs.mkdir(path.dirname(this.logFile), { recursive: true });
 
-      // Format log entry
-      const logLine = JSON.stringify(entry) + '\n';
+      await this.withFileLock(async () => {
+        await this.syncState();
 
-      // Append to file
-      await fs.appendFile(this.logFile, logLine);
+        entry.seq = this.state.seq + 1;
+        entry.prevHash = this.state.hash;
+        entry.hash = this.hashEntry(entry);
+        if (this.hmacKey) {
+          entry.mac = this.macFor(entry.hash);
+        }
+
+        // Format log entry
+        const logLine = JSON.stringify(entry) + '\n';
+        const bytes = Buffer.byteLength(logLine);
+
+        if (this.shouldRotate(bytes)) {
+          await this.rotate();
+        }
+
+        // Append to file
+        await fs.appendFile(this.logFile, logLine);
+
+        const stat = await fs.stat(this.logFile);
+        this.state.seq = entry.seq;
+        this.state.hash = entry.hash;
+        this.state.size = stat.size;
+        this.state.inode = stat.ino;
+        this.state.startedAt ??= entry.timestamp.getTime();
+      });
     } catch (error) {
       console.error('Failed to write to audit log:', error);
     }
   }
 
+  /**
+   * Run `fn` holding the log's lock file
+   * The lock is created exclusively; one left behind by a process that
+   * died is taken over.
+   *
+   * @throws {Error} If the lock is not released within LOCK_TIMEOUT_MS
+   */
+  private async withFileLock(fn: () => Promise<void>): Promise<void> {
+    const lockFile = `${this.logFile}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        await fs.writeFile(lockFile, String(process.pid), { flag: 'wx' });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        if (await this.isStaleLock(lockFile)) {
+          await fs.rm(lockFile, { force: true });
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for audit log lock ${lockFile}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      await fn();
+    } finally {
+      await fs.rm(lockFile, { force: true });
+    }
+  }
+
+  /**
+   * Whether a lock file was left behind: its process is gone, or it is
+   * older than LOCK_STALE_MS and names no process
+   */
+  private async isStaleLock(lockFile: string): Promise<boolean> {
+    try {
+      const [content, stat] = await Promise.all([
+        fs.readFile(lockFile, 'utf-8'),
+        fs.stat(lockFile),
+      ]);
+      const pid = Number.parseInt(content, 10);
+      if (!(pid > 0)) {
+        return Date.now() - stat.mtimeMs > LOCK_STALE_MS;
+      }
+      try {
+        process.kill(pid, 0);
+        return false;
+      } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'ESRCH';
+      }
+    } catch {
+      // Released in the meantime
+      return false;
+    }
+  }
+
+  private shouldRotate(bytes: number): boolean {
+    if (this.state.size === 0) {
+      return false;
+    }
+
+    return (
+      this.state.size + bytes > this.maxFileSize ||
+      (this.state.startedAt !== null &&
+        Date.now() - this.state.startedAt > this.maxFileAge)
+    );
+  }
+
+  /**
+   * Move the active file into a gzip archive; the chain continues in the
+   * new active file
+   */
+  private async rotate(): Promise<void> {
+    const archive = path.join(
+      path.dirname(this.logFile),
+      `${this.archivePrefix()}${Date.now()}-${this.state.seq}.log.gz`
+    );
+    const pending = `${archive}.tmp`;
+
+    await fs.rename(this.logFile, pending);
+    await pipeline(
+      createReadStream(pending),
+      zlib.createGzip(),
+      createWriteStream(archive)
+    );
+    await fs.rm(pending, { force: true });
+
+    this.state.size = 0;
+    this.state.startedAt = null;
+  }
+
+  /**
+   * Pick up the chain head from the files on disk, the first time and
+   * whenever another process wrote or rotated the active file since our
+   * last write (called with the lock held)
+   */
+  private async syncState(): Promise<void> {
+    let stat: { size: number; ino: number } | null = null;
+    try {
+      stat = await fs.stat(this.logFile);
+    } catch {
+      // No active file (yet, or rotated away)
+    }
+    if (
+      this.state.loaded &&
+      (stat?.ino ?? null) === this.state.inode &&
+      (stat?.size ?? 0) === this.state.size
+    ) {
+      return;
+    }
+
+    Object.assign(this.state, {
+      loaded: true,
+      seq: -1,
+      hash: GENESIS_HASH,
+      size: stat?.size ?? 0,
+      inode: stat?.ino ?? null,
+      startedAt: null,
+    });
+
+    // Head of the chain: last entry of the active file, else the newest archive
+    if (stat && stat.size > 0) {
+      for await (const { entry } of this.readEntries(this.logFile)) {
+        if (!entry) continue;
+        this.state.startedAt = entry.timestamp.getTime();
+        break;
+      }
+      const last = await this.readLastEntry(this.logFile, stat.size);
+      if (last) {
+        this.setHead(last);
+        return;
+      }
+    }
+
+    const archives = (await this.getLogFiles()).filter(
+      (file) => file !== this.logFile
+    );
+    for (const file of archives.reverse()) {
+      let last: AuditLogEntry | null = null;
+      for await (const { entry } of this.readEntries(file)) {
+        if (entry) last = entry;
+      }
+      if (last) {
+        this.setHead(last);
+        return;
+      }
+    }
+  }
+
+  private setHead(entry: AuditLogEntry): void {
+    if (entry.seq !== undefined && entry.hash) {
+      this.state.seq = entry.seq;
+      this.state.hash = entry.hash;
+    }
+  }
+
+  /**
+   * Last entry of a plain log file, read from its end
+   * Falls back to reading the whole file when the last line is not a
+   * valid entry.
+   */
+  private async readLastEntry(
+    file: string,
+    size: number
+  ): Promise<AuditLogEntry | null> {
+    const handle = await fs.open(file, 'r');
+    let tail = Buffer.alloc(0);
+    let line: string | null = null;
+    try {
+      for (let position = size; position > 0 && line === null;) {
+        const length = Math.min(TAIL_CHUNK_BYTES, position);
+        position -= length;
+        const chunk = Buffer.alloc(length);
+        await handle.read(chunk, 0, length, position);
+        tail = Buffer.concat([chunk, tail]);
+
+        // Bytes after a newline decode cleanly even mid-file
+        const text = tail.toString('utf-8').replace(/\s+$/, '');
+        const newline = text.lastIndexOf('\n');
+        if (newline !== -1 || position === 0) {
+          line = text.slice(newline + 1);
+        }
+      }
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      const parsed = JSON.parse(line ?? '') as AuditLogEntry;
+      if (parsed && typeof parsed.message === 'string') {
+        return { ...parsed, timestamp: new Date(parsed.timestamp) };
+      }
+    } catch {
+      // Not an entry; scan for the last one that is
+    }
+
+    let last: AuditLogEntry | null = null;
+    for await (const { entry } of this.readEntries(file)) {
+      if (entry) last = entry;
+    }
+    return last;
+  }
+
+  /**
+   * Archives in rotation order, then the active file (if present)
+   */
+  private async getLogFiles(): Promise<string[]> {
+    const dir = path.dirname(this.logFile);
+    const prefix = this.archivePrefix();
+
+    let names: string[];
+    try {
+      names = await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+
+    const archives = names
+      .filter((name) => name.startsWith(prefix) && name.endsWith('.log.gz'))
+      .sort((a, b) => this.compareArchives(a, b))
+      .map((name) => path.join(dir, name));
+
+    return names.includes(path.basename(this.logFile))
+      ? [...archives, this.logFile]
+      : archives;
+  }
+
+  private archivePrefix(): string {
+    return `${path.basename(this.logFile).replace(/\.log$/, '')}.`;
+  }
+
+  private parseArchiveTime(file: string): number | null {
+    const match = /\.(\d+)-(-?\d+)\.log\.gz$/.exec(file);
+    return match ? Number(match[1]) : null;
+  }
+
+  private compareArchives(a: string, b: string): number {
+    const [, timeA = 0, seqA = 0] = /\.(\d+)-(-?\d+)\.log\.gz$/.exec(a) ?? [];
+    const [, timeB = 0, seqB = 0] = /\.(\d+)-(-?\d+)\.log\.gz$/.exec(b) ?? [];
+    return Number(timeA) - Number(timeB) || Number(seqA) - Number(seqB);
+  }
+
+  /**
+   * Read entries line by line (gzip archives are decompressed on the fly)
+   * `entry` is null for lines that are not valid entries.
+   */
+  private async *readEntries(
+    file: string
+  ): AsyncGenerator<{ entry: AuditLogEntry | null; line: number }> {
+    const input = createReadStream(file);
+    const lines = readline.createInterface({
+      input: file.endsWith('.gz') ? input.pipe(zlib.createGunzip()) : input,
+      crlfDelay: Infinity,
+    });
+
+    let line = 0;
+    try {
+      for await (const text of lines) {
+        line++;
+        if (!text.trim()) continue;
+
+        let entry: AuditLogEntry | null = null;
+        try {
+          const parsed = JSON.parse(text) as AuditLogEntry;
+          if (parsed && typeof parsed.message === 'string') {
+            entry = { ...parsed, timestamp: new Date(parsed.timestamp) };
+          }
+        } catch {
+          // Reported as unparseable by verify()
+        }
+        yield { entry, line };
+      }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+
+  /**
+   * SHA-256 over the entry as persisted, without its own hash and MAC
+   */
+  private hashEntry(entry: AuditLogEntry): string {
+    const content = JSON.parse(
+      JSON.stringify({ ...entry, hash: undefined, mac: undefined })
+    ) as unknown;
+    return crypto
+      .createHash('sha256')
+      .update(canonicalize(content))
+      .digest('hex');
+  }
+
+  private macFor(hash: string): string {
+    return crypto
+      .createHmac('sha256', this.hmacKey as string)
+      .update(hash)
+      .digest('hex');
+  }
+
+  /**
+   * Wait for queued writes to reach the file
+   * For callers that log without awaiting (`void logger.log(...)`).
+   */
+  async flush(): Promise<void> {
+    await this.state.queue;
+  }
+
   /**
    * Clear in-memory logs
    */
@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { tokenize } from './embeddings';
+
+/**
+ * What happened after tools were chosen for an intent
+ */
+export interface DiscoveryOutcome {
+  intent: string;
+  tools: string[];
+  success: boolean;
+  /** The user picked the tools (e.g. in an execution plan) */
+  override?: boolean;
+  timestamp?: string;
+}
+
+/**
+ * One tool call made through the tool bridge during an execution
+ */
+export interface ToolCallOutcome {
+  tool: string;
+  success: boolean;
+}
+
+/**
+ * Outcomes for the tools an execution actually called
+ * Tools with a failed call are recorded as failures, the rest as successes.
+ */
+export function outcomesFromToolCalls(
+  intent: string,
+  calls: ToolCallOutcome[],
+  override?: boolean
+): DiscoveryOutcome[] {
+  const failed = new Set(
+    calls.filter((call) => !call.success).map((call) => call.tool)
+  );
+  const succeeded = new Set(
+    calls.map((call) => call.tool).filter((tool) => !failed.has(tool))
+  );
+
+  return [
+    { tools: Array.from(succeeded), success: true },
+    { tools: Array.from(failed), success: false },
+  ]
+    .filter((outcome) => outcome.tools.length > 0)
+    .map((outcome) => ({
+      intent,
+      ...outcome,
+      ...(override && { override }),
+    }));
+}
+
+/**
+ * Learned prior of one tool for an intent
+ */
+export interface ToolPrior {
+  /** Between -1 (keeps failing) and 1 (keeps solving such intents) */
+  value: number;
+  /** Similarity-weighted successes and failures behind the value */
+  successes: number;
+  failures: number;
+}
+
+export interface DiscoveryFeedbackOptions {
+  /** Outcomes file; null keeps them in memory (default: .cache/discovery/feedback.json) */
+  file?: string | null;
+  /** Oldest outcomes are dropped beyond this (default: 1000) */
+  maxOutcomes?: number;
+  /** Past intents less similar than this are ignored (default: 0.2) */
+  minSimilarity?: number;
+}
+
+interface FeedbackFile {
+  version: 1;
+  outcomes: DiscoveryOutcome[];
+}
+
+/** Outcomes for tools the user picked count this much more */
+const OVERRIDE_WEIGHT = 2;
+
+/**
+ * Records which tools were used for which intents and whether that
+ * worked, and turns it into a prior for similar intents
+ *
+ * Intents are compared by the overlap (Jaccard) of their terms. Each
+ * similar outcome adds its similarity to a tool's successes or failures;
+ * the prior is their smoothed difference, so one lucky run moves a tool
+ * less than a track record.
+ */
+export class DiscoveryFeedback {
+  private outcomes: DiscoveryOutcome[] = [];
+  private terms: Map<DiscoveryOutcome, Set<string>> = new Map();
+  private file: string | null;
+  private maxOutcomes: number;
+  private minSimilarity: number;
+  private loaded = false;
+
+  constructor(options: DiscoveryFeedbackOptions = {}) {
+    this.file =
+      options.file === undefined
+        ? path.join(process.cwd(), '.cache', 'discovery', 'feedback.json')
+        : options.file;
+    this.maxOutcomes = options.maxOutcomes ?? 1000;
+    this.minSimilarity = options.minSimilarity ?? 0.2;
+  }
+
+  /**
+   * Record an outcome and persist it
+   */
+  async record(outcome: DiscoveryOutcome): Promise<void> {
+    await this.load();
+    if (outcome.tools.length === 0) return;
+
+    this.outcomes.push({
+      ...outcome,
+      timestamp: outcome.timestamp ?? new Date().toISOString(),
+    });
+    for (const dropped of this.outcomes.splice(
+      0,
+      Math.max(0, this.outcomes.length - this.maxOutcomes)
+    )) {
+      this.terms.delete(dropped);
+    }
+    await this.save();
+  }
+
+  /**
+   * Priors of the tools used for intents similar to this one
+   */
+  async priors(intent: string): Promise<Map<string, ToolPrior>> {
+    await this.load();
+
+    const query = new Set(tokenize(intent));
+    const totals = new Map<string, { successes: number; failures: number }>();
+    for (const outcome of this.outcomes) {
+      const similarity = jaccard(query, this.termsOf(outcome));
+      if (similarity < this.minSimilarity) continue;
+
+      const weight = similarity * (outcome.override ? OVERRIDE_WEIGHT : 1);
+      for (const tool of new Set(outcome.tools)) {
+        const total = totals.get(tool) ?? { successes: 0, failures: 0 };
+        if (outcome.success) total.successes += weight;
+        else total.failures += weight;
+        totals.set(tool, total);
+      }
+    }
+
+    return new Map(
+      Array.from(totals, ([tool, { successes, failures }]) => [
+        tool,
+        {
+          value: (successes - failures) / (successes + failures + 1),
+          successes,
+          failures,
+        },
+      ])
+    );
+  }
+
+  get size(): number {
+    return this.outcomes.length;
+  }
+
+  private termsOf(outcome: DiscoveryOutcome): Set<string> {
+    let terms = this.terms.get(outcome);
+    if (!terms) {
+      terms = new Set(tokenize(outcome.intent));
+      this.terms.set(outcome, terms);
+    }
+    return terms;
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded || !this.file) return;
+    this.loaded = true;
+
+    let data: FeedbackFile;
+    try {
+      data = JSON.parse(await fs.readFile(this.file, 'utf-8')) as FeedbackFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw new Error(
+        `Failed to load discovery feedback from ${this.file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    this.outcomes = data.outcomes ?? [];
+  }
+
+  private async save(): Promise<void> {
+    if (!this.file) return;
+
+    const data: FeedbackFile = { version: 1, outcomes: this.outcomes };
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const tmpPath = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+    await fs.rename(tmpPath, this.file);
+  }
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  const union = a.size + b.size - shared;
+  return union > 0 ? shared / union : 0;
+}
@@ -0,0 +1,142 @@
+/**
+ * Turns texts into vectors for tool discovery
+ *
+ * Implement this to plug in a sentence encoder (ONNX, transformers.js, a
+ * hosted embeddings API). `id` names the model; vectors of another id are
+ * never compared, so changing it rebuilds a persisted index.
+ */
+export interface EmbeddingProvider {
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Expanded before matching, so "PRs" and "pull requests" meet */
+const ABBREVIATIONS: Record<string, string> = {
+  pr: 'pull request',
+  prs: 'pull requests',
+  mr: 'merge request',
+  repo: 'repository',
+  repos: 'repositories',
+  db: 'database',
+  dir: 'directory',
+  env: 'environment',
+  config: 'configuration',
+  msg: 'message',
+  doc: 'document',
+  docs: 'documents',
+  auth: 'authentication',
+  k8s: 'kubernetes',
+};
+
+const STOPWORDS = new Set([
+  ...['a', 'all', 'an', 'and', 'any', 'are', 'as', 'be', 'by', 'for'],
+  ...['from', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'our'],
+  ...['please', 'that', 'the', 'this', 'to', 'with', 'you', 'your'],
+]);
+
+/**
+ * Strip common English suffixes so "reviewer", "reviews" and "reviewing"
+ * share a stem; not a full Porter stemmer, but the same on both sides
+ */
+export function stem(word: string): string {
+  let stemmed = word;
+  if (stemmed.length > 4 && stemmed.endsWith('ies')) {
+    stemmed = `${stemmed.slice(0, -3)}y`;
+  } else if (stemmed.length > 3 && /[^s]s$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  for (const suffix of ['ing', 'ed', 'er']) {
+    if (stemmed.length - suffix.length >= 4 && stemmed.endsWith(suffix)) {
+      stemmed = stemmed.slice(0, -suffix.length);
+      break;
+    }
+  }
+  if (stemmed.length > 4 && stemmed.endsWith('e')) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed;
+}
+
+/**
+ * Split text (including camelCase and snake_case names) into stemmed
+ * terms without stopwords
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .flatMap((word) => (ABBREVIATIONS[word] ?? word).split(' '));
+
+  return words
+    .filter((word) => word.length > 0 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Offline encoder that hashes terms and their character trigrams into a
+ * fixed-size vector
+ *
+ * Trigrams let related word forms ("review" / "reviewer") overlap even
+ * when stemming misses them. It needs no model download, but knows no
+ * synonyms beyond the abbreviations `tokenize` expands; plug in a sentence
+ * encoder for that.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private dimensions: number;
+
+  constructor(dimensions = 512) {
+    this.dimensions = dimensions;
+    this.id = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const index = hash % this.dimensions;
+      // The sign bit keeps collisions from only ever adding up
+      vector[index] =
+        (vector[index] ?? 0) + (hash & 0x80000000 ? -weight : weight);
+    };
+
+    for (const term of tokenize(text)) {
+      add(`t:${term}`, 1);
+      const padded = `#${term}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, 0.3);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm > 0 ? vector.map((x) => x / norm) : vector;
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
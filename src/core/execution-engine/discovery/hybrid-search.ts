@@ -0,0 +1,224 @@
+import path from 'path';
+import type { MCPToolSchema } from '../types';
+import {
+  DiscoveryFeedback,
+  DiscoveryOutcome,
+  ToolPrior,
+} from './discovery-feedback';
+import {
+  EmbeddingProvider,
+  HashingEmbeddingProvider,
+  tokenize,
+} from './embeddings';
+import { toolText, VectorIndex } from './vector-index';
+
+export interface HybridToolSearchOptions {
+  /** Encoder of the vector index (default: offline hashing encoder) */
+  embeddings?: EmbeddingProvider;
+  /** File the vectors persist to; in memory only without one */
+  indexPath?: string;
+  /** Share of the BM25 score in the result; the rest is cosine (default: 0.5) */
+  bm25Weight?: number;
+  /** Results scoring below this are dropped (default: 0.15) */
+  minScore?: number;
+  /** Outcomes of earlier executions to learn from */
+  feedback?: DiscoveryFeedback;
+  /** Weight of the learned prior, added to the score (default: 0.3) */
+  priorWeight?: number;
+}
+
+export interface ToolSearchResult {
+  tool: MCPToolSchema;
+  /** Weighted sum of the scores below, between 0 and 1 */
+  score: number;
+  /** BM25 score relative to the best match of the query */
+  bm25: number;
+  /** Cosine similarity of the query and tool embeddings */
+  cosine: number;
+  /** Learned prior from similar intents, between -1 and 1 */
+  prior: number;
+}
+
+export interface ToolExplanation extends ToolSearchResult {
+  /** Whether the score clears the cutoff */
+  included: boolean;
+  /** Outcomes behind the prior, if any */
+  history?: ToolPrior;
+}
+
+/** Term frequency saturation and length normalization of BM25 */
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Okapi BM25 over the tokenized tool texts
+ */
+class BM25Index {
+  private documents: Map<string, Map<string, number>> = new Map();
+  private lengths: Map<string, number> = new Map();
+  private documentFrequency: Map<string, number> = new Map();
+  private averageLength = 0;
+
+  build(texts: Map<string, string>): void {
+    this.documents.clear();
+    this.lengths.clear();
+    this.documentFrequency.clear();
+
+    let totalLength = 0;
+    for (const [name, text] of texts) {
+      const terms = tokenize(text);
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+      for (const term of frequencies.keys()) {
+        this.documentFrequency.set(
+          term,
+          (this.documentFrequency.get(term) ?? 0) + 1
+        );
+      }
+      this.documents.set(name, frequencies);
+      this.lengths.set(name, terms.length);
+      totalLength += terms.length;
+    }
+    this.averageLength = texts.size > 0 ? totalLength / texts.size : 0;
+  }
+
+  score(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const terms = Array.from(new Set(tokenize(query)));
+    const count = this.documents.size;
+
+    for (const [name, frequencies] of this.documents) {
+      const length = this.lengths.get(name) ?? 0;
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term) ?? 0;
+        if (frequency === 0) continue;
+        const df = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        score +=
+          (idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * length) / this.averageLength));
+      }
+      scores.set(name, score);
+    }
+    return scores;
+  }
+}
+
+/**
+ * Ranks tools by BM25 keyword relevance and embedding similarity
+ *
+ * BM25 rewards exact terms ("issue", "branch"), the embeddings related
+ * wording ("reviewer" for "review", "PRs" for "pull requests"). Call
+ * `sync` whenever the indexed tools may have changed; only changed tools
+ * are re-embedded. With feedback, tools that solved similar intents
+ * before are boosted and tools that kept failing demoted.
+ */
+export class HybridToolSearch {
+  private vectors: VectorIndex;
+  private bm25 = new BM25Index();
+  private tools: Map<string, MCPToolSchema> = new Map();
+  private bm25Weight: number;
+  private minScore: number;
+  private feedback?: DiscoveryFeedback;
+  private priorWeight: number;
+
+  /**
+   * Search that keeps its vectors and feedback in a directory
+   */
+  static persistent(
+    directory = path.join(process.cwd(), '.cache', 'discovery'),
+    options: HybridToolSearchOptions = {}
+  ): HybridToolSearch {
+    return new HybridToolSearch({
+      indexPath: path.join(directory, 'tool-vectors.json'),
+      feedback: new DiscoveryFeedback({
+        file: path.join(directory, 'feedback.json'),
+      }),
+      ...options,
+    });
+  }
+
+  constructor(options: HybridToolSearchOptions = {}) {
+    this.vectors = new VectorIndex(
+      options.embeddings ?? new HashingEmbeddingProvider(),
+      options.indexPath
+    );
+    this.bm25Weight = options.bm25Weight ?? 0.5;
+    this.minScore = options.minScore ?? 0.15;
+    this.feedback = options.feedback;
+    this.priorWeight = options.priorWeight ?? 0.3;
+  }
+
+  /**
+   * Index the given tools, replacing the previous set
+   * @returns Number of tools that were (re-)embedded
+   */
+  async sync(tools: MCPToolSchema[]): Promise<number> {
+    this.tools = new Map(tools.map((tool) => [tool.name, tool]));
+    this.bm25.build(new Map(tools.map((tool) => [tool.name, toolText(tool)])));
+    return this.vectors.sync(tools);
+  }
+
+  async search(query: string, limit = 10): Promise<ToolSearchResult[]> {
+    return (await this.explain(query))
+      .filter((result) => result.included)
+      .slice(0, limit)
+      .map(({ tool, score, bm25, cosine, prior }) => ({
+        tool,
+        score,
+        bm25,
+        cosine,
+        prior,
+      }));
+  }
+
+  /**
+   * Score breakdown of every indexed tool for a query, best first
+   */
+  async explain(query: string): Promise<ToolExplanation[]> {
+    const bm25 = this.bm25.score(query);
+    const best = Math.max(0, ...bm25.values());
+    const priors = (await this.feedback?.priors(query)) ?? new Map();
+
+    const results: ToolExplanation[] = [];
+    for (const { name, similarity } of await this.vectors.query(query)) {
+      const tool = this.tools.get(name);
+      if (!tool) continue;
+
+      const keyword = best > 0 ? (bm25.get(name) ?? 0) / best : 0;
+      const cosine = Math.max(0, similarity);
+      const history: ToolPrior | undefined = priors.get(name);
+      const prior = history?.value ?? 0;
+      const score = Math.min(
+        1,
+        Math.max(
+          0,
+          this.bm25Weight * keyword +
+            (1 - this.bm25Weight) * cosine +
+            this.priorWeight * prior
+        )
+      );
+      results.push({
+        tool,
+        score,
+        bm25: keyword,
+        cosine,
+        prior,
+        included: score >= this.minScore,
+        ...(history && { history }),
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Learn from the outcome of running the tools chosen for an intent
+   */
+  async recordOutcome(outcome: DiscoveryOutcome): Promise<void> {
+    await this.feedback?.record(outcome);
+  }
+}
@@ -1,12 +1,25 @@
 import type { MCPToolSchema } from '../types';
 
+type ToolsChangedListener = (server: string, tools: MCPToolSchema[]) => void;
+
+/**
+ * Live servers whose tools can be indexed (`MCPClientPool` fits)
+ */
+export interface ToolListSource {
+  listServerTools(): Map<string, MCPToolSchema[]>;
+  on(event: 'tools:changed', listener: ToolsChangedListener): unknown;
+  off(event: 'tools:changed', listener: ToolsChangedListener): unknown;
+}
+
 export class ToolIndexer {
   private tools: Map<string, MCPToolSchema>;
   private categoryIndex: Map<string, Set<string>>;
+  private serverIndex: Map<string, Set<string>>;
 
   constructor() {
     this.tools = new Map();
     this.categoryIndex = new Map();
+    this.serverIndex = new Map();
   }
 
   indexTools(tools: MCPToolSchema[]): void {
@@ -21,6 +34,36 @@ export class ToolIndexer {
     }
   }
 
+  /**
+   * Replace the tools one server provides; tools it no longer lists are
+   * removed
+   */
+  indexServerTools(server: string, tools: MCPToolSchema[]): void {
+    for (const name of this.serverIndex.get(server) ?? []) {
+      this.removeTool(name);
+    }
+    this.indexTools(tools);
+    this.serverIndex.set(server, new Set(tools.map((tool) => tool.name)));
+  }
+
+  /**
+   * Index the tools of live servers, and re-index a server whenever it
+   * announces that its tool list changed
+   * @returns Function that stops watching
+   */
+  watch(source: ToolListSource): () => void {
+    for (const [server, tools] of source.listServerTools()) {
+      this.indexServerTools(server, tools);
+    }
+
+    const listener: ToolsChangedListener = (server, tools) =>
+      this.indexServerTools(server, tools);
+    source.on('tools:changed', listener);
+    return () => {
+      source.off('tools:changed', listener);
+    };
+  }
+
   getTool(name: string): MCPToolSchema | undefined {
     return this.tools.get(name);
   }
@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MCPToolSchema } from '../types';
+import { cosineSimilarity, EmbeddingProvider } from './embeddings';
+
+interface VectorEntry {
+  /** Hash of the embedded text; a changed schema gets a new vector */
+  hash: string;
+  vector: number[];
+}
+
+interface PersistedIndex {
+  provider: string;
+  entries: Record<string, VectorEntry>;
+}
+
+export interface VectorMatch {
+  name: string;
+  similarity: number;
+}
+
+/**
+ * Text of a tool that is embedded and searched: its name, description and
+ * parameters
+ */
+export function toolText(tool: MCPToolSchema): string {
+  const parameters = (tool.parameters ?? []).map(
+    (param) => `${param.name} ${param.description}`
+  );
+  // Synced schemas carry their parameters in the JSON Schema only
+  const properties = Object.entries(tool.inputSchema?.properties ?? {})
+    .filter(([name]) => !tool.parameters?.some((param) => param.name === name))
+    .map(
+      ([name, property]) =>
+        `${name} ${(property as { description?: string })?.description ?? ''}`
+    );
+  return [tool.name, tool.description, ...parameters, ...properties].join('\n');
+}
+
+/**
+ * Embeddings of tool texts, kept in sync with the indexed tools
+ *
+ * `sync` only embeds tools whose text changed since the last sync, and
+ * drops tools that are gone. With a file path the vectors survive
+ * restarts; a file written by another provider is discarded.
+ */
+export class VectorIndex {
+  private provider: EmbeddingProvider;
+  private filePath?: string;
+  private entries: Map<string, VectorEntry> = new Map();
+  private loaded = false;
+
+  constructor(provider: EmbeddingProvider, filePath?: string) {
+    this.provider = provider;
+    this.filePath = filePath;
+  }
+
+  /**
+   * Bring the index up to date with the given tools
+   * @returns Number of tools that were (re-)embedded
+   */
+  async sync(tools: MCPToolSchema[]): Promise<number> {
+    await this.load();
+
+    const texts = new Map(tools.map((tool) => [tool.name, toolText(tool)]));
+    let changed = false;
+    for (const name of this.entries.keys()) {
+      if (!texts.has(name)) {
+        this.entries.delete(name);
+        changed = true;
+      }
+    }
+
+    const stale = Array.from(texts).flatMap(([name, text]) => {
+      const hash = createHash('sha256').update(text).digest('hex');
+      return this.entries.get(name)?.hash === hash
+        ? []
+        : [{ name, text, hash }];
+    });
+    if (stale.length > 0) {
+      const vectors = await this.provider.embed(stale.map(({ text }) => text));
+      stale.forEach(({ name, hash }, i) => {
+        this.entries.set(name, { hash, vector: vectors[i] ?? [] });
+      });
+      changed = true;
+    }
+
+    if (changed) await this.save();
+    return stale.length;
+  }
+
+  /**
+   * Similarity of the query to every indexed tool
+   */
+  async query(text: string): Promise<VectorMatch[]> {
+    const [vector = []] = await this.provider.embed([text]);
+    return Array.from(this.entries, ([name, entry]) => ({
+      name,
+      similarity: cosineSimilarity(vector, entry.vector),
+    }));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded || !this.filePath) return;
+    this.loaded = true;
+
+    try {
+      const data = JSON.parse(
+        await fs.readFile(this.filePath, 'utf-8')
+      ) as PersistedIndex;
+      if (data.provider === this.provider.id) {
+        this.entries = new Map(Object.entries(data.entries ?? {}));
+      }
+    } catch {
+      // Missing or unreadable: start over
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (!this.filePath) return;
+
+    const data: PersistedIndex = {
+      provider: this.provider.id,
+      entries: Object.fromEntries(this.entries),
+    };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(data), 'utf-8');
+  }
+}
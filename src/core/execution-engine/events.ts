@@ -0,0 +1,253 @@
+import { EventEmitter } from 'events';
+import { ExecutionResult } from './types';
+import type { PIITokenizer } from './security/pii-tokenizer';
+
+/**
+ * Phases of the 5-phase workflow
+ */
+export type ExecutionPhase =
+  'discovery' | 'generation' | 'validation' | 'execution' | 'processing';
+
+/**
+ * Progress event emitted while an execution runs
+ */
+export type ExecutionEvent =
+  | { type: 'phase:start'; phase: ExecutionPhase; message: string }
+  | {
+      type: 'phase:end';
+      phase: ExecutionPhase;
+      message?: string;
+      durationMs: number;
+    }
+  | { type: 'stdout'; data: string }
+  | { type: 'stderr'; data: string }
+  | { type: 'tool:call'; tool: string; args?: Record<string, unknown> }
+  | { type: 'tool:result'; tool: string; success: boolean; durationMs: number }
+  | { type: 'log'; level: 'info' | 'warning'; message: string }
+  | { type: 'result'; result: ExecutionResult };
+
+export type ExecutionEventType = ExecutionEvent['type'];
+
+export type ExecutionEventListener<
+  T extends ExecutionEventType = ExecutionEventType,
+> = (event: Extract<ExecutionEvent, { type: T }>) => void;
+
+/**
+ * Phase number and title, as shown in console output
+ */
+export const PHASES: Record<ExecutionPhase, { step: number; title: string }> = {
+  discovery: { step: 1, title: 'Discovery' },
+  generation: { step: 2, title: 'Code Generation' },
+  validation: { step: 3, title: 'Security Validation' },
+  execution: { step: 4, title: 'Sandbox Execution' },
+  processing: { step: 5, title: 'Result Processing' },
+};
+
+/**
+ * Typed event bus for execution progress
+ * Events emitted on a fork also reach the parent's subscribers, so one
+ * execution can be observed on its own while orchestrator-wide
+ * subscribers (e.g. the console reporter) see everything.
+ */
+export class ExecutionEvents {
+  private emitter = new EventEmitter();
+  private phaseStarts: Map<ExecutionPhase, number> = new Map();
+  private parent?: ExecutionEvents;
+
+  constructor(parent?: ExecutionEvents) {
+    this.parent = parent;
+    // Subscribers are expected to come and go with each execution
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Create a child bus that forwards its events here
+   */
+  fork(): ExecutionEvents {
+    return new ExecutionEvents(this);
+  }
+
+  /**
+   * Subscribe to one event type
+   * @returns Function that removes the listener
+   */
+  on<T extends ExecutionEventType>(
+    type: T,
+    listener: ExecutionEventListener<T>
+  ): () => void {
+    this.emitter.on(type, listener);
+    return () => this.emitter.off(type, listener);
+  }
+
+  /**
+   * Subscribe to every event
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: ExecutionEventListener): () => void {
+    this.emitter.on('*', listener);
+    return () => this.emitter.off('*', listener);
+  }
+
+  emit(event: ExecutionEvent): void {
+    this.emitter.emit(event.type, event);
+    this.emitter.emit('*', event);
+    this.parent?.emit(event);
+  }
+
+  startPhase(phase: ExecutionPhase, message: string): void {
+    this.phaseStarts.set(phase, Date.now());
+    this.emit({ type: 'phase:start', phase, message });
+  }
+
+  endPhase(phase: ExecutionPhase, message?: string): void {
+    const startedAt = this.phaseStarts.get(phase) ?? Date.now();
+    this.phaseStarts.delete(phase);
+    this.emit({
+      type: 'phase:end',
+      phase,
+      message,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
+  log(message: string, level: 'info' | 'warning' = 'info'): void {
+    this.emit({ type: 'log', level, message });
+  }
+
+  /**
+   * Run an execution on a fork and yield its events as they happen
+   * The iterator finishes when `run` settles; errors thrown by `run`
+   * are rethrown from the iterator.
+   */
+  async *stream(
+    run: (events: ExecutionEvents) => Promise<unknown>
+  ): AsyncGenerator<ExecutionEvent, void, undefined> {
+    const events = this.fork();
+    const queue: ExecutionEvent[] = [];
+    let wake: (() => void) | null = null;
+    let finished = false;
+    let failure: unknown;
+
+    const unsubscribe = events.subscribe((event) => {
+      queue.push(event);
+      wake?.();
+    });
+
+    run(events)
+      .catch((error: unknown) => {
+        failure = error ?? new Error('Execution failed');
+      })
+      .finally(() => {
+        finished = true;
+        wake?.();
+      });
+
+    try {
+      while (true) {
+        const event = queue.shift();
+        if (event) {
+          yield event;
+          continue;
+        }
+        if (finished) break;
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = null;
+      }
+
+      if (failure !== undefined) {
+        throw failure;
+      }
+    } finally {
+      unsubscribe();
+    }
+  }
+}
+
+/**
+ * Longest partial line held back while waiting for its newline
+ */
+const MAX_PENDING_LINE = 64 * 1024;
+
+/**
+ * Emits sandbox output with its PII tokenized
+ *
+ * Output is emitted a line at a time, so a value split across chunks is
+ * still detected. Call `flush()` once the sandbox is done to emit the last
+ * partial line.
+ */
+export class TokenizedOutput {
+  private events: ExecutionEvents;
+  private tokenizer: PIITokenizer;
+  private pending: Record<'stdout' | 'stderr', string> = {
+    stdout: '',
+    stderr: '',
+  };
+
+  constructor(events: ExecutionEvents, tokenizer: PIITokenizer) {
+    this.events = events;
+    this.tokenizer = tokenizer;
+  }
+
+  write(stream: 'stdout' | 'stderr', data: string): void {
+    const text = this.pending[stream] + data;
+    const end = text.lastIndexOf('\n') + 1;
+
+    if (end === 0 && text.length <= MAX_PENDING_LINE) {
+      this.pending[stream] = text;
+      return;
+    }
+
+    const complete = end === 0 ? text : text.slice(0, end);
+    this.pending[stream] = end === 0 ? '' : text.slice(end);
+    this.emit(stream, complete);
+  }
+
+  flush(): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const text = this.pending[stream];
+      this.pending[stream] = '';
+      if (text) this.emit(stream, text);
+    }
+  }
+
+  private emit(stream: 'stdout' | 'stderr', data: string): void {
+    this.events.emit({ type: stream, data: this.tokenizer.tokenize(data) });
+  }
+}
+
+/**
+ * Print execution events to the console (the classic phase banners)
+ * @returns Function that detaches the reporter
+ */
+export function attachConsoleReporter(events: ExecutionEvents): () => void {
+  return events.subscribe((event) => {
+    switch (event.type) {
+      case 'phase:start': {
+        const { step, title } = PHASES[event.phase];
+        console.log(`Phase ${step}: ${title} - ${event.message}`);
+        break;
+      }
+      case 'phase:end':
+        if (event.message) console.log(`✓ ${event.message}\n`);
+        break;
+      case 'stdout':
+        process.stdout.write(`[Sandbox] ${event.data}`);
+        break;
+      case 'stderr':
+        process.stderr.write(`[Sandbox] ${event.data}`);
+        break;
+      case 'tool:call':
+        console.log(`  → ${event.tool}`);
+        break;
+      case 'tool:result':
+        if (!event.success) console.log(`  ✗ ${event.tool} failed`);
+        break;
+      case 'log':
+        if (event.level === 'warning') console.warn(event.message);
+        else console.log(event.message);
+        break;
+      case 'result':
+        break;
+    }
+  });
+}
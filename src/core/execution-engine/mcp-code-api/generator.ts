@@ -3,25 +3,105 @@ import Handlebars from 'handlebars';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { MCPToolSchema, CodeWrapper } from '../types';
+import {
+  MCPToolSchema,
+  CodeWrapper,
+  ExecutionPlan,
+  SandboxLanguage,
+} from '../types';
+import { transpileTypeScript } from '../sandbox/runtimes';
+import { renderPlanRunner } from './plan';
+import { JSONSchema, toolArgumentsSchema } from './tool-bridge';
+import {
+  docText,
+  pascalCase,
+  SchemaTypeBuilder,
+  TypeLanguage,
+} from './schema-types';
+
+/**
+ * Names the client part of each template declares
+ */
+const CLIENT_NAMES: Record<TypeLanguage, string[]> = {
+  typescript: [
+    'MCPToolError',
+    'MCPValidationError',
+    'MCPTimeoutError',
+    'MCPClient',
+    'Schema',
+    'Transport',
+  ],
+  python: [
+    'MCPToolError',
+    'MCPValidationError',
+    'MCPTimeoutError',
+    'MCPClient',
+  ],
+};
 
 // Get directory of this module (works in both ESM and bundled code)
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 /**
- * Generates TypeScript/Python wrapper code from MCP schemas
+ * Whether a generated client may repeat a call of the tool
+ * The host may still finish a call that timed out, so only tools their
+ * server marks read-only or idempotent are called again.
+ */
+function isRetryable(schema: MCPToolSchema): boolean {
+  return (
+    schema.annotations?.readOnlyHint === true ||
+    schema.annotations?.idempotentHint === true
+  );
+}
+
+export interface CodeGeneratorOptions {
+  /** Per-call timeout of the generated client in ms (default: 30000) */
+  timeout?: number;
+  /**
+   * Retries of calls to read-only or idempotent tools that timed out or
+   * lost their connection (default: 2)
+   */
+  retries?: number;
+}
+
+/**
+ * Generates TypeScript/JavaScript/Deno/Python/Bash wrapper code from MCP schemas
  * This is the core of the 98.7% token reduction strategy
  */
 export class CodeAPIGenerator {
   private tsTemplate: HandlebarsTemplateDelegate | null = null;
   private pyTemplate: HandlebarsTemplateDelegate | null = null;
+  private shTemplate: HandlebarsTemplateDelegate | null = null;
+  private options: CodeGeneratorOptions;
 
-  constructor() {
+  constructor(options: CodeGeneratorOptions = {}) {
+    this.options = options;
     // Templates will be loaded lazily on first use
     this.registerHandlebarsHelpers();
   }
 
+  /**
+   * Generate a wrapper in the given language
+   */
+  async generate(
+    schemas: MCPToolSchema[],
+    language: SandboxLanguage
+  ): Promise<CodeWrapper> {
+    switch (language) {
+      case 'typescript':
+        return this.generateTypeScript(schemas);
+      case 'javascript':
+        return this.generateJavaScript(schemas);
+      case 'python':
+        return this.generatePython(schemas);
+      case 'deno':
+        return this.generateDeno(schemas);
+      case 'bash':
+        return this.generateBash(schemas);
+    }
+  }
+
   /**
    * Generate TypeScript wrapper
    */
@@ -30,15 +110,18 @@ export class CodeAPIGenerator {
       await this.loadTemplates();
     }
 
+    const types = new SchemaTypeBuilder('typescript', CLIENT_NAMES.typescript);
+    const tools = schemas.map((schema) => ({
+      ...this.toolContext(schema, types, 'typescript'),
+      methodName: this.toCamelCase(schema.name),
+    }));
+
     const code = this.tsTemplate!({
-      tools: schemas.map((schema) => ({
-        name: schema.name,
-        description: schema.description,
-        methodName: this.toCamelCase(schema.name),
-        parameters: schema.parameters,
-        returnType: this.toTSType(schema.returns?.type),
-        examples: schema.examples || [],
-      })),
+      tools,
+      types: types.declarations(),
+      ...this.clientContext(),
+      schemas: JSON.stringify(this.argumentSchemas(schemas)),
+      retryable: JSON.stringify(this.retryableTools(schemas)),
     });
 
     return {
@@ -49,6 +132,23 @@ export class CodeAPIGenerator {
     };
   }
 
+  /**
+   * Generate JavaScript wrapper
+   * The TypeScript wrapper without its types: an ES module with the same
+   * client and doc comments, which Node runs as-is.
+   */
+  async generateJavaScript(schemas: MCPToolSchema[]): Promise<CodeWrapper> {
+    return this.toJavaScript(await this.generateTypeScript(schemas));
+  }
+
+  /**
+   * Generate Deno wrapper
+   * Deno runs the TypeScript wrapper as-is; only its target differs.
+   */
+  async generateDeno(schemas: MCPToolSchema[]): Promise<CodeWrapper> {
+    return { ...(await this.generateTypeScript(schemas)), language: 'deno' };
+  }
+
   /**
    * Generate Python wrapper
    */
@@ -57,15 +157,19 @@ export class CodeAPIGenerator {
       await this.loadTemplates();
     }
 
+    const types = new SchemaTypeBuilder('python', CLIENT_NAMES.python);
+    const tools = schemas.map((schema) => ({
+      ...this.toolContext(schema, types, 'python'),
+      methodName: this.toSnakeCase(schema.name),
+    }));
+
     const code = this.pyTemplate!({
-      tools: schemas.map((schema) => ({
-        name: schema.name,
-        description: schema.description,
-        methodName: this.toSnakeCase(schema.name),
-        parameters: schema.parameters,
-        returnType: this.toPyType(schema.returns?.type),
-        examples: schema.examples || [],
-      })),
+      tools,
+      types: types.declarations(),
+      ...this.clientContext(),
+      // A JSON string literal is a valid Python string literal
+      schemas: JSON.stringify(JSON.stringify(this.argumentSchemas(schemas))),
+      retryable: JSON.stringify(JSON.stringify(this.retryableTools(schemas))),
     });
 
     return {
@@ -76,6 +180,204 @@ export class CodeAPIGenerator {
     };
   }
 
+  /**
+   * Generate Bash wrapper
+   * One shell function per tool; results are printed as JSON for jq.
+   */
+  async generateBash(schemas: MCPToolSchema[]): Promise<CodeWrapper> {
+    if (!this.shTemplate) {
+      await this.loadTemplates();
+    }
+
+    const tools = schemas.map((schema) => {
+      const properties = schema.inputSchema?.properties ?? {};
+      const parameters = (schema.parameters ?? []).map((parameter) => ({
+        name: parameter.name,
+        required: parameter.required,
+        type: this.jsonType(
+          (properties[parameter.name] as JSONSchema | undefined)?.type ??
+            parameter.type
+        ),
+        description: this.shellComment(parameter.description),
+      }));
+
+      return {
+        methodName: this.toSnakeCase(schema.name),
+        tool: this.shellQuote(schema.name),
+        // Read by mcp_args to turn positional values into the arguments
+        names: this.shellQuote(JSON.stringify(parameters.map((p) => p.name))),
+        types: this.shellQuote(JSON.stringify(parameters.map((p) => p.type))),
+        retryable: isRetryable(schema),
+        parameters,
+        description: this.shellComment(schema.description),
+        returnDescription: this.shellComment(schema.returns?.description),
+      };
+    });
+
+    const { timeout, retries } = this.clientContext();
+    const code = this.shTemplate!({
+      tools,
+      timeoutSeconds: (timeout as number) / 1000,
+      retries,
+    });
+
+    return {
+      language: 'bash',
+      code,
+      dependencies: ['jq'],
+      estimatedTokens: this.estimateTokens(code),
+    };
+  }
+
+  /**
+   * Generate a wrapper that runs an execution plan
+   * The tool wrappers are followed by a runner that calls the steps in
+   * order and prints only the output step's result. JavaScript plans are
+   * TypeScript plans without the types, Deno plans TypeScript plans as they
+   * are; Bash has no plan runner.
+   *
+   * @param plan - Validated plan (see parseExecutionPlan)
+   */
+  async generatePlan(
+    plan: ExecutionPlan,
+    schemas: MCPToolSchema[],
+    language: SandboxLanguage
+  ): Promise<CodeWrapper> {
+    if (language === 'bash') {
+      throw new Error(
+        'Execution plans need a TypeScript, JavaScript, Deno or Python target'
+      );
+    }
+
+    const runner = language === 'python' ? 'python' : 'typescript';
+    const wrapper =
+      runner === 'python'
+        ? await this.generatePython(schemas)
+        : await this.generateTypeScript(schemas);
+    const code = wrapper.code + renderPlanRunner(plan, runner);
+    const planWrapper = {
+      ...wrapper,
+      code,
+      estimatedTokens: this.estimateTokens(code),
+    };
+
+    if (language === 'deno') {
+      return { ...planWrapper, language: 'deno' };
+    }
+    return language === 'javascript'
+      ? this.toJavaScript(planWrapper)
+      : planWrapper;
+  }
+
+  /**
+   * JavaScript version of a TypeScript wrapper
+   */
+  private async toJavaScript(wrapper: CodeWrapper): Promise<CodeWrapper> {
+    const code = await transpileTypeScript(wrapper.code);
+    return {
+      ...wrapper,
+      language: 'javascript',
+      code,
+      estimatedTokens: this.estimateTokens(code),
+    };
+  }
+
+  /**
+   * Template data of one tool
+   * Parameter and return types come from the tool's JSON Schemas where it
+   * has them, else from the flat `type` of its parameters and return value.
+   */
+  private toolContext(
+    schema: MCPToolSchema,
+    types: SchemaTypeBuilder,
+    language: TypeLanguage
+  ): Record<string, unknown> {
+    const prefix = pascalCase(schema.name);
+    const properties = schema.inputSchema?.properties ?? {};
+
+    return {
+      name: schema.name,
+      description: docText(schema.description, language),
+      parameters: (schema.parameters ?? []).map((parameter) => {
+        const type =
+          parameter.name in properties
+            ? types.typeOf(
+                properties[parameter.name],
+                prefix + pascalCase(parameter.name),
+                schema.inputSchema
+              )
+            : types.simpleType(parameter.type);
+        return {
+          name: parameter.name,
+          required: parameter.required,
+          // Python wrappers default optional parameters to None
+          type:
+            language === 'python' && !parameter.required
+              ? types.nullable(type)
+              : type,
+          description: docText(parameter.description, language),
+        };
+      }),
+      returnType: schema.outputSchema
+        ? types.typeOf(schema.outputSchema, `${prefix}Result`)
+        : types.simpleType(schema.returns?.type),
+      returnDescription: docText(schema.returns?.description, language),
+      examples: schema.examples || [],
+    };
+  }
+
+  /**
+   * Settings of the generated client
+   */
+  private clientContext(): Record<string, unknown> {
+    return {
+      timeout: this.options.timeout ?? 30000,
+      retries: this.options.retries ?? 2,
+    };
+  }
+
+  /**
+   * Names of the tools the generated client may call again
+   */
+  private retryableTools(schemas: MCPToolSchema[]): string[] {
+    return schemas.filter(isRetryable).map((schema) => schema.name);
+  }
+
+  /**
+   * Argument schema of each tool, checked by the generated client before
+   * a call is sent
+   */
+  private argumentSchemas(
+    schemas: MCPToolSchema[]
+  ): Record<string, JSONSchema> {
+    return Object.fromEntries(
+      schemas.map((schema) => [schema.name, toolArgumentsSchema(schema)])
+    );
+  }
+
+  /**
+   * JSON type a Bash wrapper reads a positional value as
+   * Strings are taken as they are; everything else is parsed as JSON.
+   */
+  private jsonType(type: string | string[] | undefined): string {
+    const types = ([] as string[]).concat(type ?? 'string');
+    return types.find((candidate) => candidate !== 'null') ?? 'string';
+  }
+
+  /**
+   * Text that stays inside a `#` comment
+   */
+  private shellComment(text: string | undefined): string {
+    return (text ?? '').replace(/\r?\n/g, '\n# ');
+  }
+
+  /**
+   * Single-quoted shell word
+   */
+  private shellQuote(text: string): string {
+    return `'${text.replace(/'/g, `'\\''`)}'`;
+  }
+
   /**
    * Load Handlebars templates from filesystem
    */
@@ -113,21 +415,24 @@ export class CodeAPIGenerator {
 
     let tsTemplateContent: string | null = null;
     let pyTemplateContent: string | null = null;
+    let shTemplateContent: string | null = null;
 
     for (const basePath of possibleBasePaths) {
       try {
         const tsPath = path.join(basePath, 'typescript-wrapper.ts.hbs');
         const pyPath = path.join(basePath, 'python-wrapper.py.hbs');
+        const shPath = path.join(basePath, 'bash-wrapper.sh.hbs');
 
         tsTemplateContent = await fs.readFile(tsPath, 'utf-8');
         pyTemplateContent = await fs.readFile(pyPath, 'utf-8');
+        shTemplateContent = await fs.readFile(shPath, 'utf-8');
         break; // Success, stop trying
       } catch {
         // Try next path
       }
     }
 
-    if (!tsTemplateContent || !pyTemplateContent) {
+    if (!tsTemplateContent || !pyTemplateContent || !shTemplateContent) {
       throw new Error(
         'Could not find MCP code generation templates. Tried paths: ' +
           possibleBasePaths.join(', ')
@@ -136,6 +441,7 @@ export class CodeAPIGenerator {
 
     this.tsTemplate = Handlebars.compile(tsTemplateContent);
     this.pyTemplate = Handlebars.compile(pyTemplateContent);
+    this.shTemplate = Handlebars.compile(shTemplateContent);
   }
 
   /**
@@ -145,14 +451,6 @@ export class CodeAPIGenerator {
     Handlebars.registerHelper('json', (context: any) => {
       return JSON.stringify(context, null, 2);
     });
-
-    Handlebars.registerHelper('toTSType', (type: string) => {
-      return this.toTSType(type);
-    });
-
-    Handlebars.registerHelper('toPyType', (type: string) => {
-      return this.toPyType(type);
-    });
   }
 
   /**
@@ -172,44 +470,6 @@ export class CodeAPIGenerator {
       .replace(/^_/, '');
   }
 
-  /**
-   * Convert MCP type to TypeScript type
-   */
-  private toTSType(type?: string): string {
-    if (!type) return 'any';
-
-    const typeMap: Record<string, string> = {
-      string: 'string',
-      number: 'number',
-      boolean: 'boolean',
-      array: 'any[]',
-      object: 'Record<string, unknown>',
-      null: 'null',
-      undefined: 'undefined',
-    };
-
-    return typeMap[type.toLowerCase()] || 'any';
-  }
-
-  /**
-   * Convert MCP type to Python type
-   */
-  private toPyType(type?: string): string {
-    if (!type) return 'Any';
-
-    const typeMap: Record<string, string> = {
-      string: 'str',
-      number: 'float',
-      boolean: 'bool',
-      array: 'List[Any]',
-      object: 'Dict[str, Any]',
-      null: 'None',
-      undefined: 'None',
-    };
-
-    return typeMap[type.toLowerCase()] || 'Any';
-  }
-
   /**
    * Extract TypeScript dependencies from generated code
    */
@@ -220,8 +480,13 @@ export class CodeAPIGenerator {
 
     while ((match = importRegex.exec(code)) !== null) {
       const dep = match[1];
-      // Filter out relative imports
-      if (dep && !dep.startsWith('.') && !dep.startsWith('/')) {
+      // Filter out relative imports and Node builtins
+      if (
+        dep &&
+        !dep.startsWith('.') &&
+        !dep.startsWith('/') &&
+        !dep.startsWith('node:')
+      ) {
         deps.push(dep);
       }
     }
@@ -1,119 +1,291 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
+import { Logger } from '../../utils/logger';
+import { MCPToolSchema } from '../types';
+import {
+  createTransport,
+  loadMCPServers,
+  MCPServerConfig,
+} from './server-config';
+import {
+  MCPServerHealth,
+  MCPServerSupervisor,
+  SupervisorOptions,
+} from './supervisor';
+import { JSONRPCMessage, MCPTransport, StdioTransport } from './transports';
+
+export interface RealMCPClientOptions {
+  /** Default request timeout in ms (default: 30000) */
+  timeout?: number;
+  /** Receives the server's log messages (default: an `mcp` logger) */
+  logger?: Logger;
+}
+
+export interface MCPProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+type ProgressListener = (progress: MCPProgress) => void;
+
+export interface MCPRequestOptions {
+  /** Overrides the client's default timeout */
+  timeout?: number;
+  /** Cancels the request; the server is sent `notifications/cancelled` */
+  signal?: globalThis.AbortSignal;
+  /** Asks the server for progress notifications */
+  onProgress?: ProgressListener;
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  /** Text resources */
+  text?: string;
+  /** Binary resources, base64-encoded */
+  blob?: string;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: any;
+}
+
+/**
+ * Severity of a server log message (RFC 5424 levels)
+ */
+export type MCPLogLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency';
+
+/**
+ * A tool call the server answered with `isError`
+ * The message is the text content of the result.
+ */
+export class MCPToolCallError extends Error {
+  public readonly code = 'tool_error';
+  public readonly toolName: string;
+  /** Content the server returned with the error */
+  public readonly content: unknown;
+
+  constructor(toolName: string, content: unknown) {
+    const text = Array.isArray(content)
+      ? content
+          .map((part) => (typeof part?.text === 'string' ? part.text : ''))
+          .filter(Boolean)
+          .join('\n')
+      : '';
+    super(text || `${toolName} reported an error`);
+    this.name = 'MCPToolCallError';
+    this.toolName = toolName;
+    this.content = content;
+  }
+}
+
+/**
+ * Listing pages followed before giving up on a server
+ */
+const MAX_PAGES = 100;
 
 /**
  * Real MCP Client for communicating with MCP servers
  *
  * Supports:
- * - stdio protocol (process spawning)
- * - HTTP/SSE protocol (future)
- * - Tool discovery
- * - Tool execution
+ * - stdio, Streamable HTTP and legacy HTTP+SSE transports
+ * - Tools, resources (with subscriptions) and prompts, listed page by page
+ * - Tool execution, with per-request timeouts, cancellation and progress
+ * - Server log messages, routed to our logger
+ *
+ * Events: `tools:changed` (tool schemas, after every discovery, including
+ * the one triggered by `notifications/tools/list_changed`),
+ * `resources:changed`, `resource:updated` (uri), `prompts:changed`,
+ * `notification` (method, params) and `disconnected` (with an error when
+ * the server went away unasked).
  */
 export class RealMCPClient extends EventEmitter {
-  private process: ChildProcess | null = null;
+  private transport: MCPTransport;
+  private options: RealMCPClientOptions;
+  private logger: Logger;
   private connected: boolean = false;
+  private serverCapabilities: Record<string, any> = {};
+  private protocolVersion?: string;
   private tools: Map<string, any> = new Map();
+  private discovery: Promise<void> | null = null;
+  private rediscover = false;
   private pendingRequests: Map<
     number,
-    { resolve: (value: any) => void; reject: (error: Error) => void }
+    {
+      resolve: (value: any) => void;
+      reject: (error: Error) => void;
+      onProgress?: ProgressListener;
+    }
   > = new Map();
   private requestId: number = 0;
 
+  /**
+   * @param server - Command of a stdio server, or the transport to use
+   * @param serverArgs - Arguments of the stdio command
+   */
   constructor(
-    private serverCommand: string,
-    private serverArgs: string[]
+    server: string | MCPTransport,
+    serverArgs: string[] = [],
+    options: RealMCPClientOptions = {}
   ) {
     super();
+    this.transport =
+      typeof server === 'string'
+        ? new StdioTransport(server, serverArgs)
+        : server;
+    this.options = options;
+    this.logger = options.logger ?? new Logger('mcp');
+  }
+
+  /**
+   * Session assigned by an HTTP server
+   */
+  get sessionId(): string | undefined {
+    return this.transport.sessionId;
   }
 
   /**
    * Connect to MCP server
+   * Offers the newest protocol revision of the transport; a server answering
+   * with a revision the transport is not defined in is disconnected.
    */
   async connect(): Promise<void> {
     if (this.connected) {
       return;
     }
 
-    return new Promise((resolve, reject) => {
-      try {
-        // Spawn MCP server process
-        this.process = spawn(this.serverCommand, this.serverArgs, {
-          stdio: ['pipe', 'pipe', 'pipe'],
-        });
-
-        // Handle stdout (JSON-RPC messages)
-        this.process.stdout?.on('data', (data) => {
-          this.handleServerMessage(data.toString());
-        });
+    this.transport.onmessage = (message) => this.handleServerMessage(message);
+    this.transport.onclose = (error) => {
+      this.connected = false;
+      // Nothing will answer requests still in flight
+      for (const pending of Array.from(this.pendingRequests.values())) {
+        pending.reject(error ?? new Error('MCP client disconnected'));
+      }
+      this.emit('disconnected', error);
+    };
+    await this.transport.start();
 
-        // Handle stderr (logs)
-        this.process.stderr?.on('data', (data) => {
-          console.error('[MCP Server]', data.toString());
-        });
+    try {
+      // Send initialize request
+      const versions = this.transport.protocolVersions;
+      const response = await this.sendRequest('initialize', {
+        protocolVersion: versions[0],
+        capabilities: {},
+        clientInfo: {
+          name: 'code-assistant-claude',
+          version: '1.0.0',
+        },
+      });
+      console.log('[MCP Server] Initialized:', response);
+      if (!versions.includes(response?.protocolVersion)) {
+        throw new Error(
+          `MCP server answered with protocol version ${response?.protocolVersion ?? '(none)'}; this transport supports ${versions.join(', ')}`
+        );
+      }
+      this.protocolVersion = response.protocolVersion;
+      this.serverCapabilities = response?.capabilities ?? {};
+      await this.sendNotification('notifications/initialized');
+      this.connected = true;
 
-        // Handle process exit
-        this.process.on('exit', (code) => {
-          console.log(`[MCP Server] Exited with code ${code}`);
-          this.connected = false;
-          this.emit('disconnected');
-        });
+      // Discover available tools; without them the connection is of no use
+      await this.discoverTools();
+    } catch (error) {
+      this.connected = false;
+      await this.transport.close();
+      throw error;
+    }
+  }
 
-        // Handle errors
-        this.process.on('error', (error) => {
-          console.error('[MCP Server] Error:', error);
-          reject(error);
-        });
+  /**
+   * Protocol revision agreed on initialize
+   */
+  getProtocolVersion(): string | undefined {
+    return this.protocolVersion;
+  }
 
-        // Send initialize request
-        this.sendRequest('initialize', {
-          protocolVersion: '2024-11-05',
-          capabilities: {},
-          clientInfo: {
-            name: 'code-assistant-claude',
-            version: '1.0.0',
-          },
-        })
-          .then((response) => {
-            console.log('[MCP Server] Initialized:', response);
-            this.connected = true;
-
-            // Discover available tools
-            return this.discoverTools();
-          })
-          .then(() => {
-            resolve();
-          })
-          .catch(reject);
-      } catch (error) {
-        reject(error);
-      }
-    });
+  /**
+   * Capabilities the server announced on initialize
+   */
+  getServerCapabilities(): Record<string, any> {
+    return this.serverCapabilities;
   }
 
   /**
    * Discover available tools from server
+   *
+   * Concurrent calls share one listing; a call made while a listing is
+   * running lists again once it is done. A failed listing keeps the tools
+   * discovered before.
+   *
+   * @throws {Error} If the server cannot list its tools
    */
   async discoverTools(): Promise<void> {
-    try {
-      const response = await this.sendRequest('tools/list', {});
-
-      if (response.tools && Array.isArray(response.tools)) {
-        for (const tool of response.tools) {
-          this.tools.set(tool.name, tool);
-        }
-        console.log(`[MCP Client] Discovered ${this.tools.size} tools`);
-      }
-    } catch (error) {
-      console.error('[MCP Client] Failed to discover tools:', error);
+    if (this.discovery) {
+      this.rediscover = true;
+      return this.discovery;
     }
+
+    this.discovery = (async () => {
+      do {
+        this.rediscover = false;
+        await this.listTools();
+      } while (this.rediscover);
+    })().finally(() => {
+      this.discovery = null;
+    });
+    return this.discovery;
+  }
+
+  private async listTools(): Promise<void> {
+    const tools = await this.listAll<any>('tools/list', 'tools');
+
+    this.tools = new Map(tools.map((tool) => [tool.name, tool]));
+    console.log(`[MCP Client] Discovered ${this.tools.size} tools`);
+    this.emit('tools:changed', this.getToolSchemas());
   }
 
   /**
    * Call an MCP tool
+   * Returns the structured result of tools with an output schema, else
+   * their content.
+   *
+   * @throws {MCPToolCallError} If the server reports the call failed (`isError`)
    */
-  async callTool(toolName: string, params: Record<string, any>): Promise<any> {
+  async callTool(
+    toolName: string,
+    params: Record<string, any>,
+    options: MCPRequestOptions = {}
+  ): Promise<any> {
     if (!this.connected) {
       throw new Error('MCP Client not connected');
     }
@@ -122,12 +294,20 @@ export class RealMCPClient extends EventEmitter {
       throw new Error(`Tool not found: ${toolName}`);
     }
 
-    const response = await this.sendRequest('tools/call', {
-      name: toolName,
-      arguments: params,
-    });
+    const response = await this.sendRequest(
+      'tools/call',
+      {
+        name: toolName,
+        arguments: params,
+      },
+      options
+    );
+
+    if (response?.isError) {
+      throw new MCPToolCallError(toolName, response.content);
+    }
 
-    return response.content || response.result;
+    return response.structuredContent ?? (response.content || response.result);
   }
 
   /**
@@ -144,118 +324,418 @@ export class RealMCPClient extends EventEmitter {
     return this.tools.get(toolName);
   }
 
+  /**
+   * Available tools as indexable schemas
+   */
+  getToolSchemas(): MCPToolSchema[] {
+    return Array.from(this.tools.values()).map((tool) => ({
+      name: tool.name,
+      description: tool.description ?? '',
+      inputSchema: tool.inputSchema,
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+      ...(tool.annotations ? { annotations: tool.annotations } : {}),
+    }));
+  }
+
+  /**
+   * List the server's resources
+   */
+  async listResources(options: MCPRequestOptions = {}): Promise<MCPResource[]> {
+    return this.listAll('resources/list', 'resources', options);
+  }
+
+  /**
+   * List the server's resource templates
+   */
+  async listResourceTemplates(
+    options: MCPRequestOptions = {}
+  ): Promise<MCPResourceTemplate[]> {
+    return this.listAll(
+      'resources/templates/list',
+      'resourceTemplates',
+      options
+    );
+  }
+
+  /**
+   * Read a resource
+   */
+  async readResource(
+    uri: string,
+    options: MCPRequestOptions = {}
+  ): Promise<MCPResourceContents[]> {
+    const response = await this.sendRequest('resources/read', { uri }, options);
+    return response?.contents ?? [];
+  }
+
+  /**
+   * Get `resource:updated` events when a resource changes
+   *
+   * @throws {Error} If the server does not support subscriptions
+   */
+  async subscribeResource(uri: string): Promise<void> {
+    if (!this.serverCapabilities.resources?.subscribe) {
+      throw new Error('MCP server does not support resource subscriptions');
+    }
+    await this.sendRequest('resources/subscribe', { uri });
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    await this.sendRequest('resources/unsubscribe', { uri });
+  }
+
+  /**
+   * List the server's prompts
+   */
+  async listPrompts(options: MCPRequestOptions = {}): Promise<MCPPrompt[]> {
+    return this.listAll('prompts/list', 'prompts', options);
+  }
+
+  /**
+   * Render a prompt with its arguments
+   */
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {},
+    options: MCPRequestOptions = {}
+  ): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    const response = await this.sendRequest(
+      'prompts/get',
+      { name, arguments: args },
+      options
+    );
+    return {
+      description: response?.description,
+      messages: response?.messages ?? [],
+    };
+  }
+
+  /**
+   * Check the server answers
+   * @returns Round trip in ms
+   */
+  async ping(options: MCPRequestOptions = {}): Promise<number> {
+    const startTime = Date.now();
+    await this.sendRequest('ping', {}, options);
+    return Date.now() - startTime;
+  }
+
+  /**
+   * Set the lowest level of log messages the server sends
+   */
+  async setLogLevel(level: MCPLogLevel): Promise<void> {
+    await this.sendRequest('logging/setLevel', { level });
+  }
+
   /**
    * Disconnect from MCP server
    */
   async disconnect(): Promise<void> {
-    if (this.process && !this.process.killed) {
-      this.process.kill('SIGTERM');
-      this.process = null;
-      this.connected = false;
-      this.tools.clear();
+    await this.transport.close();
+    this.connected = false;
+    this.tools.clear();
+  }
+
+  /**
+   * Collect every page of a listing, following `nextCursor`
+   */
+  private async listAll<T>(
+    method: string,
+    key: string,
+    options: MCPRequestOptions = {}
+  ): Promise<T[]> {
+    const items: T[] = [];
+    const seen = new Set<string>();
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const response = await this.sendRequest(
+        method,
+        cursor === undefined ? {} : { cursor },
+        options
+      );
+      items.push(...(Array.isArray(response?.[key]) ? response[key] : []));
+
+      cursor = response?.nextCursor;
+      // A server repeating a cursor would page forever
+      if (typeof cursor !== 'string' || seen.has(cursor)) break;
+      seen.add(cursor);
     }
+
+    return items;
+  }
+
+  private async sendNotification(method: string, params?: any): Promise<void> {
+    await this.transport.send({
+      jsonrpc: '2.0',
+      method,
+      ...(params === undefined ? {} : { params }),
+    });
   }
 
   /**
    * Send JSON-RPC request to server
+   *
+   * A request that times out or is aborted is rejected and the server is
+   * told to stop working on it with `notifications/cancelled`.
    */
-  private sendRequest(method: string, params: any): Promise<any> {
+  private sendRequest(
+    method: string,
+    params: any,
+    options: MCPRequestOptions = {}
+  ): Promise<any> {
     return new Promise((resolve, reject) => {
-      if (!this.process || !this.process.stdin) {
-        reject(new Error('MCP Server process not available'));
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(new Error(`Request cancelled: ${method}`));
         return;
       }
 
       const id = ++this.requestId;
-      const request = {
-        jsonrpc: '2.0',
-        id,
-        method,
-        params,
+      const controller = new globalThis.AbortController();
+
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingRequests.delete(id);
+      };
+
+      const cancel = (reason: string, error: Error) => {
+        if (!this.pendingRequests.has(id)) return;
+        settle();
+        controller.abort();
+        // The initialize request must not be cancelled
+        if (method !== 'initialize') {
+          this.sendNotification('notifications/cancelled', {
+            requestId: id,
+            reason,
+          }).catch(() => {});
+        }
+        reject(error);
       };
 
+      const timer = setTimeout(
+        () => cancel('timeout', new Error(`Request timeout: ${method}`)),
+        options.timeout ?? this.options.timeout ?? 30000
+      );
+      const onAbort = () =>
+        cancel('aborted', new Error(`Request cancelled: ${method}`));
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       // Store pending request
-      this.pendingRequests.set(id, { resolve, reject });
+      this.pendingRequests.set(id, {
+        onProgress: options.onProgress,
+        resolve: (value) => {
+          settle();
+          resolve(value);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+
+      // Progress notifications refer to the request by its id
+      const meta = options.onProgress
+        ? { _meta: { ...params?._meta, progressToken: id } }
+        : {};
 
       // Send request
-      const message = JSON.stringify(request) + '\n';
-      this.process.stdin.write(message);
-
-      // Set timeout
-      setTimeout(() => {
-        if (this.pendingRequests.has(id)) {
-          this.pendingRequests.delete(id);
-          reject(new Error(`Request timeout: ${method}`));
-        }
-      }, 30000); // 30s timeout
+      this.transport
+        .send(
+          { jsonrpc: '2.0', id, method, params: { ...params, ...meta } },
+          { signal: controller.signal }
+        )
+        .catch((error) => {
+          if (!this.pendingRequests.has(id)) return;
+          settle();
+          reject(error);
+        });
     });
   }
 
   /**
    * Handle messages from MCP server
    */
-  private handleServerMessage(data: string): void {
-    try {
-      // Parse JSON-RPC messages (can be multiple per chunk)
-      const lines = data
-        .split('\n')
-        .filter((line) => line.trim())
-        .map((line) => line.trim());
-
-      for (const line of lines) {
-        try {
-          const message = JSON.parse(line);
-
-          if (message.id !== undefined) {
-            // Response to our request
-            const pending = this.pendingRequests.get(message.id);
-            if (pending) {
-              this.pendingRequests.delete(message.id);
-
-              if (message.error) {
-                pending.reject(
-                  new Error(message.error.message || 'MCP Server error')
-                );
-              } else {
-                pending.resolve(message.result);
+  private handleServerMessage(message: JSONRPCMessage): void {
+    if (message.method !== undefined && message.id !== undefined) {
+      // Request from the server
+      void this.transport
+        .send(
+          message.method === 'ping'
+            ? { jsonrpc: '2.0', id: message.id, result: {} }
+            : {
+                jsonrpc: '2.0',
+                id: message.id,
+                error: {
+                  code: -32601,
+                  message: `Method not found: ${message.method}`,
+                },
               }
-            }
-          } else if (message.method) {
-            // Notification from server
-            this.emit('notification', message.method, message.params);
-          }
-        } catch (parseError) {
-          console.error('[MCP Client] Failed to parse message:', line);
+        )
+        .catch(() => {});
+    } else if (message.id !== undefined) {
+      // Response to our request
+      const pending = this.pendingRequests.get(message.id as number);
+      if (pending) {
+        if (message.error) {
+          pending.reject(
+            new Error(message.error.message || 'MCP Server error')
+          );
+        } else {
+          pending.resolve(message.result);
         }
       }
-    } catch (error) {
-      console.error('[MCP Client] Error handling server message:', error);
+    } else if (message.method) {
+      // Notification from server
+      this.handleNotification(message.method, message.params ?? {});
+      this.emit('notification', message.method, message.params);
+    }
+  }
+
+  private handleNotification(method: string, params: any): void {
+    switch (method) {
+      case 'notifications/tools/list_changed':
+        this.discoverTools().catch((error) =>
+          this.logger.warn(
+            `Failed to discover tools: ${error instanceof Error ? error.message : String(error)}`
+          )
+        );
+        break;
+      case 'notifications/resources/list_changed':
+        this.emit('resources:changed');
+        break;
+      case 'notifications/resources/updated':
+        this.emit('resource:updated', params.uri);
+        break;
+      case 'notifications/prompts/list_changed':
+        this.emit('prompts:changed');
+        break;
+      case 'notifications/progress': {
+        const pending = this.pendingRequests.get(params.progressToken);
+        pending?.onProgress?.({
+          progress: params.progress,
+          total: params.total,
+          message: params.message,
+        });
+        break;
+      }
+      case 'notifications/message':
+        this.log(params.level, params.logger, params.data);
+        break;
+    }
+  }
+
+  /**
+   * Route a server log message to our logger
+   */
+  private log(
+    level: MCPLogLevel,
+    name: string | undefined,
+    data: unknown
+  ): void {
+    const text = `${name ? `[${name}] ` : ''}${
+      typeof data === 'string' ? data : JSON.stringify(data)
+    }`;
+    switch (level) {
+      case 'debug':
+        this.logger.debug(text);
+        break;
+      case 'info':
+        this.logger.verbose(text);
+        break;
+      case 'notice':
+        this.logger.info(text);
+        break;
+      case 'warning':
+        this.logger.warn(text);
+        break;
+      default:
+        this.logger.error(text);
     }
   }
 }
 
 /**
  * MCP Client Pool for managing multiple MCP server connections
+ *
+ * Each server is kept connected by an `MCPServerSupervisor`. The pool
+ * re-emits `tools:changed` as (server name, tool schemas), which lets a
+ * `ToolIndexer` watch it, along with `server:restarted` (name) and
+ * `server:failed` (name, error).
  */
-export class MCPClientPool {
-  private clients: Map<string, RealMCPClient> = new Map();
+export class MCPClientPool extends EventEmitter {
+  private servers: Map<string, MCPServerSupervisor> = new Map();
+  private options: SupervisorOptions;
+
+  constructor(options: SupervisorOptions = {}) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Create a pool of the servers configured in `.claude/.mcp.json`
+   *
+   * @throws {Error} If a server cannot be reached; those already connected
+   * are disconnected again
+   */
+  static async fromConfig(
+    configPath?: string,
+    options: SupervisorOptions = {}
+  ): Promise<MCPClientPool> {
+    const pool = new MCPClientPool(options);
+    try {
+      for (const [name, server] of Object.entries(
+        await loadMCPServers(configPath)
+      )) {
+        await pool.addServer(name, server);
+      }
+    } catch (error) {
+      await pool.disconnectAll();
+      throw error;
+    }
+    return pool;
+  }
 
   /**
    * Add MCP server to pool
+   *
+   * @param server - Command of a stdio server, or its `.mcp.json` entry
+   * @throws {Error} If the server cannot be reached; it is not added
    */
   async addServer(
     name: string,
-    command: string,
-    args: string[]
+    server: string | MCPServerConfig,
+    args: string[] = []
   ): Promise<void> {
-    if (this.clients.has(name)) {
+    if (this.servers.has(name)) {
       console.warn(`[MCP Pool] Server already exists: ${name}`);
       return;
     }
 
-    const client = new RealMCPClient(command, args);
-    await client.connect();
-    this.clients.set(name, client);
+    // Every restart gets a fresh client and transport
+    const supervisor = new MCPServerSupervisor(
+      name,
+      () =>
+        new RealMCPClient(
+          typeof server === 'string' ? server : createTransport(server),
+          args,
+          { logger: new Logger(`mcp:${name}`) }
+        ),
+      this.options
+    );
+    supervisor.on('client', (client: RealMCPClient) =>
+      client.on('tools:changed', (tools: MCPToolSchema[]) =>
+        this.emit('tools:changed', name, tools)
+      )
+    );
+    supervisor.on('restarted', () => this.emit('server:restarted', name));
+    supervisor.on('failed', (error: Error) =>
+      this.emit('server:failed', name, error)
+    );
+
+    await supervisor.start();
+    this.servers.set(name, supervisor);
 
     console.log(`[MCP Pool] Added server: ${name}`);
   }
@@ -264,17 +744,26 @@ export class MCPClientPool {
    * Get client for server
    */
   getClient(name: string): RealMCPClient | undefined {
-    return this.clients.get(name);
+    return this.servers.get(name)?.client ?? undefined;
   }
 
   /**
    * Call tool on any server that has it
+   *
+   * A call to a server that is restarting waits for the restart.
    */
-  async callTool(toolName: string, params: Record<string, any>): Promise<any> {
-    for (const [serverName, client] of this.clients) {
-      if (client.getAvailableTools().includes(toolName)) {
+  async callTool(
+    toolName: string,
+    params: Record<string, any>,
+    options: MCPRequestOptions = {}
+  ): Promise<any> {
+    for (const [serverName, supervisor] of this.servers) {
+      if (supervisor.getToolNames().includes(toolName)) {
         console.log(`[MCP Pool] Calling ${toolName} on ${serverName}`);
-        return await client.callTool(toolName, params);
+        const client = await supervisor.ready();
+        return await supervisor.track(
+          client.callTool(toolName, params, options)
+        );
       }
     }
 
@@ -287,9 +776,8 @@ export class MCPClientPool {
   getAllTools(): Map<string, string> {
     const allTools = new Map<string, string>();
 
-    for (const [serverName, client] of this.clients) {
-      const tools = client.getAvailableTools();
-      for (const toolName of tools) {
+    for (const [serverName, supervisor] of this.servers) {
+      for (const toolName of supervisor.getToolNames()) {
         allTools.set(toolName, serverName);
       }
     }
@@ -297,14 +785,44 @@ export class MCPClientPool {
     return allTools;
   }
 
+  /**
+   * Tool schemas of each connected server
+   */
+  listServerTools(): Map<string, MCPToolSchema[]> {
+    const tools = new Map<string, MCPToolSchema[]>();
+    for (const [name, supervisor] of this.servers) {
+      if (supervisor.client) {
+        tools.set(name, supervisor.client.getToolSchemas());
+      }
+    }
+    return tools;
+  }
+
+  /**
+   * Health, latency and error stats of each server
+   */
+  getHealth(): MCPServerHealth[] {
+    return Array.from(this.servers.values(), (supervisor) =>
+      supervisor.getHealth()
+    );
+  }
+
+  /**
+   * Ping every server now instead of waiting for the next interval
+   */
+  async pingAll(): Promise<void> {
+    await Promise.all(
+      Array.from(this.servers.values(), (supervisor) => supervisor.ping())
+    );
+  }
+
   /**
    * Disconnect all servers
    */
   async disconnectAll(): Promise<void> {
-    const disconnectPromises = Array.from(this.clients.values()).map((client) =>
-      client.disconnect()
+    await Promise.all(
+      Array.from(this.servers.values(), (supervisor) => supervisor.stop())
     );
-    await Promise.all(disconnectPromises);
-    this.clients.clear();
+    this.servers.clear();
   }
 }
@@ -3,15 +3,27 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { SchemaParser } from './schema-parser';
 import { CodeAPIGenerator } from './generator';
-import { MCPCodeRuntime } from './runtime';
-import { ToolIndexer } from '../discovery/tool-indexer';
-import { RelevanceScorer } from '../discovery/relevance-scorer';
+import { MCPCodeRuntime, MCPCodeRuntimeOptions } from './runtime';
+import { parseExecutionPlan } from './plan';
+import { ToolBridge } from './tool-bridge';
+import { SecurityPolicy } from '../security/security-policy';
+import { CacheManager } from '../workspace/cache-manager';
+import { ExecutionEvents, attachConsoleReporter } from '../events';
+import { ToolIndexer, ToolListSource } from '../discovery/tool-indexer';
+import { HybridToolSearch, ToolExplanation } from '../discovery/hybrid-search';
+import {
+  DiscoveryOutcome,
+  ToolCallOutcome,
+  outcomesFromToolCalls,
+} from '../discovery/discovery-feedback';
 import { debug } from '../../utils/debug-display';
 import {
   MCPToolSchema,
   CodeWrapper,
+  ExecutionPlan,
   ExecutionResult,
   DiscoveredTool,
+  SandboxLanguage,
 } from '../types';
 
 /**
@@ -28,17 +40,86 @@ import {
  */
 export class MCPOrchestrator {
   private indexer: ToolIndexer;
-  private scorer: RelevanceScorer;
+  private search: HybridToolSearch;
   private parser: SchemaParser;
   private generator: CodeAPIGenerator;
   private runtime: MCPCodeRuntime;
+  private events: ExecutionEvents = new ExecutionEvents();
 
-  constructor(private toolsDirectory: string) {
+  /**
+   * @param runtimeOptions - Token vault, vault scope and approval gate of the runtime
+   */
+  constructor(
+    private toolsDirectory: string,
+    runtimeOptions: MCPCodeRuntimeOptions = {}
+  ) {
     this.indexer = new ToolIndexer();
-    this.scorer = new RelevanceScorer();
+    this.search = new HybridToolSearch();
     this.parser = new SchemaParser();
     this.generator = new CodeAPIGenerator();
-    this.runtime = new MCPCodeRuntime();
+    this.runtime = new MCPCodeRuntime(runtimeOptions);
+
+    // Standalone use reports to the console; callers can pass their own bus
+    attachConsoleReporter(this.events);
+  }
+
+  /**
+   * Apply a security policy to the execution runtime
+   */
+  setSecurityPolicy(policy: SecurityPolicy): void {
+    this.runtime.setSecurityPolicy(policy);
+  }
+
+  /**
+   * Serve repeated executions from a result cache
+   */
+  setCache(cache: CacheManager | null): void {
+    this.runtime.setCache(cache);
+  }
+
+  /**
+   * Forward tool calls from sandboxed code to live MCP servers
+   */
+  setToolBridge(bridge: ToolBridge | null): void {
+    this.runtime.setToolBridge(bridge);
+  }
+
+  /**
+   * Rank tools with another embedding model, a persisted vector index or
+   * feedback from earlier executions
+   */
+  setToolSearch(search: HybridToolSearch): void {
+    this.search = search;
+  }
+
+  /**
+   * Score breakdown of every indexed tool for an intent
+   */
+  async explainDiscovery(userIntent: string): Promise<ToolExplanation[]> {
+    await this.search.sync(this.indexer.getAllTools());
+    return this.search.explain(userIntent);
+  }
+
+  /**
+   * Index the tools of live MCP servers and keep them current
+   * @returns Function that stops watching
+   */
+  watchServers(source: ToolListSource): () => void {
+    return this.indexer.watch(source);
+  }
+
+  /**
+   * Schema of an indexed tool
+   */
+  getToolSchema(name: string): MCPToolSchema | undefined {
+    return this.indexer.getTool(name);
+  }
+
+  /**
+   * Schemas of all indexed tools
+   */
+  getTools(): MCPToolSchema[] {
+    return this.indexer.getAllTools();
   }
 
   /**
@@ -64,24 +145,28 @@ export class MCPOrchestrator {
    */
   async execute(
     userIntent: string,
-    language: 'typescript' | 'python' = 'typescript',
+    language: SandboxLanguage = 'typescript',
     options: {
       maxTools?: number;
       timeout?: number;
       sandboxType?: 'docker' | 'vm' | 'process';
+      /** Event bus for progress and sandbox output */
+      events?: ExecutionEvents;
     } = {}
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
+    const events = options.events ?? this.events.fork();
 
     try {
       // Phase 1: Discover relevant tools (semantic search)
-      console.log('[MCPOrchestrator] Phase 1: Tool Discovery');
+      events.startPhase('discovery', 'Finding relevant MCP tools...');
       const discoveredTools = await this.discoverTools(
         userIntent,
         options.maxTools || 5
       );
 
       if (discoveredTools.length === 0) {
+        events.endPhase('discovery');
         return {
           success: false,
           error: 'No relevant tools found for the given intent',
@@ -95,8 +180,9 @@ export class MCPOrchestrator {
         };
       }
 
-      console.log(
-        `[MCPOrchestrator] Found ${discoveredTools.length} relevant tools`
+      events.endPhase(
+        'discovery',
+        `Found ${discoveredTools.length} relevant tools`
       );
 
       // Debug: Show discovered tools
@@ -110,12 +196,13 @@ export class MCPOrchestrator {
       }
 
       // Phase 2: Generate code wrapper (TypeScript or Python)
-      console.log('[MCPOrchestrator] Phase 2: Code Generation');
+      events.startPhase('generation', `Generating ${language} wrappers...`);
       const schemas = discoveredTools.map((t) => t.schema);
       const codeWrapper = await this.generateCode(schemas, language);
 
-      console.log(
-        `[MCPOrchestrator] Generated ${language} code (${codeWrapper.estimatedTokens} tokens)`
+      events.endPhase(
+        'generation',
+        `Generated ${language} code (${codeWrapper.estimatedTokens} tokens)`
       );
 
       // Debug: Show code generation
@@ -124,8 +211,7 @@ export class MCPOrchestrator {
         debug.codegen(language, codeWrapper.estimatedTokens, traditional);
       }
 
-      // Phase 3: Execute in sandbox
-      console.log('[MCPOrchestrator] Phase 3: Sandbox Execution');
+      // Phase 3: Execute in sandbox (the runtime reports validation and execution)
 
       // Debug: Show sandbox execution
       if (debug.isEnabled()) {
@@ -137,12 +223,40 @@ export class MCPOrchestrator {
       }
 
       const startExec = Date.now();
-      const executionResult = await this.runtime.execute(codeWrapper, {
-        userIntent,
-        tools: discoveredTools.map((t) => t.name),
-      });
+      const calls: ToolCallOutcome[] = [];
+      const stopRecording = events.on('tool:result', ({ tool, success }) =>
+        calls.push({ tool, success })
+      );
+      let executionResult: ExecutionResult;
+      try {
+        executionResult = await this.runtime.execute(
+          codeWrapper,
+          {
+            userIntent,
+            tools: discoveredTools.map((t) => t.name),
+          },
+          events,
+          { intent: userIntent, tools: schemas, language }
+        );
+      } finally {
+        stopRecording();
+      }
       const execDuration = Date.now() - startExec;
 
+      // Held for approval: nothing ran, so there is nothing to summarize
+      if (executionResult.approvalRequestId) {
+        return {
+          ...executionResult,
+          metrics: {
+            ...executionResult.metrics,
+            executionTime: Date.now() - startTime,
+          },
+        };
+      }
+
+      // Only tools the code called say anything about discovery
+      await this.recordToolCalls(userIntent, calls);
+
       // Debug: Show execution result
       if (debug.isEnabled()) {
         debug.sandboxDone(
@@ -153,8 +267,9 @@ export class MCPOrchestrator {
       }
 
       // Phase 4: Process result (summary + PII tokenization)
-      console.log('[MCPOrchestrator] Phase 4: Result Processing');
+      events.startPhase('processing', 'Summarizing result...');
       const summary = this.summarizeResult(executionResult);
+      events.endPhase('processing');
 
       const executionTime = Date.now() - startTime;
 
@@ -167,7 +282,8 @@ export class MCPOrchestrator {
           memoryUsed: '0MB', // Would be filled by actual sandbox
           tokensInSummary: this.estimateTokens(summary),
         },
-        piiTokenized: false, // Would be done by PIITokenizer
+        piiTokenized: executionResult.piiTokenized,
+        ...(executionResult.cached && { cached: true }),
       };
     } catch (error) {
       const executionTime = Date.now() - startTime;
@@ -189,48 +305,163 @@ export class MCPOrchestrator {
   }
 
   /**
-   * Discover tools relevant to user intent using semantic search
+   * Execute a multi-step plan in one sandbox run
+   *
+   * The plan names its tools, so there is no discovery. The generated code
+   * (wrappers plus plan runner) is validated once as a whole; step results
+   * are passed between steps inside the sandbox and only the output step's
+   * result comes back. An invalid plan returns a failed result.
    */
-  private async discoverTools(
+  async executePlan(
+    plan: ExecutionPlan,
+    language: SandboxLanguage = 'typescript',
+    options: {
+      /** Event bus for progress and sandbox output */
+      events?: ExecutionEvents;
+    } = {}
+  ): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const events = options.events ?? this.events.fork();
+
+    try {
+      const indexed = this.indexer.getAllTools();
+      const validated = parseExecutionPlan(
+        plan,
+        indexed.map((tool) => tool.name)
+      );
+      const tools = Array.from(
+        new Set(
+          validated.steps.flatMap((step) => (step.tool ? [step.tool] : []))
+        )
+      );
+      const schemas = indexed.filter((schema) => tools.includes(schema.name));
+
+      events.startPhase(
+        'generation',
+        `Generating ${language} plan with ${validated.steps.length} steps...`
+      );
+      const codeWrapper = await this.generator.generatePlan(
+        validated,
+        schemas,
+        language
+      );
+      events.endPhase(
+        'generation',
+        `Generated ${language} code (${codeWrapper.estimatedTokens} tokens)`
+      );
+
+      const calls: ToolCallOutcome[] = [];
+      const stopRecording = events.on('tool:result', ({ tool, success }) =>
+        calls.push({ tool, success })
+      );
+      let result: ExecutionResult;
+      try {
+        result = await this.runtime.execute(
+          codeWrapper,
+          { userIntent: validated.intent, tools },
+          events
+        );
+      } finally {
+        stopRecording();
+      }
+
+      // The runtime applied (and tokenized) the plan runner's report
+      const planResult: ExecutionResult = result.steps
+        ? result
+        : {
+            ...result,
+            success: false,
+            error: result.error ?? 'Plan runner produced no report',
+          };
+
+      // The plan's author chose these tools instead of discovery
+      await this.recordToolCalls(validated.intent, calls, true);
+
+      return {
+        ...planResult,
+        metrics: {
+          ...planResult.metrics,
+          executionTime: Date.now() - startTime,
+          tokensInSummary: this.estimateTokens(planResult.summary),
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      return {
+        success: false,
+        error: errorMessage,
+        summary: `Plan failed: ${errorMessage}`,
+        metrics: {
+          executionTime: Date.now() - startTime,
+          memoryUsed: '0MB',
+          tokensInSummary: this.estimateTokens(errorMessage),
+        },
+        piiTokenized: false,
+      };
+    }
+  }
+
+  /**
+   * Discover tools relevant to user intent using hybrid BM25 and
+   * embedding search
+   */
+  async discoverTools(
     userIntent: string,
     maxTools: number
   ): Promise<DiscoveredTool[]> {
-    // Get all indexed tools
-    const allTools = this.indexer.getAllTools();
+    // Re-embeds only the tools that changed since the last discovery
+    await this.search.sync(this.indexer.getAllTools());
+    const results = await this.search.search(userIntent, maxTools);
 
-    // Score all tools by relevance
-    const scored = allTools.map((tool) => ({
-      tool,
-      relevanceScore: this.scorer.scoreTool(tool, userIntent),
-    }));
-
-    // Sort by relevance and take top N with score > 0
-    const topResults = scored
-      .filter((s) => s.relevanceScore > 0)
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, maxTools);
-
-    // Convert to DiscoveredTool format
-    return topResults.map((result) => ({
+    return results.map((result) => ({
       name: result.tool.name,
       description: result.tool.description,
-      relevanceScore: result.relevanceScore,
+      relevanceScore: result.score,
       schema: result.tool,
     }));
   }
 
+  /**
+   * Feed an outcome back into discovery; failing to record it must not
+   * fail the execution
+   */
+  private async recordOutcome(outcome: DiscoveryOutcome): Promise<void> {
+    try {
+      await this.search.recordOutcome(outcome);
+    } catch (error) {
+      console.warn(
+        '[MCPOrchestrator] Could not record discovery feedback:',
+        error
+      );
+    }
+  }
+
+  /**
+   * Feed the tool calls of one execution back into discovery
+   * Cached or held executions made no calls, so nothing is recorded.
+   *
+   * @param override - The user picked the tools (e.g. in an execution plan)
+   */
+  async recordToolCalls(
+    intent: string,
+    calls: ToolCallOutcome[],
+    override?: boolean
+  ): Promise<void> {
+    for (const outcome of outcomesFromToolCalls(intent, calls, override)) {
+      await this.recordOutcome(outcome);
+    }
+  }
+
   /**
    * Generate code wrapper from schemas
    */
   private async generateCode(
     schemas: MCPToolSchema[],
-    language: 'typescript' | 'python'
+    language: SandboxLanguage
   ): Promise<CodeWrapper> {
-    if (language === 'typescript') {
-      return await this.generator.generateTypeScript(schemas);
-    } else {
-      return await this.generator.generatePython(schemas);
-    }
+    return await this.generator.generate(schemas, language);
   }
 
   /**
@@ -0,0 +1,419 @@
+import { z } from 'zod';
+import {
+  ExecutionPlan,
+  ExecutionResult,
+  PlanStep,
+  PlanStepResult,
+} from '../types';
+
+/**
+ * Prefix of the line the plan runner prints with the step report and output
+ */
+export const PLAN_RESULT_MARKER = 'MCP_PLAN_RESULT ';
+
+const StepIdSchema = z
+  .string()
+  .regex(/^[A-Za-z_][\w-]*$/, 'must be a name without dots or spaces');
+
+const PlanStepSchema = z
+  .object({
+    id: StepIdSchema,
+    tool: z.string().min(1).optional(),
+    args: z.record(z.unknown()).optional(),
+    code: z.string().min(1).optional(),
+    dependsOn: z.array(StepIdSchema).optional(),
+    onError: z.enum(['abort', 'continue']).optional(),
+  })
+  .strict()
+  .refine((step) => (step.tool === undefined) !== (step.code === undefined), {
+    message: 'a step needs either tool or code',
+  })
+  .refine((step) => step.code === undefined || step.args === undefined, {
+    message: 'transform steps take no args',
+  });
+
+const ExecutionPlanSchema = z
+  .object({
+    intent: z.string().min(1),
+    steps: z.array(PlanStepSchema).min(1),
+    output: StepIdSchema.optional(),
+  })
+  .strict();
+
+/**
+ * Validate an execution plan and put its steps in dependency order
+ *
+ * Steps referenced through `$ref` in their arguments are added to
+ * `dependsOn`. Independent steps keep their declared order.
+ *
+ * @param tools - Known tool names; omit to skip the check
+ * @throws {Error} Listing every problem (unknown tools or steps, cycles)
+ */
+export function parseExecutionPlan(
+  data: unknown,
+  tools?: string[]
+): ExecutionPlan {
+  const result = ExecutionPlanSchema.safeParse(data);
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid execution plan: ${problems}`);
+  }
+
+  const plan = result.data;
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  const steps: PlanStep[] = plan.steps.map((step) => {
+    if (ids.has(step.id)) {
+      problems.push(`duplicate step id ${step.id}`);
+    }
+    ids.add(step.id);
+
+    const dependsOn = Array.from(
+      new Set([...(step.dependsOn ?? []), ...collectRefs(step.args)])
+    );
+    return { ...step, dependsOn, onError: step.onError ?? 'abort' };
+  });
+
+  for (const step of steps) {
+    if (step.tool && tools && !tools.includes(step.tool)) {
+      problems.push(`step ${step.id} calls unknown tool ${step.tool}`);
+    }
+    for (const dependency of step.dependsOn ?? []) {
+      if (!ids.has(dependency)) {
+        problems.push(`step ${step.id} depends on unknown step ${dependency}`);
+      } else if (dependency === step.id) {
+        problems.push(`step ${step.id} depends on itself`);
+      }
+    }
+  }
+  if (plan.output && !ids.has(plan.output)) {
+    problems.push(`output refers to unknown step ${plan.output}`);
+  }
+
+  const ordered = problems.length === 0 ? orderSteps(steps, problems) : steps;
+  if (problems.length > 0) {
+    throw new Error(`Invalid execution plan: ${problems.join('; ')}`);
+  }
+
+  return {
+    intent: plan.intent,
+    steps: ordered,
+    output: plan.output ?? ordered[ordered.length - 1]?.id,
+  };
+}
+
+/**
+ * Step ids referenced by `{ "$ref": "stepId.path" }` values
+ */
+function collectRefs(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(collectRefs);
+  }
+  if (value && typeof value === 'object') {
+    const ref = (value as { $ref?: unknown }).$ref;
+    if (typeof ref === 'string') {
+      return [ref.split('.')[0] ?? ref];
+    }
+    return Object.values(value).flatMap(collectRefs);
+  }
+  return [];
+}
+
+/**
+ * Topological order that keeps the declared order where possible
+ */
+function orderSteps(steps: PlanStep[], problems: string[]): PlanStep[] {
+  const ordered: PlanStep[] = [];
+  const done = new Set<string>();
+  let remaining = steps;
+
+  while (remaining.length > 0) {
+    const next = remaining.find((step) =>
+      (step.dependsOn ?? []).every((dependency) => done.has(dependency))
+    );
+    if (!next) {
+      problems.push(
+        `dependency cycle between steps ${remaining.map((step) => step.id).join(', ')}`
+      );
+      return steps;
+    }
+    ordered.push(next);
+    done.add(next.id);
+    remaining = remaining.filter((step) => step !== next);
+  }
+
+  return ordered;
+}
+
+/**
+ * Indent every line of a transform body
+ */
+function indent(code: string, prefix: string): string {
+  return code
+    .split('\n')
+    .map((line) => (line.trim() ? prefix + line : line))
+    .join('\n');
+}
+
+/**
+ * Data the runner needs (transform code is rendered as functions instead)
+ */
+function runnerPlan(plan: ExecutionPlan): unknown {
+  return {
+    output: plan.output,
+    steps: plan.steps.map(({ id, tool, args, dependsOn, onError }) => ({
+      id,
+      tool,
+      args: args ?? {},
+      dependsOn: dependsOn ?? [],
+      onError: onError ?? 'abort',
+    })),
+  };
+}
+
+/**
+ * Render the code that runs a plan inside the sandbox
+ * Appended to the tool wrapper, so steps call the generated client. Only
+ * the step report and the output step's result are printed.
+ */
+export function renderPlanRunner(
+  plan: ExecutionPlan,
+  language: 'typescript' | 'python'
+): string {
+  const transforms = plan.steps.filter((step) => step.code !== undefined);
+
+  if (language === 'python') {
+    return `
+# Execution plan: runs inside the sandbox, only the final output is printed
+import time as _time
+
+_plan = json.loads(${JSON.stringify(JSON.stringify(runnerPlan(plan)))})
+
+${transforms
+  .map(
+    (step, i) => `async def _transform_${i}(steps):
+${indent(step.code ?? '', '    ')}
+`
+  )
+  .join('\n')}
+_transforms = {${transforms.map((step, i) => `${JSON.stringify(step.id)}: _transform_${i}`).join(', ')}}
+
+
+def _resolve(value, results):
+    if isinstance(value, list):
+        return [_resolve(item, results) for item in value]
+    if isinstance(value, dict):
+        ref = value.get('$ref')
+        if isinstance(ref, str):
+            step_id, *path = ref.split('.')
+            current = results.get(step_id)
+            for key in path:
+                if isinstance(current, list) and key.isdigit():
+                    current = current[int(key)] if int(key) < len(current) else None
+                elif isinstance(current, dict):
+                    current = current.get(key)
+                else:
+                    current = None
+            return current
+        return {key: _resolve(item, results) for key, item in value.items()}
+    return value
+
+
+async def _run_plan():
+    results = {}
+    status = {}
+    report = []
+    aborted = None
+    for step in _plan['steps']:
+        started = _time.monotonic()
+        failed = next((dep for dep in step['dependsOn'] if status.get(dep) != 'succeeded'), None)
+        if aborted or failed:
+            status[step['id']] = 'skipped'
+            reason = f"plan aborted at {aborted}" if aborted else f"dependency {failed} did not succeed"
+            report.append({'id': step['id'], 'tool': step.get('tool'), 'status': 'skipped', 'error': reason})
+            continue
+        try:
+            if step.get('tool'):
+                results[step['id']] = await mcp_client.call(step['tool'], _resolve(step['args'], results))
+            else:
+                results[step['id']] = await _transforms[step['id']](results)
+            status[step['id']] = 'succeeded'
+            report.append({'id': step['id'], 'tool': step.get('tool'), 'status': 'succeeded',
+                           'durationMs': round((_time.monotonic() - started) * 1000)})
+        except Exception as error:
+            status[step['id']] = 'failed'
+            report.append({'id': step['id'], 'tool': step.get('tool'), 'status': 'failed', 'error': str(error),
+                           'durationMs': round((_time.monotonic() - started) * 1000)})
+            if step['onError'] != 'continue':
+                aborted = step['id']
+    output = results.get(_plan['output']) if status.get(_plan['output']) == 'succeeded' else None
+    print(${JSON.stringify(PLAN_RESULT_MARKER)} + json.dumps({'steps': report, 'output': output, 'outputStep': _plan['output'], 'aborted': aborted}, default=str))
+
+
+asyncio.run(_run_plan())
+`;
+  }
+
+  return `
+// Execution plan: runs inside the sandbox, only the final output is printed
+const __plan: any = ${JSON.stringify(runnerPlan(plan), null, 2)};
+
+const __transforms: Record<string, (steps: Record<string, any>) => Promise<any>> = {
+${transforms
+  .map(
+    (step) => `  ${JSON.stringify(step.id)}: async (steps) => {
+${indent(step.code ?? '', '    ')}
+  },`
+  )
+  .join('\n')}
+};
+
+function __resolve(value: any, results: Record<string, any>): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => __resolve(item, results));
+  }
+  if (value && typeof value === 'object') {
+    if (typeof value.$ref === 'string') {
+      const [stepId, ...path] = value.$ref.split('.');
+      return path.reduce(
+        (current: any, key: string) => (current == null ? undefined : current[key]),
+        results[stepId]
+      );
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, __resolve(item, results)])
+    );
+  }
+  return value;
+}
+
+async function __runPlan(): Promise<void> {
+  const results: Record<string, any> = {};
+  const status: Record<string, string> = {};
+  const report: any[] = [];
+  let aborted: string | null = null;
+
+  for (const step of __plan.steps) {
+    const started = Date.now();
+    const failed = step.dependsOn.find((dep: string) => status[dep] !== 'succeeded');
+    if (aborted || failed) {
+      status[step.id] = 'skipped';
+      report.push({
+        id: step.id,
+        tool: step.tool,
+        status: 'skipped',
+        error: aborted ? \`plan aborted at \${aborted}\` : \`dependency \${failed} did not succeed\`,
+      });
+      continue;
+    }
+    try {
+      results[step.id] = step.tool
+        ? await mcpClient.call(step.tool, __resolve(step.args, results))
+        : await __transforms[step.id](results);
+      status[step.id] = 'succeeded';
+      report.push({ id: step.id, tool: step.tool, status: 'succeeded', durationMs: Date.now() - started });
+    } catch (error: any) {
+      status[step.id] = 'failed';
+      report.push({
+        id: step.id,
+        tool: step.tool,
+        status: 'failed',
+        error: String(error?.message ?? error),
+        durationMs: Date.now() - started,
+      });
+      if (step.onError !== 'continue') {
+        aborted = step.id;
+      }
+    }
+  }
+
+  const output = status[__plan.output] === 'succeeded' ? results[__plan.output] : null;
+  console.log(${JSON.stringify(PLAN_RESULT_MARKER)} + JSON.stringify({ steps: report, output, outputStep: __plan.output, aborted }));
+}
+
+__runPlan().catch((error) => console.error(error));
+`;
+}
+
+/**
+ * Report printed by the plan runner
+ */
+export interface PlanOutput {
+  steps: PlanStepResult[];
+  output: unknown;
+  outputStep?: string;
+  /** Step whose failure skipped the rest of the plan */
+  aborted: string | null;
+}
+
+/**
+ * Find the plan runner's report in sandbox output
+ * Returns null when the output has none (the runner did not finish).
+ */
+export function parsePlanOutput(output: unknown): PlanOutput | null {
+  if (typeof output !== 'string') return null;
+
+  const line = output
+    .split('\n')
+    .reverse()
+    .find((candidate) => candidate.startsWith(PLAN_RESULT_MARKER));
+  if (!line) return null;
+
+  try {
+    const report = JSON.parse(
+      line.slice(PLAN_RESULT_MARKER.length)
+    ) as Partial<PlanOutput>;
+    if (!Array.isArray(report.steps)) return null;
+    return {
+      steps: report.steps,
+      output: report.output ?? null,
+      outputStep: report.outputStep,
+      aborted: report.aborted ?? null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fold a plan run into one execution result
+ * The plan succeeds when its output step succeeded and no step with
+ * `onError: 'abort'` failed. Other sandbox output is dropped.
+ */
+export function applyPlanOutput(
+  result: ExecutionResult,
+  plan: PlanOutput
+): ExecutionResult {
+  const { steps } = plan;
+  const count = (status: PlanStepResult['status']) =>
+    steps.filter((step) => step.status === status).length;
+  const abortedAt = steps.find((step) => step.id === plan.aborted);
+  const output = plan.outputStep
+    ? steps.find((step) => step.id === plan.outputStep)
+    : steps[steps.length - 1];
+  const success =
+    result.success && !abortedAt && output?.status === 'succeeded';
+
+  const counts = `${count('succeeded')}/${steps.length} steps succeeded${count('failed') ? `, ${count('failed')} failed` : ''}${count('skipped') ? `, ${count('skipped')} skipped` : ''}`;
+  const failure =
+    abortedAt ?? steps.find((step) => step.status !== 'succeeded');
+  const preview = JSON.stringify(plan.output) ?? 'null';
+
+  return {
+    ...result,
+    success,
+    output: plan.output,
+    steps,
+    summary: success
+      ? `Plan completed: ${counts}. Output: ${preview.length > 300 ? `${preview.slice(0, 300)}...` : preview}`
+      : `Plan failed: ${counts}`,
+    ...(!success && {
+      error: failure
+        ? `Step ${failure.id} ${failure.status}: ${failure.error ?? 'no result'}`
+        : (result.error ?? 'Plan did not complete'),
+    }),
+  };
+}
@@ -1,10 +1,36 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { CodeWrapper, ExecutionResult, SandboxConfig } from '../types';
-import { ProcessSandbox } from '../sandbox/process-sandbox';
 import { SandboxManager } from '../sandbox/sandbox-manager';
 import { CodeValidator } from '../security/code-validator';
 import { RiskAssessor } from '../security/risk-assessor';
+import { ApprovalGate } from '../security/approval-gate';
 import { PIITokenizer } from '../security/pii-tokenizer';
+import { TokenVault } from '../security/token-vault';
+import { SecurityPolicy } from '../security/security-policy';
+import { AuditLogger } from '../audit/logger';
+import {
+  CacheManager,
+  CacheScope,
+  toolCategories,
+} from '../workspace/cache-manager';
+import {
+  ExecutionEvents,
+  TokenizedOutput,
+  attachConsoleReporter,
+} from '../events';
+import { ToolBridge } from './tool-bridge';
+import { PlanOutput, applyPlanOutput, parsePlanOutput } from './plan';
+
+export interface MCPCodeRuntimeOptions {
+  /** Token vault for reversible PII (default: from environment, if configured) */
+  vault?: TokenVault | null;
+  /** Vault scope for this runtime's session */
+  scope?: string;
+  /** Where high-risk executions are held (default: `.claude/approvals`) */
+  approvalGate?: ApprovalGate;
+  /** Records results served from the cache */
+  auditLogger?: AuditLogger;
+}
 
 /**
  * Runtime for executing generated MCP code with security and sandbox integration
@@ -14,23 +40,75 @@ export class MCPCodeRuntime {
   private sandboxManager: SandboxManager;
   private codeValidator: CodeValidator;
   private riskAssessor: RiskAssessor;
+  private approvalGate: ApprovalGate;
   private piiTokenizer: PIITokenizer;
+  private tokenVault: TokenVault | null;
+  private auditLogger: AuditLogger | null;
+  private events: ExecutionEvents = new ExecutionEvents();
+  private activeEvents: ExecutionEvents | null = null;
+  private cache: CacheManager | null = null;
+  private toolBridge: ToolBridge | null = null;
+
+  constructor(options: MCPCodeRuntimeOptions = {}) {
+    // Standalone use reports to the console; callers can pass their own bus
+    attachConsoleReporter(this.events);
 
-  constructor() {
     this.sandboxManager = new SandboxManager();
     this.codeValidator = new CodeValidator();
     this.riskAssessor = new RiskAssessor();
-    this.piiTokenizer = new PIITokenizer();
+    this.approvalGate = options.approvalGate ?? new ApprovalGate();
+    this.auditLogger = options.auditLogger ?? null;
+    this.tokenVault =
+      options.vault !== undefined
+        ? options.vault
+        : TokenVault.fromEnvironment();
+    this.piiTokenizer = new PIITokenizer({
+      vault: this.tokenVault ?? undefined,
+      scope:
+        options.scope ||
+        `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    });
+  }
+
+  /**
+   * Apply a security policy to validation, risk assessment and sandbox
+   * selection
+   */
+  setSecurityPolicy(policy: SecurityPolicy): void {
+    this.codeValidator.setPolicy(policy);
+    this.riskAssessor.setPolicy(policy);
+    this.sandboxManager.setPolicy(policy);
+  }
+
+  /**
+   * Serve repeated executions from a result cache
+   */
+  setCache(cache: CacheManager | null): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Forward tool calls from sandboxed code to live MCP servers
+   * Each execution may only call the tools listed in its context.
+   */
+  setToolBridge(bridge: ToolBridge | null): void {
+    this.toolBridge = bridge;
   }
 
   /**
    * Execute generated code wrapper in sandbox with security validation
+   *
+   * @param events - Event bus for progress and sandbox output
+   * @param cacheScope - Intent and tools of the wrapper; enables the result cache
    */
   async execute(
     wrapper: CodeWrapper,
-    context?: Record<string, unknown>
+    context?: Record<string, unknown>,
+    events: ExecutionEvents = this.events.fork(),
+    cacheScope?: CacheScope
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
+    this.activeEvents = events;
 
     try {
       // Set up execution context
@@ -41,29 +119,69 @@ export class MCPCodeRuntime {
       }
 
       // Phase 1: Security validation
-      console.log('[MCPRuntime] Validating code security...');
-      const validation = await this.codeValidator.validate(wrapper.code);
+      events.startPhase('validation', 'Validating code security...');
+      const validation = await this.codeValidator.validate(
+        wrapper.code,
+        wrapper.language
+      );
+
+      // Phase 2: Risk assessment
+      const tools = Array.isArray(context?.tools)
+        ? (context.tools as unknown[]).filter(
+            (tool): tool is string => typeof tool === 'string'
+          )
+        : [];
+      const riskAssessment = this.riskAssessor.assess(
+        wrapper.code,
+        validation,
+        tools
+      );
+      events.endPhase(
+        'validation',
+        `Risk assessment: ${riskAssessment.riskLevel} (score: ${riskAssessment.riskScore})`
+      );
+
+      // Hold for a reviewer when the policy or validation asks for it
+      if (this.approvalGate.requiresApproval(riskAssessment, validation)) {
+        const approvalRequest = await this.approvalGate.requestApproval(
+          wrapper.code,
+          riskAssessment,
+          validation,
+          {
+            language: wrapper.language,
+            userRequest:
+              typeof context?.userIntent === 'string'
+                ? context.userIntent
+                : undefined,
+            tools,
+          }
+        );
+
+        events.log(
+          [
+            '\n⚠️  APPROVAL REQUIRED\n',
+            this.approvalGate.formatRequest(approvalRequest),
+            `Review with:  code-assistant-claude approval:show ${approvalRequest.id}`,
+            `Approve with: code-assistant-claude approval:approve ${approvalRequest.id} --hash <code hash> --reason "<why>"`,
+            `Then resume:  code-assistant-claude approval:resume ${approvalRequest.id}\n`,
+          ].join('\n'),
+          'warning'
+        );
 
-      if (!validation.isSecure && validation.requiresApproval) {
         return {
           success: false,
-          error: `Code failed security validation (risk score: ${validation.riskScore})`,
-          summary: `Security issues detected: ${validation.issues.map((i) => i.type).join(', ')}`,
+          error: 'Execution requires approval due to high risk score',
+          summary: `Held for approval: ${approvalRequest.id}`,
           metrics: {
             executionTime: Date.now() - startTime,
             memoryUsed: '0M',
-            tokensInSummary: 50,
+            tokensInSummary: 10,
           },
           piiTokenized: false,
+          approvalRequestId: approvalRequest.id,
         };
       }
 
-      // Phase 2: Risk assessment
-      const riskAssessment = this.riskAssessor.assess(wrapper.code, validation);
-      console.log(
-        `[MCPRuntime] Risk assessment: ${riskAssessment.riskLevel} (score: ${riskAssessment.riskScore})`
-      );
-
       // Determine sandbox level based on risk
       const sandboxLevel = this.sandboxManager.selectSandboxLevel({
         riskScore: riskAssessment.riskScore / 100,
@@ -71,7 +189,33 @@ export class MCPCodeRuntime {
         operations: ['mcp-tool-call'],
       });
 
-      console.log(`[MCPRuntime] Selected sandbox level: ${sandboxLevel}`);
+      // Validation still runs on hits, so a stricter policy is never bypassed
+      const cacheKey =
+        this.cache && cacheScope && this.cache.isCacheable(cacheScope.tools)
+          ? CacheManager.createKey({ ...cacheScope, sandbox: sandboxLevel })
+          : null;
+      const cached =
+        this.cache && cacheKey
+          ? await this.cache.get(cacheKey, this.piiTokenizer.getScope())
+          : null;
+      if (cached) {
+        await this.auditLogger?.log(
+          'execution',
+          'info',
+          'Cached result returned',
+          {
+            cacheKey,
+            sandbox: sandboxLevel,
+            tools,
+            success: cached.success,
+            piiTokenized: cached.piiTokenized,
+          }
+        );
+        events.log('✓ Using cached result');
+        return { ...cached, cached: true };
+      }
+
+      events.startPhase('execution', `Running in ${sandboxLevel} sandbox...`);
 
       // Create sandbox config
       const sandboxConfig: SandboxConfig = {
@@ -81,24 +225,82 @@ export class MCPCodeRuntime {
           memory: '512M',
           timeout: 30000,
         },
+        ...(this.toolBridge && {
+          toolBridge: this.toolBridge.open({
+            tools,
+            prepareArguments: (tool, args) =>
+              this.prepareToolCallArguments(tool, args),
+            onResult: (tool, success, durationMs) =>
+              events.emit({ type: 'tool:result', tool, success, durationMs }),
+          }),
+        }),
       };
 
-      // Phase 3: Execute in appropriate sandbox
-      let result: ExecutionResult;
-      if (wrapper.language === 'typescript') {
-        result = await this.executeTypeScript(wrapper.code, sandboxConfig);
-      } else if (wrapper.language === 'python') {
-        result = await this.executePython(wrapper.code, sandboxConfig);
+      // Phase 3: Execute in the sandbox selected for this risk level.
+      // Streamed output reaches subscribers with its PII already tokenized.
+      const output = new TokenizedOutput(events, this.piiTokenizer);
+      const sandboxResult = await this.sandboxManager
+        .execute(
+          wrapper.code,
+          wrapper.language,
+          sandboxConfig,
+          undefined,
+          (stream, data) => output.write(stream, data)
+        )
+        .finally(() => output.flush());
+      events.endPhase(
+        'execution',
+        `Execution ${sandboxResult.success ? 'successful' : 'failed'}`
+      );
+      let result: ExecutionResult = {
+        ...sandboxResult,
+        summary:
+          sandboxResult.summary ||
+          (sandboxResult.success
+            ? 'Execution completed successfully'
+            : `${wrapper.language} execution failed in ${sandboxLevel} sandbox`),
+        metrics: sandboxResult.metrics || {
+          executionTime: Date.now() - startTime,
+          memoryUsed: '0M',
+          tokensInSummary: 0,
+        },
+        piiTokenized: false,
+      };
+
+      // Phase 4: PII tokenization on output, keeping its structure.
+      // Plans keep only the output step's value; it is tokenized before
+      // the summary preview is built from it.
+      const planReport = parsePlanOutput(result.output);
+      const tokenized = this.piiTokenizer.tokenizeValue<unknown>(
+        planReport ?? result.output
+      );
+      if (planReport) {
+        result = applyPlanOutput(result, tokenized.value as PlanOutput);
       } else {
-        throw new Error(`Unsupported language: ${wrapper.language}`);
+        result.output = tokenized.value;
       }
-
-      // Phase 4: PII tokenization on output
-      if (result.success && result.summary) {
-        const originalSummary = result.summary;
-        const tokenizedSummary = this.piiTokenizer.tokenize(result.summary);
+      if (tokenized.report.length > 0) {
+        result.piiTokenized = true;
+        if (this.tokenVault) {
+          await this.tokenVault.persist(this.piiTokenizer.getScope());
+        }
+      }
+      const tokenizedSummary = this.piiTokenizer.tokenize(result.summary);
+      if (tokenizedSummary !== result.summary) {
         result.summary = tokenizedSummary;
-        result.piiTokenized = tokenizedSummary !== originalSummary;
+        result.piiTokenized = true;
+      }
+
+      // Cache successful results (tokenized, never the raw output)
+      if (this.cache && cacheKey && cacheScope && result.success) {
+        await this.cache.set(
+          cacheKey,
+          result,
+          toolCategories(cacheScope.tools),
+          {
+            vaultScope: this.piiTokenizer.getScope(),
+          }
+        );
       }
 
       return result;
@@ -114,57 +316,36 @@ export class MCPCodeRuntime {
         },
         piiTokenized: false,
       };
+    } finally {
+      this.activeEvents = null;
     }
   }
 
   /**
-   * Execute TypeScript code in sandbox
+   * Restore tokenized PII in the arguments of an MCP tool call
+   * Runs on the host side of the sandbox boundary: generated code and the
+   * model only ever see tokens, while the tool receives the real values.
+   * Arguments pass through unchanged when no vault is configured.
    */
-  private async executeTypeScript(
-    code: string,
-    config: SandboxConfig
-  ): Promise<ExecutionResult> {
-    try {
-      const sandbox = new ProcessSandbox(config);
-      return await sandbox.execute(code, 'typescript');
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        summary: 'TypeScript execution failed in sandbox',
-        metrics: {
-          executionTime: 0,
-          memoryUsed: '0M',
-          tokensInSummary: 10,
-        },
-        piiTokenized: false,
-      };
-    }
-  }
+  prepareToolCallArguments<T>(toolName: string, args: T): T {
+    // Report the call with tokenized arguments only
+    this.activeEvents?.emit({
+      type: 'tool:call',
+      tool: toolName,
+      ...(args !== null &&
+        typeof args === 'object' &&
+        !Array.isArray(args) && { args: args as Record<string, unknown> }),
+    });
 
-  /**
-   * Execute Python code in sandbox
-   */
-  private async executePython(
-    code: string,
-    config: SandboxConfig
-  ): Promise<ExecutionResult> {
-    try {
-      const sandbox = new ProcessSandbox(config);
-      return await sandbox.execute(code, 'python');
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        summary: 'Python execution failed in sandbox',
-        metrics: {
-          executionTime: 0,
-          memoryUsed: '0M',
-          tokensInSummary: 10,
-        },
-        piiTokenized: false,
-      };
+    if (!this.tokenVault) {
+      return args;
     }
+
+    const grant = this.tokenVault.grantToolCall(
+      this.piiTokenizer.getScope(),
+      toolName
+    );
+    return this.piiTokenizer.detokenizeValue(args, grant);
   }
 
   /**
@@ -17,8 +17,13 @@ export class SchemaParser {
     try {
       const data = JSON.parse(json);
 
-      // Handle both single schema and array of schemas
-      const schemas = Array.isArray(data) ? data : [data];
+      // Handle a single schema, an array of schemas, and schema files
+      // written by `mcp:sync` (`{ version, server, tools }`)
+      const schemas: unknown[] = Array.isArray(data)
+        ? data
+        : Array.isArray(data?.tools)
+          ? data.tools
+          : [data];
 
       return schemas.map((schema) => this.normalizeSchema(schema));
     } catch (error) {
@@ -35,6 +40,62 @@ export class SchemaParser {
     return this.normalizeSchema(obj);
   }
 
+  /**
+   * Parse a tool as listed by an MCP server's `tools/list`
+   *
+   * Parameters come from the properties of its JSON-Schema `inputSchema`,
+   * the return type from `outputSchema`; both schemas are kept as well.
+   */
+  parseFromMCPTool(tool: any): MCPToolSchema {
+    if (!tool?.name || typeof tool.name !== 'string') {
+      throw new Error('Tool must have a valid "name" field');
+    }
+
+    const inputSchema = tool.inputSchema ?? { type: 'object', properties: {} };
+    const required: string[] = Array.isArray(inputSchema.required)
+      ? inputSchema.required
+      : [];
+
+    return {
+      name: tool.name,
+      description: tool.description || '',
+      parameters: Object.entries(inputSchema.properties ?? {}).map(
+        ([name, property]: [string, any]) => ({
+          name,
+          type: this.jsonSchemaType(property),
+          description: property?.description || '',
+          required: required.includes(name),
+          default: property?.default,
+        })
+      ),
+      returns: tool.outputSchema
+        ? {
+            type: this.jsonSchemaType(tool.outputSchema),
+            description: tool.outputSchema.description || '',
+          }
+        : undefined,
+      examples: [],
+      inputSchema,
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+      ...(tool.annotations ? { annotations: tool.annotations } : {}),
+    };
+  }
+
+  /**
+   * Simple type name of a JSON-Schema property
+   */
+  private jsonSchemaType(schema: any): string {
+    const types: unknown[] = Array.isArray(schema?.type)
+      ? schema.type
+      : [schema?.type];
+    // A nullable property has the type of its non-null alternative
+    const type = types.find((t) => typeof t === 'string' && t !== 'null');
+    if (type === 'integer') return 'number';
+    if (typeof type === 'string') return type;
+    if (schema?.enum?.length) return typeof schema.enum[0];
+    return 'any';
+  }
+
   /**
    * Normalize schema to ensure all required fields are present
    */
@@ -51,6 +112,10 @@ export class SchemaParser {
       ),
       returns: this.normalizeReturnType(schema.returns || schema.return),
       examples: this.normalizeExamples(schema.examples || []),
+      ...(schema.category ? { category: schema.category } : {}),
+      ...(schema.inputSchema ? { inputSchema: schema.inputSchema } : {}),
+      ...(schema.outputSchema ? { outputSchema: schema.outputSchema } : {}),
+      ...(schema.annotations ? { annotations: schema.annotations } : {}),
     };
   }
 
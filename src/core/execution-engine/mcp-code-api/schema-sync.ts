@@ -0,0 +1,589 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { MCPParameter, MCPToolSchema } from '../types';
+import { SchemaParser } from './schema-parser';
+import { toolArgumentsSchema } from './tool-bridge';
+
+/**
+ * Tool schemas of one MCP server, as `mcp:sync` writes them
+ *
+ * `version` is a semver that is bumped whenever the tools change: major
+ * for breaking changes, minor for additions, patch for the rest.
+ */
+export interface ToolSchemaFile {
+  version: string;
+  server: string;
+  generatedAt: string;
+  tools: MCPToolSchema[];
+}
+
+export type ToolChangeKind =
+  | 'tool-added'
+  | 'tool-removed'
+  | 'description'
+  | 'returns'
+  | 'parameter-added'
+  | 'parameter-removed'
+  | 'parameter-type'
+  | 'parameter-required'
+  | 'input-schema'
+  | 'output-schema';
+
+export interface ToolChange {
+  kind: ToolChangeKind;
+  tool: string;
+  parameter?: string;
+  /** Whether code written against the old schema may stop working */
+  breaking: boolean;
+  detail: string;
+}
+
+export interface ToolSchemaDiff {
+  changes: ToolChange[];
+  breaking: boolean;
+}
+
+/**
+ * Where the schema file of a server lives below the tools directory
+ */
+export function toolSchemaPath(
+  toolsDirectory: string,
+  server: string,
+  category = 'servers'
+): string {
+  return path.join(toolsDirectory, category, `${server}-tools.json`);
+}
+
+/**
+ * Read a schema file written by `mcp:sync`
+ *
+ * @returns null when the file does not exist
+ * @throws {Error} If the file cannot be parsed
+ */
+export async function readToolSchemaFile(
+  filePath: string
+): Promise<ToolSchemaFile | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(content);
+    return {
+      version: typeof data.version === 'string' ? data.version : '0.0.0',
+      server: data.server ?? path.basename(filePath, '-tools.json'),
+      generatedAt: data.generatedAt ?? '',
+      tools: new SchemaParser().parseFromJSON(content),
+    };
+  } catch (error) {
+    throw new Error(
+      `Cannot parse tool schema file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+export async function writeToolSchemaFile(
+  filePath: string,
+  file: ToolSchemaFile
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Compare the tools of a schema file with the tools a server lists now
+ */
+export function diffToolSchemas(
+  previous: MCPToolSchema[],
+  next: MCPToolSchema[]
+): ToolSchemaDiff {
+  const changes: ToolChange[] = [];
+  const before = new Map(previous.map((tool) => [tool.name, tool]));
+  const after = new Map(next.map((tool) => [tool.name, tool]));
+
+  for (const [name, tool] of after) {
+    const old = before.get(name);
+    if (!old) {
+      changes.push({
+        kind: 'tool-added',
+        tool: name,
+        breaking: false,
+        detail: `added tool ${name}`,
+      });
+      continue;
+    }
+
+    if (old.description !== tool.description) {
+      changes.push({
+        kind: 'description',
+        tool: name,
+        breaking: false,
+        detail: 'description changed',
+      });
+    }
+    const returnsChanged =
+      (old.returns?.type ?? 'any') !== (tool.returns?.type ?? 'any');
+    if (returnsChanged) {
+      changes.push({
+        kind: 'returns',
+        tool: name,
+        breaking: true,
+        detail: `returns ${old.returns?.type ?? 'any'} → ${tool.returns?.type ?? 'any'}`,
+      });
+    }
+    const parameterChanges = diffParameters(
+      name,
+      old.parameters ?? [],
+      tool.parameters ?? []
+    );
+    changes.push(...parameterChanges);
+
+    // The parameter list flattens the schemas; compare them in full, but
+    // leave out what the parameter and return type changes already say
+    changes.push(
+      ...diffSchema(
+        name,
+        'input-schema',
+        toolArgumentsSchema(old),
+        toolArgumentsSchema(tool),
+        parameterChanges.length > 0,
+        new Set(
+          parameterChanges.flatMap((change) => [
+            `${change.parameter}:type`,
+            `${change.parameter}:required`,
+          ])
+        )
+      )
+    );
+    if (old.outputSchema && tool.outputSchema) {
+      changes.push(
+        ...diffSchema(
+          name,
+          'output-schema',
+          old.outputSchema,
+          tool.outputSchema,
+          returnsChanged,
+          new Set(returnsChanged ? [':type'] : [])
+        )
+      );
+    }
+  }
+
+  for (const name of before.keys()) {
+    if (!after.has(name)) {
+      changes.push({
+        kind: 'tool-removed',
+        tool: name,
+        breaking: true,
+        detail: `removed tool ${name}`,
+      });
+    }
+  }
+
+  return { changes, breaking: changes.some((change) => change.breaking) };
+}
+
+function diffParameters(
+  tool: string,
+  previous: MCPParameter[],
+  next: MCPParameter[]
+): ToolChange[] {
+  const changes: ToolChange[] = [];
+  const before = new Map(previous.map((param) => [param.name, param]));
+
+  for (const param of next) {
+    const old = before.get(param.name);
+    if (!old) {
+      changes.push({
+        kind: 'parameter-added',
+        tool,
+        parameter: param.name,
+        // Existing calls do not pass a new required parameter
+        breaking: param.required,
+        detail: `added ${param.required ? 'required' : 'optional'} parameter ${param.name}: ${param.type}`,
+      });
+      continue;
+    }
+
+    if (old.type !== param.type) {
+      changes.push({
+        kind: 'parameter-type',
+        tool,
+        parameter: param.name,
+        breaking: true,
+        detail: `parameter ${param.name}: ${old.type} → ${param.type}`,
+      });
+    }
+    if (old.required !== param.required) {
+      changes.push({
+        kind: 'parameter-required',
+        tool,
+        parameter: param.name,
+        breaking: param.required,
+        detail: `parameter ${param.name} is now ${param.required ? 'required' : 'optional'}`,
+      });
+    }
+  }
+
+  const names = new Set(next.map((param) => param.name));
+  for (const param of previous) {
+    if (!names.has(param.name)) {
+      changes.push({
+        kind: 'parameter-removed',
+        tool,
+        parameter: param.name,
+        breaking: true,
+        detail: `removed parameter ${param.name}`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Place where a schema accepts fewer values than it did
+ */
+interface SchemaNarrowing {
+  /** Property names (`[]` for array items) from the root */
+  path: string[];
+  keyword: string;
+  /** The keyword's value before and after, for display */
+  from: string;
+  to: string;
+}
+
+type SchemaNode = Record<string, unknown>;
+
+const LOWER_BOUNDS = [
+  'minimum',
+  'exclusiveMinimum',
+  'minLength',
+  'minItems',
+  'minProperties',
+];
+const UPPER_BOUNDS = [
+  'maximum',
+  'exclusiveMaximum',
+  'maxLength',
+  'maxItems',
+  'maxProperties',
+];
+
+/**
+ * Keywords that are only compared for equality; any change to them counts
+ * as narrowing
+ */
+const OPAQUE_KEYWORDS = [
+  '$ref',
+  'pattern',
+  'format',
+  'multipleOf',
+  'uniqueItems',
+  'not',
+  'anyOf',
+  'oneOf',
+  'allOf',
+  'if',
+  'then',
+  'else',
+  'contains',
+  'prefixItems',
+  'propertyNames',
+  'dependentRequired',
+  'dependentSchemas',
+];
+
+/**
+ * Compare one side of a tool's schemas
+ *
+ * Narrowed input breaks callers, and output that guarantees less than it
+ * did (the old output schema narrowed to the new one) breaks code reading
+ * it. Other differences are a non-breaking change unless the tool already
+ * reported one for this side.
+ *
+ * @param reported - Narrowings already reported otherwise, as
+ * `<path>:<keyword>`
+ */
+function diffSchema(
+  tool: string,
+  kind: 'input-schema' | 'output-schema',
+  previous: unknown,
+  next: unknown,
+  changed: boolean,
+  reported: Set<string>
+): ToolChange[] {
+  if (isDeepStrictEqual(previous, next)) return [];
+
+  const input = kind === 'input-schema';
+  const narrowings = input
+    ? schemaNarrowings(previous, next)
+    : schemaNarrowings(next, previous);
+  const changes = narrowings
+    .filter(
+      (narrowing) =>
+        !reported.has(`${narrowing.path.join('.')}:${narrowing.keyword}`)
+    )
+    .map((narrowing): ToolChange => {
+      const [before, after] = input
+        ? [narrowing.from, narrowing.to]
+        : [narrowing.to, narrowing.from];
+      const keyword =
+        narrowing.keyword === 'required' || narrowing.keyword === 'properties'
+          ? ''
+          : `${narrowing.keyword} `;
+      return {
+        kind,
+        tool,
+        breaking: true,
+        detail: `${input ? 'input' : 'output'} ${[input ? 'args' : 'result', ...narrowing.path].join('.')}: ${keyword}${before} → ${after}`,
+      };
+    });
+
+  if (narrowings.length === 0 && !changed) {
+    changes.push({
+      kind,
+      tool,
+      breaking: false,
+      detail: `${input ? 'input' : 'output'} schema changed`,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Where `next` rejects values that `previous` accepted
+ * Conservative: keywords that cannot be compared structurally count as
+ * narrowing whenever they change, and properties `next` adds do not (code
+ * written against `previous` does not use them).
+ */
+function schemaNarrowings(previous: unknown, next: unknown): SchemaNarrowing[] {
+  const narrowings: SchemaNarrowing[] = [];
+  const visited = new WeakMap<SchemaNode, WeakSet<SchemaNode>>();
+  const previousRoot = asSchemaNode(previous);
+  const nextRoot = asSchemaNode(next);
+
+  const visit = (before: unknown, after: unknown, at: string[]): void => {
+    const a = resolveRef(asSchemaNode(before) ?? {}, previousRoot);
+    const b = resolveRef(asSchemaNode(after), nextRoot);
+    // No schema accepts anything
+    if (!b) return;
+    // Recursive schemas: each pair of nodes once
+    const seen = visited.get(a) ?? new WeakSet<SchemaNode>();
+    if (seen.has(b)) return;
+    visited.set(a, seen.add(b));
+
+    const add = (keyword: string, from: unknown, to: unknown) =>
+      narrowings.push({
+        path: at,
+        keyword,
+        from: display(from),
+        to: display(to),
+      });
+
+    const typesBefore = schemaTypes(a);
+    const typesAfter = schemaTypes(b);
+    if (typesAfter) {
+      const dropped = (typesBefore ?? ['any']).filter(
+        (type) =>
+          !typesAfter.includes(type) &&
+          !(type === 'integer' && typesAfter.includes('number'))
+      );
+      if (dropped.length > 0) {
+        add('type', (typesBefore ?? ['any']).join('|'), typesAfter.join('|'));
+        // Nothing left in common to compare
+        if (dropped.length === (typesBefore ?? ['any']).length) return;
+      }
+    }
+
+    const valuesBefore = schemaValues(a);
+    const valuesAfter = schemaValues(b);
+    if (
+      valuesAfter &&
+      (!valuesBefore ||
+        valuesBefore.some(
+          (value) =>
+            !valuesAfter.some((other) => isDeepStrictEqual(value, other))
+        ))
+    ) {
+      add('enum', valuesBefore ?? 'any', valuesAfter);
+    }
+
+    for (const keyword of LOWER_BOUNDS) {
+      const bound = b[keyword];
+      const old = a[keyword];
+      if (
+        typeof bound === 'number' &&
+        !(typeof old === 'number' && old >= bound)
+      ) {
+        add(keyword, old ?? 'none', bound);
+      }
+    }
+    for (const keyword of UPPER_BOUNDS) {
+      const bound = b[keyword];
+      const old = a[keyword];
+      if (
+        typeof bound === 'number' &&
+        !(typeof old === 'number' && old <= bound)
+      ) {
+        add(keyword, old ?? 'none', bound);
+      }
+    }
+    for (const keyword of OPAQUE_KEYWORDS) {
+      if (
+        b[keyword] !== undefined &&
+        b[keyword] !== false &&
+        !isDeepStrictEqual(a[keyword], b[keyword])
+      ) {
+        add(keyword, a[keyword] ?? 'none', b[keyword]);
+      }
+    }
+
+    const requiredBefore = stringList(a.required);
+    for (const name of stringList(b.required)) {
+      if (!requiredBefore.includes(name)) {
+        narrowings.push({
+          path: [...at, name],
+          keyword: 'required',
+          from: 'optional',
+          to: 'required',
+        });
+      }
+    }
+
+    const propertiesBefore = (asSchemaNode(a.properties) ?? {}) as Record<
+      string,
+      unknown
+    >;
+    const propertiesAfter = (asSchemaNode(b.properties) ?? {}) as Record<
+      string,
+      unknown
+    >;
+    for (const [name, schema] of Object.entries(propertiesAfter)) {
+      if (name in propertiesBefore) {
+        visit(propertiesBefore[name], schema, [...at, name]);
+      } else if (asSchemaNode(a.additionalProperties)) {
+        visit(a.additionalProperties, schema, [...at, name]);
+      }
+    }
+    for (const [name, schema] of Object.entries(propertiesBefore)) {
+      if (name in propertiesAfter) continue;
+      if (b.additionalProperties === false) {
+        narrowings.push({
+          path: [...at, name],
+          keyword: 'properties',
+          from: 'allowed',
+          to: 'not allowed',
+        });
+      } else if (asSchemaNode(b.additionalProperties)) {
+        visit(schema, b.additionalProperties, [...at, name]);
+      }
+    }
+
+    if (b.additionalProperties === false) {
+      if (a.additionalProperties !== false) {
+        add('additionalProperties', 'allowed', 'not allowed');
+      }
+    } else if (
+      asSchemaNode(b.additionalProperties) &&
+      a.additionalProperties !== false
+    ) {
+      visit(a.additionalProperties, b.additionalProperties, [...at, '*']);
+    }
+
+    if (asSchemaNode(b.items) && !Array.isArray(b.items)) {
+      visit(a.items, b.items, [...at, '[]']);
+    }
+  };
+
+  visit(previous, next, []);
+  return narrowings;
+}
+
+/**
+ * A schema as an object; null for schemas that accept anything
+ * (`true`, a missing schema)
+ */
+function asSchemaNode(schema: unknown): SchemaNode | null {
+  if (schema === false) return { not: {} };
+  return typeof schema === 'object' && schema !== null
+    ? (schema as SchemaNode)
+    : null;
+}
+
+/**
+ * Follow local `$ref`s (`#/$defs/...`) to the schema they point to
+ */
+function resolveRef<T extends SchemaNode | null>(
+  schema: T,
+  root: SchemaNode | null
+): T | SchemaNode {
+  let node: SchemaNode | null = schema;
+  for (let depth = 0; node && depth < 32; depth++) {
+    const ref = node.$ref;
+    if (typeof ref !== 'string' || !ref.startsWith('#')) break;
+
+    let target: unknown = root;
+    for (const part of ref.slice(1).split('/').filter(Boolean)) {
+      target =
+        asSchemaNode(target)?.[
+          decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~')
+        ];
+    }
+    const resolved = asSchemaNode(target);
+    if (!resolved) break;
+    node = resolved;
+  }
+  return node as T | SchemaNode;
+}
+
+function schemaTypes(schema: SchemaNode): string[] | null {
+  if (typeof schema.type === 'string') return [schema.type];
+  return Array.isArray(schema.type) ? stringList(schema.type) : null;
+}
+
+function schemaValues(schema: SchemaNode): unknown[] | null {
+  if (Array.isArray(schema.enum)) return schema.enum;
+  return 'const' in schema ? [schema.const] : null;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === 'string')
+    : [];
+}
+
+function display(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Version of a schema file after a sync with the given changes
+ *
+ * @param version - Version of the existing file; a new file starts at 1.0.0
+ */
+export function nextSchemaVersion(
+  version: string | undefined,
+  diff: ToolSchemaDiff
+): string {
+  if (!version) return '1.0.0';
+  if (diff.changes.length === 0) return version;
+
+  const [major = 0, minor = 0, patch = 0] = version
+    .split('.')
+    .map((part) => Number.parseInt(part, 10) || 0);
+  if (diff.breaking) return `${major + 1}.0.0`;
+  if (
+    diff.changes.some(
+      (change) =>
+        change.kind === 'tool-added' || change.kind === 'parameter-added'
+    )
+  ) {
+    return `${major}.${minor + 1}.0`;
+  }
+  return `${major}.${minor}.${patch + 1}`;
+}
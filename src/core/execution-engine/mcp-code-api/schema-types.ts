@@ -0,0 +1,520 @@
+/**
+ * JSON Schema keywords that shape generated types
+ */
+interface TypeSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  properties?: Record<string, unknown>;
+  required?: string[];
+  additionalProperties?: unknown;
+  items?: unknown;
+  prefixItems?: unknown[];
+  oneOf?: unknown[];
+  anyOf?: unknown[];
+  allOf?: unknown[];
+  $ref?: string;
+}
+
+export type TypeLanguage = 'typescript' | 'python';
+
+interface Field {
+  key: string;
+  type: string;
+  optional: boolean;
+  doc: string;
+}
+
+const PYTHON_KEYWORDS = new Set(
+  (
+    'False None True and as assert async await break class continue def del ' +
+    'elif else except finally for from global if import in is lambda ' +
+    'nonlocal not or pass raise return try while with yield'
+  ).split(' ')
+);
+
+/**
+ * Names used by the typing module imports of the Python wrappers
+ */
+const PYTHON_TYPING = [
+  'Any',
+  'Dict',
+  'List',
+  'Literal',
+  'Optional',
+  'Tuple',
+  'TypedDict',
+  'Union',
+];
+
+/**
+ * `search_issues` → `SearchIssues`
+ */
+export function pascalCase(text: string): string {
+  const name = text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(name) ? name : `T${name}`;
+}
+
+/**
+ * Description as one line that is safe inside a JSDoc comment (TS) or a
+ * docstring (Python)
+ */
+export function docText(
+  text: string | undefined,
+  language: TypeLanguage
+): string {
+  const line = (text ?? '').replace(/\s+/g, ' ').trim();
+  if (language === 'typescript') return line.replace(/\*\//g, '*\\/');
+  return line.replace(/\\/g, '\\\\').replace(/"(?="")|"$/g, '\\"');
+}
+
+/**
+ * Turns JSON Schemas into TypeScript or Python types
+ *
+ * Objects with properties become named declarations (interfaces, or
+ * TypedDicts in Python) with their descriptions as docs; everything else
+ * becomes an inline type. Declarations with the same fields are shared, so
+ * a `$defs` entry or an object that several tools use is declared once.
+ * Recursive references are declared by name.
+ */
+export class SchemaTypeBuilder {
+  private language: TypeLanguage;
+  private names: Set<string>;
+  private declared: string[] = [];
+  /** Declaration body (without name and docs) → name */
+  private bodies: Map<string, string> = new Map();
+  /** Objects being declared; a reference back to one is recursive */
+  private pending: Map<object, { name: string; recursive: boolean }> =
+    new Map();
+  /** Resolved `$ref`s per root schema */
+  private refs: WeakMap<object, Map<string, string>> = new WeakMap();
+
+  /**
+   * @param reserved - Names the surrounding code declares
+   */
+  constructor(language: TypeLanguage, reserved: string[] = []) {
+    this.language = language;
+    this.names = new Set([
+      ...reserved,
+      ...(language === 'python' ? PYTHON_TYPING : []),
+    ]);
+  }
+
+  /**
+   * Type of a value matching the schema
+   *
+   * @param name - Name for a declaration the schema needs, unless it has a title
+   * @param root - Schema its `$ref`s point into (default: the schema itself)
+   */
+  typeOf(schema: unknown, name: string, root: unknown = schema): string {
+    if (schema === null || typeof schema !== 'object') return this.unknown();
+    const s = schema as TypeSchema;
+
+    if (typeof s.$ref === 'string') {
+      return this.nullable(this.refType(s.$ref, root), s.nullable === true);
+    }
+    if (s.const !== undefined) return this.literals([s.const]);
+    if (Array.isArray(s.enum)) {
+      return this.nullable(this.literals(s.enum), s.nullable === true);
+    }
+
+    const variants = s.oneOf ?? s.anyOf;
+    if (Array.isArray(variants)) {
+      return this.nullable(
+        this.union(
+          variants.map((variant, i) =>
+            this.typeOf(variant, `${name}Option${i + 1}`, root)
+          )
+        ),
+        s.nullable === true
+      );
+    }
+    if (Array.isArray(s.allOf)) {
+      return this.allOfType(s, name, root);
+    }
+
+    const types = Array.isArray(s.type)
+      ? s.type
+      : s.type
+        ? [s.type]
+        : s.properties
+          ? ['object']
+          : s.items || s.prefixItems
+            ? ['array']
+            : [];
+    const nullable = types.includes('null') || s.nullable === true;
+    const nonNull = types.filter((type) => type !== 'null');
+    if (nonNull.length === 0) {
+      return types.length > 0 ? this.simpleType('null') : this.unknown();
+    }
+
+    return this.nullable(
+      this.union(
+        nonNull.map((type) => {
+          switch (type) {
+            case 'array':
+              return this.arrayType(s, name, root);
+            case 'object':
+              return this.objectType(s, name, root);
+            default:
+              return this.simpleType(type);
+          }
+        })
+      ),
+      nullable
+    );
+  }
+
+  /**
+   * Type of a bare MCP type name (`string`, `array`, ...)
+   * Names JSON Schema does not define are `any`.
+   */
+  simpleType(type?: string): string {
+    const typeMap: Record<string, [string, string]> = {
+      string: ['string', 'str'],
+      number: ['number', 'float'],
+      integer: ['number', 'int'],
+      boolean: ['boolean', 'bool'],
+      array: ['any[]', 'List[Any]'],
+      object: ['Record<string, unknown>', 'Dict[str, Any]'],
+      null: ['null', 'None'],
+      undefined: ['undefined', 'None'],
+    };
+    const mapped = type ? typeMap[type.toLowerCase()] : undefined;
+    if (!mapped) return this.language === 'python' ? 'Any' : 'any';
+    return this.language === 'python' ? mapped[1] : mapped[0];
+  }
+
+  /**
+   * The type, or null/None
+   */
+  nullable(type: string, nullable = true): string {
+    if (!nullable) return type;
+    return this.language === 'python'
+      ? type.startsWith('Optional[') || type === 'Any' || type === 'None'
+        ? type
+        : `Optional[${type}]`
+      : this.union([type, 'null']);
+  }
+
+  /**
+   * Declarations of the types returned so far, dependencies first
+   */
+  declarations(): string {
+    return this.declared.join(this.language === 'python' ? '\n\n\n' : '\n\n');
+  }
+
+  private unknown(): string {
+    return this.language === 'python' ? 'Any' : 'unknown';
+  }
+
+  private literals(values: unknown[]): string {
+    if (this.language === 'python') {
+      // Literal only takes str, int, bool and None
+      const types = values.map((value) =>
+        typeof value === 'number' && !Number.isInteger(value)
+          ? 'float'
+          : value === null
+            ? 'None'
+            : typeof value === 'object'
+              ? 'Any'
+              : `Literal[${typeof value === 'boolean' ? (value ? 'True' : 'False') : JSON.stringify(value)}]`
+      );
+      const literals = types
+        .filter((type) => type.startsWith('Literal['))
+        .map((type) => type.slice('Literal['.length, -1));
+      return this.union([
+        ...(literals.length > 0 ? [`Literal[${literals.join(', ')}]`] : []),
+        ...types.filter((type) => !type.startsWith('Literal[')),
+      ]);
+    }
+    return this.union(
+      values.map((value) =>
+        value !== null && typeof value === 'object'
+          ? 'unknown'
+          : JSON.stringify(value)
+      )
+    );
+  }
+
+  private union(types: string[]): string {
+    const unique = Array.from(new Set(types));
+    if (unique.length === 1) return unique[0] ?? this.unknown();
+
+    if (this.language === 'python') {
+      if (unique.includes('Any')) return 'Any';
+      const others = unique.filter((type) => type !== 'None');
+      const union =
+        others.length === 1
+          ? (others[0] ?? 'Any')
+          : `Union[${others.join(', ')}]`;
+      return others.length < unique.length ? this.nullable(union) : union;
+    }
+    if (unique.includes('unknown')) return 'unknown';
+    return unique.join(' | ');
+  }
+
+  private arrayType(s: TypeSchema, name: string, root: unknown): string {
+    const tuple = s.prefixItems ?? (Array.isArray(s.items) ? s.items : null);
+    if (tuple) {
+      const items = (tuple as unknown[]).map((item, i) =>
+        this.typeOf(item, `${name}Item${i + 1}`, root)
+      );
+      return this.language === 'python'
+        ? `Tuple[${items.join(', ')}]`
+        : `[${items.join(', ')}]`;
+    }
+
+    const item =
+      s.items === undefined
+        ? this.unknown()
+        : this.typeOf(s.items, `${name}Item`, root);
+    if (this.language === 'python') return `List[${item}]`;
+    return /[ |&]/.test(item) ? `Array<${item}>` : `${item}[]`;
+  }
+
+  private objectType(s: TypeSchema, name: string, root: unknown): string {
+    const properties = Object.entries(s.properties ?? {});
+    if (properties.length === 0) {
+      const values =
+        s.additionalProperties && typeof s.additionalProperties === 'object'
+          ? this.typeOf(s.additionalProperties, `${name}Value`, root)
+          : this.unknown();
+      return this.language === 'python'
+        ? `Dict[str, ${values}]`
+        : `Record<string, ${values}>`;
+    }
+
+    const pending = this.pending.get(s);
+    if (pending) {
+      pending.recursive = true;
+      return this.language === 'python' ? `'${pending.name}'` : pending.name;
+    }
+
+    const declaredName = this.reserveName(s.title ? pascalCase(s.title) : name);
+    const entry = { name: declaredName, recursive: false };
+    this.pending.set(s, entry);
+    const required = new Set(s.required ?? []);
+    const fields: Field[] = properties.map(([key, property]) => {
+      const p = (property ?? {}) as TypeSchema;
+      return {
+        key,
+        type: this.typeOf(property, declaredName + pascalCase(key), root),
+        optional: !required.has(key),
+        doc: docText(
+          [p.description, p.format && `(format: ${p.format})`]
+            .filter(Boolean)
+            .join(' '),
+          this.language
+        ),
+      };
+    });
+    this.pending.delete(s);
+
+    const body = JSON.stringify(
+      fields.map(({ key, type, optional }) => [key, type, optional])
+    );
+    const existing = this.bodies.get(body);
+    if (existing && !entry.recursive) {
+      this.names.delete(declaredName);
+      return existing;
+    }
+
+    this.bodies.set(body, declaredName);
+    this.declared.push(
+      this.language === 'python'
+        ? this.typedDict(declaredName, fields, docText(s.description, 'python'))
+        : this.interface(
+            declaredName,
+            fields,
+            docText(s.description, 'typescript')
+          )
+    );
+    return declaredName;
+  }
+
+  /**
+   * Objects are merged into one; anything else is an intersection (TS)
+   */
+  private allOfType(s: TypeSchema, name: string, root: unknown): string {
+    const parts = (s.allOf ?? []).map((part) => this.resolve(part, root));
+    if (parts.every((part) => part?.properties)) {
+      return this.typeOf(
+        {
+          ...s,
+          allOf: undefined,
+          type: 'object',
+          properties: Object.assign(
+            {},
+            ...parts.map((part) => part?.properties),
+            s.properties
+          ),
+          required: [
+            ...parts.flatMap((part) => part?.required ?? []),
+            ...(s.required ?? []),
+          ],
+        },
+        name,
+        root
+      );
+    }
+    if (this.language === 'python') return 'Any';
+    return (s.allOf ?? [])
+      .map((part, i) => this.typeOf(part, `${name}Part${i + 1}`, root))
+      .join(' & ');
+  }
+
+  /**
+   * Type of a local `$ref`; named after the definition it points to
+   */
+  private refType(ref: string, root: unknown): string {
+    if (root === null || typeof root !== 'object') return this.unknown();
+    let resolved = this.refs.get(root);
+    if (!resolved) {
+      resolved = new Map();
+      this.refs.set(root, resolved);
+    }
+    const cached = resolved.get(ref);
+    if (cached) return cached;
+
+    const target = this.resolve({ $ref: ref }, root);
+    if (!target) return this.unknown();
+    const name = pascalCase(ref.split('/').pop() ?? 'Ref');
+
+    // Objects are declared under the definition's name; enums and unions
+    // get an alias
+    let type = this.typeOf(target, name, root);
+    if (
+      target.enum ||
+      target.const !== undefined ||
+      target.oneOf ||
+      target.anyOf
+    ) {
+      type = this.alias(name, type, docText(target.description, this.language));
+    }
+    resolved.set(ref, type);
+    return type;
+  }
+
+  /**
+   * The schema a `$ref` points to, or the schema itself
+   */
+  private resolve(schema: unknown, root: unknown): TypeSchema | null {
+    if (schema === null || typeof schema !== 'object') return null;
+    const ref = (schema as TypeSchema).$ref;
+    if (typeof ref !== 'string') return schema as TypeSchema;
+    if (!ref.startsWith('#')) return null;
+
+    let current: unknown = root;
+    for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+      const key = decodeURIComponent(segment)
+        .replace(/~1/g, '/')
+        .replace(/~0/g, '~');
+      current =
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined;
+    }
+    return current !== null && typeof current === 'object'
+      ? (current as TypeSchema)
+      : null;
+  }
+
+  private alias(name: string, type: string, doc: string): string {
+    const body = `alias:${type}`;
+    const existing = this.bodies.get(body);
+    if (existing) return existing;
+
+    const declaredName = this.reserveName(name);
+    this.bodies.set(body, declaredName);
+    this.declared.push(
+      this.language === 'python'
+        ? `${doc ? `# ${doc}\n` : ''}${declaredName} = ${type}`
+        : `${doc ? `/** ${doc} */\n` : ''}export type ${declaredName} = ${type};`
+    );
+    return declaredName;
+  }
+
+  private reserveName(name: string): string {
+    let candidate = name;
+    for (let i = 2; this.names.has(candidate); i++) {
+      candidate = `${name}${i}`;
+    }
+    this.names.add(candidate);
+    return candidate;
+  }
+
+  private interface(name: string, fields: Field[], doc: string): string {
+    const lines = fields.flatMap(({ key, type, optional, doc: fieldDoc }) => [
+      ...(fieldDoc ? [`  /** ${fieldDoc} */`] : []),
+      `  ${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}${optional ? '?' : ''}: ${type};`,
+    ]);
+    return [
+      ...(doc ? ['/**', ` * ${doc}`, ' */'] : []),
+      `export interface ${name} {`,
+      ...lines,
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * TypedDict class; keys that are not identifiers need the functional
+   * form, where all keys are optional if any is
+   */
+  private typedDict(name: string, fields: Field[], doc: string): string {
+    const optional = fields.filter((field) => field.optional);
+    const docstring = doc ? [`    """${doc}"""`, ''] : [];
+
+    if (
+      fields.some(
+        ({ key }) =>
+          !/^[A-Za-z_][A-Za-z0-9_]*$/.test(key) || PYTHON_KEYWORDS.has(key)
+      )
+    ) {
+      const entries = fields
+        .map(({ key, type }) => `${JSON.stringify(key)}: ${type}`)
+        .join(', ');
+      return `${doc ? `# ${doc}\n` : ''}${name} = TypedDict(${JSON.stringify(name)}, {${entries}}${optional.length > 0 ? ', total=False' : ''})`;
+    }
+
+    const body = (group: Field[]) =>
+      group.flatMap(({ key, type, doc: fieldDoc }) => [
+        ...(fieldDoc ? [`    # ${fieldDoc}`] : []),
+        `    ${key}: ${type}`,
+      ]);
+
+    if (optional.length === 0) {
+      return [`class ${name}(TypedDict):`, ...docstring, ...body(fields)].join(
+        '\n'
+      );
+    }
+    if (optional.length === fields.length) {
+      return [
+        `class ${name}(TypedDict, total=False):`,
+        ...docstring,
+        ...body(fields),
+      ].join('\n');
+    }
+
+    // Required keys go in a base class, as total=False applies to a whole class
+    const base = this.reserveName(`_${name}Required`);
+    return [
+      `class ${base}(TypedDict):`,
+      ...body(fields.filter((field) => !field.optional)),
+      '',
+      '',
+      `class ${name}(${base}, total=False):`,
+      ...docstring,
+      ...body(optional),
+    ].join('\n');
+  }
+}
@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { URL } from 'url';
+import { z } from 'zod';
+import {
+  MCPTransport,
+  ReconnectOptions,
+  SSETransport,
+  StdioTransport,
+  StreamableHTTPTransport,
+} from './transports';
+
+/**
+ * One entry of `.claude/.mcp.json`, as written by `mcp:add`
+ *
+ * Entries without a `type` are stdio servers; `http` selects Streamable
+ * HTTP and `sse` the legacy HTTP+SSE transport.
+ */
+export const MCPServerConfigSchema = z.union([
+  z.object({
+    type: z.literal('stdio').optional(),
+    command: z.string().min(1),
+    args: z.array(z.string()).default([]),
+    env: z.record(z.string()).optional(),
+  }),
+  z.object({
+    type: z.enum(['http', 'sse']),
+    url: z
+      .string()
+      .url()
+      .refine((url) => /^https?:$/.test(new URL(url).protocol), {
+        message: 'Must be an http(s) URL',
+      }),
+    headers: z.record(z.string()).optional(),
+  }),
+]);
+
+export const MCPServersConfigSchema = z.object({
+  mcpServers: z.record(MCPServerConfigSchema),
+});
+
+export type MCPServerConfig = z.infer<typeof MCPServerConfigSchema>;
+export type MCPServersConfig = z.infer<typeof MCPServersConfigSchema>;
+
+/**
+ * Validate a parsed `.mcp.json`
+ *
+ * @throws {Error} Listing every invalid field
+ */
+export function parseMCPServersConfig(
+  data: unknown,
+  source = '.mcp.json'
+): MCPServersConfig {
+  const result = MCPServersConfigSchema.safeParse(data);
+
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid MCP server config in ${source}: ${problems}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load the servers configured in `.claude/.mcp.json`
+ *
+ * @returns No servers when the file does not exist
+ * @throws {Error} If the file cannot be parsed or is invalid
+ */
+export async function loadMCPServers(
+  configPath: string = path.join(process.cwd(), '.claude', '.mcp.json')
+): Promise<Record<string, MCPServerConfig>> {
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Cannot parse MCP server config ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return parseMCPServersConfig(data, configPath).mcpServers;
+}
+
+/**
+ * Create the transport a server entry selects
+ */
+export function createTransport(
+  config: MCPServerConfig,
+  options: { reconnect?: ReconnectOptions } = {}
+): MCPTransport {
+  switch (config.type) {
+    case 'http':
+      return new StreamableHTTPTransport(config.url, {
+        headers: config.headers,
+        reconnect: options.reconnect,
+      });
+    case 'sse':
+      return new SSETransport(config.url, {
+        headers: config.headers,
+        reconnect: options.reconnect,
+      });
+    default:
+      return new StdioTransport(config.command, config.args, config.env);
+  }
+}
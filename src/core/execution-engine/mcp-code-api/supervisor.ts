@@ -0,0 +1,329 @@
+import { EventEmitter } from 'events';
+import type { MCPToolSchema } from '../types';
+import type { RealMCPClient } from './mcp-client';
+import { backoffDelay } from './transports';
+
+export type MCPServerState =
+  'connecting' | 'healthy' | 'degraded' | 'restarting' | 'failed' | 'stopped';
+
+export interface SupervisorOptions {
+  /** Restart servers that crash or stop answering (default: true) */
+  restart?: boolean;
+  /** Restarts allowed within `crashWindow` before giving up (default: 5) */
+  maxRestarts?: number;
+  /** Window of the crash-loop limit in ms (default: 60000) */
+  crashWindow?: number;
+  /** Delay before the first restart in ms, doubled after each (default: 1000) */
+  initialDelay?: number;
+  /** Upper bound for the restart delay in ms (default: 30000) */
+  maxDelay?: number;
+  /** Ping interval in ms; 0 disables pings (default: 30000) */
+  pingInterval?: number;
+  /** Time a ping may take in ms (default: 5000) */
+  pingTimeout?: number;
+  /** Failed pings in a row before the server is restarted (default: 3) */
+  maxPingFailures?: number;
+}
+
+/**
+ * Health of one supervised server
+ */
+export interface MCPServerHealth {
+  name: string;
+  state: MCPServerState;
+  tools: number;
+  restarts: number;
+  calls: number;
+  errors: number;
+  /** Round trip of the last successful ping */
+  latencyMs?: number;
+  /** Mean round trip of all successful pings */
+  averageLatencyMs?: number;
+  lastPingAt?: Date;
+  connectedAt?: Date;
+  lastError?: string;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Keeps one MCP server connected
+ *
+ * In-flight requests of a server that exits are rejected by its client;
+ * the supervisor then connects a new client with exponential backoff. More
+ * than `maxRestarts` crashes within `crashWindow` mark the server failed.
+ * Servers are pinged periodically, and one that misses `maxPingFailures`
+ * pings in a row is restarted as well.
+ *
+ * Events: `client` (each new client, before it connects), `restarted`,
+ * `failed` (error).
+ */
+export class MCPServerSupervisor extends EventEmitter {
+  readonly name: string;
+  private createClient: () => RealMCPClient;
+  private options: SupervisorOptions;
+  private current: RealMCPClient | null = null;
+  private tools: string[] = [];
+  private state: MCPServerState = 'stopped';
+  private crashes: number[] = [];
+  private restarting: Promise<void> | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private pinging = false;
+  private pingFailures = 0;
+  private stats = { restarts: 0, calls: 0, errors: 0, pings: 0, pingMs: 0 };
+  private latencyMs?: number;
+  private lastPingAt?: Date;
+  private connectedAt?: Date;
+  private lastError?: string;
+
+  constructor(
+    name: string,
+    createClient: () => RealMCPClient,
+    options: SupervisorOptions = {}
+  ) {
+    super();
+    this.name = name;
+    this.createClient = createClient;
+    this.options = options;
+  }
+
+  /**
+   * Client of the current connection
+   */
+  get client(): RealMCPClient | null {
+    return this.current;
+  }
+
+  /**
+   * Tools of the last listing, also while the server restarts
+   */
+  getToolNames(): string[] {
+    return this.tools;
+  }
+
+  /**
+   * Connect for the first time and start pinging
+   *
+   * @throws {Error} If the server cannot be reached; it is not restarted
+   */
+  async start(): Promise<void> {
+    this.state = 'connecting';
+    try {
+      await this.connect();
+    } catch (error) {
+      this.state = 'failed';
+      this.lastError = errorMessage(error);
+      throw error;
+    }
+
+    const interval = this.options.pingInterval ?? 30000;
+    if (interval > 0) {
+      this.pingTimer = setInterval(() => void this.ping(), interval);
+      this.pingTimer.unref();
+    }
+  }
+
+  /**
+   * Client to send a request with, waiting for a restart in progress
+   *
+   * @throws {Error} If the server failed or was stopped
+   */
+  async ready(): Promise<RealMCPClient> {
+    if (this.restarting) await this.restarting;
+    if (
+      this.current &&
+      (this.state === 'healthy' || this.state === 'degraded')
+    ) {
+      return this.current;
+    }
+    throw new Error(
+      `MCP server ${this.name} is ${this.state}${this.lastError ? `: ${this.lastError}` : ''}`
+    );
+  }
+
+  /**
+   * Count a request in the server's stats
+   */
+  async track<T>(request: Promise<T>): Promise<T> {
+    this.stats.calls++;
+    try {
+      return await request;
+    } catch (error) {
+      this.stats.errors++;
+      this.lastError = errorMessage(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ping the server and record the round trip
+   */
+  async ping(): Promise<void> {
+    const client = this.current;
+    if (
+      !client ||
+      this.pinging ||
+      (this.state !== 'healthy' && this.state !== 'degraded')
+    ) {
+      return;
+    }
+
+    this.pinging = true;
+    try {
+      const latency = await client.ping({
+        timeout: this.options.pingTimeout ?? 5000,
+      });
+      this.latencyMs = latency;
+      this.stats.pings++;
+      this.stats.pingMs += latency;
+      this.pingFailures = 0;
+      this.state = 'healthy';
+    } catch (error) {
+      this.pingFailures++;
+      this.lastError = `ping failed: ${errorMessage(error)}`;
+      this.state = 'degraded';
+
+      if (
+        client === this.current &&
+        this.pingFailures >= (this.options.maxPingFailures ?? 3)
+      ) {
+        // A server that stopped answering is as good as crashed
+        this.current = null;
+        this.state = 'restarting';
+        await client.disconnect();
+        this.restart();
+      }
+    } finally {
+      this.lastPingAt = new Date();
+      this.pinging = false;
+    }
+  }
+
+  /**
+   * Disconnect for good
+   */
+  async stop(): Promise<void> {
+    this.state = 'stopped';
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+
+    const client = this.current;
+    this.current = null;
+    await client?.disconnect();
+  }
+
+  getHealth(): MCPServerHealth {
+    return {
+      name: this.name,
+      state: this.state,
+      tools: this.tools.length,
+      restarts: this.stats.restarts,
+      calls: this.stats.calls,
+      errors: this.stats.errors,
+      latencyMs: this.latencyMs,
+      averageLatencyMs:
+        this.stats.pings > 0
+          ? Math.round(this.stats.pingMs / this.stats.pings)
+          : undefined,
+      lastPingAt: this.lastPingAt,
+      connectedAt: this.connectedAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private async connect(): Promise<void> {
+    const client = this.createClient();
+    this.current = client;
+    client.on('disconnected', (error?: Error) => this.exited(client, error));
+    client.on('tools:changed', (tools: MCPToolSchema[]) => {
+      this.tools = tools.map((tool) => tool.name);
+    });
+    this.emit('client', client);
+
+    await client.connect();
+    this.connectedAt = new Date();
+    this.pingFailures = 0;
+    this.state = 'healthy';
+  }
+
+  /**
+   * Restart after an unexpected exit; requested disconnects carry no error
+   */
+  private exited(client: RealMCPClient, error?: Error): void {
+    if (
+      !error ||
+      client !== this.current ||
+      !['healthy', 'degraded'].includes(this.state)
+    ) {
+      return;
+    }
+    this.lastError = error.message;
+    this.current = null;
+    this.restart();
+  }
+
+  private restart(): void {
+    if (this.restarting) return;
+    this.restarting = this.restartLoop().finally(() => {
+      this.restarting = null;
+    });
+  }
+
+  private async restartLoop(): Promise<void> {
+    if (this.options.restart === false) {
+      this.fail(
+        new Error(`MCP server ${this.name} stopped: ${this.lastError}`)
+      );
+      return;
+    }
+
+    const maxRestarts = this.options.maxRestarts ?? 5;
+    const crashWindow = this.options.crashWindow ?? 60000;
+
+    for (;;) {
+      const now = Date.now();
+      this.crashes = this.crashes.filter((time) => now - time < crashWindow);
+      this.crashes.push(now);
+      if (this.crashes.length > maxRestarts) {
+        this.fail(
+          new Error(
+            `MCP server ${this.name} crashed ${this.crashes.length} times within ${crashWindow}ms: ${this.lastError}`
+          )
+        );
+        return;
+      }
+
+      this.state = 'restarting';
+      await sleep(
+        backoffDelay(this.crashes.length - 1, {
+          initialDelay: this.options.initialDelay ?? 1000,
+          maxDelay: this.options.maxDelay ?? 30000,
+        })
+      );
+      if (this.state !== 'restarting') return;
+
+      try {
+        await this.connect();
+        this.stats.restarts++;
+        console.log(`[MCP Pool] Restarted server: ${this.name}`);
+        this.emit('restarted');
+        return;
+      } catch (error) {
+        this.lastError = errorMessage(error);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.state = 'failed';
+    this.current = null;
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    console.error(`[MCP Pool] ${error.message}`);
+    this.emit('failed', error);
+  }
+}
@@ -0,0 +1,400 @@
+import { AuditLogger } from '../audit/logger';
+import { MCPToolSchema, ToolCallHandler } from '../types';
+
+/**
+ * Servers the bridge forwards calls to (`MCPClientPool` fits)
+ */
+export interface ToolBridgeTarget {
+  callTool(
+    toolName: string,
+    params: Record<string, unknown>,
+    options?: { signal?: globalThis.AbortSignal }
+  ): Promise<unknown>;
+}
+
+export type ToolBridgeErrorCode =
+  | 'tool_not_allowed'
+  | 'invalid_arguments'
+  | 'call_limit'
+  | 'timeout'
+  | 'tool_error';
+
+/**
+ * A tool call refused or failed on the host side of the bridge
+ * The code is passed back to the sandboxed client.
+ */
+export class ToolBridgeError extends Error {
+  public readonly code: ToolBridgeErrorCode;
+
+  constructor(message: string, code: ToolBridgeErrorCode) {
+    super(message);
+    this.name = 'ToolBridgeError';
+    this.code = code;
+  }
+}
+
+export interface ToolBridgeOptions {
+  /** Schema of a tool by name; arguments are validated against it */
+  schemas: (toolName: string) => MCPToolSchema | undefined;
+  auditLogger?: AuditLogger;
+  /** Per-call timeout in ms (default: 30000) */
+  timeout?: number;
+  /** Calls one execution may make (default: 100) */
+  maxCalls?: number;
+}
+
+/**
+ * What one execution may do through the bridge
+ */
+export interface ToolBridgeScope {
+  /** Tools the generated code was built for; everything else is refused */
+  tools: string[];
+  workspaceId?: string;
+  /** Runs before forwarding, e.g. to restore tokenized PII and report the call */
+  prepareArguments?: (
+    toolName: string,
+    args: Record<string, unknown>
+  ) => Record<string, unknown>;
+  /** Runs after each forwarded call (not refused ones) with its outcome */
+  onResult?: (toolName: string, success: boolean, durationMs: number) => void;
+}
+
+/**
+ * Host side of the sandbox tool bridge
+ *
+ * Sandboxed code never talks to MCP servers itself: its client stub sends
+ * each call over the sandbox's IPC channel, and the bridge checks it against
+ * the execution's tool allowlist and the tool's input schema before
+ * forwarding it. Every call, refused or not, is audit-logged with argument
+ * names only.
+ */
+export class ToolBridge {
+  private target: ToolBridgeTarget;
+  private options: ToolBridgeOptions;
+  private stats = { calls: 0, refused: 0, failed: 0 };
+
+  constructor(target: ToolBridgeTarget, options: ToolBridgeOptions) {
+    this.target = target;
+    this.options = options;
+  }
+
+  /**
+   * Handler for one execution, limited to its tools
+   */
+  open(scope: ToolBridgeScope): ToolCallHandler {
+    let calls = 0;
+    return {
+      handle: (toolName, args) => this.call(scope, toolName, args, ++calls),
+    };
+  }
+
+  private async call(
+    scope: ToolBridgeScope,
+    toolName: string,
+    args: unknown,
+    callNumber: number
+  ): Promise<unknown> {
+    const metadata = {
+      tool: toolName,
+      workspaceId: scope.workspaceId,
+      argumentNames:
+        args !== null && typeof args === 'object' && !Array.isArray(args)
+          ? Object.keys(args)
+          : [],
+    };
+
+    const refusal = this.check(scope, toolName, args, callNumber);
+    if (refusal) {
+      this.stats.refused++;
+      await this.options.auditLogger?.logSecurity(
+        'warning',
+        `Tool call refused: ${refusal.message}`,
+        { ...metadata, code: refusal.code }
+      );
+      throw refusal;
+    }
+
+    const startTime = Date.now();
+    const controller = new globalThis.AbortController();
+    try {
+      const params = args as Record<string, unknown>;
+      const result = await this.withTimeout(
+        this.target.callTool(
+          toolName,
+          scope.prepareArguments?.(toolName, params) ?? params,
+          { signal: controller.signal }
+        ),
+        toolName,
+        controller
+      );
+      this.stats.calls++;
+      scope.onResult?.(toolName, true, Date.now() - startTime);
+      await this.options.auditLogger?.log(
+        'execution',
+        'info',
+        `Tool call ${toolName} completed`,
+        { ...metadata, durationMs: Date.now() - startTime }
+      );
+      return result;
+    } catch (error) {
+      this.stats.failed++;
+      scope.onResult?.(toolName, false, Date.now() - startTime);
+      const message = error instanceof Error ? error.message : String(error);
+      await this.options.auditLogger?.log(
+        'execution',
+        'warning',
+        `Tool call ${toolName} failed`,
+        { ...metadata, durationMs: Date.now() - startTime, error: message }
+      );
+      throw error instanceof ToolBridgeError
+        ? error
+        : new ToolBridgeError(message, 'tool_error');
+    }
+  }
+
+  /**
+   * Reason to refuse a call, if any
+   */
+  private check(
+    scope: ToolBridgeScope,
+    toolName: string,
+    args: unknown,
+    callNumber: number
+  ): ToolBridgeError | null {
+    const maxCalls = this.options.maxCalls ?? 100;
+    if (callNumber > maxCalls) {
+      return new ToolBridgeError(
+        `more than ${maxCalls} tool calls in one execution`,
+        'call_limit'
+      );
+    }
+
+    const schema = scope.tools.includes(toolName)
+      ? this.options.schemas(toolName)
+      : undefined;
+    if (!schema) {
+      return new ToolBridgeError(
+        `${toolName} is not allowed for this execution`,
+        'tool_not_allowed'
+      );
+    }
+
+    const problems = validateToolArguments(schema, args);
+    if (problems.length > 0) {
+      return new ToolBridgeError(
+        `invalid arguments for ${toolName}: ${problems.join('; ')}`,
+        'invalid_arguments'
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Race a call against the timeout; a late call is aborted
+   */
+  private async withTimeout<T>(
+    call: Promise<T>,
+    toolName: string,
+    controller: globalThis.AbortController
+  ): Promise<T> {
+    const timeout = this.options.timeout ?? 30000;
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        call,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            controller.abort();
+            reject(
+              new ToolBridgeError(
+                `${toolName} did not answer within ${timeout}ms`,
+                'timeout'
+              )
+            );
+          }, timeout);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Get statistics
+   */
+  getStats(): { calls: number; refused: number; failed: number } {
+    return { ...this.stats };
+  }
+}
+
+/**
+ * JSON Schema keywords the bridge enforces
+ */
+export interface JSONSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * Check call arguments against a tool's `inputSchema`, or its `parameters`
+ * when it has none
+ *
+ * @returns One message per problem; empty when the arguments are valid
+ */
+export function validateToolArguments(
+  schema: MCPToolSchema,
+  args: unknown
+): string[] {
+  const problems: string[] = [];
+  validateValue(toolArgumentsSchema(schema), args, 'args', problems);
+  return problems;
+}
+
+/**
+ * Schema of a tool's arguments: its `inputSchema`, or the object schema
+ * equivalent to its `parameters` when it has none
+ */
+export function toolArgumentsSchema(schema: MCPToolSchema): JSONSchema {
+  return (
+    (schema.inputSchema as JSONSchema | undefined) ??
+    parametersSchema(schema.parameters ?? [])
+  );
+}
+
+/**
+ * Object schema equivalent to a parameter list
+ */
+function parametersSchema(parameters: MCPToolSchema['parameters']): JSONSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      (parameters ?? []).map((parameter) => [
+        parameter.name,
+        { type: parameter.type },
+      ])
+    ),
+    required: (parameters ?? [])
+      .filter((parameter) => parameter.required)
+      .map((parameter) => parameter.name),
+    additionalProperties: false,
+  };
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+    case 'boolean':
+    case 'object':
+    case 'array':
+    case 'null':
+      return typeOf(value) === type;
+    default:
+      // Types JSON Schema does not define (e.g. "any") are not checked
+      return true;
+  }
+}
+
+function validateValue(
+  schema: JSONSchema,
+  value: unknown,
+  path: string,
+  problems: string[]
+): void {
+  const types =
+    schema.type === undefined
+      ? []
+      : Array.isArray(schema.type)
+        ? schema.type
+        : [schema.type];
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    problems.push(
+      `${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`
+    );
+    return;
+  }
+
+  if (
+    schema.enum &&
+    !schema.enum.some(
+      (option) => JSON.stringify(option) === JSON.stringify(value)
+    )
+  ) {
+    problems.push(
+      `${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`
+    );
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      problems.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      problems.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      problems.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      problems.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item, i) =>
+      validateValue(items, item, `${path}[${i}]`, problems)
+    );
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) {
+        problems.push(`${path}.${name}: is required`);
+      }
+    }
+
+    for (const [name, item] of Object.entries(object)) {
+      // Optional arguments are passed as null by the Python wrappers
+      if (item === null && !schema.required?.includes(name)) continue;
+
+      const property = properties[name];
+      if (property) {
+        validateValue(property, item, `${path}.${name}`, problems);
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${path}.${name}: is not a parameter`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateValue(
+          schema.additionalProperties,
+          item,
+          `${path}.${name}`,
+          problems
+        );
+      }
+    }
+  }
+}
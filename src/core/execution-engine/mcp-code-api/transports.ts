@@ -0,0 +1,738 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { spawn, ChildProcess } from 'child_process';
+import { URL } from 'url';
+import { TextDecoder } from 'util';
+
+/**
+ * JSON-RPC 2.0 request, response or notification
+ */
+export interface JSONRPCMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface TransportSendOptions {
+  /** Aborts the underlying HTTP request, if any */
+  signal?: globalThis.AbortSignal;
+}
+
+/**
+ * MCP protocol revisions the client speaks, newest first
+ */
+export const MCP_PROTOCOL_VERSIONS: readonly string[] = [
+  '2025-03-26',
+  '2024-11-05',
+];
+
+type MessageHandler = (message: JSONRPCMessage) => void;
+type CloseHandler = (error?: Error) => void;
+
+/**
+ * Moves JSON-RPC messages between `RealMCPClient` and one MCP server
+ */
+export interface MCPTransport {
+  /** Called for every message the server sends */
+  onmessage?: MessageHandler;
+  /** Called once the connection is gone, with an error unless close() was called */
+  onclose?: CloseHandler;
+  /** Session assigned by the server, for transports that have one */
+  readonly sessionId?: string;
+  /** Protocol revisions this transport is defined in, newest first */
+  readonly protocolVersions: readonly string[];
+  start(): Promise<void>;
+  send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface ReconnectOptions {
+  /** Attempts before giving up (default: 5) */
+  maxRetries?: number;
+  /** Delay before the first attempt in ms, doubled after each (default: 500) */
+  initialDelay?: number;
+  /** Upper bound for the delay in ms (default: 10000) */
+  maxDelay?: number;
+}
+
+export interface HTTPTransportOptions {
+  /** Sent with every request, e.g. `Authorization` */
+  headers?: Record<string, string>;
+  reconnect?: ReconnectOptions;
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based)
+ */
+export function backoffDelay(
+  attempt: number,
+  options: ReconnectOptions = {}
+): number {
+  const initialDelay = options.initialDelay ?? 500;
+  return Math.min(initialDelay * 2 ** attempt, options.maxDelay ?? 10000);
+}
+
+/**
+ * Causes of a failed fetch that never reached the server
+ */
+const CONNECT_ERRORS = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+const failedToConnect = (error: unknown) => {
+  const code = (error as { cause?: { code?: unknown } } | null)?.cause?.code;
+  return typeof code === 'string' && CONNECT_ERRORS.has(code);
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Spawns the server and exchanges newline-delimited JSON over its stdio
+ */
+export class StdioTransport implements MCPTransport {
+  onmessage?: MessageHandler;
+  onclose?: CloseHandler;
+  readonly protocolVersions = MCP_PROTOCOL_VERSIONS;
+
+  private command: string;
+  private args: string[];
+  private env?: Record<string, string>;
+  private process: ChildProcess | null = null;
+  private buffer = '';
+
+  constructor(
+    command: string,
+    args: string[] = [],
+    env?: Record<string, string>
+  ) {
+    this.command = command;
+    this.args = args;
+    this.env = env;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, this.args, {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: this.env ? { ...process.env, ...this.env } : process.env,
+      });
+      this.process = child;
+
+      child.stdout?.setEncoding('utf-8');
+      child.stdout?.on('data', (chunk: string) => this.receive(chunk));
+
+      // Handle stderr (logs)
+      child.stderr?.on('data', (data) => {
+        console.error('[MCP Server]', data.toString());
+      });
+
+      let spawned = false;
+      let ended = false;
+      // Reported once, whether the process errors, exits or both
+      const end = (error: Error) => {
+        if (ended) return;
+        ended = true;
+        // close() lets go of the process first; any other end is a crash
+        if (this.process !== child) {
+          this.onclose?.();
+          return;
+        }
+        this.process = null;
+        this.onclose?.(error);
+      };
+
+      // Errors after the spawn (a failed kill, a write to a server that
+      // died) end the connection instead of crashing the host
+      const fail = (error: Error) => {
+        console.error('[MCP Server] Error:', error);
+        if (!spawned) {
+          ended = true;
+          this.process = null;
+          reject(error);
+          return;
+        }
+        end(error);
+        if (child.exitCode === null && child.signalCode === null) {
+          child.kill('SIGTERM');
+        }
+      };
+
+      child.once('spawn', () => {
+        spawned = true;
+        resolve();
+      });
+      child.on('error', fail);
+      child.stdin?.on('error', fail);
+
+      child.on('exit', (code, signal) => {
+        console.log(`[MCP Server] Exited with code ${code}`);
+        end(
+          new Error(
+            code !== null
+              ? `MCP server exited with code ${code}`
+              : `MCP server killed by ${signal}`
+          )
+        );
+      });
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.process || !this.process.stdin) {
+      throw new Error('MCP Server process not available');
+    }
+    this.process.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  async close(): Promise<void> {
+    if (this.process && !this.process.killed) {
+      this.process.kill('SIGTERM');
+    }
+    this.process = null;
+    this.buffer = '';
+  }
+
+  /**
+   * Split stdout into lines; a message may span several chunks
+   */
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) dispatch(line, this.onmessage);
+    }
+  }
+}
+
+/**
+ * Legacy HTTP+SSE transport (protocol 2024-11-05)
+ *
+ * The server streams messages on a long-lived GET; its first `endpoint`
+ * event names the URL messages are POSTed to. A dropped stream is reopened
+ * with exponential backoff, and sends wait for it.
+ */
+export class SSETransport implements MCPTransport {
+  onmessage?: MessageHandler;
+  onclose?: CloseHandler;
+  readonly protocolVersions = ['2024-11-05'];
+
+  private url: URL;
+  private options: HTTPTransportOptions;
+  private endpoint: URL | null = null;
+  private controller: globalThis.AbortController | null = null;
+  private reconnecting: Promise<void> | null = null;
+  private lastEventId?: string;
+  private closed = false;
+
+  constructor(url: string | URL, options: HTTPTransportOptions = {}) {
+    this.url = new URL(url);
+    this.options = options;
+  }
+
+  get sessionId(): string | undefined {
+    return this.endpoint?.searchParams.get('sessionId') ?? undefined;
+  }
+
+  async start(): Promise<void> {
+    this.closed = false;
+    await this.open();
+  }
+
+  async send(
+    message: JSONRPCMessage,
+    options: TransportSendOptions = {}
+  ): Promise<void> {
+    if (this.reconnecting) await this.reconnecting;
+    if (!this.endpoint) {
+      throw new Error(`SSE stream ${this.url} is not connected`);
+    }
+
+    const response = await globalThis.fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        ...this.options.headers,
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify(message),
+      signal: options.signal,
+    });
+    await response.body?.cancel();
+
+    if (!response.ok) {
+      throw new Error(`POST ${this.endpoint} answered HTTP ${response.status}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.controller?.abort();
+    this.controller = null;
+    this.endpoint = null;
+    this.onclose?.();
+  }
+
+  /**
+   * Open the event stream and wait for its endpoint
+   */
+  private async open(): Promise<void> {
+    const controller = new globalThis.AbortController();
+    this.controller = controller;
+
+    const response = await globalThis.fetch(this.url, {
+      headers: {
+        ...this.options.headers,
+        accept: 'text/event-stream',
+        ...(this.lastEventId ? { 'last-event-id': this.lastEventId } : {}),
+      },
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
+      throw new Error(
+        `SSE stream ${this.url} answered HTTP ${response.status}`
+      );
+    }
+    const body = response.body;
+
+    await new Promise<void>((resolve, reject) => {
+      let connected = false;
+      const ready = () => {
+        connected = true;
+        resolve();
+      };
+      // Only a stream that got as far as its endpoint is reconnected
+      this.listen(body, ready).then(
+        () =>
+          connected
+            ? this.dropped(new Error('stream ended'))
+            : reject(new Error(`SSE stream ${this.url} sent no endpoint`)),
+        (error) => (connected ? this.dropped(error) : reject(error))
+      );
+    });
+  }
+
+  private async listen(
+    body: globalThis.ReadableStream<Uint8Array>,
+    ready: () => void
+  ): Promise<void> {
+    for await (const event of readEventStream(body)) {
+      if (event.id !== undefined) this.lastEventId = event.id;
+      if (event.event === 'endpoint') {
+        this.endpoint = new URL(event.data, this.url);
+        ready();
+      } else if (event.event === 'message') {
+        dispatch(event.data, this.onmessage);
+      }
+    }
+  }
+
+  private dropped(error: unknown): void {
+    if (this.closed || this.reconnecting) return;
+    this.endpoint = null;
+    this.reconnecting = this.reconnect(error).finally(() => {
+      this.reconnecting = null;
+    });
+  }
+
+  private async reconnect(error: unknown): Promise<void> {
+    const options = this.options.reconnect ?? {};
+    const maxRetries = options.maxRetries ?? 5;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      await sleep(backoffDelay(attempt, options));
+      if (this.closed) return;
+      try {
+        await this.open();
+        return;
+      } catch (reason) {
+        error = reason;
+      }
+    }
+
+    this.closed = true;
+    this.onclose?.(
+      new Error(`Lost SSE stream ${this.url}: ${errorMessage(error)}`)
+    );
+  }
+}
+
+/**
+ * Streamable HTTP transport (protocol 2025-03-26)
+ *
+ * Every message is POSTed to one endpoint, which answers with JSON or an
+ * event stream. The `Mcp-Session-Id` the server assigns on initialize is
+ * sent with every later request and ended with a DELETE on close. Requests
+ * that fail to connect are retried with backoff, but never a POST that may
+ * have reached the server, and a dropped event stream is resumed with
+ * `Last-Event-ID`. After initialize, a standalone GET stream
+ * carries server-initiated messages when the server offers one.
+ */
+export class StreamableHTTPTransport implements MCPTransport {
+  onmessage?: MessageHandler;
+  onclose?: CloseHandler;
+  readonly protocolVersions = ['2025-03-26'];
+
+  private url: URL;
+  private options: HTTPTransportOptions;
+  private session?: string;
+  private controller = new globalThis.AbortController();
+  private closed = false;
+
+  constructor(url: string | URL, options: HTTPTransportOptions = {}) {
+    this.url = new URL(url);
+    this.options = options;
+  }
+
+  get sessionId(): string | undefined {
+    return this.session;
+  }
+
+  async start(): Promise<void> {
+    // The session starts with the initialize request
+    if (this.closed) {
+      this.closed = false;
+      this.controller = new globalThis.AbortController();
+    }
+  }
+
+  async send(
+    message: JSONRPCMessage,
+    options: TransportSendOptions = {}
+  ): Promise<void> {
+    const sentSession = this.session;
+    // Linked for as long as the response is read, then detached again
+    const linked = linkSignals(this.controller.signal, options.signal);
+    let streaming = false;
+
+    try {
+      const response = await this.request(
+        'POST',
+        {
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+        },
+        linked.signal,
+        JSON.stringify(message)
+      );
+
+      const session = response.headers.get('mcp-session-id');
+      if (session) this.session = session;
+
+      if (response.status === 404 && sentSession) {
+        await response.body?.cancel();
+        this.session = undefined;
+        throw new Error(`MCP session ${sentSession} expired`);
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new Error(`POST ${this.url} answered HTTP ${response.status}`);
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      const initialized = () => {
+        if (message.method === 'initialize') void this.listen();
+      };
+
+      if (response.status === 202) {
+        // Accepted notification or response; nothing to read
+        await response.body?.cancel();
+      } else if (response.body && contentType.includes('text/event-stream')) {
+        // Answers arrive on the stream; the send itself is done
+        streaming = true;
+        void this.consume(response, message.id, linked.signal)
+          .finally(linked.unlink)
+          .then(initialized);
+      } else if (contentType.includes('application/json')) {
+        const data = await response.json();
+        for (const item of Array.isArray(data) ? data : [data]) {
+          this.onmessage?.(item);
+        }
+        initialized();
+      } else {
+        await response.body?.cancel();
+      }
+    } finally {
+      if (!streaming) linked.unlink();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.controller.abort();
+
+    if (this.session) {
+      // Servers that do not allow ending sessions answer 405
+      try {
+        const response = await globalThis.fetch(this.url, {
+          method: 'DELETE',
+          headers: { ...this.options.headers, 'mcp-session-id': this.session },
+          signal: globalThis.AbortSignal.timeout(5000),
+        });
+        await response.body?.cancel();
+      } catch {
+        // The server is gone already
+      }
+      this.session = undefined;
+    }
+
+    this.onclose?.();
+  }
+
+  /**
+   * Send one HTTP request, retrying with backoff while it cannot connect
+   * A GET is retried after any failure; a POST only when it never reached
+   * the server, since the server may be running a tool call already.
+   *
+   * @param signal - Aborts the request (default: closing the transport)
+   */
+  private async request(
+    method: 'GET' | 'POST',
+    headers: Record<string, string>,
+    signal: globalThis.AbortSignal = this.controller.signal,
+    body?: string
+  ): Promise<globalThis.Response> {
+    const options = this.options.reconnect ?? {};
+    const maxRetries = options.maxRetries ?? 5;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await globalThis.fetch(this.url, {
+          method,
+          headers: {
+            ...this.options.headers,
+            ...(this.session ? { 'mcp-session-id': this.session } : {}),
+            ...headers,
+          },
+          body,
+          signal,
+        });
+      } catch (error) {
+        if (
+          signal.aborted ||
+          attempt >= maxRetries ||
+          (method === 'POST' && !failedToConnect(error))
+        ) {
+          throw error;
+        }
+      }
+      await sleep(backoffDelay(attempt, options));
+    }
+  }
+
+  /**
+   * Open the standalone stream for server-initiated messages
+   */
+  private async listen(): Promise<void> {
+    try {
+      const response = await this.request('GET', {
+        accept: 'text/event-stream',
+      });
+      if (response.status === 405 || !response.ok) {
+        // The server does not offer one
+        await response.body?.cancel();
+        return;
+      }
+      await this.consume(response);
+    } catch (error) {
+      if (!this.closed) {
+        console.error('[MCP Client] Event stream failed:', errorMessage(error));
+      }
+    }
+  }
+
+  /**
+   * Dispatch the messages of an event stream, resuming it when it drops
+   *
+   * A request's stream is done once its response arrived; the standalone
+   * stream (no request id) is kept open until the transport closes.
+   *
+   * @param signal - Request signal, already linked to closing the transport
+   */
+  private async consume(
+    response: globalThis.Response,
+    requestId?: JSONRPCMessage['id'],
+    signal?: globalThis.AbortSignal
+  ): Promise<void> {
+    const options = this.options.reconnect ?? {};
+    const maxRetries = options.maxRetries ?? 5;
+    let current: globalThis.Response | null = response;
+    let lastEventId: string | undefined;
+    let answered = false;
+    let attempt = 0;
+    let failure: unknown = new Error('stream ended');
+
+    for (;;) {
+      try {
+        const body = current
+          ? current.body
+          : await this.resume(lastEventId, signal);
+        current = null;
+
+        for await (const event of readEventStream(body)) {
+          attempt = 0;
+          if (event.id !== undefined) lastEventId = event.id;
+          if (event.event !== 'message' || !event.data) continue;
+          dispatch(event.data, (message) => {
+            if (
+              message.id === requestId &&
+              (message.result !== undefined || message.error !== undefined)
+            ) {
+              answered = true;
+            }
+            this.onmessage?.(message);
+          });
+        }
+      } catch (error) {
+        failure = error;
+      }
+
+      if (answered || this.closed || signal?.aborted) return;
+      // Without event ids, a request's stream cannot be resumed
+      if (
+        (requestId !== undefined && lastEventId === undefined) ||
+        attempt >= maxRetries
+      ) {
+        console.error('[MCP Client] Event stream lost:', errorMessage(failure));
+        return;
+      }
+      await sleep(backoffDelay(attempt++, options));
+    }
+  }
+
+  /**
+   * Reopen an event stream from the last event seen
+   */
+  private async resume(
+    lastEventId: string | undefined,
+    signal?: globalThis.AbortSignal
+  ): Promise<globalThis.ReadableStream<Uint8Array> | null> {
+    const response = await this.request(
+      'GET',
+      {
+        accept: 'text/event-stream',
+        ...(lastEventId ? { 'last-event-id': lastEventId } : {}),
+      },
+      signal
+    );
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`GET ${this.url} answered HTTP ${response.status}`);
+    }
+    return response.body;
+  }
+}
+
+/**
+ * Signal aborted when any of the given signals is
+ * `unlink` removes its listeners; the first signal outlives many requests,
+ * so every link must be undone once its request is done.
+ */
+function linkSignals(
+  signal: globalThis.AbortSignal,
+  other?: globalThis.AbortSignal
+): { signal: globalThis.AbortSignal; unlink: () => void } {
+  if (!other) return { signal, unlink: () => undefined };
+  const controller = new globalThis.AbortController();
+  const abort = () => controller.abort();
+  if (signal.aborted || other.aborted) abort();
+  signal.addEventListener('abort', abort, { once: true });
+  other.addEventListener('abort', abort, { once: true });
+  return {
+    signal: controller.signal,
+    unlink: () => {
+      signal.removeEventListener('abort', abort);
+      other.removeEventListener('abort', abort);
+    },
+  };
+}
+
+/**
+ * Parse one JSON-RPC payload (a message or a batch) and hand it on
+ */
+function dispatch(data: string, onmessage?: MessageHandler): void {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    console.error('[MCP Client] Failed to parse message:', data);
+    return;
+  }
+  for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+    onmessage?.(message as JSONRPCMessage);
+  }
+}
+
+/**
+ * One event of a `text/event-stream` body
+ */
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parse a `text/event-stream` body into events
+ */
+export async function* readEventStream(
+  body: globalThis.ReadableStream<Uint8Array> | null
+): AsyncGenerator<ServerSentEvent> {
+  if (!body) return;
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: { event?: string; data: string[]; id?: string } = { data: [] };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: RegExpExecArray | null;
+      while ((newline = /\r\n|\r|\n/.exec(buffer))) {
+        // A lone \r at the end may be the first half of \r\n
+        if (newline[0] === '\r' && newline.index === buffer.length - 1) break;
+        const line = buffer.slice(0, newline.index);
+        buffer = buffer.slice(newline.index + newline[0].length);
+
+        if (line === '') {
+          if (event.data.length > 0) {
+            yield {
+              event: event.event ?? 'message',
+              data: event.data.join('\n'),
+              id: event.id,
+            };
+          }
+          event = { data: [] };
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value =
+          colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') event.event = value;
+        else if (field === 'data') event.data.push(value);
+        else if (field === 'id') event.id = value;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -2,15 +2,79 @@ import { CodeAPIGenerator } from './mcp-code-api/generator';
 import { SandboxManager } from './sandbox/sandbox-manager';
 import { CodeValidator } from './security/code-validator';
 import { PIITokenizer } from './security/pii-tokenizer';
-import { RiskAssessor } from './security/risk-assessor';
+import { loadCustomPIIDetectors } from './security/pii-detectors';
+import { TokenVault } from './security/token-vault';
+import { loadSecurityPolicy } from './security/security-policy';
+import { RiskAssessor, RiskAssessment } from './security/risk-assessor';
 import { ApprovalGate } from './security/approval-gate';
+import {
+  PlanOutput,
+  applyPlanOutput,
+  parseExecutionPlan,
+  parsePlanOutput,
+} from './mcp-code-api/plan';
 import { ToolIndexer } from './discovery/tool-indexer';
+import { HybridToolSearch } from './discovery/hybrid-search';
+import type { EmbeddingProvider } from './discovery/embeddings';
+import type { ToolCallOutcome } from './discovery/discovery-feedback';
 import { WorkspaceManager } from './workspace/workspace-manager';
-import { CacheManager } from './workspace/cache-manager';
+import {
+  CacheManager,
+  CacheMode,
+  CacheScope,
+  loadCacheSettings,
+  toolCategories,
+} from './workspace/cache-manager';
 import { CleanupManager } from './workspace/cleanup-manager';
 import { AuditLogger } from './audit/logger';
 import { AnomalyDetector } from './audit/anomaly-detector';
-import { ExecutionResult, SandboxConfig } from './types';
+import { AlertManager, loadAlertSettings } from './audit/alerts';
+import { ToolBridge, ToolBridgeTarget } from './mcp-code-api/tool-bridge';
+import { MCPClientPool } from './mcp-code-api/mcp-client';
+import {
+  ExecutionEvent,
+  ExecutionEventListener,
+  ExecutionEventType,
+  ExecutionEvents,
+  TokenizedOutput,
+  attachConsoleReporter,
+} from './events';
+import {
+  AnomalyDetection,
+  CodeWrapper,
+  ExecutionPlan,
+  ExecutionResult,
+  MCPToolSchema,
+  SandboxConfig,
+  SandboxLanguage,
+} from './types';
+
+export interface ExecutionOrchestratorOptions {
+  /** Print progress to the console (default: true) */
+  console?: boolean;
+  /** How executions use the result cache (default: 'read-write') */
+  cache?: CacheMode;
+  /**
+   * Live MCP servers (e.g. an `MCPClientPool`) that tool calls from
+   * sandboxed code are forwarded to through the tool bridge. The tools of
+   * a pool are indexed, and re-indexed when a server's tool list changes.
+   */
+  mcpServers?: ToolBridgeTarget;
+  /**
+   * Embedding model for tool discovery (default: an offline hashing
+   * encoder). Its vectors persist in `.cache/discovery/`, next to the
+   * outcomes discovery learns from.
+   */
+  embeddings?: EmbeddingProvider;
+}
+
+/**
+ * Options for one execution
+ */
+export interface ExecuteOptions {
+  /** Event bus for this execution (default: a fork of the orchestrator's) */
+  events?: ExecutionEvents;
+}
 
 /**
  * Main orchestrator for MCP code execution
@@ -21,6 +85,7 @@ export class ExecutionOrchestrator {
   private sandboxManager: SandboxManager;
   private validator: CodeValidator;
   private tokenizer: PIITokenizer;
+  private tokenVault: TokenVault | null;
   private riskAssessor: RiskAssessor;
   private approvalGate: ApprovalGate;
   private toolIndexer: ToolIndexer;
@@ -29,25 +94,56 @@ export class ExecutionOrchestrator {
   private cleanupManager: CleanupManager;
   private auditLogger: AuditLogger;
   private anomalyDetector: AnomalyDetector;
+  private alertManager: AlertManager | null = null;
+  private toolBridge: ToolBridge | null = null;
+  private mcpServers?: ToolBridgeTarget;
+  private unwatchServers: (() => void) | null = null;
   private toolsDirectory?: string;
+  private embeddings?: EmbeddingProvider;
   private mcpOrchestrator?: import('./mcp-code-api/orchestrator').MCPOrchestrator;
+  private events: ExecutionEvents = new ExecutionEvents();
 
-  constructor(toolsDir?: string) {
+  constructor(toolsDir?: string, options: ExecutionOrchestratorOptions = {}) {
     this.toolsDirectory = toolsDir;
+    this.embeddings = options.embeddings;
+
+    // Console output is just one subscriber of the execution events
+    if (options.console !== false) {
+      attachConsoleReporter(this.events);
+    }
 
     // Initialize all components
     this.generator = new CodeAPIGenerator();
     this.sandboxManager = new SandboxManager();
     this.validator = new CodeValidator();
-    this.tokenizer = new PIITokenizer();
     this.riskAssessor = new RiskAssessor();
     this.approvalGate = new ApprovalGate();
     this.toolIndexer = new ToolIndexer();
     this.workspaceManager = new WorkspaceManager();
-    this.cacheManager = new CacheManager();
+    this.cacheManager = new CacheManager({ mode: options.cache });
     this.auditLogger = new AuditLogger();
+
+    // Reversible tokenization only when a vault key is configured
+    this.tokenVault = TokenVault.fromEnvironment({
+      auditLogger: this.auditLogger,
+    });
+    this.tokenizer = new PIITokenizer({
+      vault: this.tokenVault ?? undefined,
+      scope: `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    });
     this.anomalyDetector = new AnomalyDetector();
 
+    // Calls are checked against the schemas of the indexed tools
+    this.mcpServers = options.mcpServers;
+    if (options.mcpServers) {
+      this.toolBridge = new ToolBridge(options.mcpServers, {
+        schemas: (name) =>
+          this.mcpOrchestrator?.getToolSchema(name) ??
+          this.toolIndexer.getTool(name),
+        auditLogger: this.auditLogger,
+      });
+    }
+
     // Initialize cleanup manager
     this.cleanupManager = new CleanupManager(
       this.workspaceManager,
@@ -61,10 +157,51 @@ export class ExecutionOrchestrator {
   async initialize(): Promise<void> {
     console.log('🚀 Initializing MCP Execution Engine...\n');
 
+    // Load policy-as-code rules from .claude/ (an invalid policy fails closed)
+    const { policy, hash, source } = await loadSecurityPolicy();
+    this.validator.setPolicy(policy);
+    this.riskAssessor.setPolicy(policy);
+    this.sandboxManager.setPolicy(policy);
+    this.anomalyDetector.setPolicy(policy);
+    this.auditLogger.setPolicy({ version: policy.version, hash });
+    console.log(`✓ Security policy ${policy.version} (${hash})\n`);
+    await this.auditLogger.logSecurity('info', 'Security policy loaded', {
+      source: source ?? 'builtin',
+    });
+
+    // Register project-specific PII rules from .claude/config.json
+    const customDetectors = await loadCustomPIIDetectors();
+    for (const detector of customDetectors) {
+      this.tokenizer.getDetectors().register(detector);
+    }
+    if (customDetectors.length > 0) {
+      console.log(`✓ Loaded ${customDetectors.length} custom PII rules\n`);
+    }
+
+    // Alert sinks from .claude/settings.json
+    const alertSettings = await loadAlertSettings();
+    if (alertSettings && alertSettings.sinks.length > 0) {
+      this.alertManager = AlertManager.fromSettings(alertSettings);
+      this.auditLogger.setAlertManager(this.alertManager);
+      console.log(`✓ ${alertSettings.sinks.length} security alert sink(s)\n`);
+    }
+
+    // Result cache TTLs from .claude/settings.json
+    const cacheSettings = await loadCacheSettings();
+    if (cacheSettings) {
+      this.cacheManager.applySettings(cacheSettings);
+    }
+
+    // Per-tool and per-intent baselines from earlier runs
+    await this.anomalyDetector.load();
+
     // Index all MCP tools from directory using MCPOrchestrator
     if (this.toolsDirectory) {
       const { MCPOrchestrator } = await import('./mcp-code-api/orchestrator');
       this.mcpOrchestrator = new MCPOrchestrator(this.toolsDirectory);
+      this.mcpOrchestrator.setToolSearch(
+        HybridToolSearch.persistent(undefined, { embeddings: this.embeddings })
+      );
       await this.mcpOrchestrator.initialize();
 
       const stats = this.mcpOrchestrator.getStats();
@@ -73,6 +210,12 @@ export class ExecutionOrchestrator {
       await this.toolIndexer.initialize();
     }
 
+    if (this.mcpServers instanceof MCPClientPool && !this.unwatchServers) {
+      this.unwatchServers = this.mcpOrchestrator
+        ? this.mcpOrchestrator.watchServers(this.mcpServers)
+        : this.toolIndexer.watch(this.mcpServers);
+    }
+
     // Start auto-cleanup
     this.cleanupManager.startAutoCleanup(60); // Every hour
 
@@ -82,6 +225,43 @@ export class ExecutionOrchestrator {
     console.log('━'.repeat(60) + '\n');
   }
 
+  /**
+   * Subscribe to one type of execution event (all executions)
+   * @returns Function that removes the listener
+   */
+  on<T extends ExecutionEventType>(
+    type: T,
+    listener: ExecutionEventListener<T>
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /**
+   * Subscribe to every execution event (all executions)
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: ExecutionEventListener): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  /**
+   * Execute a request and iterate over its events as they happen
+   * The last event is `result`.
+   *
+   * @example
+   * for await (const event of orchestrator.executeStream('list issues')) {
+   *   if (event.type === 'stdout') process.stdout.write(event.data);
+   * }
+   */
+  executeStream(
+    userRequest: string,
+    language: SandboxLanguage = 'typescript'
+  ): AsyncGenerator<ExecutionEvent, void, undefined> {
+    return this.events.stream((events) =>
+      this.execute(userRequest, language, { events })
+    );
+  }
+
   /**
    * Execute user request with MCP tools
    *
@@ -94,180 +274,279 @@ export class ExecutionOrchestrator {
    */
   async execute(
     userRequest: string,
-    language: 'typescript' | 'python' = 'typescript'
+    language: SandboxLanguage = 'typescript',
+    options: ExecuteOptions = {}
+  ): Promise<ExecutionResult> {
+    const events = options.events ?? this.events.fork();
+    const result = await this.runExecution(userRequest, language, events);
+    events.emit({ type: 'result', result });
+    return result;
+  }
+
+  /**
+   * Phases 1-5 for a new request
+   */
+  private async runExecution(
+    userRequest: string,
+    language: SandboxLanguage,
+    events: ExecutionEvents
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
 
     try {
       // PHASE 1: DISCOVERY
-      console.log('Phase 1: Discovery - Finding relevant MCP tools...');
+      events.startPhase('discovery', 'Finding relevant MCP tools...');
 
-      // Use MCPOrchestrator if available (has better discovery)
-      if (this.mcpOrchestrator) {
-        // Delegate to MCPOrchestrator which has integrated discovery + execution
-        return await this.mcpOrchestrator.execute(userRequest, language);
-      }
-
-      // Fallback to manual tool indexing
-      const tools = this.toolIndexer.search(userRequest, 5);
+      // MCPOrchestrator only discovers (hybrid search over the tools
+      // directory); validation, approval and execution stay here
+      const tools = this.mcpOrchestrator
+        ? (await this.mcpOrchestrator.discoverTools(userRequest, 5)).map(
+            (tool) => tool.schema
+          )
+        : this.toolIndexer.search(userRequest, 5);
 
       await this.auditLogger.logDiscovery(userRequest, tools.length);
 
       if (tools.length === 0) {
+        events.endPhase('discovery');
         return this.createErrorResult(
           'No relevant MCP tools found for request'
         );
       }
 
-      console.log(`✓ Found ${tools.length} relevant tools\n`);
+      events.endPhase('discovery', `Found ${tools.length} relevant tools`);
 
       // PHASE 2: CODE GENERATION
-      console.log('Phase 2: Code Generation - Creating type-safe wrappers...');
-      const wrapper =
-        language === 'typescript'
-          ? await this.generator.generateTypeScript(tools)
-          : await this.generator.generatePython(tools);
-
-      console.log(
-        `✓ Generated ${wrapper.estimatedTokens} token code wrapper\n`
+      events.startPhase('generation', 'Creating type-safe wrappers...');
+      const wrapper = await this.generator.generate(tools, language);
+
+      events.endPhase(
+        'generation',
+        `Generated ${wrapper.estimatedTokens} token code wrapper`
       );
 
-      // Check cache
-      const cached = this.cacheManager.get(wrapper.code);
-      if (cached) {
-        console.log('✓ Using cached result\n');
-        return cached;
+      const calls: ToolCallOutcome[] = [];
+      const stopRecording = events.on('tool:result', ({ tool, success }) =>
+        calls.push({ tool, success })
+      );
+      let result: ExecutionResult;
+      try {
+        result = await this.validateAndRun(
+          wrapper,
+          tools,
+          userRequest,
+          language,
+          startTime,
+          events,
+          { intent: userRequest, tools, language }
+        );
+      } finally {
+        stopRecording();
       }
 
-      // PHASE 3: SECURITY VALIDATION
-      console.log('Phase 3: Security Validation - Analyzing code safety...');
-      const validation = await this.validator.validate(wrapper.code);
-      const riskAssessment = this.riskAssessor.assess(wrapper.code, validation);
+      // Only tools the code called say anything about discovery
+      await this.mcpOrchestrator?.recordToolCalls(userRequest, calls);
 
-      console.log(
-        `✓ Risk Score: ${riskAssessment.riskScore}/100 (${riskAssessment.riskLevel})\n`
+      return result;
+    } catch (error) {
+      await this.auditLogger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'execute'
       );
 
-      await this.auditLogger.logSecurity(
-        riskAssessment.riskLevel === 'critical' ? 'critical' : 'info',
-        `Code validation completed: ${riskAssessment.riskLevel} risk`,
-        { riskScore: riskAssessment.riskScore }
+      return this.createErrorResult(
+        error instanceof Error ? error.message : 'Unknown error'
       );
+    }
+  }
 
-      // Check if approval required
-      if (this.approvalGate.requiresApproval(riskAssessment, validation)) {
-        const approvalRequest = await this.approvalGate.requestApproval(
-          wrapper.code,
-          riskAssessment,
-          validation
-        );
+  /**
+   * Phases 3-5 for generated code
+   *
+   * @param cacheScope - Intent and tools of the code; enables the result cache
+   */
+  private async validateAndRun(
+    wrapper: CodeWrapper,
+    tools: MCPToolSchema[],
+    userRequest: string,
+    language: SandboxLanguage,
+    startTime: number,
+    events: ExecutionEvents,
+    cacheScope?: CacheScope
+  ): Promise<ExecutionResult> {
+    // PHASE 3: SECURITY VALIDATION
+    events.startPhase('validation', 'Analyzing code safety...');
+    const validation = await this.validator.validate(
+      wrapper.code,
+      wrapper.language
+    );
+    const riskAssessment = this.riskAssessor.assess(
+      wrapper.code,
+      validation,
+      tools.map((tool) => tool.name)
+    );
 
-        console.log('\n⚠️  APPROVAL REQUIRED\n');
-        console.log(this.approvalGate.formatRequest(approvalRequest));
+    events.endPhase(
+      'validation',
+      `Risk Score: ${riskAssessment.riskScore}/100 (${riskAssessment.riskLevel})`
+    );
 
-        return this.createErrorResult(
-          'Execution requires approval due to high risk score',
-          { approvalRequestId: approvalRequest.id }
-        );
-      }
+    await this.auditLogger.logSecurity(
+      riskAssessment.riskLevel === 'critical' ? 'critical' : 'info',
+      `Code validation completed: ${riskAssessment.riskLevel} risk`,
+      { riskScore: riskAssessment.riskScore }
+    );
 
-      // PHASE 4: SANDBOX EXECUTION
-      console.log(
-        'Phase 4: Sandbox Execution - Running in isolated environment...'
-      );
-      const workspace = await this.workspaceManager.createWorkspace(
+    // Check if approval required
+    if (this.approvalGate.requiresApproval(riskAssessment, validation)) {
+      const approvalRequest = await this.approvalGate.requestApproval(
         wrapper.code,
-        language
+        riskAssessment,
+        validation,
+        { language, userRequest, tools: tools.map((tool) => tool.name) }
       );
-      this.workspaceManager.updateStatus(workspace.id, 'running');
 
-      const sandboxConfig = this.getDefaultSandboxConfig();
-      const sandboxResult = await this.sandboxManager.execute(
-        wrapper.code,
-        language,
-        sandboxConfig
+      await this.auditLogger.logSecurity(
+        'warning',
+        'Execution held for approval',
+        {
+          approvalRequestId: approvalRequest.id,
+          codeHash: approvalRequest.codeHash,
+          riskScore: riskAssessment.riskScore,
+        }
       );
 
-      // Convert SandboxResult to ExecutionResult with required fields
-      const result: ExecutionResult = {
-        ...sandboxResult,
-        summary:
-          sandboxResult.summary ||
-          (sandboxResult.success
-            ? 'Execution completed successfully'
-            : 'Execution failed'),
-        metrics: sandboxResult.metrics || {
-          executionTime: 0,
-          memoryUsed: '0M',
-          tokensInSummary: 0,
-        },
-        piiTokenized: sandboxResult.piiTokenized ?? false,
-      };
-
-      this.workspaceManager.updateStatus(
-        workspace.id,
-        result.success ? 'completed' : 'failed',
-        result
+      events.log(
+        [
+          '\n⚠️  APPROVAL REQUIRED\n',
+          this.approvalGate.formatRequest(approvalRequest),
+          `Review with:  code-assistant-claude approval:show ${approvalRequest.id}`,
+          `Approve with: code-assistant-claude approval:approve ${approvalRequest.id} --hash <code hash> --reason "<why>"`,
+          `Then resume:  code-assistant-claude approval:resume ${approvalRequest.id}\n`,
+        ].join('\n'),
+        'warning'
       );
 
-      console.log(`✓ Execution ${result.success ? 'successful' : 'failed'}\n`);
+      return this.createErrorResult(
+        'Execution requires approval due to high risk score',
+        { approvalRequestId: approvalRequest.id }
+      );
+    }
 
-      // PHASE 5: RESULT PROCESSING
-      console.log(
-        'Phase 5: Result Processing - Tokenizing PII and summarizing...'
+    return await this.runValidatedCode(
+      wrapper.code,
+      language,
+      riskAssessment,
+      wrapper.estimatedTokens,
+      tools.map((tool) => tool.name),
+      startTime,
+      events,
+      cacheScope
+    );
+  }
+
+  /**
+   * Execute a multi-step plan in one sandbox run
+   *
+   * The generated code (tool wrappers plus plan runner) goes through the
+   * same validation, approval and sandbox phases as a single request.
+   * Intermediate results stay in the sandbox; the result carries the
+   * output step's value and a status per step.
+   */
+  async executePlan(
+    plan: ExecutionPlan,
+    language: SandboxLanguage = 'typescript',
+    options: ExecuteOptions = {}
+  ): Promise<ExecutionResult> {
+    const events = options.events ?? this.events.fork();
+    const result = await this.runPlan(plan, language, events);
+    events.emit({ type: 'result', result });
+    return result;
+  }
+
+  /**
+   * Execute a plan and iterate over its events as they happen
+   * The last event is `result`.
+   */
+  executePlanStream(
+    plan: ExecutionPlan,
+    language: SandboxLanguage = 'typescript'
+  ): AsyncGenerator<ExecutionEvent, void, undefined> {
+    return this.events.stream((events) =>
+      this.executePlan(plan, language, { events })
+    );
+  }
+
+  /**
+   * Phases 2-5 for an execution plan
+   */
+  private async runPlan(
+    plan: ExecutionPlan,
+    language: SandboxLanguage,
+    events: ExecutionEvents
+  ): Promise<ExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      const indexed =
+        this.mcpOrchestrator?.getTools() ?? this.toolIndexer.getAllTools();
+      const validated = parseExecutionPlan(
+        plan,
+        indexed.map((tool) => tool.name)
+      );
+      const tools = indexed.filter((tool) =>
+        validated.steps.some((step) => step.tool === tool.name)
       );
 
-      // Tokenize PII in output
-      if (
-        result.output &&
-        this.tokenizer.containsPII(JSON.stringify(result.output))
-      ) {
-        result.output = this.tokenizer.tokenize(JSON.stringify(result.output));
-        if (result.summary) {
-          result.summary = this.tokenizer.tokenize(result.summary);
-        }
-        result.piiTokenized = true;
-        console.log('✓ PII tokenized in results\n');
-      }
+      await this.auditLogger.logDiscovery(validated.intent, tools.length, {
+        planSteps: validated.steps.length,
+      });
 
-      // Detect anomalies
-      const memoryBytes = result.metrics
-        ? this.parseMemory(result.metrics.memoryUsed)
-        : 0;
-      const executionTime = result.metrics?.executionTime ?? 0;
-      const anomalyDetection = this.anomalyDetector.analyze(
-        executionTime,
-        memoryBytes / (1024 * 1024), // Convert to MB
-        this.auditLogger.getRecentLogs(10)
+      // PHASE 2: CODE GENERATION
+      events.startPhase(
+        'generation',
+        `Creating plan with ${validated.steps.length} steps...`
+      );
+      const wrapper = await this.generator.generatePlan(
+        validated,
+        tools,
+        language
+      );
+      events.endPhase(
+        'generation',
+        `Generated ${wrapper.estimatedTokens} token code wrapper`
       );
 
-      if (anomalyDetection.detected) {
-        console.log(
-          `⚠️  Anomalies detected: ${anomalyDetection.anomalies.length}\n`
-        );
-        await this.auditLogger.logSecurity(
-          'warning',
-          'Anomalies detected in execution',
-          { anomalies: anomalyDetection.anomalies }
+      const calls: ToolCallOutcome[] = [];
+      const stopRecording = events.on('tool:result', ({ tool, success }) =>
+        calls.push({ tool, success })
+      );
+      let result: ExecutionResult;
+      try {
+        result = await this.validateAndRun(
+          wrapper,
+          tools,
+          validated.intent,
+          language,
+          startTime,
+          events
         );
+      } finally {
+        stopRecording();
       }
 
-      // Cache successful results
-      if (result.success) {
-        this.cacheManager.set(wrapper.code, result);
-      }
-
-      // Log execution
-      await this.auditLogger.logExecution(workspace.id, wrapper.code, result);
-
-      // Print summary
-      this.printExecutionSummary(result, wrapper.estimatedTokens, startTime);
+      // The plan's author chose these tools instead of discovery
+      await this.mcpOrchestrator?.recordToolCalls(
+        validated.intent,
+        calls,
+        true
+      );
 
       return result;
     } catch (error) {
       await this.auditLogger.logError(
         error instanceof Error ? error : new Error(String(error)),
-        'execute'
+        'executePlan'
       );
 
       return this.createErrorResult(
@@ -276,6 +555,337 @@ export class ExecutionOrchestrator {
     }
   }
 
+  /**
+   * Resume an approved execution
+   *
+   * Runs the exact code pinned by the approval request through security
+   * validation (for audit and sandbox selection), sandbox execution and
+   * result processing. The approval is consumed, so it can be used once.
+   *
+   * @param requestId - Approval request ID returned by execute()
+   * @param code - Optional code the caller expects to run; must match the approved hash
+   */
+  async resumeApproved(
+    requestId: string,
+    code?: string,
+    options: ExecuteOptions = {}
+  ): Promise<ExecutionResult> {
+    const events = options.events ?? this.events.fork();
+    const result = await this.runApproved(requestId, code, events);
+    events.emit({ type: 'result', result });
+    return result;
+  }
+
+  /**
+   * Phases 3-5 for an approved request
+   */
+  private async runApproved(
+    requestId: string,
+    code: string | undefined,
+    events: ExecutionEvents
+  ): Promise<ExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      const approval = await this.approvalGate.consumeApproval(requestId, code);
+      const language = approval.language ?? 'typescript';
+
+      await this.auditLogger.logSecurity(
+        'info',
+        'Resuming approved execution',
+        {
+          approvalRequestId: approval.id,
+          approvedBy: approval.approvedBy,
+          codeHash: approval.codeHash,
+        }
+      );
+
+      // PHASE 3: SECURITY VALIDATION (approval already granted)
+      events.startPhase('validation', 'Re-checking approved code...');
+      const validation = await this.validator.validate(
+        approval.code,
+        approval.language
+      );
+      const tools = approval.tools ?? [];
+      const riskAssessment = this.riskAssessor.assess(
+        approval.code,
+        validation,
+        tools
+      );
+
+      events.endPhase(
+        'validation',
+        `Risk Score: ${riskAssessment.riskScore}/100 (${riskAssessment.riskLevel}), approved by ${approval.approvedBy}`
+      );
+
+      return await this.runValidatedCode(
+        approval.code,
+        language,
+        riskAssessment,
+        Math.ceil(approval.code.length / 4),
+        tools,
+        startTime,
+        events
+      );
+    } catch (error) {
+      await this.auditLogger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        'resumeApproved',
+        { approvalRequestId: requestId }
+      );
+      await this.reportAnomalies(
+        this.anomalyDetector.inspectLogs(this.auditLogger.getRecentLogs(10)),
+        events
+      );
+
+      return this.createErrorResult(
+        error instanceof Error ? error.message : 'Unknown error',
+        { approvalRequestId: requestId }
+      );
+    }
+  }
+
+  /**
+   * Get approval gate instance
+   */
+  getApprovalGate(): ApprovalGate {
+    return this.approvalGate;
+  }
+
+  /**
+   * Phases 4 and 5 for code that passed security validation
+   *
+   * @param tools - Tools the code may call through the tool bridge
+   * @param cacheScope - Intent and tools of the code; enables the result cache
+   */
+  private async runValidatedCode(
+    code: string,
+    language: SandboxLanguage,
+    riskAssessment: RiskAssessment,
+    codeTokens: number,
+    tools: string[],
+    startTime: number,
+    events: ExecutionEvents,
+    cacheScope?: CacheScope
+  ): Promise<ExecutionResult> {
+    const sandboxConfig: SandboxConfig = {
+      ...this.getDefaultSandboxConfig(),
+      type: this.sandboxManager.selectSandboxLevel({
+        riskScore: riskAssessment.riskScore / 100,
+        codeType: language,
+        operations: ['mcp-tool-call'],
+      }),
+    };
+
+    // Check cache (after validation, so a stricter policy is never bypassed)
+    const cacheKey =
+      cacheScope && this.cacheManager.isCacheable(cacheScope.tools)
+        ? CacheManager.createKey({ ...cacheScope, sandbox: sandboxConfig.type })
+        : null;
+    const cached = cacheKey
+      ? await this.cacheManager.get(cacheKey, this.tokenizer.getScope())
+      : null;
+    if (cached) {
+      await this.auditLogger.log(
+        'execution',
+        'info',
+        'Cached result returned',
+        {
+          cacheKey,
+          sandbox: sandboxConfig.type,
+          tools,
+          success: cached.success,
+          piiTokenized: cached.piiTokenized,
+        }
+      );
+      events.log('✓ Using cached result\n');
+      return { ...cached, cached: true };
+    }
+
+    // PHASE 4: SANDBOX EXECUTION
+    events.startPhase('execution', 'Running in isolated environment...');
+    const workspace = await this.workspaceManager.createWorkspace(
+      code,
+      language
+    );
+    this.workspaceManager.updateStatus(workspace.id, 'running');
+
+    events.log(`✓ Using ${sandboxConfig.type} sandbox`);
+
+    if (this.toolBridge) {
+      sandboxConfig.toolBridge = this.toolBridge.open({
+        tools,
+        workspaceId: workspace.id,
+        prepareArguments: (tool, args) =>
+          this.prepareToolCallArguments(tool, args, events),
+        onResult: (tool, success, durationMs) =>
+          events.emit({ type: 'tool:result', tool, success, durationMs }),
+      });
+    }
+
+    // Streamed output reaches subscribers with its PII already tokenized
+    const output = new TokenizedOutput(events, this.tokenizer);
+    const sandboxResult = await this.sandboxManager
+      .execute(code, language, sandboxConfig, workspace.id, (stream, data) =>
+        output.write(stream, data)
+      )
+      .finally(() => output.flush());
+
+    // Convert SandboxResult to ExecutionResult with required fields
+    let result: ExecutionResult = {
+      ...sandboxResult,
+      summary:
+        sandboxResult.summary ||
+        (sandboxResult.success
+          ? 'Execution completed successfully'
+          : 'Execution failed'),
+      metrics: sandboxResult.metrics || {
+        executionTime: 0,
+        memoryUsed: '0M',
+        tokensInSummary: 0,
+      },
+      piiTokenized: sandboxResult.piiTokenized ?? false,
+    };
+
+    // Plans report per-step results; only the output step's value is kept.
+    // PII is tokenized first, so the summary preview never shows raw values.
+    const planReport = parsePlanOutput(result.output);
+    const tokenized = this.tokenizer.tokenizeValue<unknown>(
+      planReport ?? result.output
+    );
+    if (planReport) {
+      result = applyPlanOutput(result, tokenized.value as PlanOutput);
+    }
+
+    this.workspaceManager.updateStatus(
+      workspace.id,
+      result.success ? 'completed' : 'failed',
+      result
+    );
+
+    // Connections refused by the sandbox network policy
+    for (const issue of result.securityIssues ?? []) {
+      await this.auditLogger.logSecurity('warning', issue.description, {
+        workspaceId: workspace.id,
+        issueType: issue.type,
+        sandbox: sandboxConfig.type,
+      });
+    }
+
+    events.endPhase(
+      'execution',
+      `Execution ${result.success ? 'successful' : 'failed'}`
+    );
+
+    // PHASE 5: RESULT PROCESSING
+    events.startPhase('processing', 'Tokenizing PII and summarizing...');
+
+    // PII in output was tokenized above, keeping its structure
+    const tokenizedSummary =
+      result.summary && this.tokenizer.tokenize(result.summary);
+    if (tokenized.report.length > 0 || tokenizedSummary !== result.summary) {
+      if (!planReport) {
+        result.output = tokenized.value;
+      }
+      result.summary = tokenizedSummary;
+      result.piiTokenized = true;
+      if (this.tokenVault) {
+        await this.tokenVault.persist(this.tokenizer.getScope());
+      }
+      await this.auditLogger.logSecurity('info', 'PII tokenized in results', {
+        workspaceId: workspace.id,
+        fields: tokenized.report.map((field) => ({
+          path: field.path,
+          types: field.types,
+        })),
+      });
+      events.log(
+        `✓ PII tokenized in ${tokenized.report.length} result field(s)\n`
+      );
+    }
+
+    // Detect anomalies
+    const memoryBytes = result.metrics
+      ? this.parseMemory(result.metrics.memoryUsed)
+      : 0;
+    const executionTime = result.metrics?.executionTime ?? 0;
+    const anomalyDetection = this.anomalyDetector.analyze(
+      executionTime,
+      memoryBytes / (1024 * 1024), // Convert to MB
+      this.auditLogger.getRecentLogs(10),
+      {
+        tools: cacheScope?.tools.map((tool) => tool.name),
+        intent: cacheScope?.intent,
+        outputSize:
+          result.output === undefined
+            ? 0
+            : Buffer.byteLength(JSON.stringify(result.output) ?? ''),
+        networkHosts: (result.securityIssues ?? []).flatMap((issue) =>
+          issue.host ? [issue.host] : []
+        ),
+      }
+    );
+    await this.anomalyDetector.save();
+    await this.reportAnomalies(anomalyDetection, events, workspace.id);
+
+    // Cache successful results (tokenized, never the raw output)
+    if (result.success && cacheKey && cacheScope) {
+      await this.cacheManager.set(
+        cacheKey,
+        result,
+        toolCategories(cacheScope.tools),
+        { vaultScope: this.tokenizer.getScope() }
+      );
+    }
+
+    // Log execution
+    await this.auditLogger.logExecution(workspace.id, code, result);
+
+    events.endPhase('processing');
+
+    // Report summary
+    events.log(this.formatExecutionSummary(result, codeTokens, startTime));
+
+    return result;
+  }
+
+  /**
+   * Warn about and audit-log detected anomalies
+   */
+  private async reportAnomalies(
+    detection: AnomalyDetection,
+    events: ExecutionEvents,
+    workspaceId?: string
+  ): Promise<void> {
+    if (!detection.detected) return;
+
+    events.log(
+      `⚠️  Anomalies detected: ${detection.anomalies.length}\n`,
+      'warning'
+    );
+    await this.auditLogger.logSecurity(
+      'warning',
+      'Anomalies detected in execution',
+      {
+        workspaceId,
+        riskLevel: detection.riskLevel,
+        anomalies: detection.anomalies,
+      }
+    );
+    this.alertManager?.notify({
+      source: 'anomaly',
+      severity: detection.riskLevel,
+      title: 'Anomalies detected in execution',
+      timestamp: new Date(),
+      details: { workspaceId, anomalies: detection.anomalies },
+      fingerprint: `anomaly:${Array.from(
+        new Set(detection.anomalies.map((anomaly) => anomaly.type))
+      )
+        .sort()
+        .join(',')}`,
+    });
+  }
+
   /**
    * Get default sandbox configuration
    */
@@ -295,6 +905,28 @@ export class ExecutionOrchestrator {
     };
   }
 
+  /**
+   * Report a bridged tool call and restore tokenized PII in its arguments
+   * The event carries the tokenized arguments only.
+   */
+  private prepareToolCallArguments(
+    toolName: string,
+    args: Record<string, unknown>,
+    events: ExecutionEvents
+  ): Record<string, unknown> {
+    events.emit({ type: 'tool:call', tool: toolName, args });
+
+    if (!this.tokenVault) {
+      return args;
+    }
+
+    const grant = this.tokenVault.grantToolCall(
+      this.tokenizer.getScope(),
+      toolName
+    );
+    return this.tokenizer.detokenizeValue(args, grant);
+  }
+
   /**
    * Create error result
    */
@@ -332,36 +964,32 @@ export class ExecutionOrchestrator {
   }
 
   /**
-   * Print execution summary
+   * Format execution summary
    */
-  private printExecutionSummary(
+  private formatExecutionSummary(
     result: ExecutionResult,
     codeTokens: number,
     startTime: number
-  ): void {
+  ): string {
     const totalTime = Date.now() - startTime;
 
-    console.log('\n' + '═'.repeat(60));
-    console.log('                   EXECUTION SUMMARY                    ');
-    console.log('═'.repeat(60));
-    console.log(
-      `Status:           ${result.success ? '✅ SUCCESS' : '❌ FAILED'}`
-    );
-    console.log(`Execution Time:   ${result.metrics.executionTime}ms`);
-    console.log(`Total Time:       ${totalTime}ms`);
-    console.log(`Memory Used:      ${result.metrics.memoryUsed}`);
-    console.log(`PII Tokenized:    ${result.piiTokenized ? 'Yes' : 'No'}`);
-    console.log('\nToken Economics:');
-    console.log(`  Code Wrapper:   ~${codeTokens} tokens`);
-    console.log(`  Result Summary: ~${result.metrics.tokensInSummary} tokens`);
-    console.log(
-      `  Total:          ~${codeTokens + result.metrics.tokensInSummary + 2000} tokens`
-    );
-    console.log('\n  Traditional:    ~200,000 tokens');
-    console.log(
-      `  Reduction:      ${this.calculateReduction(codeTokens + result.metrics.tokensInSummary)} 🎉\n`
-    );
-    console.log('═'.repeat(60) + '\n');
+    return [
+      '\n' + '═'.repeat(60),
+      '                   EXECUTION SUMMARY                    ',
+      '═'.repeat(60),
+      `Status:           ${result.success ? '✅ SUCCESS' : '❌ FAILED'}`,
+      `Execution Time:   ${result.metrics.executionTime}ms`,
+      `Total Time:       ${totalTime}ms`,
+      `Memory Used:      ${result.metrics.memoryUsed}`,
+      `PII Tokenized:    ${result.piiTokenized ? 'Yes' : 'No'}`,
+      '\nToken Economics:',
+      `  Code Wrapper:   ~${codeTokens} tokens`,
+      `  Result Summary: ~${result.metrics.tokensInSummary} tokens`,
+      `  Total:          ~${codeTokens + result.metrics.tokensInSummary + 2000} tokens`,
+      '\n  Traditional:    ~200,000 tokens',
+      `  Reduction:      ${this.calculateReduction(codeTokens + result.metrics.tokensInSummary)} 🎉\n`,
+      '═'.repeat(60) + '\n',
+    ].join('\n');
   }
 
   /**
@@ -383,6 +1011,8 @@ export class ExecutionOrchestrator {
       audit: this.auditLogger.getStats(),
       tools: this.toolIndexer.getStats(),
       anomaly: this.anomalyDetector.getStats(),
+      alerts: this.alertManager?.getStats() ?? null,
+      toolBridge: this.toolBridge?.getStats() ?? null,
     };
   }
 
@@ -402,10 +1032,18 @@ export class ExecutionOrchestrator {
 
     // Stop auto-cleanup
     this.cleanupManager.stopAutoCleanup();
+    this.unwatchServers?.();
+    this.unwatchServers = null;
 
     // Perform final cleanup
     await this.cleanupManager.performCleanup();
 
+    // Terminate any sandbox still running
+    await this.sandboxManager.cleanup();
+
+    // Deliver alerts still in flight
+    await this.alertManager?.close();
+
     console.log('✓ Shutdown complete');
   }
 }
@@ -0,0 +1,308 @@
+import { promises as fs } from 'fs';
+import net from 'net';
+import { ToolCallHandler } from '../types';
+
+/**
+ * Environment variable holding the bridge socket path inside the sandbox
+ */
+export const BRIDGE_SOCKET_ENV = 'MCP_BRIDGE_SOCKET';
+
+/**
+ * Environment variable holding the path of the shell client helper
+ */
+export const BRIDGE_CALL_ENV = 'MCP_BRIDGE_CALL';
+
+/**
+ * Largest request or response frame (one JSON line)
+ */
+const MAX_FRAME_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Request frame sent by the client stubs
+ */
+interface BridgeRequest {
+  id: number;
+  tool: string;
+  args?: unknown;
+}
+
+/**
+ * Listening end of the tool bridge for one execution
+ */
+export interface BridgeChannel {
+  socketPath: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve tool calls from sandboxed code on a Unix socket
+ *
+ * Frames are newline-delimited JSON: `{id, tool, args}` in, `{id, result}`
+ * or `{id, error: {code, message}}` out. The socket is only readable by the
+ * current user and removed on close.
+ */
+export async function startBridgeChannel(
+  handler: ToolCallHandler,
+  socketPath: string
+): Promise<BridgeChannel> {
+  const connections = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    connections.add(socket);
+    socket.on('close', () => connections.delete(socket));
+    socket.on('error', () => socket.destroy());
+    socket.setEncoding('utf-8');
+
+    let buffer = '';
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      if (buffer.length > MAX_FRAME_BYTES) {
+        socket.destroy();
+        return;
+      }
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        if (line.trim()) {
+          void respond(handler, line).then((response) => {
+            if (!socket.destroyed) socket.write(response + '\n');
+          });
+        }
+      }
+    });
+  });
+
+  await fs.rm(socketPath, { force: true });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(socketPath, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  await fs.chmod(socketPath, 0o600);
+
+  return {
+    socketPath,
+    close: async () => {
+      for (const socket of connections) {
+        socket.destroy();
+      }
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await fs.rm(socketPath, { force: true });
+    },
+  };
+}
+
+/**
+ * Run one request frame and render the response frame
+ */
+async function respond(
+  handler: ToolCallHandler,
+  line: string
+): Promise<string> {
+  let request: Partial<BridgeRequest>;
+  try {
+    request = JSON.parse(line);
+  } catch {
+    return JSON.stringify({
+      id: null,
+      error: { code: 'bad_request', message: 'Malformed request frame' },
+    });
+  }
+
+  const id = typeof request.id === 'number' ? request.id : null;
+  if (typeof request.tool !== 'string') {
+    return JSON.stringify({
+      id,
+      error: { code: 'bad_request', message: 'Request has no tool name' },
+    });
+  }
+
+  try {
+    const result = await handler.handle(request.tool, request.args ?? {});
+    const response = JSON.stringify({ id, result: result ?? null });
+    if (response.length > MAX_FRAME_BYTES) {
+      throw new Error(`Result of ${request.tool} exceeds the bridge limit`);
+    }
+    return response;
+  } catch (error) {
+    const code = (error as { code?: unknown }).code;
+    return JSON.stringify({
+      id,
+      error: {
+        code: typeof code === 'string' ? code : 'tool_error',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+}
+
+/**
+ * Node client stub, loaded with `--require` in front of the script
+ * Exposes `globalThis.__mcpBridge.call(tool, args)`; one connection is
+ * shared by all calls and only keeps the process alive while calls are
+ * pending.
+ */
+export const NODE_BRIDGE_CLIENT = `
+const net = require('net');
+const socketPath = process.env.${BRIDGE_SOCKET_ENV};
+const pending = new Map();
+let socket = null;
+let buffer = '';
+let nextId = 0;
+
+const fail = (error) => {
+  for (const call of pending.values()) call.reject(error);
+  pending.clear();
+  socket = null;
+  buffer = '';
+};
+
+const connect = () => {
+  if (socket) return socket;
+  socket = net.createConnection(socketPath);
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk) => {
+    buffer += chunk;
+    let newline;
+    while ((newline = buffer.indexOf('\\n')) !== -1) {
+      const message = JSON.parse(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      const call = pending.get(message.id);
+      if (!call) continue;
+      pending.delete(message.id);
+      if (pending.size === 0) socket.unref();
+      if (message.error) {
+        const error = new Error(message.error.message);
+        error.code = message.error.code;
+        call.reject(error);
+      } else {
+        call.resolve(message.result);
+      }
+    }
+  });
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('Tool bridge closed')));
+  return socket;
+};
+
+Object.defineProperty(globalThis, '__mcpBridge', {
+  value: Object.freeze({
+    call: (tool, args) =>
+      new Promise((resolve, reject) => {
+        const id = ++nextId;
+        pending.set(id, { resolve, reject });
+        const connection = connect();
+        connection.ref();
+        connection.write(JSON.stringify({ id, tool, args: args || {} }) + '\\n');
+      }),
+  }),
+});
+`;
+
+/**
+ * Deno client stub, an ES module imported in front of the script
+ * Exposes the same `globalThis.__mcpBridge.call(tool, args)` as the Node
+ * stub; each call opens its own connection, like the Python stub.
+ */
+export const DENO_BRIDGE_CLIENT = `
+const encoder = new TextEncoder();
+let nextId = 0;
+
+const call = async (tool, args) => {
+  const id = ++nextId;
+  const connection = await Deno.connect({
+    transport: 'unix',
+    path: Deno.env.get('${BRIDGE_SOCKET_ENV}'),
+  });
+  const decoder = new TextDecoder();
+  const buffer = new Uint8Array(64 * 1024);
+  let line = '';
+  try {
+    let frame = encoder.encode(JSON.stringify({ id, tool, args: args || {} }) + '\\n');
+    while (frame.length > 0) frame = frame.subarray(await connection.write(frame));
+    let read;
+    while (!line.includes('\\n') && (read = await connection.read(buffer)) !== null) {
+      line += decoder.decode(buffer.subarray(0, read), { stream: true });
+      if (line.length > ${MAX_FRAME_BYTES}) break;
+    }
+  } finally {
+    connection.close();
+  }
+  if (!line.includes('\\n')) throw new Error('Tool bridge closed');
+
+  const message = JSON.parse(line.slice(0, line.indexOf('\\n')));
+  if (message.error) {
+    const error = new Error(message.error.message);
+    error.code = message.error.code;
+    throw error;
+  }
+  return message.result;
+};
+
+Object.defineProperty(globalThis, '__mcpBridge', {
+  value: Object.freeze({ call }),
+});
+`;
+
+/**
+ * Shell client helper, run as `node <helper> <tool> <json args>` with the
+ * Node client stub preloaded
+ * Prints one line, `{result}` or `{error: {code, message}}`, and exits 0
+ * once the host answered; errors without a code of the host are
+ * connection problems.
+ */
+export const SHELL_BRIDGE_CLIENT = `
+const [tool, args] = process.argv.slice(2);
+const print = (frame) => process.stdout.write(JSON.stringify(frame) + '\\n');
+Promise.resolve()
+  .then(() => globalThis.__mcpBridge.call(tool, JSON.parse(args || '{}')))
+  .then(
+    (result) => print({ result: result === undefined ? null : result }),
+    (error) =>
+      print({
+        error: {
+          code:
+            error instanceof SyntaxError
+              ? 'invalid_arguments'
+              : /^[a-z_]+$/.test(String(error.code))
+                ? error.code
+                : 'unavailable',
+          message: error.message,
+        },
+      })
+  );
+`;
+
+/**
+ * Python client stub, run before the script
+ * Exposes the builtin `__mcp_bridge__` with `await __mcp_bridge__.call(tool, args)`;
+ * each call opens its own connection so it works from any event loop.
+ */
+export const PYTHON_BRIDGE_CLIENT = [
+  'import asyncio as _asyncio, builtins as _builtins, json as _json, os as _os',
+  'class MCPBridgeError(Exception):',
+  '    def __init__(self, code, message):',
+  '        super().__init__(message)',
+  '        self.code = code',
+  'class _MCPBridge:',
+  '    Error = MCPBridgeError',
+  '    async def call(self, tool, args=None):',
+  `        reader, writer = await _asyncio.open_unix_connection(_os.environ['${BRIDGE_SOCKET_ENV}'], limit=${MAX_FRAME_BYTES})`,
+  '        try:',
+  "            writer.write((_json.dumps({'id': 1, 'tool': tool, 'args': args or {}}) + '\\n').encode())",
+  '            await writer.drain()',
+  '            line = await reader.readline()',
+  '        finally:',
+  '            writer.close()',
+  '        if not line:',
+  "            raise ConnectionError('Tool bridge closed')",
+  '        message = _json.loads(line)',
+  "        if message.get('error'):",
+  "            raise MCPBridgeError(message['error'].get('code'), message['error'].get('message'))",
+  "        return message.get('result')",
+  '_builtins.__mcp_bridge__ = _MCPBridge()',
+].join('\n');
@@ -1,12 +1,105 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import Docker from 'dockerode';
-import { SandboxConfig, ExecutionResult } from '../types';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import path from 'path';
+import {
+  SandboxConfig,
+  ExecutionResult,
+  SandboxLanguage,
+  SandboxOutputListener,
+  SecurityIssue,
+} from '../types';
 import * as tar from 'tar-stream';
 import {
   SandboxLogger,
   ConsoleLogger,
   ContainerMetricsTracker,
 } from './sandbox-logger';
+import {
+  EGRESS_PROXY_SCRIPT,
+  networkViolationIssue,
+  parseNetworkViolations,
+} from './network-policy';
+import {
+  BRIDGE_CALL_ENV,
+  BRIDGE_SOCKET_ENV,
+  BridgeChannel,
+  DENO_BRIDGE_CLIENT,
+  NODE_BRIDGE_CLIENT,
+  PYTHON_BRIDGE_CLIENT,
+  SHELL_BRIDGE_CLIENT,
+  startBridgeChannel,
+} from './bridge-channel';
+import {
+  Interpreter,
+  LANGUAGE_RUNTIMES,
+  PreparedScript,
+  prepareScript,
+} from './runtimes';
+
+/**
+ * Where the tool bridge socket directory is mounted, and the client stub
+ */
+const BRIDGE_MOUNT = '/run/mcp-bridge';
+const BRIDGE_SOCKET = `${BRIDGE_MOUNT}/bridge.sock`;
+const BRIDGE_CLIENT_FILE = '.mcp-bridge-client.js';
+const BRIDGE_CALL_FILE = '.mcp-bridge-call.js';
+const DENO_BRIDGE_CLIENT_FILE = '.mcp-bridge-client.mjs';
+const DENO_ENTRY_FILE = '.mcp-entry.ts';
+
+/**
+ * Command that runs scripts inside the container, per interpreter
+ * The container network decides what Deno reaches; its other permissions
+ * stay limited to the workspace and the bridge socket.
+ */
+const CONTAINER_INTERPRETERS: Record<Interpreter, string[]> = {
+  node: ['node'],
+  python: ['python'],
+  deno: [
+    'deno',
+    'run',
+    '--no-prompt',
+    `--allow-read=/workspace,${BRIDGE_MOUNT}`,
+    `--allow-write=/workspace,${BRIDGE_MOUNT}`,
+    `--allow-env=${BRIDGE_SOCKET_ENV}`,
+    '--allow-net',
+  ],
+  bash: ['bash'],
+};
+
+/**
+ * Python entry point that installs the bridge client before the script
+ */
+const PYTHON_BRIDGE_COMMAND = [
+  'python',
+  '-c',
+  `${PYTHON_BRIDGE_CLIENT}\nimport runpy\nrunpy.run_path('/workspace/script.py', run_name='__main__')`,
+];
+
+/**
+ * Host directory holding the tool bridge socket for one execution
+ */
+interface ToolBridgeMount {
+  dir: string;
+  channel: BridgeChannel;
+}
+
+/**
+ * Egress proxy sidecar: image, port and its alias on the sandbox network
+ */
+const EGRESS_PROXY_IMAGE = 'node:18-alpine';
+const EGRESS_PROXY_PORT = 3128;
+const EGRESS_PROXY_ALIAS = 'mcp-egress';
+
+/**
+ * Per-execution internal network whose only way out is the egress proxy
+ */
+interface EgressNetwork {
+  name: string;
+  network: Docker.Network;
+  proxy: Docker.Container | null;
+}
 
 /**
  * Docker-based sandbox for isolated code execution
@@ -16,6 +109,7 @@ export class DockerSandbox {
   private docker: Docker;
   private config: SandboxConfig;
   private logger: SandboxLogger;
+  private container: Docker.Container | null = null;
   private static activeContainers: Set<string> = new Set();
   private static metricsTracker = new ContainerMetricsTracker();
 
@@ -27,19 +121,32 @@ export class DockerSandbox {
 
   /**
    * Execute code in Docker container
+   *
+   * @param onOutput - Receives container output as it arrives
    */
   async execute(
     code: string,
-    language: 'typescript' | 'python'
+    language: SandboxLanguage,
+    onOutput?: SandboxOutputListener
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
     let container: Docker.Container | null = null;
     let containerId: string | null = null;
+    let egress: EgressNetwork | null = null;
+    let bridge: ToolBridgeMount | null = null;
 
     try {
+      // TypeScript is transpiled on the host, so the image only needs Node
+      const script = await prepareScript(code, language);
+
+      // Allowlist/denylist policies route all traffic through the proxy
+      egress = await this.createEgressNetwork();
+      bridge = await this.startToolBridge();
+
       // Create container
-      container = await this.createContainer(language);
+      container = await this.createContainer(language, egress, bridge);
       containerId = container.id;
+      this.container = container;
 
       // Track active container and metrics
       DockerSandbox.activeContainers.add(containerId);
@@ -50,16 +157,30 @@ export class DockerSandbox {
       });
 
       // Copy code to container
-      await this.copyCodeToContainer(container, code, language);
+      await this.copyCodeToContainer(
+        container,
+        script,
+        language,
+        bridge !== null
+      );
 
       // Start container
       await container.start();
 
       // Execute code
-      const result = await this.executeInContainer(container, language);
+      const result = await this.executeInContainer(
+        container,
+        language,
+        script,
+        onOutput,
+        bridge !== null
+      );
 
       // Get metrics
       const stats = await container.stats({ stream: false });
+      const securityIssues = egress
+        ? await this.collectNetworkIssues(egress)
+        : [];
 
       return {
         success: true,
@@ -73,6 +194,7 @@ export class DockerSandbox {
           tokensInSummary: this.estimateTokens(result.output),
         },
         piiTokenized: false,
+        ...(securityIssues.length > 0 && { securityIssues }),
       };
     } catch (error) {
       return {
@@ -131,6 +253,7 @@ export class DockerSandbox {
         if (containerId) {
           DockerSandbox.activeContainers.delete(containerId);
         }
+        this.container = null;
 
         // Track cleanup metrics
         const cleanupTime = Date.now() - cleanupStartTime;
@@ -139,15 +262,181 @@ export class DockerSandbox {
           success: cleanupSuccess,
         });
       }
+
+      if (egress) {
+        await this.removeEgressNetwork(egress);
+      }
+      if (bridge) {
+        await bridge.channel.close();
+        await fs.rm(bridge.dir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Serve the config's tool bridge on a socket in a host directory that
+   * is bind-mounted into the container (requires a local Docker daemon)
+   * Returns null when the config has no tool bridge
+   */
+  private async startToolBridge(): Promise<ToolBridgeMount | null> {
+    if (!this.config.toolBridge) return null;
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-bridge-'));
+    try {
+      const channel = await startBridgeChannel(
+        this.config.toolBridge,
+        path.join(dir, path.basename(BRIDGE_SOCKET))
+      );
+      return { dir, channel };
+    } catch (error) {
+      await fs.rm(dir, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Force-stop the running container, if any
+   * Removal still happens in the finally block of execute()
+   */
+  async terminate(): Promise<void> {
+    if (!this.container) return;
+
+    try {
+      await this.container.stop({ t: 0 });
+    } catch (error) {
+      this.logger.warn('Failed to terminate container', {
+        containerId: this.container.id.substring(0, 12),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Create the internal network and egress proxy sidecar for
+   * whitelist/blacklist policies (`none` disables networking instead)
+   */
+  private async createEgressNetwork(): Promise<EgressNetwork | null> {
+    const policy = this.config.networkPolicy;
+    if (policy?.mode !== 'whitelist' && policy?.mode !== 'blacklist') {
+      return null;
+    }
+
+    const name = `mcp-sandbox-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+    const network = await this.docker.createNetwork({
+      Name: name,
+      Internal: true,
+      Labels: { 'mcp.sandbox': 'true' },
+    });
+    const egress: EgressNetwork = { name, network, proxy: null };
+
+    try {
+      try {
+        await this.docker.pull(EGRESS_PROXY_IMAGE);
+      } catch (error) {
+        console.warn(`Failed to pull image ${EGRESS_PROXY_IMAGE}:`, error);
+      }
+
+      // The proxy sits on the default bridge (egress) and the internal network
+      egress.proxy = await this.docker.createContainer({
+        Image: EGRESS_PROXY_IMAGE,
+        Cmd: ['node', '-e', EGRESS_PROXY_SCRIPT],
+        Env: [
+          `MCP_NETWORK_POLICY=${JSON.stringify(policy)}`,
+          `MCP_PROXY_PORT=${EGRESS_PROXY_PORT}`,
+          'MCP_PROXY_HOST=0.0.0.0',
+        ],
+        Labels: {
+          'mcp.sandbox': 'true',
+          'mcp.sandbox.role': 'egress-proxy',
+          'mcp.sandbox.created': new Date().toISOString(),
+        },
+        HostConfig: {
+          NetworkMode: 'bridge',
+          Memory: 64 * 1024 * 1024,
+        },
+      });
+      await egress.proxy.start();
+      await network.connect({
+        Container: egress.proxy.id,
+        EndpointConfig: { Aliases: [EGRESS_PROXY_ALIAS] },
+      });
+
+      this.logger.info('Egress proxy started', {
+        network: name,
+        mode: policy.mode,
+      });
+      return egress;
+    } catch (error) {
+      await this.removeEgressNetwork(egress);
+      throw error;
+    }
+  }
+
+  /**
+   * Read requests refused by the egress proxy
+   */
+  private async collectNetworkIssues(
+    egress: EgressNetwork
+  ): Promise<SecurityIssue[]> {
+    if (!egress.proxy) return [];
+
+    try {
+      const logs = await egress.proxy.logs({ stdout: true, stderr: false });
+      return parseNetworkViolations(logs.toString('utf-8')).map(
+        networkViolationIssue
+      );
+    } catch (error) {
+      this.logger.warn('Failed to read egress proxy logs', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Remove the egress proxy and its network
+   */
+  private async removeEgressNetwork(egress: EgressNetwork): Promise<void> {
+    try {
+      await egress.proxy?.remove({ force: true, v: true });
+    } catch (error) {
+      this.logger.warn('Failed to remove egress proxy', {
+        network: egress.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    try {
+      await egress.network.remove();
+    } catch (error) {
+      this.logger.warn('Failed to remove sandbox network', {
+        network: egress.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
   /**
    * Create Docker container with resource limits
    */
-  private async createContainer(language: string) {
+  private async createContainer(
+    language: SandboxLanguage,
+    egress: EgressNetwork | null = null,
+    bridge: ToolBridgeMount | null = null
+  ) {
+    // The default images have neither bash nor jq
+    if (language === 'bash' && !this.config.image) {
+      throw new Error(
+        'Bash scripts need an image with bash, jq and node; set SandboxConfig.image'
+      );
+    }
     const image =
-      language === 'typescript' ? 'node:18-alpine' : 'python:3.11-alpine';
+      this.config.image ||
+      (language === 'python'
+        ? 'python:3.11-alpine'
+        : language === 'deno'
+          ? 'denoland/deno:alpine'
+          : 'node:18-alpine');
 
     // Pull image if not exists
     try {
@@ -156,11 +445,37 @@ export class DockerSandbox {
       console.warn(`Failed to pull image ${image}:`, error);
     }
 
+    const proxyUrl = `http://${EGRESS_PROXY_ALIAS}:${EGRESS_PROXY_PORT}`;
+    const env = [
+      ...(egress
+        ? [
+            `HTTP_PROXY=${proxyUrl}`,
+            `HTTPS_PROXY=${proxyUrl}`,
+            `http_proxy=${proxyUrl}`,
+            `https_proxy=${proxyUrl}`,
+            'NODE_USE_ENV_PROXY=1',
+          ]
+        : []),
+      ...(bridge
+        ? [
+            `${BRIDGE_SOCKET_ENV}=${BRIDGE_SOCKET}`,
+            ...(language !== 'python' && language !== 'deno'
+              ? [`NODE_OPTIONS=--require /workspace/${BRIDGE_CLIENT_FILE}`]
+              : []),
+            ...(language === 'bash'
+              ? [`${BRIDGE_CALL_ENV}=/workspace/${BRIDGE_CALL_FILE}`]
+              : []),
+          ]
+        : []),
+    ];
+
     // Create container with resource limits and labels for identification
     return this.docker.createContainer({
       Image: image,
       Tty: false,
-      NetworkDisabled: this.config.networkPolicy?.mode === 'none',
+      // `none` (or an unrecognised mode) means no network at all
+      NetworkDisabled: this.config.networkPolicy !== undefined && !egress,
+      ...(env.length > 0 && { Env: env }),
       WorkingDir: '/workspace',
       Labels: {
         'mcp.sandbox': 'true',
@@ -171,6 +486,8 @@ export class DockerSandbox {
         Memory: this.parseMemory(this.config.resourceLimits?.memory || '512M'),
         NanoCpus: Number(this.config.resourceLimits?.cpu || 1) * 1e9,
         DiskQuota: this.parseDisk(this.config.resourceLimits?.disk || '1G'),
+        ...(egress && { NetworkMode: egress.name }),
+        ...(bridge && { Binds: [`${bridge.dir}:${BRIDGE_MOUNT}`] }),
       },
     });
   }
@@ -180,20 +497,33 @@ export class DockerSandbox {
    */
   private async copyCodeToContainer(
     container: Docker.Container,
-    code: string,
-    language: string
+    script: PreparedScript,
+    language: SandboxLanguage,
+    bridgeClient: boolean = false
   ): Promise<void> {
-    const filename = language === 'typescript' ? 'script.ts' : 'script.py';
-
-    // Create tar archive with code file
+    // Create tar archive with code file (and the Node bridge client stub)
     const pack = tar.pack();
 
-    pack.entry({ name: filename }, code, (err) => {
+    if (bridgeClient && language === 'deno') {
+      pack.entry({ name: DENO_BRIDGE_CLIENT_FILE }, DENO_BRIDGE_CLIENT);
+      pack.entry(
+        { name: DENO_ENTRY_FILE },
+        `import './${DENO_BRIDGE_CLIENT_FILE}';\nimport './${script.file}';\n`
+      );
+    } else if (bridgeClient && language !== 'python') {
+      pack.entry({ name: BRIDGE_CLIENT_FILE }, NODE_BRIDGE_CLIENT);
+    }
+    if (bridgeClient && language === 'bash') {
+      pack.entry({ name: BRIDGE_CALL_FILE }, SHELL_BRIDGE_CLIENT);
+    }
+    pack.entry({ name: script.file }, script.code, (err) => {
       if (err) throw err;
       pack.finalize();
     });
 
-    await container.putArchive(pack, { path: '/workspace' });
+    await container.putArchive(pack as unknown as NodeJS.ReadableStream, {
+      path: '/workspace',
+    });
   }
 
   /**
@@ -202,12 +532,18 @@ export class DockerSandbox {
    */
   private async executeInContainer(
     container: Docker.Container,
-    language: string
+    language: SandboxLanguage,
+    script: PreparedScript,
+    onOutput?: SandboxOutputListener,
+    bridgeClient: boolean = false
   ): Promise<{ output: string }> {
     const command =
-      language === 'typescript'
-        ? ['npx', 'ts-node', '/workspace/script.ts']
-        : ['python', '/workspace/script.py'];
+      bridgeClient && language === 'python'
+        ? PYTHON_BRIDGE_COMMAND
+        : [
+            ...CONTAINER_INTERPRETERS[LANGUAGE_RUNTIMES[language].interpreter],
+            `/workspace/${bridgeClient && language === 'deno' ? DENO_ENTRY_FILE : script.file}`,
+          ];
 
     const exec = await container.exec({
       Cmd: command,
@@ -236,6 +572,7 @@ export class DockerSandbox {
 
       stream.on('data', (chunk: Buffer) => {
         output += chunk.toString();
+        onOutput?.('stdout', chunk.toString());
       });
 
       stream.on('end', () => {
@@ -0,0 +1,351 @@
+import { spawn, ChildProcess } from 'child_process';
+import { SandboxConfig, SecurityIssue } from '../types';
+import { BRIDGE_SOCKET_ENV } from './bridge-channel';
+
+export type NetworkPolicy = NonNullable<SandboxConfig['networkPolicy']>;
+
+/**
+ * A connection attempt refused by the network policy
+ */
+export interface NetworkViolation {
+  host: string;
+  port: number;
+  protocol: 'http' | 'https' | 'tcp' | 'udp' | 'fetch';
+}
+
+/**
+ * Prefix of violation lines written by the proxy and the guards
+ */
+export const VIOLATION_MARKER = 'MCP_NETWORK_BLOCKED ';
+
+/**
+ * Line printed by the egress proxy once it accepts connections
+ */
+const LISTENING_MARKER = 'MCP_PROXY_LISTENING ';
+
+/**
+ * Host matcher shared by the generated JavaScript (proxy and Node preload)
+ * Keep in sync with isHostAllowed() and the Python guard.
+ */
+const JS_HOST_MATCHER = `
+const __policy = JSON.parse(process.env.MCP_NETWORK_POLICY || '{"mode":"none"}');
+const __matchHost = (pattern, host) =>
+  pattern === '*' ||
+  pattern === host ||
+  (pattern.startsWith('*.') && host.endsWith(pattern.slice(1)));
+const __isAllowed = (rawHost) => {
+  const host = String(rawHost || '').toLowerCase().replace(/^\\[|\\]$/g, '').replace(/\\.$/, '');
+  const list = (entries) => (entries || []).map((entry) => String(entry).toLowerCase());
+  if (__policy.mode === 'whitelist') return list(__policy.allowed).some((p) => __matchHost(p, host));
+  if (__policy.mode === 'blacklist') return !list(__policy.blocked).some((p) => __matchHost(p, host));
+  return false;
+};
+`;
+
+/**
+ * Standalone HTTP(S) forward proxy that enforces the policy
+ * Runs as a child process next to ProcessSandbox and as a sidecar
+ * container for DockerSandbox.
+ */
+export const EGRESS_PROXY_SCRIPT = `
+const http = require('http');
+const net = require('net');
+${JS_HOST_MATCHER}
+const block = (host, port, protocol) =>
+  console.log(${JSON.stringify(VIOLATION_MARKER)} + JSON.stringify({ host, port, protocol }));
+
+const server = http.createServer((req, res) => {
+  let url;
+  try {
+    url = new URL(req.url);
+  } catch {
+    res.writeHead(400);
+    return res.end();
+  }
+  const port = Number(url.port) || 80;
+  if (!__isAllowed(url.hostname)) {
+    block(url.hostname, port, 'http');
+    res.writeHead(403);
+    return res.end('Blocked by sandbox network policy');
+  }
+  const headers = { ...req.headers };
+  delete headers['proxy-connection'];
+  delete headers['proxy-authorization'];
+  const upstream = http.request(
+    { host: url.hostname, port, path: url.pathname + url.search, method: req.method, headers },
+    (response) => {
+      res.writeHead(response.statusCode || 502, response.headers);
+      response.pipe(res);
+    }
+  );
+  upstream.on('error', () => {
+    res.writeHead(502);
+    res.end();
+  });
+  req.pipe(upstream);
+});
+
+server.on('connect', (req, socket, head) => {
+  const match = /^\\[?([^\\]]+?)\\]?:(\\d+)$/.exec(req.url || '');
+  const host = match ? match[1] : String(req.url);
+  const port = match ? Number(match[2]) : 443;
+  if (!match || !__isAllowed(host)) {
+    block(host, port, 'https');
+    socket.end('HTTP/1.1 403 Forbidden\\r\\n\\r\\n');
+    return;
+  }
+  const upstream = net.connect(port, host, () => {
+    socket.write('HTTP/1.1 200 Connection Established\\r\\n\\r\\n');
+    upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+  upstream.on('error', () => socket.destroy());
+  socket.on('error', () => upstream.destroy());
+});
+
+server.listen(Number(process.env.MCP_PROXY_PORT || 0), process.env.MCP_PROXY_HOST || '127.0.0.1', () =>
+  console.log(${JSON.stringify(LISTENING_MARKER)} + server.address().port)
+);
+`;
+
+/**
+ * Node preload (`--require`) that only lets sockets reach allowed hosts,
+ * the egress proxy or the tool bridge socket; refused attempts are
+ * appended to MCP_NETWORK_LOG
+ */
+export const NODE_NETWORK_PRELOAD = `
+const fs = require('fs');
+const net = require('net');
+const dgram = require('dgram');
+${JS_HOST_MATCHER}
+const proxyPort = Number(process.env.MCP_PROXY_PORT || 0);
+const deny = (host, port, protocol) => {
+  try {
+    fs.appendFileSync(process.env.MCP_NETWORK_LOG, JSON.stringify({ host, port, protocol }) + '\\n');
+  } catch {}
+  const error = new Error('Network access to ' + host + ':' + port + ' blocked by sandbox network policy');
+  error.code = 'EACCES';
+  return error;
+};
+
+const connect = net.Socket.prototype.connect;
+net.Socket.prototype.connect = function (...args) {
+  let options = Array.isArray(args[0]) ? args[0][0] : args[0];
+  if (typeof options !== 'object' || options === null) {
+    options = typeof options === 'string' && isNaN(Number(options))
+      ? { path: options }
+      : { port: options, host: typeof args[1] === 'string' ? args[1] : undefined };
+  }
+  const host = options.path || options.host || 'localhost';
+  const port = Number(options.port) || 0;
+  const toProxy = proxyPort > 0 && port === proxyPort && ['127.0.0.1', 'localhost'].includes(host);
+  const toBridge = Boolean(options.path) && options.path === process.env.${BRIDGE_SOCKET_ENV};
+  if (toBridge || (!options.path && (toProxy || __isAllowed(host)))) {
+    return connect.apply(this, args);
+  }
+  const error = deny(host, port, 'tcp');
+  process.nextTick(() => this.destroy(error));
+  return this;
+};
+
+dgram.createSocket = () => {
+  throw deny('*', 0, 'udp');
+};
+`;
+
+/**
+ * Python counterpart of NODE_NETWORK_PRELOAD (run before the script)
+ */
+export const PYTHON_NETWORK_GUARD = [
+  'import json, os, socket',
+  '_policy = json.loads(os.environ.get(\'MCP_NETWORK_POLICY\') or \'{"mode": "none"}\')',
+  "_proxy_port = int(os.environ.get('MCP_PROXY_PORT') or 0)",
+  'def _match(pattern, host):',
+  "    return pattern == '*' or pattern == host or (pattern.startswith('*.') and host.endswith(pattern[1:]))",
+  'def _allowed(host):',
+  "    host = str(host).lower().strip('[]').rstrip('.')",
+  "    if _policy.get('mode') == 'whitelist':",
+  "        return any(_match(str(p).lower(), host) for p in _policy.get('allowed') or [])",
+  "    if _policy.get('mode') == 'blacklist':",
+  "        return not any(_match(str(p).lower(), host) for p in _policy.get('blocked') or [])",
+  '    return False',
+  'def _deny(address, protocol):',
+  '    host, port = (address[0], address[1]) if isinstance(address, tuple) else (str(address), 0)',
+  '    try:',
+  "        with open(os.environ['MCP_NETWORK_LOG'], 'a') as log:",
+  "            log.write(json.dumps({'host': str(host), 'port': int(port), 'protocol': protocol}) + '\\n')",
+  '    except (OSError, KeyError, ValueError):',
+  '        pass',
+  "    raise PermissionError('Network access to %s:%s blocked by sandbox network policy' % (host, port))",
+  'def _check(sock, address):',
+  `    if isinstance(address, str) and address == os.environ.get('${BRIDGE_SOCKET_ENV}'):`,
+  '        return',
+  '    if isinstance(address, tuple):',
+  "        if _proxy_port and address[1] == _proxy_port and address[0] in ('127.0.0.1', 'localhost'):",
+  '            return',
+  '        if sock.type == socket.SOCK_STREAM and _allowed(address[0]):',
+  '            return',
+  "    _deny(address, 'tcp' if sock.type == socket.SOCK_STREAM else 'udp')",
+  '_connect, _connect_ex, _sendto = socket.socket.connect, socket.socket.connect_ex, socket.socket.sendto',
+  'def _guarded_connect(self, address):',
+  '    _check(self, address)',
+  '    return _connect(self, address)',
+  'def _guarded_connect_ex(self, address):',
+  '    _check(self, address)',
+  '    return _connect_ex(self, address)',
+  'def _guarded_sendto(self, data, *args):',
+  '    _check(self, args[-1])',
+  '    return _sendto(self, data, *args)',
+  'socket.socket.connect = _guarded_connect',
+  'socket.socket.connect_ex = _guarded_connect_ex',
+  'socket.socket.sendto = _guarded_sendto',
+].join('\n');
+
+/**
+ * Check a host name against the policy
+ * Patterns are exact host names, `*.example.com` for subdomains, or `*`.
+ * A missing policy allows everything; `none` allows nothing.
+ */
+export function isHostAllowed(
+  policy: NetworkPolicy | undefined,
+  host: string
+): boolean {
+  if (!policy) return true;
+
+  const normalized = host
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '');
+  const matches = (patterns: string[] = []) =>
+    patterns.some((entry) => {
+      const pattern = entry.toLowerCase();
+      return (
+        pattern === '*' ||
+        pattern === normalized ||
+        (pattern.startsWith('*.') && normalized.endsWith(pattern.slice(1)))
+      );
+    });
+
+  switch (policy.mode) {
+    case 'whitelist':
+      return matches(policy.allowed);
+    case 'blacklist':
+      return !matches(policy.blocked);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Report a refused connection as a security issue
+ */
+export function networkViolationIssue(
+  violation: NetworkViolation
+): SecurityIssue {
+  return {
+    severity: 'high',
+    type: 'network_blocked',
+    description: `Blocked ${violation.protocol} access to ${violation.host}:${violation.port} (sandbox network policy)`,
+    suggestion:
+      'Add the host to networkPolicy.allowed if this access is expected',
+    host: violation.host,
+  };
+}
+
+/**
+ * Parse violations from proxy output (marker lines) or a guard log
+ * (one JSON object per line)
+ */
+export function parseNetworkViolations(text: string): NetworkViolation[] {
+  const violations: NetworkViolation[] = [];
+
+  for (const line of text.split('\n')) {
+    const start = line.includes(VIOLATION_MARKER)
+      ? line.indexOf(VIOLATION_MARKER) + VIOLATION_MARKER.length
+      : line.startsWith('{')
+        ? 0
+        : -1;
+    if (start === -1) continue;
+
+    try {
+      const parsed = JSON.parse(line.slice(start)) as NetworkViolation;
+      if (typeof parsed.host === 'string') {
+        violations.push({
+          host: parsed.host,
+          port: Number(parsed.port) || 0,
+          protocol: parsed.protocol,
+        });
+      }
+    } catch {
+      // Not a violation record (e.g. truncated log line)
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Egress proxy running as a child process on the loopback interface
+ */
+export class EgressProxy {
+  private child: ChildProcess | null = null;
+  private output = '';
+  private policy: NetworkPolicy;
+
+  constructor(policy: NetworkPolicy) {
+    this.policy = policy;
+  }
+
+  /**
+   * Start the proxy and resolve with its port
+   */
+  async start(timeoutMs: number = 5000): Promise<number> {
+    const child = spawn(process.execPath, ['-e', EGRESS_PROXY_SCRIPT], {
+      env: {
+        PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+        MCP_NETWORK_POLICY: JSON.stringify(this.policy),
+      },
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+    this.child = child;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error('Egress proxy did not start in time'));
+      }, timeoutMs);
+
+      child.stdout?.on('data', (data: Buffer) => {
+        this.output += data.toString();
+        const match = this.output.match(/MCP_PROXY_LISTENING (\d+)/);
+        if (match) {
+          clearTimeout(timer);
+          resolve(Number(match[1]));
+        }
+      });
+
+      child.on('exit', (code) => {
+        clearTimeout(timer);
+        reject(new Error(`Egress proxy exited with code ${code}`));
+      });
+    });
+  }
+
+  /**
+   * Stop the proxy and return the requests it refused
+   */
+  async stop(): Promise<NetworkViolation[]> {
+    const child = this.child;
+    this.child = null;
+
+    if (child && child.exitCode === null) {
+      await new Promise<void>((resolve) => {
+        child.once('exit', () => resolve());
+        child.kill('SIGKILL');
+      });
+    }
+
+    return parseNetworkViolations(this.output);
+  }
+}
@@ -1,9 +1,34 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { spawn } from 'child_process';
-import { promises as fs } from 'fs';
+import { spawn, ChildProcess } from 'child_process';
+import { promises as fs, readFileSync } from 'fs';
 import path from 'path';
-import { SandboxConfig, ExecutionResult } from '../types';
+import {
+  SandboxConfig,
+  ExecutionResult,
+  SandboxLanguage,
+  SandboxOutputListener,
+  SecurityIssue,
+} from '../types';
 import * as os from 'os';
+import {
+  EgressProxy,
+  NODE_NETWORK_PRELOAD,
+  NetworkViolation,
+  PYTHON_NETWORK_GUARD,
+  networkViolationIssue,
+  parseNetworkViolations,
+} from './network-policy';
+import {
+  BRIDGE_CALL_ENV,
+  BRIDGE_SOCKET_ENV,
+  BridgeChannel,
+  DENO_BRIDGE_CLIENT,
+  NODE_BRIDGE_CLIENT,
+  PYTHON_BRIDGE_CLIENT,
+  SHELL_BRIDGE_CLIENT,
+  startBridgeChannel,
+} from './bridge-channel';
+import { LANGUAGE_RUNTIMES, prepareScript } from './runtimes';
 
 /**
  * Safe environment variables that don't contain secrets
@@ -21,12 +46,60 @@ const SAFE_ENV_VARS = [
   'TZ', // Timezone
 ];
 
+/**
+ * Python bootstrap that caps the address space before running the script
+ * The limit is applied inside the child so it works without `ulimit`/`prlimit`,
+ * and counts on top of what the interpreter itself has already mapped
+ */
+const PYTHON_BOOTSTRAP = [
+  'import os, runpy, sys',
+  'try:',
+  '    import resource',
+  '    base = 0',
+  '    try:',
+  "        with open('/proc/self/statm') as statm:",
+  "            base = int(statm.read().split()[0]) * os.sysconf('SC_PAGE_SIZE')",
+  '    except (OSError, ValueError):',
+  '        pass',
+  '    limit = base + int(sys.argv[1])',
+  '    resource.setrlimit(resource.RLIMIT_AS, (limit, limit))',
+  'except (ImportError, ValueError, OSError):',
+  '    pass',
+  'sys.argv = sys.argv[2:]',
+  "runpy.run_path(sys.argv[0], run_name='__main__')",
+].join('\n');
+
+/**
+ * Interval for sampling the child's peak memory usage
+ */
+const MEMORY_SAMPLE_INTERVAL_MS = 50;
+
+/**
+ * Files written next to the script when a network policy is enforced
+ */
+const NETWORK_PRELOAD_FILE = '.mcp-network-preload.js';
+const NETWORK_LOG_FILE = '.mcp-network.log';
+
+/**
+ * Files written next to the script when the tool bridge is enabled
+ */
+const BRIDGE_CLIENT_FILE = '.mcp-bridge-client.js';
+const BRIDGE_CALL_FILE = '.mcp-bridge-call.js';
+const BRIDGE_SOCKET_FILE = '.mcp-bridge.sock';
+
+/**
+ * Deno client stub, and the entry module that imports it before the script
+ */
+const DENO_BRIDGE_CLIENT_FILE = '.mcp-bridge-client.mjs';
+const DENO_ENTRY_FILE = '.mcp-entry.ts';
+
 /**
  * Process-based sandbox for isolated code execution
  * Provides lightweight process isolation with resource limits
  */
 export class ProcessSandbox {
   private config: SandboxConfig;
+  private child: ChildProcess | null = null;
 
   constructor(config: SandboxConfig) {
     this.config = config;
@@ -34,27 +107,47 @@ export class ProcessSandbox {
 
   /**
    * Execute code in isolated process
+   *
+   * @param onOutput - Receives stdout/stderr chunks as they arrive
    */
   async execute(
     code: string,
-    language: 'typescript' | 'python'
+    language: SandboxLanguage,
+    onOutput?: SandboxOutputListener
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
+    let tmpDir: string | null = null;
 
     try {
       // Create temporary directory for execution
-      const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-sandbox-'));
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-sandbox-'));
 
-      // Write code to file
-      const filename = language === 'typescript' ? 'script.ts' : 'script.py';
-      const filePath = path.join(tmpDir, filename);
-      await fs.writeFile(filePath, code);
+      // Write code to file (TypeScript is transpiled first)
+      const script = await prepareScript(code, language);
+      const filePath = path.join(tmpDir, script.file);
+      await fs.writeFile(filePath, script.code);
 
       // Execute in process with isolated environment
-      const result = await this.executeInProcess(filePath, language, tmpDir);
-
-      // Cleanup
-      await fs.rm(tmpDir, { recursive: true, force: true });
+      const network = await this.startNetworkEnforcement(tmpDir);
+      let bridge: BridgeChannel | null = null;
+      let result: Awaited<ReturnType<typeof this.executeInProcess>>;
+      let securityIssues: SecurityIssue[] = [];
+      try {
+        bridge = await this.startToolBridge(tmpDir, language, script.file);
+        result = await this.executeInProcess(
+          filePath,
+          language,
+          tmpDir,
+          network?.env,
+          onOutput,
+          bridge?.socketPath
+        );
+      } finally {
+        await bridge?.close();
+        if (network) {
+          securityIssues = (await network.stop()).map(networkViolationIssue);
+        }
+      }
 
       return {
         success: result.success,
@@ -67,6 +160,7 @@ export class ProcessSandbox {
           tokensInSummary: this.estimateTokens(result.output || ''),
         },
         piiTokenized: false,
+        ...(securityIssues.length > 0 && { securityIssues }),
       };
     } catch (error) {
       return {
@@ -80,16 +174,127 @@ export class ProcessSandbox {
         },
         piiTokenized: false,
       };
+    } finally {
+      // Cleanup
+      if (tmpDir) {
+        await fs.rm(tmpDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Kill the running child process, if any
+   */
+  async terminate(): Promise<void> {
+    if (this.child && this.child.exitCode === null) {
+      this.child.kill('SIGKILL');
+    }
+  }
+
+  /**
+   * Enforce the network policy: start the egress proxy (unless all
+   * network access is denied) and install the socket guards
+   * Returns null when the config has no network policy
+   */
+  private async startNetworkEnforcement(tmpDir: string): Promise<{
+    env: Record<string, string>;
+    stop: () => Promise<NetworkViolation[]>;
+  } | null> {
+    const policy = this.config.networkPolicy;
+    if (!policy) return null;
+
+    const logFile = path.join(tmpDir, NETWORK_LOG_FILE);
+    const preloadFile = path.join(tmpDir, NETWORK_PRELOAD_FILE);
+    await fs.writeFile(preloadFile, NODE_NETWORK_PRELOAD);
+
+    const env: Record<string, string> = {
+      MCP_NETWORK_POLICY: JSON.stringify(policy),
+      MCP_NETWORK_LOG: logFile,
+      MCP_NETWORK_PRELOAD: preloadFile,
+    };
+
+    let proxy: EgressProxy | null = null;
+    if (policy.mode === 'whitelist' || policy.mode === 'blacklist') {
+      proxy = new EgressProxy(policy);
+      const port = await proxy.start();
+      const proxyUrl = `http://127.0.0.1:${port}`;
+      Object.assign(env, {
+        MCP_PROXY_PORT: String(port),
+        HTTP_PROXY: proxyUrl,
+        HTTPS_PROXY: proxyUrl,
+        http_proxy: proxyUrl,
+        https_proxy: proxyUrl,
+        NODE_USE_ENV_PROXY: '1',
+      });
+    }
+
+    return {
+      env,
+      stop: async () => {
+        const refused = proxy ? await proxy.stop() : [];
+        let guarded: NetworkViolation[] = [];
+        try {
+          guarded = parseNetworkViolations(await fs.readFile(logFile, 'utf-8'));
+        } catch {
+          // No blocked socket attempts
+        }
+        return [...refused, ...guarded];
+      },
+    };
+  }
+
+  /**
+   * Serve the config's tool bridge on a socket in the sandbox directory
+   * and write the Node client stub (and for Bash its helper) next to the script
+   * Deno gets its own stub plus an entry module that loads it first.
+   * Returns null when the config has no tool bridge
+   */
+  private async startToolBridge(
+    tmpDir: string,
+    language: SandboxLanguage,
+    scriptFile: string
+  ): Promise<BridgeChannel | null> {
+    if (!this.config.toolBridge) return null;
+
+    if (language === 'deno') {
+      await fs.writeFile(
+        path.join(tmpDir, DENO_BRIDGE_CLIENT_FILE),
+        DENO_BRIDGE_CLIENT
+      );
+      await fs.writeFile(
+        path.join(tmpDir, DENO_ENTRY_FILE),
+        `import './${DENO_BRIDGE_CLIENT_FILE}';\nimport './${scriptFile}';\n`
+      );
+    } else {
+      await fs.writeFile(
+        path.join(tmpDir, BRIDGE_CLIENT_FILE),
+        NODE_BRIDGE_CLIENT
+      );
     }
+    if (language === 'bash') {
+      await fs.writeFile(
+        path.join(tmpDir, BRIDGE_CALL_FILE),
+        SHELL_BRIDGE_CLIENT
+      );
+    }
+    return startBridgeChannel(
+      this.config.toolBridge,
+      path.join(tmpDir, BRIDGE_SOCKET_FILE)
+    );
   }
 
   /**
    * Execute code file in child process
+   *
+   * @param bridgeSocket - Tool bridge socket the client stub connects to
    */
   private async executeInProcess(
     filePath: string,
-    language: string,
-    tmpDir: string
+    language: SandboxLanguage,
+    tmpDir: string,
+    networkEnv?: Record<string, string>,
+    onOutput?: SandboxOutputListener,
+    bridgeSocket?: string
   ): Promise<{
     success: boolean;
     output?: string;
@@ -97,8 +302,17 @@ export class ProcessSandbox {
     memoryUsed?: string;
   }> {
     return new Promise((resolve) => {
-      const command = language === 'typescript' ? 'ts-node' : 'python3';
-      const args = [filePath];
+      const memoryLimit = this.parseMemory(
+        this.config.resourceLimits?.memory || '512M'
+      );
+      const { command, args } = this.resolveCommand(
+        language,
+        filePath,
+        memoryLimit,
+        networkEnv !== undefined,
+        bridgeSocket !== undefined,
+        networkEnv?.MCP_PROXY_PORT
+      );
 
       // ✅ Build safe environment - NO SECRETS
       // Only include whitelisted safe variables to prevent credential leakage
@@ -143,14 +357,54 @@ export class ProcessSandbox {
         ),
       };
 
+      // V8 heap limit for Node-based runtimes (Python limits itself via
+      // bootstrap, Deno gets it as a flag)
+      // Bash scripts pass it on to the Node helpers they run
+      const usesNode = language !== 'python' && language !== 'deno';
+      if (usesNode) {
+        safeEnv.NODE_OPTIONS = `--max-old-space-size=${Math.max(
+          1,
+          Math.floor(memoryLimit / 1024 ** 2)
+        )}`;
+      }
+
+      // Network policy: proxy settings plus the socket guard preload
+      if (networkEnv) {
+        Object.assign(safeEnv, networkEnv);
+        if (usesNode && networkEnv.MCP_NETWORK_PRELOAD) {
+          safeEnv.NODE_OPTIONS += ` --require "${networkEnv.MCP_NETWORK_PRELOAD}"`;
+        }
+      }
+
+      // Tool bridge: socket path plus the Node client stub preload
+      if (bridgeSocket) {
+        safeEnv[BRIDGE_SOCKET_ENV] = bridgeSocket;
+        if (usesNode) {
+          safeEnv.NODE_OPTIONS += ` --require "${path.join(tmpDir, BRIDGE_CLIENT_FILE)}"`;
+        }
+        if (language === 'bash') {
+          safeEnv[BRIDGE_CALL_ENV] = path.join(tmpDir, BRIDGE_CALL_FILE);
+        }
+      }
+
+      const timeout = this.config.resourceLimits?.timeout || 30000;
+      const spawnedAt = Date.now();
       const child = spawn(command, args, {
-        timeout: this.config.resourceLimits?.timeout || 30000,
+        timeout,
         env: safeEnv,
+        cwd: tmpDir,
       });
+      this.child = child;
 
       let stdout = '';
       let stderr = '';
       let resolved = false;
+      let peakMemory = 0;
+
+      // Track peak resident memory of the child while it runs
+      const sampler = setInterval(() => {
+        peakMemory = Math.max(peakMemory, this.readPeakMemory(child.pid));
+      }, MEMORY_SAMPLE_INTERVAL_MS);
 
       // Guard to prevent double-resolution of promise
       const safeResolve = (result: {
@@ -161,36 +415,51 @@ export class ProcessSandbox {
       }) => {
         if (!resolved) {
           resolved = true;
+          clearInterval(sampler);
+          this.child = null;
           resolve(result);
         }
       };
 
       child.stdout?.on('data', (data: Buffer) => {
         stdout += data.toString();
+        onOutput?.('stdout', data.toString());
       });
 
       child.stderr?.on('data', (data: Buffer) => {
         stderr += data.toString();
+        onOutput?.('stderr', data.toString());
       });
 
       child.on('close', (code: number | null, signal: string | null) => {
+        const memoryUsed = this.formatMemory(peakMemory);
+
         // Check if process was killed by timeout
-        if (signal === 'SIGTERM' || code === null) {
+        if (signal === 'SIGTERM' && Date.now() - spawnedAt >= timeout) {
           safeResolve({
             success: false,
             error: 'Execution timeout',
+            memoryUsed,
+          });
+        } else if (code === null) {
+          safeResolve({
+            success: false,
+            error: stderr || `Process terminated by signal ${signal}`,
+            output: stdout,
+            memoryUsed,
           });
         } else if (code === 0) {
           safeResolve({
             success: true,
             output: stdout,
-            memoryUsed: this.formatMemory(process.memoryUsage().heapUsed),
+            memoryUsed,
           });
         } else {
           safeResolve({
             success: false,
             error: stderr || `Process exited with code ${code}`,
             output: stdout,
+            memoryUsed,
           });
         }
       });
@@ -204,11 +473,139 @@ export class ProcessSandbox {
     });
   }
 
+  /**
+   * Resolve interpreter and arguments for a language
+   * TypeScript has already been transpiled, so Node runs it like JavaScript.
+   *
+   * @param proxyPort - Port of the egress proxy, when one is running
+   */
+  private resolveCommand(
+    language: SandboxLanguage,
+    filePath: string,
+    memoryLimit: number,
+    guardNetwork: boolean = false,
+    bridgeClient: boolean = false,
+    proxyPort?: string
+  ): { command: string; args: string[] } {
+    switch (LANGUAGE_RUNTIMES[language].interpreter) {
+      case 'node':
+        return { command: process.execPath, args: [filePath] };
+      case 'deno':
+        return {
+          command: 'deno',
+          args: this.denoArguments(
+            filePath,
+            memoryLimit,
+            bridgeClient,
+            proxyPort
+          ),
+        };
+      case 'bash':
+        return { command: 'bash', args: [filePath] };
+      case 'python':
+        return {
+          command: 'python3',
+          args: [
+            '-c',
+            [
+              ...(guardNetwork ? [PYTHON_NETWORK_GUARD] : []),
+              ...(bridgeClient ? [PYTHON_BRIDGE_CLIENT] : []),
+              PYTHON_BOOTSTRAP,
+            ].join('\n'),
+            String(memoryLimit),
+            filePath,
+          ],
+        };
+    }
+  }
+
+  /**
+   * Arguments of `deno run`
+   * Deno's permissions are the sandbox: the script may only read and write
+   * its own directory, never run programs, and reaches the network as the
+   * policy allows (no policy allows everything, like the other runtimes).
+   * Proxy settings still apply, so the egress proxy logs what it refuses.
+   */
+  private denoArguments(
+    filePath: string,
+    memoryLimit: number,
+    bridgeClient: boolean,
+    proxyPort?: string
+  ): string[] {
+    const dir = path.dirname(filePath);
+    const policy = this.config.networkPolicy;
+    const proxy = proxyPort ? [`127.0.0.1:${proxyPort}`] : [];
+
+    let network: string[];
+    if (!policy) {
+      network = ['--allow-net'];
+    } else if (policy.mode === 'whitelist') {
+      const allowed = policy.allowed ?? [];
+      network = allowed.includes('*')
+        ? ['--allow-net']
+        : allowed.length + proxy.length > 0
+          ? [`--allow-net=${[...allowed, ...proxy].join(',')}`]
+          : [];
+    } else if (policy.mode === 'blacklist') {
+      const blocked = policy.blocked ?? [];
+      network = [
+        '--allow-net',
+        ...(blocked.length > 0 ? [`--deny-net=${blocked.join(',')}`] : []),
+      ];
+    } else {
+      network = [];
+    }
+
+    return [
+      'run',
+      '--no-prompt',
+      `--allow-read=${dir}`,
+      `--allow-write=${dir}`,
+      ...(bridgeClient ? [`--allow-env=${BRIDGE_SOCKET_ENV}`] : []),
+      ...network,
+      `--v8-flags=--max-old-space-size=${Math.max(1, Math.floor(memoryLimit / 1024 ** 2))}`,
+      bridgeClient ? path.join(dir, DENO_ENTRY_FILE) : filePath,
+    ];
+  }
+
+  /**
+   * Read peak resident memory (VmHWM) of a child process
+   * Returns 0 where /proc is unavailable
+   */
+  private readPeakMemory(pid: number | undefined): number {
+    if (!pid || process.platform !== 'linux') return 0;
+
+    try {
+      const status = readFileSync(`/proc/${pid}/status`, 'utf-8');
+      const match = status.match(/^VmHWM:\s+(\d+)\s+kB/m);
+      return match ? parseInt(match[1] || '0', 10) * 1024 : 0;
+    } catch {
+      // Process already exited
+      return 0;
+    }
+  }
+
+  /**
+   * Parse memory string to bytes
+   */
+  private parseMemory(memory: string): number {
+    const match = memory.match(/^(\d+)([KMG])$/);
+    if (!match) return 512 * 1024 * 1024; // Default 512M
+
+    const [, amount, unit] = match;
+    const multipliers = { K: 1024, M: 1024 ** 2, G: 1024 ** 3 };
+
+    return (
+      parseInt(amount || '512') * multipliers[unit as keyof typeof multipliers]
+    );
+  }
+
   /**
    * Summarize output to <500 tokens
    */
   private summarizeOutput(output: unknown): string {
-    const str = typeof output === 'string' ? output : JSON.stringify(output);
+    const str =
+      typeof output === 'string' ? output : (JSON.stringify(output) ?? '');
 
     if (str.length < 2000) {
       return str;
@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type * as TypeScript from 'typescript';
+import { SandboxLanguage } from '../types';
+
+type TS = typeof TypeScript;
+
+/**
+ * Program that runs a language's scripts
+ */
+export type Interpreter = 'node' | 'python' | 'deno' | 'bash';
+
+/**
+ * How the sandboxes run one language
+ */
+interface LanguageRuntime {
+  description: string;
+  interpreter: Interpreter;
+  /** Executables that have to be on PATH */
+  executables: string[];
+}
+
+export const LANGUAGE_RUNTIMES: Record<SandboxLanguage, LanguageRuntime> = {
+  typescript: {
+    description: 'TypeScript, transpiled in-process and run with Node',
+    interpreter: 'node',
+    executables: [],
+  },
+  javascript: {
+    description: 'JavaScript, run with Node as-is (ES module or script)',
+    interpreter: 'node',
+    executables: [],
+  },
+  python: {
+    description: 'Python 3 with asyncio',
+    interpreter: 'python',
+    executables: ['python3'],
+  },
+  deno: {
+    description: 'TypeScript run with Deno, limited by its permission flags',
+    interpreter: 'deno',
+    executables: ['deno'],
+  },
+  bash: {
+    description: 'Bash with jq, for simple data shaping',
+    interpreter: 'bash',
+    executables: ['bash', 'jq'],
+  },
+};
+
+/**
+ * Whether a language can run on this machine
+ */
+export interface LanguageSupport {
+  language: SandboxLanguage;
+  description: string;
+  available: boolean;
+  /** Executables or modules that were not found */
+  missing: string[];
+}
+
+/**
+ * Script ready to be written into a sandbox
+ */
+export interface PreparedScript {
+  /** File name, relative to the sandbox directory */
+  file: string;
+  code: string;
+}
+
+let typescriptModule: Promise<TS | null> | undefined;
+
+/**
+ * Load the TypeScript compiler lazily (it is large and only needed for
+ * TypeScript code and module detection)
+ */
+export function loadTypeScript(): Promise<TS | null> {
+  if (!typescriptModule) {
+    typescriptModule = import('typescript')
+      .then((mod) => ((mod as { default?: TS }).default ?? mod) as TS)
+      .catch(() => null);
+  }
+  return typescriptModule;
+}
+
+/**
+ * Strip the types of TypeScript code
+ * No type checking: the code runs as soon as it parses.
+ *
+ * @param format - Module format of code with imports/exports
+ */
+export async function transpileTypeScript(
+  code: string,
+  format: 'esm' | 'commonjs' = 'esm'
+): Promise<string> {
+  const ts = await loadTypeScript();
+  if (!ts) {
+    throw new Error('TypeScript code needs the typescript package');
+  }
+
+  return ts.transpileModule(code, {
+    compilerOptions: {
+      module: format === 'esm' ? ts.ModuleKind.ESNext : ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      // Scripts without imports stay scripts
+      moduleDetection: ts.ModuleDetectionKind.Legacy,
+    },
+  }).outputText;
+}
+
+/**
+ * Whether JavaScript code is an ES module (has imports or exports)
+ * Falls back to false, a CommonJS script, when TypeScript is unavailable.
+ */
+export async function isESModule(code: string): Promise<boolean> {
+  const ts = await loadTypeScript();
+  if (!ts) return false;
+
+  return ts.isExternalModule(
+    ts.createSourceFile('script.js', code, ts.ScriptTarget.Latest)
+  );
+}
+
+/**
+ * Turn code into the script a sandbox runs
+ * TypeScript is transpiled; JavaScript modules get an `.mjs` name so Node
+ * loads them as ES modules, and other JavaScript stays a CommonJS script.
+ * Deno runs TypeScript itself.
+ */
+export async function prepareScript(
+  code: string,
+  language: SandboxLanguage
+): Promise<PreparedScript> {
+  switch (language) {
+    case 'typescript':
+      return prepareScript(await transpileTypeScript(code), 'javascript');
+    case 'javascript':
+      return {
+        file: (await isESModule(code)) ? 'script.mjs' : 'script.js',
+        code,
+      };
+    case 'python':
+      return { file: 'script.py', code };
+    case 'deno':
+      return { file: 'script.ts', code };
+    case 'bash':
+      return { file: 'script.sh', code };
+  }
+}
+
+/**
+ * Check which languages can run on this machine
+ */
+export async function detectLanguages(): Promise<LanguageSupport[]> {
+  const languages = Object.keys(LANGUAGE_RUNTIMES) as SandboxLanguage[];
+
+  return Promise.all(
+    languages.map(async (language) => {
+      const runtime = LANGUAGE_RUNTIMES[language];
+      const missing: string[] = [];
+      for (const executable of runtime.executables) {
+        if (!(await findExecutable(executable))) missing.push(executable);
+      }
+      if (language === 'typescript' && !(await loadTypeScript())) {
+        missing.push('typescript');
+      }
+
+      return {
+        language,
+        description: runtime.description,
+        available: missing.length === 0,
+        missing,
+      };
+    })
+  );
+}
+
+/**
+ * Full path of an executable on PATH, or null
+ */
+async function findExecutable(name: string): Promise<string | null> {
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter)) {
+    if (!dir) continue;
+    const candidate = path.join(dir, name);
+    try {
+      await fs.access(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // Try next directory
+    }
+  }
+  return null;
+}
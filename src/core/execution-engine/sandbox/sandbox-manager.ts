@@ -1,12 +1,23 @@
-import * as vm from 'vm';
-import type { SandboxConfig } from '../types';
+import type {
+  ExecutionResult,
+  SandboxConfig,
+  SandboxLanguage,
+  SandboxOutputListener,
+} from '../types';
+import { DockerSandbox } from './docker-sandbox';
+import { ProcessSandbox } from './process-sandbox';
+import { VMSandbox } from './vm-sandbox';
+import {
+  DEFAULT_SECURITY_POLICY,
+  SecurityPolicy,
+} from '../security/security-policy';
 
-type SandboxLevel = 'docker' | 'vm' | 'process';
+type SandboxLevel = SandboxConfig['type'];
 
 interface SandboxExecutionOptions {
   level: SandboxLevel;
   timeout: number;
-  memoryLimit?: number;
+  memoryLimit?: number; // MB
   cpuLimit?: number;
   allowedGlobals?: string[];
   sessionId?: string;
@@ -26,120 +37,296 @@ interface SandboxResult {
   piiTokenized?: boolean;
 }
 
+/**
+ * Common surface of the Docker, VM and Process sandboxes
+ */
+export interface Sandbox {
+  execute(
+    code: string,
+    language: SandboxLanguage,
+    onOutput?: SandboxOutputListener
+  ): Promise<ExecutionResult>;
+  terminate(): Promise<void>;
+}
+
+/**
+ * Live sandbox tracked for a session
+ */
+interface ActiveSandbox {
+  id: string;
+  type: SandboxLevel;
+  sandbox: Sandbox;
+  startedAt: Date;
+}
+
+/**
+ * Marker separating a snippet's return value from its stdout
+ */
+const RESULT_MARKER = '__SANDBOX_RESULT__';
+
+/**
+ * Session used when the caller does not provide one
+ */
+const DEFAULT_SESSION = 'default';
+
+const DEFAULT_CONFIG: SandboxConfig = {
+  type: 'process',
+  resourceLimits: {
+    cpu: 1,
+    memory: '512M',
+    timeout: 30000,
+  },
+};
+
+/**
+ * Routes code to the Docker, VM or Process sandbox selected by
+ * `SandboxConfig.type` and keeps track of live sandboxes per session
+ */
 export class SandboxManager {
-  private activeSandboxes: Map<string, unknown>;
+  private config: SandboxConfig;
+  private activeSandboxes: Map<string, Map<string, ActiveSandbox>>;
+  private sandboxCounter = 0;
+  private sandboxBands: SecurityPolicy['sandbox'] =
+    DEFAULT_SECURITY_POLICY.sandbox;
 
-  constructor(_config?: SandboxConfig) {
+  constructor(config?: SandboxConfig) {
+    this.config = config ?? DEFAULT_CONFIG;
     this.activeSandboxes = new Map();
   }
 
+  /**
+   * Apply the policy's risk band → sandbox level mapping
+   */
+  setPolicy(policy: SecurityPolicy): void {
+    this.sandboxBands = [...policy.sandbox].sort(
+      (a, b) => b.minScore - a.minScore
+    );
+  }
+
   selectSandboxLevel(riskAssessment: {
     riskScore: number;
     codeType: string;
     operations: string[];
   }): SandboxLevel {
-    return riskAssessment.riskScore >= 0.7
-      ? 'docker'
-      : riskAssessment.riskScore >= 0.4
-        ? 'vm'
-        : 'process';
+    const band = this.sandboxBands.find(
+      (candidate) => riskAssessment.riskScore >= candidate.minScore / 100
+    );
+    return band?.level ?? 'docker';
   }
 
+  /**
+   * Evaluate a JavaScript snippet as a function body at the given level
+   * The snippet's return value is reported in `result`
+   */
   async executeInSandbox(
     code: string,
     options: SandboxExecutionOptions
   ): Promise<SandboxResult> {
-    try {
-      switch (options.level) {
-        case 'vm':
-          return await this.executeInVM(code, options);
-        case 'process':
-          return await this.executeInProcess(code, options);
-        case 'docker':
-          return {
-            success: false,
-            error: 'Docker sandbox not yet implemented',
-          };
-        default:
-          return {
-            success: false,
-            error: `Unknown sandbox level: ${options.level}`,
-          };
-      }
-    } catch (error: unknown) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
+    const config: SandboxConfig = {
+      ...this.config,
+      type: options.level,
+      resourceLimits: {
+        ...this.config.resourceLimits,
+        timeout: options.timeout,
+        ...(options.memoryLimit !== undefined && {
+          memory: `${options.memoryLimit}M`,
+        }),
+        ...(options.cpuLimit !== undefined && { cpu: options.cpuLimit }),
+      },
+    };
+
+    // VM scripts evaluate to their completion value; child processes
+    // have to print it for us to pick up
+    const program =
+      options.level === 'vm'
+        ? `(function () {\n${code}\n})();`
+        : this.wrapSnippet(code);
+
+    const sandboxResult = await this.run(
+      program,
+      'javascript',
+      config,
+      options.sessionId
+    );
+
+    if (options.level === 'vm') {
+      return { ...sandboxResult, result: sandboxResult.output };
     }
+
+    return this.extractSnippetResult(sandboxResult);
   }
 
-  private async executeInVM(
+  /**
+   * Execute code in the sandbox selected by `config.type`
+   * Falls back to the configuration passed to the constructor
+   *
+   * @param onOutput - Receives stdout/stderr while the code runs
+   */
+  async execute(
     code: string,
-    options: SandboxExecutionOptions
+    language: SandboxLanguage = 'typescript',
+    config?: SandboxConfig,
+    sessionId?: string,
+    onOutput?: SandboxOutputListener
   ): Promise<SandboxResult> {
-    return new Promise((resolve) => {
-      const timer = setTimeout(() => {
-        resolve({ success: false, error: 'Execution timeout exceeded' });
-      }, options.timeout);
+    return this.run(code, language, config ?? this.config, sessionId, onOutput);
+  }
+
+  /**
+   * Number of live sandboxes, optionally for a single session
+   */
+  getActiveSandboxCount(sessionId?: string): number {
+    if (sessionId) {
+      return this.activeSandboxes.get(sessionId)?.size ?? 0;
+    }
+
+    let count = 0;
+    for (const session of this.activeSandboxes.values()) {
+      count += session.size;
+    }
+    return count;
+  }
+
+  /**
+   * Terminate every live sandbox
+   */
+  async cleanup(): Promise<void> {
+    const sessionIds = Array.from(this.activeSandboxes.keys());
+    for (const sessionId of sessionIds) {
+      await this.cleanupSession(sessionId);
+    }
+  }
+
+  /**
+   * Terminate the live sandboxes of a session
+   */
+  async cleanupSession(sessionId: string): Promise<void> {
+    const session = this.activeSandboxes.get(sessionId);
+    this.activeSandboxes.delete(sessionId);
+    if (!session) return;
+
+    for (const active of session.values()) {
       try {
-        const context = vm.createContext({});
-        const result = vm.runInContext(code, context, {
-          timeout: options.timeout,
-          displayErrors: true,
-        });
-        clearTimeout(timer);
-        resolve({ success: true, result });
-      } catch (error: unknown) {
-        clearTimeout(timer);
-        resolve({
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-        });
+        await active.sandbox.terminate();
+      } catch (error) {
+        console.error(`Failed to terminate sandbox ${active.id}:`, error);
       }
-    });
+    }
   }
 
-  private async executeInProcess(
+  /**
+   * Run code in a fresh sandbox, tracking it while it is live
+   */
+  private async run(
     code: string,
-    options: SandboxExecutionOptions
+    language: SandboxLanguage,
+    config: SandboxConfig,
+    sessionId: string = DEFAULT_SESSION,
+    onOutput?: SandboxOutputListener
   ): Promise<SandboxResult> {
-    return new Promise((resolve) => {
-      const timer = setTimeout(() => {
-        resolve({ success: false, error: 'Execution timeout exceeded' });
-      }, options.timeout);
-      try {
-        const fn = new Function(code);
-        const result = fn();
-        clearTimeout(timer);
-        resolve({ success: true, result });
-      } catch (error: unknown) {
-        clearTimeout(timer);
-        resolve({
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-        });
+    const startTime = Date.now();
+    let active: ActiveSandbox | null = null;
+
+    try {
+      active = {
+        id: `${config.type}-${++this.sandboxCounter}`,
+        type: config.type,
+        sandbox: this.createSandbox(config),
+        startedAt: new Date(),
+      };
+      this.track(sessionId, active);
+
+      return onOutput
+        ? await active.sandbox.execute(code, language, onOutput)
+        : await active.sandbox.execute(code, language);
+    } catch (error: unknown) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        summary: 'Sandbox execution failed',
+        metrics: {
+          executionTime: Date.now() - startTime,
+          memoryUsed: '0M',
+          tokensInSummary: 0,
+        },
+        piiTokenized: false,
+      };
+    } finally {
+      if (active) {
+        this.untrack(sessionId, active.id);
       }
-    });
+    }
   }
 
-  async cleanup(): Promise<void> {
-    this.activeSandboxes.clear();
+  /**
+   * Instantiate the sandbox implementation for a configuration
+   */
+  private createSandbox(config: SandboxConfig): Sandbox {
+    switch (config.type) {
+      case 'docker':
+        return new DockerSandbox(config);
+      case 'vm':
+        return new VMSandbox(config);
+      case 'process':
+        return new ProcessSandbox(config);
+      default:
+        throw new Error(`Unknown sandbox level: ${String(config.type)}`);
+    }
   }
 
-  async cleanupSession(sessionId: string): Promise<void> {
-    this.activeSandboxes.delete(sessionId);
+  private track(sessionId: string, active: ActiveSandbox): void {
+    let session = this.activeSandboxes.get(sessionId);
+    if (!session) {
+      session = new Map();
+      this.activeSandboxes.set(sessionId, session);
+    }
+    session.set(active.id, active);
   }
 
-  async execute(
-    _code: string,
-    _language?: string,
-    _config?: SandboxConfig
-  ): Promise<SandboxResult> {
-    const options: SandboxExecutionOptions = {
-      level: 'process',
-      timeout: 5000,
-    };
-    return this.executeInSandbox(_code, options);
+  private untrack(sessionId: string, sandboxId: string): void {
+    const session = this.activeSandboxes.get(sessionId);
+    if (!session) return;
+
+    session.delete(sandboxId);
+    if (session.size === 0) {
+      this.activeSandboxes.delete(sessionId);
+    }
+  }
+
+  /**
+   * Wrap a snippet so the child process prints its return value
+   */
+  private wrapSnippet(code: string): string {
+    return [
+      'const __sandboxResult = (function () {',
+      code,
+      '})();',
+      'if (__sandboxResult !== undefined) {',
+      `  process.stdout.write('\\n${RESULT_MARKER}' + JSON.stringify(__sandboxResult));`,
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Split a wrapped snippet's stdout into output and return value
+   */
+  private extractSnippetResult(sandboxResult: SandboxResult): SandboxResult {
+    const stdout =
+      typeof sandboxResult.output === 'string' ? sandboxResult.output : '';
+    const markerIndex = stdout.lastIndexOf(RESULT_MARKER);
+
+    if (markerIndex === -1) {
+      return sandboxResult;
+    }
+
+    const output = stdout.substring(0, markerIndex).replace(/\n$/, '');
+    let result: unknown;
+    try {
+      result = JSON.parse(stdout.substring(markerIndex + RESULT_MARKER.length));
+    } catch {
+      result = undefined;
+    }
+
+    return { ...sandboxResult, output, result };
   }
 }
@@ -1,5 +1,27 @@
-import { SandboxConfig, ExecutionResult } from '../types';
+import {
+  SandboxConfig,
+  ExecutionResult,
+  SandboxLanguage,
+  SandboxOutputListener,
+} from '../types';
 import * as vm from 'vm';
+import { URL } from 'url';
+import { format } from 'util';
+import {
+  NetworkViolation,
+  isHostAllowed,
+  networkViolationIssue,
+} from './network-policy';
+import { isESModule, transpileTypeScript } from './runtimes';
+
+/**
+ * Languages the VM cannot run, by display name
+ */
+const UNSUPPORTED_LANGUAGES: Partial<Record<SandboxLanguage, string>> = {
+  python: 'Python',
+  deno: 'Deno',
+  bash: 'Bash',
+};
 
 /**
  * VM-based sandbox for isolated code execution
@@ -14,18 +36,21 @@ export class VMSandbox {
 
   /**
    * Execute code in VM sandbox
+   *
+   * @param onOutput - Receives the script's console output
    */
   async execute(
     code: string,
-    language: 'typescript' | 'python'
+    language: SandboxLanguage,
+    onOutput?: SandboxOutputListener
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
 
-    if (language === 'python') {
+    const unsupported = UNSUPPORTED_LANGUAGES[language];
+    if (unsupported) {
       return {
         success: false,
-        error:
-          'VM sandbox does not support Python. Use Docker or Process sandbox instead.',
+        error: `VM sandbox does not support ${unsupported}. Use Docker or Process sandbox instead.`,
         summary: 'Unsupported language for VM sandbox',
         metrics: {
           executionTime: 0,
@@ -36,18 +61,36 @@ export class VMSandbox {
       };
     }
 
+    const violations: NetworkViolation[] = [];
+
     try {
+      // Scripts cannot import or export: modules become CommonJS, whose
+      // exports land on a plain object
+      const script =
+        language === 'typescript' || (await isESModule(code))
+          ? await transpileTypeScript(code, 'commonjs')
+          : code;
+
       // Create sandbox context
-      const context = vm.createContext(this.createSandboxContext());
+      const context = vm.createContext(
+        this.createSandboxContext(violations, onOutput)
+      );
+      const heapBefore = process.memoryUsage().heapUsed;
 
       // Execute code with timeout
-      const result = vm.runInContext(code, context, {
+      const completion = vm.runInContext(script, context, {
         timeout: this.config.resourceLimits.timeout,
         displayErrors: true,
       });
+      // Scripts using the mediated fetch complete with a promise
+      const result = await this.settle(completion, startTime);
 
       const executionTime = Date.now() - startTime;
-      const memoryUsed = process.memoryUsage().heapUsed;
+      // Heap growth attributable to the script (the VM shares the host heap)
+      const memoryUsed = Math.max(
+        0,
+        process.memoryUsage().heapUsed - heapBefore
+      );
 
       return {
         success: true,
@@ -56,9 +99,10 @@ export class VMSandbox {
         metrics: {
           executionTime,
           memoryUsed: this.formatMemory(memoryUsed),
-          tokensInSummary: this.estimateTokens(result),
+          tokensInSummary: this.estimateTokens(this.summarizeOutput(result)),
         },
         piiTokenized: false,
+        ...this.networkIssues(violations),
       };
     } catch (error) {
       return {
@@ -71,23 +115,140 @@ export class VMSandbox {
           tokensInSummary: 0,
         },
         piiTokenized: false,
+        ...this.networkIssues(violations),
       };
     }
   }
 
+  /**
+   * Wait for a promise completion value within the remaining timeout
+   */
+  private async settle(value: unknown, startTime: number): Promise<unknown> {
+    // Promises created inside the context belong to another realm,
+    // so check for a thenable instead of using instanceof
+    const then =
+      value !== null && typeof value === 'object'
+        ? (value as { then?: unknown }).then
+        : undefined;
+    if (typeof then !== 'function') {
+      return value;
+    }
+
+    const remaining = Math.max(
+      0,
+      this.config.resourceLimits.timeout - (Date.now() - startTime)
+    );
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        value as Promise<unknown>,
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error('Script execution timed out')),
+            remaining
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Report blocked fetches as security issues
+   */
+  private networkIssues(
+    violations: NetworkViolation[]
+  ): Pick<ExecutionResult, 'securityIssues'> {
+    return violations.length > 0
+      ? { securityIssues: violations.map(networkViolationIssue) }
+      : {};
+  }
+
+  /**
+   * `fetch` mediated by the network policy
+   * Only exposed when the config carries a network policy.
+   */
+  private createMediatedFetch(
+    violations: NetworkViolation[]
+  ): typeof globalThis.fetch | undefined {
+    const policy = this.config.networkPolicy;
+    if (!policy) return undefined;
+
+    return async (input, init) => {
+      const url = new URL(
+        typeof input === 'string' || input instanceof URL ? input : input.url
+      );
+      if (!['http:', 'https:'].includes(url.protocol)) {
+        throw new Error(`Unsupported fetch protocol: ${url.protocol}`);
+      }
+      if (!isHostAllowed(policy, url.hostname)) {
+        violations.push({
+          host: url.hostname,
+          port: Number(url.port) || (url.protocol === 'https:' ? 443 : 80),
+          protocol: 'fetch',
+        });
+        throw new Error(
+          `Network access to ${url.hostname} blocked by sandbox network policy`
+        );
+      }
+      // Redirects are not followed so they cannot escape the allowlist
+      return globalThis.fetch(url, { ...init, redirect: 'manual' });
+    };
+  }
+
+  /**
+   * Tool bridge client, in the same shape as the Node client stub
+   * Arguments and results are copied as JSON so no host objects reach
+   * the script. Only exposed when the config carries a tool bridge.
+   */
+  private createBridgeClient() {
+    const handler = this.config.toolBridge;
+    if (!handler) return undefined;
+
+    const copy = (value: unknown): unknown =>
+      value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+    return Object.freeze({
+      call: async (tool: string, args?: unknown) =>
+        copy(await handler.handle(String(tool), copy(args ?? {}))),
+    });
+  }
+
+  /**
+   * VM scripts run synchronously and are bounded by the vm timeout,
+   * so there is nothing left to stop once execute() returns
+   */
+  async terminate(): Promise<void> {
+    return;
+  }
+
   /**
    * Create sandbox context with limited globals
    */
-  private createSandboxContext(): Record<string, unknown> {
+  private createSandboxContext(
+    violations: NetworkViolation[],
+    onOutput?: SandboxOutputListener
+  ): Record<string, unknown> {
+    const write =
+      (stream: 'stdout' | 'stderr', fallback: typeof console.log) =>
+      (...args: unknown[]) =>
+        onOutput
+          ? onOutput(stream, `${format(...args)}\n`)
+          : fallback('[Sandbox]', ...args);
+
     return {
       console: {
-        log: (...args: unknown[]) => console.log('[Sandbox]', ...args),
-        error: (...args: unknown[]) => console.error('[Sandbox]', ...args),
-        warn: (...args: unknown[]) => console.warn('[Sandbox]', ...args),
+        log: write('stdout', console.log),
+        error: write('stderr', console.error),
+        warn: write('stderr', console.warn),
       },
       setTimeout: undefined, // Disable timers
       setInterval: undefined,
       setImmediate: undefined,
+      fetch: this.createMediatedFetch(violations),
+      __mcpBridge: this.createBridgeClient(),
+      exports: {},
       // Add safe utilities as needed
     };
   }
@@ -96,7 +257,8 @@ export class VMSandbox {
    * Summarize output to <500 tokens
    */
   private summarizeOutput(output: unknown): string {
-    const str = typeof output === 'string' ? output : JSON.stringify(output);
+    const str =
+      typeof output === 'string' ? output : (JSON.stringify(output) ?? '');
 
     if (str.length < 2000) {
       return str;
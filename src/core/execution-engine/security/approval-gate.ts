@@ -1,11 +1,29 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
 import { RiskAssessment } from './risk-assessor';
-import { SecurityValidation } from '../types';
+import { canonicalize } from './security-policy';
+import { SandboxLanguage, SecurityValidation } from '../types';
+
+/**
+ * Request IDs double as file names, so only accept the generated format
+ */
+const REQUEST_ID_PATTERN = /^approval-\d+-[a-z0-9]+$/;
 
 /**
  * Manages approval workflow for high-risk code execution
+ *
+ * Requests are persisted as one JSON file each under the approvals
+ * directory, so a reviewer in another process can list, approve or
+ * reject them and the requester can resume the approved code later.
  */
 export class ApprovalGate {
-  private pendingApprovals: Map<string, ApprovalRequest> = new Map();
+  private approvalsDir: string;
+
+  constructor(approvalsDir?: string) {
+    this.approvalsDir =
+      approvalsDir || path.join(process.cwd(), '.claude', 'approvals');
+  }
 
   /**
    * Check if code requires approval
@@ -23,13 +41,22 @@ export class ApprovalGate {
   async requestApproval(
     code: string,
     riskAssessment: RiskAssessment,
-    validation: SecurityValidation
+    validation: SecurityValidation,
+    context: ApprovalContext = {}
   ): Promise<ApprovalRequest> {
     const requestId = this.generateRequestId();
 
     const request: ApprovalRequest = {
       id: requestId,
       code,
+      codeHash: ApprovalGate.hashRequest({
+        code,
+        language: context.language,
+        tools: context.tools,
+      }),
+      language: context.language,
+      userRequest: context.userRequest,
+      tools: context.tools,
       riskAssessment,
       validation,
       status: 'pending',
@@ -39,33 +66,61 @@ export class ApprovalGate {
       reason: undefined,
     };
 
-    this.pendingApprovals.set(requestId, request);
+    await this.saveRequest(request);
 
     return request;
   }
 
   /**
    * Approve a request
+   *
+   * `codeHash` is the hash the reviewer was shown (see `formatRequest`).
+   * It covers the code, language and tools stored now, so any of them
+   * swapped in the request file after review cannot be approved.
+   *
+   * @throws {Error} If the stored request does not match `codeHash`
    */
-  approve(requestId: string, approvedBy: string, reason?: string): boolean {
-    const request = this.pendingApprovals.get(requestId);
+  async approve(
+    requestId: string,
+    approvedBy: string,
+    codeHash: string,
+    reason?: string
+  ): Promise<boolean> {
+    const request = await this.getRequest(requestId);
     if (!request || request.status !== 'pending') {
       return false;
     }
 
+    const storedHash = ApprovalGate.hashRequest(request);
+    if (
+      codeHash.toLowerCase() !== storedHash ||
+      storedHash !== request.codeHash
+    ) {
+      throw new Error(
+        `Code, language or tools of approval request ${requestId} do not match the reviewed hash`
+      );
+    }
+
     request.status = 'approved';
     request.approvedBy = approvedBy;
     request.approvedAt = new Date();
+    request.approvedCodeHash = storedHash;
     request.reason = reason;
 
+    await this.saveRequest(request);
+
     return true;
   }
 
   /**
    * Reject a request
    */
-  reject(requestId: string, rejectedBy: string, reason: string): boolean {
-    const request = this.pendingApprovals.get(requestId);
+  async reject(
+    requestId: string,
+    rejectedBy: string,
+    reason: string
+  ): Promise<boolean> {
+    const request = await this.getRequest(requestId);
     if (!request || request.status !== 'pending') {
       return false;
     }
@@ -75,37 +130,142 @@ export class ApprovalGate {
     request.approvedAt = new Date();
     request.reason = reason;
 
+    await this.saveRequest(request);
+
     return true;
   }
 
+  /**
+   * Claim an approved request for execution
+   *
+   * Verifies the stored code, language and tools still match the hash
+   * pinned at approval time (and the caller's code, if given), then claims
+   * the request by
+   * exclusively creating its consumed marker. Only one caller can create
+   * the marker, so an approval runs at most once even when several
+   * processes resume it concurrently.
+   *
+   * @throws {Error} If the request is missing, not approved, or the code changed
+   */
+  async consumeApproval(
+    requestId: string,
+    code?: string
+  ): Promise<ApprovalRequest> {
+    const request = await this.getRequest(requestId);
+
+    if (!request) {
+      throw new Error(`Approval request not found: ${requestId}`);
+    }
+
+    if (request.status !== 'approved') {
+      throw new Error(
+        `Approval request ${requestId} is ${request.status}, not approved`
+      );
+    }
+
+    const storedHash = ApprovalGate.hashRequest(request);
+    if (
+      storedHash !== request.codeHash ||
+      storedHash !== request.approvedCodeHash
+    ) {
+      throw new Error(
+        `Code, language or tools of approval request ${requestId} do not match the approved hash`
+      );
+    }
+
+    if (code !== undefined && code !== request.code) {
+      throw new Error(
+        `Provided code does not match the code approved in ${requestId}`
+      );
+    }
+
+    await fs.mkdir(this.approvalsDir, { recursive: true });
+    try {
+      await fs.writeFile(this.getConsumedPath(requestId), `${process.pid}\n`, {
+        flag: 'wx',
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new Error(`Approval request ${requestId} was already executed`);
+      }
+      throw error;
+    }
+
+    request.status = 'executed';
+    request.executedAt = new Date();
+    await this.saveRequest(request);
+
+    return request;
+  }
+
   /**
    * Get approval request
    */
-  getRequest(requestId: string): ApprovalRequest | undefined {
-    return this.pendingApprovals.get(requestId);
+  async getRequest(requestId: string): Promise<ApprovalRequest | undefined> {
+    if (!REQUEST_ID_PATTERN.test(requestId)) {
+      return undefined;
+    }
+
+    try {
+      const content = await fs.readFile(
+        this.getRequestPath(requestId),
+        'utf-8'
+      );
+      return this.deserialize(JSON.parse(content));
+    } catch {
+      return undefined;
+    }
   }
 
   /**
-   * Get all pending approvals
+   * Get all approval requests, optionally filtered by status
+   * Sorted oldest first
    */
-  getPendingApprovals(): ApprovalRequest[] {
-    return Array.from(this.pendingApprovals.values()).filter(
-      (r) => r.status === 'pending'
+  async listRequests(
+    status?: ApprovalRequest['status']
+  ): Promise<ApprovalRequest[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.approvalsDir);
+    } catch {
+      return [];
+    }
+
+    const requests: ApprovalRequest[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+
+      const request = await this.getRequest(path.basename(file, '.json'));
+      if (request && (!status || request.status === status)) {
+        requests.push(request);
+      }
+    }
+
+    return requests.sort(
+      (a, b) => a.requestedAt.getTime() - b.requestedAt.getTime()
     );
   }
 
+  /**
+   * Get all pending approvals
+   */
+  async getPendingApprovals(): Promise<ApprovalRequest[]> {
+    return this.listRequests('pending');
+  }
+
   /**
    * Clean up old requests
    */
-  cleanup(olderThanHours: number = 24): number {
+  async cleanup(olderThanHours: number = 24): Promise<number> {
     const cutoff = new Date();
     cutoff.setHours(cutoff.getHours() - olderThanHours);
 
     let removed = 0;
 
-    for (const [id, request] of this.pendingApprovals.entries()) {
+    for (const request of await this.listRequests()) {
       if (request.requestedAt < cutoff && request.status !== 'pending') {
-        this.pendingApprovals.delete(id);
+        await fs.rm(this.getRequestPath(request.id), { force: true });
+        await fs.rm(this.getConsumedPath(request.id), { force: true });
         removed++;
       }
     }
@@ -113,6 +273,61 @@ export class ApprovalGate {
     return removed;
   }
 
+  /**
+   * Hash what an approval allows: the code, its language and the tools it
+   * may call through the tool bridge
+   */
+  static hashRequest(
+    request: Pick<ApprovalRequest, 'code' | 'language' | 'tools'>
+  ): string {
+    return crypto
+      .createHash('sha256')
+      .update(
+        canonicalize({
+          code: request.code,
+          language: request.language,
+          tools: request.tools,
+        })
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Persist request atomically (write to temp file, then rename)
+   */
+  private async saveRequest(request: ApprovalRequest): Promise<void> {
+    await fs.mkdir(this.approvalsDir, { recursive: true });
+
+    const filePath = this.getRequestPath(request.id);
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.writeFile(tmpPath, JSON.stringify(request, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+  }
+
+  /**
+   * Restore Date fields from persisted JSON
+   */
+  private deserialize(data: ApprovalRequest): ApprovalRequest {
+    return {
+      ...data,
+      requestedAt: new Date(data.requestedAt),
+      approvedAt: data.approvedAt ? new Date(data.approvedAt) : undefined,
+      executedAt: data.executedAt ? new Date(data.executedAt) : undefined,
+    };
+  }
+
+  private getRequestPath(requestId: string): string {
+    return path.join(this.approvalsDir, `${requestId}.json`);
+  }
+
+  /**
+   * Marker created exactly once when an approval is consumed
+   */
+  private getConsumedPath(requestId: string): string {
+    return path.join(this.approvalsDir, `${requestId}.consumed`);
+  }
+
   /**
    * Generate unique request ID
    */
@@ -122,6 +337,8 @@ export class ApprovalGate {
 
   /**
    * Format approval request for display
+   * The hash shown is computed from the stored code, language and tools,
+   * for `approve`.
    */
   formatRequest(request: ApprovalRequest): string {
     const lines = [
@@ -130,8 +347,15 @@ export class ApprovalGate {
       '═══════════════════════════════════════════════════',
       '',
       `Request ID: ${request.id}`,
+      `Status:     ${request.status.toUpperCase()}`,
       `Risk Level: ${request.riskAssessment.riskLevel.toUpperCase()}`,
       `Risk Score: ${request.riskAssessment.riskScore}/100`,
+      `Code Hash:  ${ApprovalGate.hashRequest(request)}`,
+      ...(request.userRequest ? [`Intent:     ${request.userRequest}`] : []),
+      ...(request.language ? [`Language:   ${request.language}`] : []),
+      ...(request.tools
+        ? [`Tools:      ${request.tools.join(', ') || '(none)'}`]
+        : []),
       '',
       'Risk Factors:',
       ...request.riskAssessment.factors.map(
@@ -154,17 +378,34 @@ export class ApprovalGate {
   }
 }
 
+/**
+ * Context stored with an approval request so it can be resumed
+ */
+export interface ApprovalContext {
+  language?: SandboxLanguage;
+  userRequest?: string;
+  /** Tools the code may call through the tool bridge once approved */
+  tools?: string[];
+}
+
 /**
  * Approval request
  */
 export interface ApprovalRequest {
   id: string;
   code: string;
+  /** Hash of the code, language and tools (see `hashRequest`) */
+  codeHash: string;
+  language?: SandboxLanguage;
+  userRequest?: string;
+  tools?: string[];
   riskAssessment: RiskAssessment;
   validation: SecurityValidation;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'approved' | 'rejected' | 'executed';
   requestedAt: Date;
   approvedBy?: string;
   approvedAt?: Date;
+  approvedCodeHash?: string;
+  executedAt?: Date;
   reason?: string;
 }
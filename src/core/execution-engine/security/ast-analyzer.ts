@@ -0,0 +1,704 @@
+import { spawn } from 'child_process';
+import type * as TypeScript from 'typescript';
+import { SandboxLanguage, SecurityIssue } from '../types';
+import { loadTypeScript } from '../sandbox/runtimes';
+
+type TS = typeof TypeScript;
+
+/**
+ * Result of an AST pass
+ */
+export interface ASTAnalysis {
+  issues: SecurityIssue[];
+  /** [start, end) offsets of comments and string literals */
+  inertRanges: Array<[number, number]>;
+  /** Modules imported statically or with a constant name */
+  imports: Array<{ module: string; line: number }>;
+}
+
+const PROCESS_MODULES = new Set([
+  'child_process',
+  'cluster',
+  'worker_threads',
+  'vm',
+  'v8',
+  'inspector',
+]);
+
+const NETWORK_MODULES = new Set([
+  'net',
+  'dgram',
+  'tls',
+  'http',
+  'https',
+  'http2',
+  'dns',
+]);
+
+/**
+ * Members of the `Deno` namespace that start programs or load native code
+ */
+const DENO_PROCESS_MEMBERS = new Set(['Command', 'run', 'dlopen']);
+
+const GLOBAL_OBJECTS = new Set(['globalThis', 'global', 'window', 'self']);
+
+const DANGEROUS_MEMBERS = new Set([
+  'eval',
+  'Function',
+  'require',
+  'process',
+  'module',
+  'constructor',
+  '__proto__',
+  'mainModule',
+  'binding',
+  'dlopen',
+]);
+
+const FS_WRITE_METHODS = new Set([
+  'writeFile',
+  'writeFileSync',
+  'appendFile',
+  'appendFileSync',
+  'createWriteStream',
+  'mkdir',
+  'mkdirSync',
+  'rm',
+  'rmSync',
+  'rmdir',
+  'rmdirSync',
+  'unlink',
+  'unlinkSync',
+  'rename',
+  'renameSync',
+  'copyFile',
+  'copyFileSync',
+  'symlink',
+  'symlinkSync',
+  'chmod',
+  'chmodSync',
+  'truncate',
+  'truncateSync',
+]);
+
+/**
+ * Python side of the analysis: parses code read from stdin with `ast`,
+ * collects comment/string ranges with `tokenize` and prints JSON.
+ * Exits with status 2 on syntax errors.
+ */
+const PYTHON_AST_HELPER = `
+import ast, io, json, sys, tokenize
+
+PROCESS = {'subprocess', 'pty', 'ctypes', 'multiprocessing', 'commands'}
+NETWORK = {'socket', 'ssl', 'http', 'urllib', 'urllib3', 'requests', 'httpx', 'aiohttp', 'ftplib', 'smtplib', 'telnetlib'}
+OS_EXEC = ('system', 'popen', 'exec', 'spawn', 'fork', 'kill')
+DANGEROUS = {'eval', 'exec', 'compile', '__import__', 'system', 'popen', 'open', 'subprocess', 'getattr', 'globals', '__builtins__', '__globals__', '__subclasses__'}
+WRITE_CALLS = {'remove', 'unlink', 'rmdir', 'removedirs', 'rename', 'replace', 'makedirs', 'mkdir', 'chmod', 'chown', 'symlink', 'rmtree', 'copy', 'copy2', 'copyfile', 'copytree', 'move', 'write_text', 'write_bytes', 'touch'}
+
+source = sys.stdin.read()
+issues = []
+imports = []
+
+def add(node, severity, kind, description, suggestion):
+    issues.append({'severity': severity, 'type': kind, 'description': description,
+                   'line': getattr(node, 'lineno', None), 'suggestion': suggestion})
+
+def fold(node):
+    if isinstance(node, ast.Constant) and isinstance(node.value, str):
+        return node.value
+    if isinstance(node, ast.BinOp) and isinstance(node.op, ast.Add):
+        left, right = fold(node.left), fold(node.right)
+        if left is not None and right is not None:
+            return left + right
+    if isinstance(node, ast.JoinedStr):
+        parts = [fold(value) for value in node.values]
+        if all(part is not None for part in parts):
+            return ''.join(parts)
+    return None
+
+def dotted(node):
+    if isinstance(node, ast.Name):
+        return node.id
+    if isinstance(node, ast.Attribute):
+        base = dotted(node.value)
+        return base + '.' + node.attr if base else None
+    return None
+
+def outside(path):
+    return path.startswith(('/', '~', '\\\\')) or '..' in path.replace('\\\\', '/').split('/')
+
+def check_module(name, node):
+    imports.append({'module': name, 'line': node.lineno})
+    root = name.split('.')[0]
+    if root in PROCESS:
+        add(node, 'critical', 'process_execution', "Import of process execution module '%s'" % name,
+            'Use MCP tools instead of spawning processes')
+    elif root in NETWORK:
+        add(node, 'high', 'network_access', "Import of network module '%s'" % name,
+            'Route network access through MCP tools')
+
+def check_write(node, path_node, what):
+    path = fold(path_node) if path_node is not None else None
+    if path is not None and outside(path):
+        add(node, 'high', 'file_write_outside_workspace', "%s targets '%s' outside the workspace" % (what, path),
+            'Write only to relative paths inside the workspace')
+
+class Visitor(ast.NodeVisitor):
+    def visit_Import(self, node):
+        for alias in node.names:
+            check_module(alias.name, node)
+        self.generic_visit(node)
+
+    def visit_ImportFrom(self, node):
+        if node.module and node.level == 0:
+            check_module(node.module, node)
+            if node.module == 'os':
+                for alias in node.names:
+                    if alias.name.startswith(OS_EXEC):
+                        add(node, 'critical', 'process_execution', "Import of os.%s" % alias.name,
+                            'Use MCP tools instead of spawning processes')
+        self.generic_visit(node)
+
+    def visit_Call(self, node):
+        name = dotted(node.func) or ''
+        attr = node.func.attr if isinstance(node.func, ast.Attribute) else name
+        first = node.args[0] if node.args else None
+
+        if name in ('eval', 'exec', 'compile'):
+            add(node, 'critical', 'dynamic_code_execution', "Call to %s()" % name,
+                'Remove dynamic code execution')
+        elif name in ('__import__', 'importlib.import_module'):
+            module = fold(first) if first is not None else None
+            if module is None:
+                add(node, 'high', 'dynamic_import', "%s() with a computed module name" % name,
+                    'Import modules statically')
+            else:
+                check_module(module, node)
+        elif name in ('getattr', 'setattr', 'delattr') and first is not None:
+            key = fold(node.args[1]) if len(node.args) > 1 else None
+            if dotted(first) in ('__builtins__', 'builtins', 'os', 'sys', 'subprocess') or (
+                    isinstance(first, ast.Call) and dotted(first.func) in ('globals', 'vars', 'locals')):
+                if key is None or key in DANGEROUS or key.startswith(OS_EXEC):
+                    add(node, 'critical', 'computed_global_access',
+                        "%s() on %s with %s" % (name, dotted(first) or 'globals()', "key '%s'" % key if key else 'a computed key'),
+                        'Access attributes directly')
+        elif name.startswith('os.') and name[3:].startswith(OS_EXEC):
+            add(node, 'critical', 'process_execution', "Call to %s()" % name,
+                'Use MCP tools instead of spawning processes')
+        elif name.startswith('subprocess.'):
+            add(node, 'critical', 'process_execution', "Call to %s()" % name,
+                'Use MCP tools instead of spawning processes')
+        elif name in ('socket.socket', 'socket.create_connection', 'socket.create_server', 'socket.socketpair'):
+            add(node, 'high', 'network_access', "Raw socket via %s()" % name,
+                'Route network access through MCP tools')
+        elif name in ('open', 'io.open', 'os.open'):
+            mode = fold(node.args[1]) if len(node.args) > 1 else None
+            for keyword in node.keywords:
+                if keyword.arg in ('mode', 'flags'):
+                    mode = fold(keyword.value)
+            if name == 'os.open' or (mode is not None and any(flag in mode for flag in 'wax+')):
+                check_write(node, first, '%s()' % name)
+        elif attr in WRITE_CALLS:
+            target = first
+            if isinstance(node.func, ast.Attribute) and isinstance(node.func.value, ast.Call) and \\
+                    dotted(node.func.value.func) in ('Path', 'pathlib.Path', 'PurePath'):
+                target = node.func.value.args[0] if node.func.value.args else None
+            check_write(node, target, '%s()' % (name or attr))
+        self.generic_visit(node)
+
+    def visit_Subscript(self, node):
+        value = node.value
+        key_node = node.slice.value if isinstance(node.slice, getattr(ast, 'Index', ())) else node.slice
+        key = fold(key_node)
+        base = dotted(value)
+        if base in ('__builtins__', 'builtins.__dict__', 'os.__dict__', 'sys.modules') or (
+                isinstance(value, ast.Call) and dotted(value.func) in ('globals', 'vars', 'locals')):
+            if key is None or key in DANGEROUS or key.startswith(OS_EXEC):
+                add(node, 'critical', 'computed_global_access',
+                    "Subscript on %s with %s" % (base or 'globals()', "key '%s'" % key if key else 'a computed key'),
+                    'Access names directly')
+        self.generic_visit(node)
+
+try:
+    tree = ast.parse(source)
+except SyntaxError:
+    sys.exit(2)
+
+Visitor().visit(tree)
+
+line_starts = [0]
+for line in source.splitlines(keepends=True):
+    line_starts.append(line_starts[-1] + len(line))
+
+ranges = []
+try:
+    for tok in tokenize.generate_tokens(io.StringIO(source).readline):
+        if tok.type in (tokenize.COMMENT, tokenize.STRING):
+            ranges.append([line_starts[tok.start[0] - 1] + tok.start[1],
+                           line_starts[tok.end[0] - 1] + tok.end[1]])
+except (tokenize.TokenError, IndentationError):
+    pass
+
+print(json.dumps({'issues': issues, 'inertRanges': ranges, 'imports': imports}))
+`;
+
+const PYTHON_TIMEOUT_MS = 5000;
+
+/**
+ * Shell rules, matched where a command starts (comments and single-quoted
+ * strings are blanked first)
+ * Heuristics for obvious escapes only: quoting, variables or aliases get
+ * around them, which is why CodeValidator holds every Bash script for
+ * approval.
+ */
+const SHELL_COMMAND = String.raw`(?:^|[;&|({]|\$\(|\b(?:then|do|else)\b)\s*`;
+
+const SHELL_RULES: Array<{
+  pattern: RegExp;
+  severity: SecurityIssue['severity'];
+  type: string;
+  description: string;
+  suggestion: string;
+}> = [
+  {
+    pattern: new RegExp(
+      String.raw`${SHELL_COMMAND}(?:eval|source|\.)\s|${SHELL_COMMAND}(?:ba|z|da|k)?sh\s+-c\b|\|\s*(?:ba|z|da|k)?sh\b|${SHELL_COMMAND}(?:node|python3?|perl|ruby)\s+-[ec]\b`,
+      'gm'
+    ),
+    severity: 'critical',
+    type: 'dynamic_code_execution',
+    description: 'Shell runs generated code',
+    suggestion: 'Remove eval/source and inline interpreters',
+  },
+  {
+    pattern: new RegExp(
+      String.raw`${SHELL_COMMAND}(?:curl|wget|nc|ncat|netcat|socat|ssh|scp|telnet)\b|/dev/(?:tcp|udp)/`,
+      'gm'
+    ),
+    severity: 'high',
+    type: 'network_access',
+    description: 'Shell network client',
+    suggestion: 'Route network access through MCP tools',
+  },
+  {
+    pattern: new RegExp(String.raw`${SHELL_COMMAND}(?:sudo|su|doas)\b`, 'gm'),
+    severity: 'critical',
+    type: 'process_execution',
+    description: 'Shell changes user',
+    suggestion: 'Run without elevated privileges',
+  },
+  {
+    pattern: new RegExp(
+      String.raw`>>?\s*(?!/dev/(?:null|stdout|stderr)\b)(?:/|~|\.\./)|${SHELL_COMMAND}(?:rm|mv|cp|ln|chmod|chown|mkdir|touch|tee)\b[^;&|\n]*\s(?:/|~|\.\./)`,
+      'gm'
+    ),
+    severity: 'high',
+    type: 'file_write_outside_workspace',
+    description: 'Shell writes outside the workspace',
+    suggestion: 'Write only to relative paths inside the workspace',
+  },
+];
+
+/**
+ * AST-based security analysis
+ *
+ * Complements the regex patterns in CodeValidator: resolves constant string
+ * concatenation (`require('child' + '_process')`), sees computed member
+ * access on globals (`globalThis['ev' + 'al']`) and reports the exact line.
+ * Returns null when the code cannot be parsed or the parser is unavailable,
+ * in which case callers fall back to pattern matching only.
+ */
+export class ASTAnalyzer {
+  /**
+   * Analyze code in the given language
+   */
+  async analyze(
+    code: string,
+    language: SandboxLanguage
+  ): Promise<ASTAnalysis | null> {
+    if (language === 'python') {
+      return this.analyzePython(code);
+    }
+    if (language === 'bash') {
+      return this.analyzeShell(code);
+    }
+
+    const ts = await loadTypeScript();
+    return ts ? this.analyzeTypeScript(ts, code, language) : null;
+  }
+
+  /**
+   * Analyze TypeScript/JavaScript with the TypeScript compiler API
+   */
+  private analyzeTypeScript(
+    ts: TS,
+    code: string,
+    language: SandboxLanguage
+  ): ASTAnalysis {
+    const sourceFile = ts.createSourceFile(
+      language === 'javascript' ? 'snippet.js' : 'snippet.ts',
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      language === 'javascript' ? ts.ScriptKind.JS : ts.ScriptKind.TS
+    );
+
+    const issues: SecurityIssue[] = [];
+    const inertRanges: Array<[number, number]> = [];
+    const imports: ASTAnalysis['imports'] = [];
+    const seenComments = new Set<number>();
+
+    const lineOf = (node: TypeScript.Node): number =>
+      sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line +
+      1;
+
+    const add = (
+      node: TypeScript.Node,
+      severity: SecurityIssue['severity'],
+      type: string,
+      description: string,
+      suggestion: string
+    ): void => {
+      issues.push({
+        severity,
+        type,
+        description,
+        line: lineOf(node),
+        suggestion,
+      });
+    };
+
+    const fold = (node: TypeScript.Node | undefined): string | undefined => {
+      if (!node) return undefined;
+      if (
+        ts.isStringLiteral(node) ||
+        ts.isNoSubstitutionTemplateLiteral(node)
+      ) {
+        return node.text;
+      }
+      if (ts.isParenthesizedExpression(node)) {
+        return fold(node.expression);
+      }
+      if (
+        ts.isBinaryExpression(node) &&
+        node.operatorToken.kind === ts.SyntaxKind.PlusToken
+      ) {
+        const left = fold(node.left);
+        const right = fold(node.right);
+        return left !== undefined && right !== undefined
+          ? left + right
+          : undefined;
+      }
+      if (ts.isTemplateExpression(node)) {
+        let text = node.head.text;
+        for (const span of node.templateSpans) {
+          const value = fold(span.expression);
+          if (value === undefined) return undefined;
+          text += value + span.literal.text;
+        }
+        return text;
+      }
+      return undefined;
+    };
+
+    const checkModule = (name: string, node: TypeScript.Node): void => {
+      imports.push({ module: name, line: lineOf(node) });
+      const module = name.replace(/^node:/, '').split('/')[0] ?? name;
+      if (PROCESS_MODULES.has(module)) {
+        add(
+          node,
+          'critical',
+          'process_execution',
+          `Import of process execution module '${name}'`,
+          'Use MCP tools instead of spawning processes'
+        );
+      } else if (NETWORK_MODULES.has(module)) {
+        add(
+          node,
+          'high',
+          'network_access',
+          `Import of network module '${name}'`,
+          'Route network access through MCP tools'
+        );
+      }
+    };
+
+    const checkDynamicImport = (
+      node: TypeScript.CallExpression,
+      kind: string
+    ): void => {
+      const module = fold(node.arguments[0]);
+      if (module === undefined) {
+        add(
+          node,
+          'high',
+          'dynamic_import',
+          `${kind} with a computed module name`,
+          'Import modules with a string literal'
+        );
+      } else {
+        checkModule(module, node);
+      }
+    };
+
+    const checkComputedAccess = (
+      node: TypeScript.Node,
+      target: TypeScript.Expression,
+      keyNode: TypeScript.Node | undefined
+    ): void => {
+      const key = fold(keyNode);
+      const isGlobal =
+        ts.isIdentifier(target) &&
+        (GLOBAL_OBJECTS.has(target.text) ||
+          target.text === 'process' ||
+          target.text === 'Deno');
+
+      const dangerous =
+        key === undefined ||
+        DANGEROUS_MEMBERS.has(key) ||
+        ((target as TypeScript.Identifier).text === 'Deno' &&
+          DENO_PROCESS_MEMBERS.has(key));
+      if (isGlobal && dangerous) {
+        add(
+          node,
+          'critical',
+          'computed_global_access',
+          `Computed access to ${(target as TypeScript.Identifier).text}[${key !== undefined ? `'${key}'` : '…'}]`,
+          'Access globals directly so they can be reviewed'
+        );
+      } else if (
+        key !== undefined &&
+        (key === 'constructor' || key === '__proto__') &&
+        !(keyNode && ts.isStringLiteral(keyNode))
+      ) {
+        add(
+          node,
+          'critical',
+          'computed_global_access',
+          `Computed access to '${key}' (sandbox escape vector)`,
+          'Remove prototype/constructor access'
+        );
+      }
+    };
+
+    const checkWrite = (node: TypeScript.CallExpression, name: string) => {
+      const target = fold(node.arguments[0]);
+      if (
+        target !== undefined &&
+        (/^([/\\~]|[A-Za-z]:)/.test(target) ||
+          target.split(/[/\\]/).includes('..'))
+      ) {
+        add(
+          node,
+          'high',
+          'file_write_outside_workspace',
+          `${name}() targets '${target}' outside the workspace`,
+          'Write only to relative paths inside the workspace'
+        );
+      }
+    };
+
+    const collectComments = (pos: number): void => {
+      const ranges = [
+        ...(ts.getLeadingCommentRanges(code, pos) || []),
+        ...(ts.getTrailingCommentRanges(code, pos) || []),
+      ];
+      for (const range of ranges) {
+        if (!seenComments.has(range.pos)) {
+          seenComments.add(range.pos);
+          inertRanges.push([range.pos, range.end]);
+        }
+      }
+    };
+
+    const visit = (node: TypeScript.Node): void => {
+      collectComments(node.pos);
+      collectComments(node.end);
+
+      if (
+        ts.isStringLiteral(node) ||
+        ts.isNoSubstitutionTemplateLiteral(node)
+      ) {
+        inertRanges.push([node.getStart(sourceFile), node.end]);
+      } else if (
+        (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+        node.moduleSpecifier &&
+        ts.isStringLiteral(node.moduleSpecifier)
+      ) {
+        checkModule(node.moduleSpecifier.text, node);
+      } else if (
+        ts.isImportEqualsDeclaration(node) &&
+        ts.isExternalModuleReference(node.moduleReference) &&
+        ts.isStringLiteral(node.moduleReference.expression)
+      ) {
+        checkModule(node.moduleReference.expression.text, node);
+      } else if (ts.isCallExpression(node)) {
+        const callee = node.expression;
+
+        if (callee.kind === ts.SyntaxKind.ImportKeyword) {
+          checkDynamicImport(node, 'import()');
+        } else if (ts.isIdentifier(callee) && callee.text === 'require') {
+          checkDynamicImport(node, 'require()');
+        } else if (
+          ts.isPropertyAccessExpression(callee) &&
+          ts.isIdentifier(callee.expression) &&
+          callee.expression.text === 'Reflect' &&
+          callee.name.text === 'get' &&
+          node.arguments[0]
+        ) {
+          checkComputedAccess(node, node.arguments[0], node.arguments[1]);
+        } else if (
+          ts.isPropertyAccessExpression(callee) &&
+          ts.isIdentifier(callee.expression) &&
+          callee.expression.text === 'process' &&
+          ['binding', 'dlopen', '_linkedBinding'].includes(callee.name.text)
+        ) {
+          add(
+            node,
+            'critical',
+            'process_execution',
+            `Call to process.${callee.name.text}()`,
+            'Remove native binding access'
+          );
+        }
+
+        const method = ts.isPropertyAccessExpression(callee)
+          ? callee.name.text
+          : ts.isIdentifier(callee)
+            ? callee.text
+            : undefined;
+        if (method && FS_WRITE_METHODS.has(method)) {
+          checkWrite(node, method);
+        }
+      } else if (ts.isElementAccessExpression(node)) {
+        checkComputedAccess(node, node.expression, node.argumentExpression);
+      } else if (
+        ts.isPropertyAccessExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === 'Deno' &&
+        DENO_PROCESS_MEMBERS.has(node.name.text)
+      ) {
+        add(
+          node,
+          'critical',
+          'process_execution',
+          `Use of Deno.${node.name.text}`,
+          'Use MCP tools instead of spawning processes'
+        );
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+
+    return { issues, inertRanges, imports };
+  }
+
+  /**
+   * Flag obvious escapes in a Bash script with line-level rules
+   * There is no shell parser, so commands are recognised by their position;
+   * comments and single-quoted strings (jq programs) are inert. Finding
+   * nothing does not make a script safe.
+   */
+  private analyzeShell(code: string): ASTAnalysis {
+    const inertRanges: Array<[number, number]> = [];
+    for (let i = 0; i < code.length; i++) {
+      const char = code[i];
+      if (char === '\\') {
+        i++;
+      } else if (char === "'") {
+        const end = code.indexOf("'", i + 1);
+        const stop = end === -1 ? code.length : end + 1;
+        inertRanges.push([i, stop]);
+        i = stop - 1;
+      } else if (char === '#' && (i === 0 || /[\s;&|(]/.test(code[i - 1]!))) {
+        const end = code.indexOf('\n', i);
+        const stop = end === -1 ? code.length : end;
+        inertRanges.push([i, stop]);
+        i = stop - 1;
+      } else if (char === '"') {
+        // Double-quoted strings still expand, skip to their end
+        for (i++; i < code.length && code[i] !== '"'; i++) {
+          if (code[i] === '\\') i++;
+        }
+      }
+    }
+
+    let active = code;
+    for (const [start, end] of inertRanges) {
+      active =
+        active.slice(0, start) +
+        active.slice(start, end).replace(/[^\n]/g, ' ') +
+        active.slice(end);
+    }
+
+    const issues: SecurityIssue[] = [];
+    for (const rule of SHELL_RULES) {
+      for (const match of active.matchAll(rule.pattern)) {
+        issues.push({
+          severity: rule.severity,
+          type: rule.type,
+          description: `${rule.description}: ${match[0].trim()}`,
+          line: code.slice(0, match.index).split('\n').length,
+          suggestion: rule.suggestion,
+        });
+      }
+    }
+
+    return { issues, inertRanges, imports: [] };
+  }
+
+  /**
+   * Analyze Python with the local python3 `ast` module
+   */
+  private analyzePython(code: string): Promise<ASTAnalysis | null> {
+    return new Promise((resolve) => {
+      let stdout = '';
+      let settled = false;
+
+      const finish = (analysis: ASTAnalysis | null): void => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(timer);
+          resolve(analysis);
+        }
+      };
+
+      const child = spawn('python3', ['-c', PYTHON_AST_HELPER], {
+        stdio: ['pipe', 'pipe', 'ignore'],
+      });
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        finish(null);
+      }, PYTHON_TIMEOUT_MS);
+
+      child.stdout.on('data', (data: Buffer) => {
+        stdout += data.toString();
+      });
+
+      child.on('error', () => finish(null));
+
+      child.on('close', (exitCode) => {
+        if (exitCode !== 0) {
+          finish(null);
+          return;
+        }
+        try {
+          const analysis = JSON.parse(stdout) as ASTAnalysis;
+          analysis.issues = analysis.issues.map((issue) => ({
+            ...issue,
+            line: issue.line ?? undefined,
+          }));
+          finish(analysis);
+        } catch {
+          finish(null);
+        }
+      });
+
+      child.stdin.on('error', () => finish(null));
+      child.stdin.end(code);
+    });
+  }
+}
@@ -1,19 +1,33 @@
-import { SecurityValidation, SecurityIssue } from '../types';
+import { SecurityValidation, SecurityIssue, SandboxLanguage } from '../types';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { ASTAnalyzer, ASTAnalysis } from './ast-analyzer';
+import { DEFAULT_SECURITY_POLICY, SecurityPolicy } from './security-policy';
 
 /**
  * Validates generated code for security issues
- * Pattern-based analysis to detect dangerous code patterns
+ * Pattern-based analysis to detect dangerous code patterns, refined by an
+ * AST pass that ignores matches in comments/strings and catches obfuscated
+ * access the patterns cannot see
  */
 export class CodeValidator {
   private dangerousPatterns: RegExp[] = [];
   private suspiciousPatterns: RegExp[] = [];
   private initPromise: Promise<void> | null = null;
   private readonly INIT_TIMEOUT_MS = 5000;
+  private astAnalyzer: ASTAnalyzer;
+  private policy: SecurityPolicy = DEFAULT_SECURITY_POLICY;
 
   constructor() {
     // Patterns will be loaded lazily
+    this.astAnalyzer = new ASTAnalyzer();
+  }
+
+  /**
+   * Apply a security policy (block score, allowed modules, forbidden APIs)
+   */
+  setPolicy(policy: SecurityPolicy): void {
+    this.policy = policy;
   }
 
   /**
@@ -23,7 +37,14 @@ export class CodeValidator {
    * On first call, patterns are loaded lazily with automatic fallback to hardcoded defaults.
    * Thread-safe: handles concurrent validation requests correctly during initialization.
    *
+   * When the code parses, pattern matches inside comments and string literals
+   * are ignored and AST findings (dynamic imports, computed global access,
+   * process execution, sockets, writes outside the workspace) are added.
+   * Bash has no parser, only heuristic rules, so Bash scripts always
+   * require approval.
+   *
    * @param code - The code string to validate
+   * @param language - Language used to pick the AST parser (default: typescript)
    * @returns Promise resolving to validation result with security assessment
    *
    * @example
@@ -36,28 +57,114 @@ export class CodeValidator {
    * }
    * ```
    */
-  async validate(code: string): Promise<SecurityValidation> {
+  async validate(
+    code: string,
+    language: SandboxLanguage = 'typescript'
+  ): Promise<SecurityValidation> {
     await this.ensureInitialized();
 
     const issues: SecurityIssue[] = [];
+    const analysis = await this.astAnalyzer.analyze(code, language);
+    const inertRanges = analysis?.inertRanges ?? [];
 
     // Check for dangerous patterns
-    issues.push(...this.checkDangerousPatterns(code));
+    issues.push(...this.checkDangerousPatterns(code, inertRanges));
 
     // Check for suspicious patterns
-    issues.push(...this.checkSuspiciousPatterns(code));
+    issues.push(...this.checkSuspiciousPatterns(code, inertRanges));
+
+    // Add AST findings
+    if (analysis) {
+      issues.push(...analysis.issues);
+      issues.push(...this.checkAllowedModules(analysis));
+    }
+
+    // Apply policy rules
+    issues.push(...this.checkForbiddenApis(code, inertRanges));
+
+    // Shell rules only catch obvious escapes, and a script that passes them
+    // runs with the user's privileges: every Bash script needs approval
+    const unverified = language === 'bash';
+    if (unverified) {
+      issues.push({
+        severity: 'low',
+        type: 'unverified_language',
+        description:
+          'Bash is only checked with heuristic line rules, not validated',
+        suggestion:
+          'Review the whole script before approving it, or use another language',
+      });
+    }
 
     // Calculate risk score
     const riskScore = this.calculateRiskScore(issues);
+    const blockScore = this.policy.validation.blockScore;
 
     return {
-      isSecure: riskScore < 70,
+      isSecure: riskScore < blockScore,
       riskScore,
       issues,
-      requiresApproval: riskScore >= 70,
+      requiresApproval: riskScore >= blockScore || unverified,
     };
   }
 
+  /**
+   * Check imports against the policy's allowed modules
+   */
+  private checkAllowedModules(analysis: ASTAnalysis): SecurityIssue[] {
+    const allowed = this.policy.allowedModules;
+    if (!allowed) {
+      return [];
+    }
+
+    return analysis.imports
+      .filter(({ module }) => {
+        const name = module.replace(/^node:/, '');
+        return !allowed.some(
+          (entry) =>
+            name === entry ||
+            name.startsWith(`${entry}/`) ||
+            name.startsWith(`${entry}.`)
+        );
+      })
+      .map(({ module, line }) => ({
+        severity: 'critical' as const,
+        type: 'module_not_allowed',
+        description: `Module '${module}' is not in the policy's allowed modules`,
+        line,
+        suggestion: 'Use an allowed module or update the security policy',
+      }));
+  }
+
+  /**
+   * Check code for APIs the policy forbids
+   */
+  private checkForbiddenApis(
+    code: string,
+    inertRanges: Array<[number, number]>
+  ): SecurityIssue[] {
+    const issues: SecurityIssue[] = [];
+
+    for (const api of this.policy.forbiddenApis) {
+      const escaped = api.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const pattern = new RegExp(`(?<![\\w.$])${escaped}(?![\\w$])`, 'g');
+
+      for (const match of code.matchAll(pattern)) {
+        if (this.isInert(match.index || 0, inertRanges)) continue;
+
+        issues.push({
+          severity: 'critical',
+          type: 'forbidden_api',
+          description: `Forbidden by security policy: ${api}`,
+          line: this.getLineNumber(code, match.index || 0),
+          suggestion: 'Remove this API call; it is not allowed by policy',
+        });
+      }
+    }
+
+    return issues;
+  }
+
   /**
    * Ensures patterns are initialized exactly once, even with concurrent calls
    * Uses Promise-based guard to prevent race conditions
@@ -196,7 +303,10 @@ export class CodeValidator {
   /**
    * Check for dangerous patterns
    */
-  private checkDangerousPatterns(code: string): SecurityIssue[] {
+  private checkDangerousPatterns(
+    code: string,
+    inertRanges: Array<[number, number]>
+  ): SecurityIssue[] {
     const issues: SecurityIssue[] = [];
 
     for (const pattern of this.dangerousPatterns) {
@@ -204,6 +314,8 @@ export class CodeValidator {
       const matches = code.matchAll(pattern);
 
       for (const match of matches) {
+        if (this.isInert(match.index || 0, inertRanges)) continue;
+
         issues.push({
           severity: 'critical',
           type: 'dangerous_pattern',
@@ -220,7 +332,10 @@ export class CodeValidator {
   /**
    * Check for suspicious patterns
    */
-  private checkSuspiciousPatterns(code: string): SecurityIssue[] {
+  private checkSuspiciousPatterns(
+    code: string,
+    inertRanges: Array<[number, number]>
+  ): SecurityIssue[] {
     const issues: SecurityIssue[] = [];
 
     for (const pattern of this.suspiciousPatterns) {
@@ -228,6 +343,8 @@ export class CodeValidator {
       const matches = code.matchAll(pattern);
 
       for (const match of matches) {
+        if (this.isInert(match.index || 0, inertRanges)) continue;
+
         issues.push({
           severity: 'medium',
           type: 'suspicious_pattern',
@@ -261,6 +378,16 @@ export class CodeValidator {
     return Math.min(100, totalScore);
   }
 
+  /**
+   * Check whether an offset falls inside a comment or string literal
+   */
+  private isInert(
+    index: number,
+    inertRanges: Array<[number, number]>
+  ): boolean {
+    return inertRanges.some(([start, end]) => index >= start && index < end);
+  }
+
   /**
    * Get line number from character index
    */
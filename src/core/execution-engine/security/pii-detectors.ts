@@ -0,0 +1,375 @@
+import { promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+import { z } from 'zod';
+import { PIIToken } from '../types';
+
+/**
+ * A PII detector
+ * Matches candidates with a regex and optionally confirms them with a
+ * validator (checksums) to keep false positives out of the model context.
+ */
+export interface PIIDetector {
+  /** Unique detector name (registry key) */
+  name: string;
+  type: PIIToken['type'];
+  pattern: RegExp;
+  /** Token prefix, e.g. 'employee_id' → [EMPLOYEE_ID_1] (default: type) */
+  label?: string;
+  /** Capture group holding the PII; the rest of the match is kept */
+  group?: number;
+  validate?: (value: string) => boolean;
+}
+
+/**
+ * Custom detection rule from `.claude/config.json` (`pii.customPatterns`)
+ */
+export interface CustomPIIRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+  type?: PIIToken['type'];
+}
+
+/**
+ * Every token type, in the order of `PIIToken['type']`
+ */
+export const PII_TOKEN_TYPES = [
+  'email',
+  'phone',
+  'name',
+  'ssn',
+  'credit_card',
+  'iban',
+  'ip_address',
+  'api_key',
+  'national_id',
+  'vat_number',
+  'custom',
+] as const satisfies ReadonlyArray<PIIToken['type']>;
+
+/**
+ * Labels end up inside tokens, so they must match the token format
+ */
+const LABEL_PATTERN = /^[A-Za-z]+(?:_[A-Za-z]+)*$/;
+
+/**
+ * A custom rule as configured; its pattern is compiled while parsing
+ */
+const CustomPIIRuleSchema = z
+  .object({
+    name: z.string().regex(LABEL_PATTERN, 'use letters and underscores only'),
+    pattern: z.string().min(1),
+    flags: z.string().optional(),
+    type: z.enum(PII_TOKEN_TYPES).default('custom'),
+  })
+  .transform((rule, ctx) => {
+    try {
+      return {
+        ...rule,
+        regex: new RegExp(rule.pattern, (rule.flags || '').replace('g', '')),
+      };
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['pattern'],
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return z.NEVER;
+    }
+  });
+
+/**
+ * Luhn checksum (credit cards, Italian VAT numbers)
+ */
+export function isValidLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 2) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * IBAN mod-97 check (ISO 13616)
+ */
+export function isValidIBAN(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = parseInt(char, 36).toString();
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+// Values of odd-position characters in the codice fiscale check algorithm
+const CF_ODD_VALUES = [
+  1, 0, 5, 7, 9, 13, 15, 17, 19, 21, 2, 4, 18, 20, 11, 3, 6, 8, 12, 14, 16, 10,
+  22, 25, 24, 23,
+];
+
+/**
+ * Italian codice fiscale check character
+ */
+export function isValidCodiceFiscale(value: string): boolean {
+  const cf = value.toUpperCase();
+  if (!/^[A-Z0-9]{16}$/.test(cf)) {
+    return false;
+  }
+
+  let sum = 0;
+  Array.from(cf.slice(0, 15)).forEach((char, i) => {
+    const index = /\d/.test(char)
+      ? Number(char)
+      : char.charCodeAt(0) - 'A'.charCodeAt(0);
+    // Positions are 1-based in the spec: odd positions use the lookup table
+    sum += i % 2 === 0 ? (CF_ODD_VALUES[index] ?? 0) : index;
+  });
+
+  return cf[15] === String.fromCharCode('A'.charCodeAt(0) + (sum % 26));
+}
+
+/**
+ * EU VAT number check (checksum for Italy, format only elsewhere)
+ */
+export function isValidVATNumber(value: string): boolean {
+  const vat = value.replace(/\s/g, '').toUpperCase();
+  if (vat.startsWith('IT')) {
+    return isValidLuhn(vat.slice(2));
+  }
+  return true;
+}
+
+/**
+ * Built-in detectors, in evaluation order
+ * More specific formats run first so that e.g. IBAN digits are not
+ * picked up as phone numbers.
+ */
+export function createDefaultDetectors(): PIIDetector[] {
+  return [
+    {
+      name: 'aws_access_key',
+      type: 'api_key',
+      pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+    },
+    {
+      name: 'github_token',
+      type: 'api_key',
+      pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_\w{22,255})\b/,
+    },
+    {
+      name: 'email',
+      type: 'email',
+      pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/,
+    },
+    {
+      name: 'iban',
+      type: 'iban',
+      pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/,
+      validate: isValidIBAN,
+    },
+    {
+      name: 'credit_card',
+      type: 'credit_card',
+      pattern: /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/,
+      validate: isValidLuhn,
+    },
+    {
+      name: 'ssn',
+      type: 'ssn',
+      pattern: /\b\d{3}-\d{2}-\d{4}\b/,
+    },
+    {
+      name: 'codice_fiscale',
+      type: 'national_id',
+      pattern:
+        /\b[A-Z]{6}[0-9LMNP-V]{2}[A-EHLMPR-T][0-9LMNP-V]{2}[A-Z][0-9LMNP-V]{3}[A-Z]\b/i,
+      validate: isValidCodiceFiscale,
+    },
+    {
+      name: 'vat_number',
+      type: 'vat_number',
+      pattern:
+        /\b(?:ATU\d{8}|BE[01]\d{9}|DE\d{9}|DK\d{8}|ES[A-Z0-9]\d{7}[A-Z0-9]|FR[A-HJ-NP-Z0-9]{2}\d{9}|IT\d{11}|NL\d{9}B\d{2}|PT\d{9})\b/,
+      validate: isValidVATNumber,
+    },
+    {
+      name: 'ipv4',
+      type: 'ip_address',
+      pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/,
+      validate: (value) => net.isIPv4(value),
+    },
+    {
+      name: 'ipv6',
+      type: 'ip_address',
+      pattern: /(?<![\w:])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:])/,
+      validate: (value) => net.isIPv6(value) && /[0-9A-Fa-f]/.test(value),
+    },
+    {
+      name: 'phone',
+      type: 'phone',
+      pattern: /\b(\+\d{1,3}[-.]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/,
+    },
+    {
+      // Basic "Mr./Mrs./Ms./Dr. FirstName LastName" - real-world would use NER
+      name: 'name',
+      type: 'name',
+      pattern: /\b(Mr\.|Mrs\.|Ms\.|Dr\.)\s+([A-Z][a-z]+\s+[A-Z][a-z]+)\b/,
+      group: 2,
+    },
+  ];
+}
+
+/**
+ * Build a detector from a config rule
+ * Rules come from a config file, so they are checked as a whole first.
+ *
+ * @throws {Error} If the name is not a valid token label, the type is not a
+ * token type or the regex is invalid; the message names the rule
+ */
+export function createCustomDetector(rule: CustomPIIRule): PIIDetector {
+  const result = CustomPIIRuleSchema.safeParse(rule);
+  if (!result.success) {
+    const name = typeof rule?.name === 'string' ? rule.name : '(unnamed)';
+    const issue = result.error.issues[0]!;
+    const field = issue.path.join('.') || 'rule';
+    throw new Error(
+      field === 'name'
+        ? `Invalid custom PII rule name "${name}": ${issue.message}`
+        : `Invalid ${field} for custom PII rule "${name}": ${issue.message}`
+    );
+  }
+
+  return {
+    name: result.data.name,
+    type: result.data.type,
+    label: result.data.name.toLowerCase(),
+    pattern: result.data.regex,
+  };
+}
+
+/**
+ * Load custom detectors from the project config (`pii.customPatterns`)
+ * Returns an empty list when the config file or section is missing
+ */
+export async function loadCustomPIIDetectors(
+  configPath: string = path.join(process.cwd(), '.claude', 'config.json')
+): Promise<PIIDetector[]> {
+  let config: { pii?: { customPatterns?: CustomPIIRule[] } };
+  try {
+    config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  } catch {
+    return [];
+  }
+
+  return (config.pii?.customPatterns || []).map(createCustomDetector);
+}
+
+/**
+ * Ordered registry of PII detectors
+ */
+export class PIIDetectorRegistry {
+  private detectors: Map<string, PIIDetector> = new Map();
+
+  constructor(detectors: PIIDetector[] = createDefaultDetectors()) {
+    for (const detector of detectors) {
+      this.register(detector);
+    }
+  }
+
+  /**
+   * Add a detector (replaces an existing detector with the same name)
+   * New detectors run after the built-ins
+   */
+  register(detector: PIIDetector): void {
+    const label = detector.label || detector.type;
+    if (!LABEL_PATTERN.test(label)) {
+      throw new Error(`Invalid PII token label: ${label}`);
+    }
+
+    this.detectors.set(detector.name, detector);
+  }
+
+  /**
+   * Remove a detector by name
+   */
+  unregister(name: string): boolean {
+    return this.detectors.delete(name);
+  }
+
+  /**
+   * Get a detector by name
+   */
+  get(name: string): PIIDetector | undefined {
+    return this.detectors.get(name);
+  }
+
+  /**
+   * Get all detectors in evaluation order
+   */
+  list(): PIIDetector[] {
+    return Array.from(this.detectors.values());
+  }
+
+  /**
+   * Replace every validated match of a detector
+   */
+  replace(
+    text: string,
+    detector: PIIDetector,
+    replacer: (value: string) => string
+  ): string {
+    const flags = detector.pattern.flags.includes('g')
+      ? detector.pattern.flags
+      : `${detector.pattern.flags}g`;
+    const pattern = new RegExp(detector.pattern.source, flags);
+
+    return text.replace(pattern, (match: string, ...groups: unknown[]) => {
+      const value = detector.group
+        ? (groups[detector.group - 1] as string | undefined)
+        : match;
+
+      if (!value || (detector.validate && !detector.validate(value))) {
+        return match;
+      }
+
+      return detector.group
+        ? match.replace(value, replacer(value))
+        : replacer(value);
+    });
+  }
+
+  /**
+   * Check whether any detector finds validated PII in text
+   */
+  test(text: string): boolean {
+    return this.list().some((detector) => {
+      let found = false;
+      this.replace(text, detector, (value) => {
+        found = true;
+        return value;
+      });
+      return found;
+    });
+  }
+}
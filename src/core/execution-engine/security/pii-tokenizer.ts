@@ -1,82 +1,286 @@
 import crypto from 'crypto';
 import { PIIToken } from '../types';
+import { PII_TOKEN_TYPES, PIIDetectorRegistry } from './pii-detectors';
+import {
+  DetokenizationGrant,
+  TokenVault,
+  VAULT_KEY_ENV,
+  VAULT_KEYFILE_ENV,
+} from './token-vault';
+
+/**
+ * Matches tokens produced by the tokenizer, e.g. [EMAIL_1], [CREDIT_CARD_2]
+ */
+const TOKEN_PATTERN = /\[[A-Z]+(?:_[A-Z]+)*_\d+\]/g;
+
+export interface PIITokenizerOptions {
+  /** Encrypted vault enabling scoped detokenization for tool calls */
+  vault?: TokenVault;
+  /** Vault scope (one per session) */
+  scope?: string;
+  /** Detectors to run (default: built-in detectors) */
+  detectors?: PIIDetectorRegistry;
+}
+
+/**
+ * Key names whose values are tokenized even when no detector matches
+ */
+export const DEFAULT_PII_FIELDS = ['email', 'phone', 'ssn'];
+
+export interface TokenizeValueOptions {
+  /**
+   * Fields always tokenized as a whole: key names (`email`) or JSON paths
+   * (`$.customer.email`, `$.rows[*].phone`). The token type is taken from
+   * the key when it names a PII type, otherwise `custom`.
+   */
+  fields?: string[];
+}
+
+/**
+ * What was replaced in one field of a structured value
+ */
+export interface TokenizedField {
+  path: string; // e.g. "$.rows[0].email"
+  tokens: string[];
+  types: PIIToken['type'][];
+  targeted: boolean; // Matched a configured field rather than a detector
+  key?: boolean; // Replaced in the field's key rather than its value
+}
+
+export interface TokenizedValue<T> {
+  value: T;
+  report: TokenizedField[];
+}
 
 /**
  * Tokenizes PII data for privacy protection
  * Converts sensitive data to tokens like [EMAIL_1], [PHONE_1]
+ *
+ * Without a vault tokenization is one-way. With a vault, original values are
+ * stored encrypted and can be restored only for tool calls holding a grant.
  */
 export class PIITokenizer {
   private tokenMap: Map<string, PIIToken> = new Map();
   private counters: Map<string, number> = new Map();
+  private vault?: TokenVault;
+  private scope: string;
+  private detectors: PIIDetectorRegistry;
+
+  constructor(options: PIITokenizerOptions = {}) {
+    this.detectors = options.detectors || new PIIDetectorRegistry();
+    this.vault = options.vault;
+    this.scope = options.scope || 'default';
+  }
 
   /**
    * Tokenize text containing PII
    */
   tokenize(text: string): string {
-    let tokenized = text;
+    return this.tokenizeText(text, []);
+  }
 
-    // Tokenize emails
-    tokenized = tokenized.replace(
-      /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-      (email) => this.getOrCreateToken(email, 'email')
+  /**
+   * Tokenize a structured value, preserving its shape
+   * Walks objects and arrays, tokenizes keys and string leaves with the
+   * detectors and replaces targeted fields as a whole. Returns the new value
+   * together with a per-field report of what was replaced (tokens only,
+   * never values); reported paths use the tokenized keys.
+   */
+  tokenizeValue<T>(
+    value: T,
+    options: TokenizeValueOptions = {}
+  ): TokenizedValue<T> {
+    const fields = options.fields || DEFAULT_PII_FIELDS;
+    const keyNames = new Set(
+      fields.filter((f) => !f.startsWith('$')).map((f) => f.toLowerCase())
     );
+    const pathPatterns = fields
+      .filter((f) => f.startsWith('$'))
+      .map((f) => this.compilePath(f));
+    const report: TokenizedField[] = [];
 
-    // Tokenize phone numbers (various formats)
-    tokenized = tokenized.replace(
-      /\b(\+\d{1,3}[-.]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g,
-      (phone) => this.getOrCreateToken(phone, 'phone')
-    );
+    const walk = (
+      node: unknown,
+      nodePath: string,
+      forcedType?: PIIToken['type']
+    ): unknown => {
+      if (Array.isArray(node)) {
+        return node.map((child, i) =>
+          walk(child, `${nodePath}[${i}]`, forcedType)
+        );
+      }
 
-    // Tokenize credit cards (various formats)
-    tokenized = tokenized.replace(
-      /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g,
-      (cc) => this.getOrCreateToken(cc, 'credit_card')
-    );
+      if (node && typeof node === 'object') {
+        return Object.fromEntries(
+          Object.entries(node).map(([key, child]) => {
+            // Keys such as an email address naming a record are PII too
+            const keyFound: Array<Pick<PIIToken, 'token' | 'type'>> = [];
+            const tokenizedKey = this.tokenizeText(key, keyFound);
+            const childPath = `${nodePath}.${tokenizedKey}`;
+            if (keyFound.length > 0) {
+              report.push({
+                path: childPath,
+                tokens: keyFound.map((t) => t.token),
+                types: Array.from(new Set(keyFound.map((t) => t.type))),
+                targeted: false,
+                key: true,
+              });
+            }
+            const targeted =
+              keyNames.has(key.toLowerCase()) ||
+              pathPatterns.some((pattern) => pattern.test(childPath));
+            const childType = targeted ? this.fieldType(key) : forcedType;
+            return [tokenizedKey, walk(child, childPath, childType)];
+          })
+        );
+      }
 
-    // Tokenize SSN (US format)
-    tokenized = tokenized.replace(/\b\d{3}-\d{2}-\d{4}\b/g, (ssn) =>
-      this.getOrCreateToken(ssn, 'ssn')
-    );
+      const found: Array<Pick<PIIToken, 'token' | 'type'>> = [];
+      let result: unknown = node;
 
-    // Tokenize common name patterns (simplified)
-    // This is a basic implementation - real-world would use NER
-    tokenized = this.tokenizeNames(tokenized);
+      if (
+        forcedType &&
+        (typeof node === 'string' || typeof node === 'number') &&
+        String(node) !== ''
+      ) {
+        const token = this.getOrCreateToken(
+          String(node),
+          forcedType,
+          forcedType
+        );
+        found.push({ token, type: forcedType });
+        result = token;
+      } else if (typeof node === 'string') {
+        result = this.tokenizeText(node, found);
+      }
 
-    return tokenized;
+      if (found.length > 0) {
+        report.push({
+          path: nodePath,
+          tokens: found.map((t) => t.token),
+          types: Array.from(new Set(found.map((t) => t.type))),
+          targeted: forcedType !== undefined,
+        });
+      }
+
+      return result;
+    };
+
+    return { value: walk(value, '$') as T, report };
   }
 
   /**
-   * @deprecated Removed for security compliance (GDPR/HIPAA/SOC2/PCI DSS).
-   * Tokenization is now one-way only to prevent plaintext PII storage in memory.
-   * @throws {Error} Always throws - detokenization no longer supported
+   * Restore original values for a tool call (audited by the vault)
+   * Requires a vault and a grant issued via `TokenVault.grantToolCall`
+   * for this tokenizer's scope.
+   *
+   * @throws {Error} Without a vault, with an invalid grant, or for unknown tokens
    */
-  detokenize(_text: string): string {
-    throw new Error(
-      'detokenize() has been removed for security compliance. ' +
-        'Plaintext PII storage violates GDPR Article 32, HIPAA §164.312, and other regulations. ' +
-        'Tokenization is now one-way only. See ISSUE-001-pii-storage-vulnerability.md for details.'
-    );
+  detokenize(text: string, grant?: DetokenizationGrant): string {
+    const vault = this.requireVault(grant);
+
+    return text.replace(TOKEN_PATTERN, (token) => vault.reveal(grant!, token));
+  }
+
+  /**
+   * Restore original values in tool call arguments (strings, arrays, objects
+   * and their keys)
+   */
+  detokenizeValue<T>(value: T, grant?: DetokenizationGrant): T {
+    const vault = this.requireVault(grant);
+    const reveal = (text: string) =>
+      text.replace(TOKEN_PATTERN, (token) => vault.reveal(grant!, token));
+
+    const walk = (node: unknown): unknown => {
+      if (typeof node === 'string') {
+        return reveal(node);
+      }
+      if (Array.isArray(node)) {
+        return node.map(walk);
+      }
+      if (node && typeof node === 'object') {
+        return Object.fromEntries(
+          Object.entries(node).map(([key, child]) => [reveal(key), walk(child)])
+        );
+      }
+      return node;
+    };
+
+    return walk(value) as T;
+  }
+
+  /**
+   * Vault scope used for this tokenizer's tokens
+   */
+  getScope(): string {
+    return this.scope;
   }
 
   /**
    * Check if text contains PII
    */
   containsPII(text: string): boolean {
-    // Quick regex checks
-    const piiPatterns = [
-      /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/, // Email
-      /\b(\+\d{1,3}[-.]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/, // Phone
-      /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/, // Credit card
-      /\b\d{3}-\d{2}-\d{4}\b/, // SSN
-    ];
+    return this.detectors.test(text);
+  }
 
-    return piiPatterns.some((pattern) => pattern.test(text));
+  /**
+   * Detector registry (register custom detectors here)
+   */
+  getDetectors(): PIIDetectorRegistry {
+    return this.detectors;
+  }
+
+  /**
+   * Run all detectors over text, recording the tokens produced
+   */
+  private tokenizeText(
+    text: string,
+    found: Array<Pick<PIIToken, 'token' | 'type'>>
+  ): string {
+    let tokenized = text;
+
+    for (const detector of this.detectors.list()) {
+      tokenized = this.detectors.replace(tokenized, detector, (value) => {
+        const token = this.getOrCreateToken(
+          value,
+          detector.type,
+          detector.label || detector.type
+        );
+        found.push({ token, type: detector.type });
+        return token;
+      });
+    }
+
+    return tokenized;
+  }
+
+  /**
+   * Token type for a targeted field, inferred from its key
+   */
+  private fieldType(key: string): PIIToken['type'] {
+    const type = key.toLowerCase() as PIIToken['type'];
+    return PII_TOKEN_TYPES.includes(type) ? type : 'custom';
+  }
+
+  /**
+   * Compile a JSON path ($.a.b, $.rows[*].email, $.*.phone) to a regex
+   */
+  private compilePath(jsonPath: string): RegExp {
+    const source = jsonPath
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\\\[\*\\\]/g, '\\[\\d+\\]')
+      .replace(/\\\.\*/g, '\\.[^.[]+');
+    return new RegExp(`^${source}$`);
   }
 
   /**
    * Get or create token for PII value
    */
-  private getOrCreateToken(value: string, type: PIIToken['type']): string {
+  private getOrCreateToken(
+    value: string,
+    type: PIIToken['type'],
+    label: string
+  ): string {
     const hash = this.hash(value);
 
     // Check if already tokenized (same PII value gets same token)
@@ -87,10 +291,10 @@ export class PIITokenizer {
     }
 
     // Create new token
-    const counter = (this.counters.get(type) || 0) + 1;
-    this.counters.set(type, counter);
+    const counter = (this.counters.get(label) || 0) + 1;
+    this.counters.set(label, counter);
 
-    const token = `[${type.toUpperCase()}_${counter}]`;
+    const token = `[${label.toUpperCase()}_${counter}]`;
 
     const piiToken: PIIToken = {
       token,
@@ -99,26 +303,36 @@ export class PIITokenizer {
     };
 
     this.tokenMap.set(hash, piiToken);
+    this.vault?.store(this.scope, token, type, value);
 
     return token;
   }
 
   /**
-   * Tokenize names (simplified implementation)
+   * Check detokenization preconditions
    */
-  private tokenizeNames(text: string): string {
-    // This is a basic implementation
-    // Real-world would use Named Entity Recognition (NER)
+  private requireVault(grant?: DetokenizationGrant): TokenVault {
+    if (!this.vault) {
+      throw new Error(
+        'detokenize() has been removed for security compliance. ' +
+          'Plaintext PII storage violates GDPR Article 32, HIPAA §164.312, and other regulations. ' +
+          `Tokenization is one-way unless an encrypted token vault is configured (${VAULT_KEY_ENV} or ${VAULT_KEYFILE_ENV}).`
+      );
+    }
 
-    // Pattern for "Mr./Mrs./Ms./Dr. FirstName LastName"
-    const titlePattern =
-      /\b(Mr\.|Mrs\.|Ms\.|Dr\.)\s+([A-Z][a-z]+\s+[A-Z][a-z]+)\b/g;
+    if (!grant || !this.vault.isValidGrant(grant)) {
+      throw new Error(
+        'Detokenization is only permitted for tool calls inside the sandbox boundary'
+      );
+    }
 
-    const result = text.replace(titlePattern, (_match, title, name) => {
-      return `${title} ${this.getOrCreateToken(name, 'name')}`;
-    });
+    if (grant.scope !== this.scope) {
+      throw new Error(
+        `Detokenization grant for scope ${grant.scope} cannot be used in scope ${this.scope}`
+      );
+    }
 
-    return result;
+    return this.vault;
   }
 
   /**
@@ -136,7 +350,7 @@ export class PIITokenizer {
   }
 
   /**
-   * Get token count by type
+   * Get token count by type (custom detectors count under their label)
    */
   getTokenCountByType(): Record<string, number> {
     const counts: Record<string, number> = {};
@@ -1,13 +1,34 @@
 import { SecurityValidation } from '../types';
+import {
+  DEFAULT_SECURITY_POLICY,
+  RiskLevel,
+  SecurityPolicy,
+} from './security-policy';
 
 /**
  * Assesses risk level of code execution
  */
 export class RiskAssessor {
+  private policy: SecurityPolicy = DEFAULT_SECURITY_POLICY;
+
+  /**
+   * Apply a security policy (weights, risk levels, approval rules,
+   * per-tool multipliers)
+   */
+  setPolicy(policy: SecurityPolicy): void {
+    this.policy = policy;
+  }
+
   /**
    * Assess risk of code execution
+   *
+   * @param tools - MCP tools the code calls (for per-tool multipliers)
    */
-  assess(code: string, validation: SecurityValidation): RiskAssessment {
+  assess(
+    code: string,
+    validation: SecurityValidation,
+    tools: string[] = []
+  ): RiskAssessment {
     const factors: RiskFactor[] = [];
 
     // Check code complexity
@@ -25,18 +46,36 @@ export class RiskAssessor {
     // Check security validation results
     factors.push(this.assessSecurityIssues(validation));
 
-    // Calculate overall risk
-    const overallRisk = this.calculateOverallRisk(factors);
+    // Calculate overall risk, scaled by the riskiest tool involved
+    const overallRisk = Math.min(
+      100,
+      Math.round(
+        this.calculateOverallRisk(factors) * this.getToolMultiplier(tools)
+      )
+    );
+    const riskLevel = this.getRiskLevel(overallRisk);
 
     return {
-      riskLevel: this.getRiskLevel(overallRisk),
+      riskLevel,
       riskScore: overallRisk,
       factors,
-      recommendation: this.getRecommendation(overallRisk),
-      requiresApproval: overallRisk >= 70,
+      recommendation: this.getRecommendation(riskLevel),
+      requiresApproval:
+        overallRisk >= this.policy.approval.minScore ||
+        this.policy.approval.levels.includes(riskLevel),
     };
   }
 
+  /**
+   * Highest policy multiplier among the tools used (1 if none configured)
+   */
+  private getToolMultiplier(tools: string[]): number {
+    return tools.reduce(
+      (max, tool) => Math.max(max, this.policy.toolRiskMultipliers[tool] ?? 1),
+      1
+    );
+  }
+
   /**
    * Assess code complexity
    */
@@ -232,50 +271,47 @@ export class RiskAssessor {
    */
   private calculateOverallRisk(factors: RiskFactor[]): number {
     // Use weighted average, with security issues having highest weight
-    const weights = {
-      'Security Issues': 0.4,
-      'System Access': 0.25,
-      'File System Access': 0.15,
-      'Network Access': 0.1,
-      'Code Complexity': 0.1,
-    };
+    const weights = this.policy.riskWeights;
 
     let totalScore = 0;
     let totalWeight = 0;
 
     for (const factor of factors) {
-      const weight = weights[factor.name as keyof typeof weights] || 0.1;
+      const weight = weights[factor.name] ?? 0.1;
       totalScore += factor.score * weight;
       totalWeight += weight;
     }
 
-    return Math.min(100, Math.round(totalScore / totalWeight));
+    return totalWeight > 0
+      ? Math.min(100, Math.round(totalScore / totalWeight))
+      : 0;
   }
 
   /**
    * Get risk level from score
    */
-  private getRiskLevel(score: number): 'low' | 'medium' | 'high' | 'critical' {
-    if (score >= 80) return 'critical';
-    if (score >= 60) return 'high';
-    if (score >= 40) return 'medium';
+  private getRiskLevel(score: number): RiskLevel {
+    const levels = this.policy.riskLevels;
+    if (score >= levels.critical) return 'critical';
+    if (score >= levels.high) return 'high';
+    if (score >= levels.medium) return 'medium';
     return 'low';
   }
 
   /**
    * Get recommendation based on risk
    */
-  private getRecommendation(score: number): string {
-    if (score >= 80) {
-      return 'DO NOT EXECUTE - Critical risk detected. Manual review required.';
-    }
-    if (score >= 60) {
-      return 'HIGH RISK - Requires approval before execution.';
-    }
-    if (score >= 40) {
-      return 'MEDIUM RISK - Review recommended before execution.';
+  private getRecommendation(level: RiskLevel): string {
+    switch (level) {
+      case 'critical':
+        return 'DO NOT EXECUTE - Critical risk detected. Manual review required.';
+      case 'high':
+        return 'HIGH RISK - Requires approval before execution.';
+      case 'medium':
+        return 'MEDIUM RISK - Review recommended before execution.';
+      default:
+        return 'LOW RISK - Safe to execute with standard safeguards.';
     }
-    return 'LOW RISK - Safe to execute with standard safeguards.';
   }
 }
 
@@ -283,7 +319,7 @@ export class RiskAssessor {
  * Risk assessment result
  */
 export interface RiskAssessment {
-  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  riskLevel: RiskLevel;
   riskScore: number;
   factors: RiskFactor[];
   recommendation: string;
@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+
+/**
+ * Policy file names looked up in `.claude/`, in order
+ */
+export const POLICY_FILE_NAMES = [
+  'security-policy.yaml',
+  'security-policy.yml',
+  'security-policy.json',
+];
+
+const RiskLevelSchema = z.enum(['low', 'medium', 'high', 'critical']);
+const SandboxLevelSchema = z.enum(['docker', 'vm', 'process']);
+
+/**
+ * Declarative security policy
+ * Defaults reproduce the engine's built-in thresholds.
+ */
+const SecurityPolicySchema = z
+  .object({
+    version: z.string().default('builtin'),
+    /** Modules code may import; omit to allow any module */
+    allowedModules: z.array(z.string()).optional(),
+    /** APIs that are always blocked, e.g. "eval", "process.env", "os.system" */
+    forbiddenApis: z.array(z.string()).default([]),
+    /** Risk score multipliers per MCP tool name */
+    toolRiskMultipliers: z.record(z.number().positive()).default({}),
+    validation: z
+      .object({
+        /** Validation score at which code is considered insecure */
+        blockScore: z.number().min(0).max(100).default(70),
+      })
+      .strict()
+      .default({}),
+    riskLevels: z
+      .object({
+        medium: z.number().min(0).max(100).default(40),
+        high: z.number().min(0).max(100).default(60),
+        critical: z.number().min(0).max(100).default(80),
+      })
+      .strict()
+      .default({})
+      .refine((levels) => levels.medium <= levels.high, {
+        message: 'medium must not exceed high',
+      })
+      .refine((levels) => levels.high <= levels.critical, {
+        message: 'high must not exceed critical',
+      }),
+    riskWeights: z.record(z.number().nonnegative()).default({
+      'Security Issues': 0.4,
+      'System Access': 0.25,
+      'File System Access': 0.15,
+      'Network Access': 0.1,
+      'Code Complexity': 0.1,
+    }),
+    approval: z
+      .object({
+        /** Risk score at which approval is required */
+        minScore: z.number().min(0).max(101).default(70),
+        /** Risk levels that always require approval */
+        levels: z.array(RiskLevelSchema).default([]),
+      })
+      .strict()
+      .default({}),
+    /** Sandbox per risk band: the band with the highest matching minScore wins */
+    sandbox: z
+      .array(
+        z
+          .object({
+            minScore: z.number().min(0).max(100),
+            level: SandboxLevelSchema,
+          })
+          .strict()
+      )
+      .default([
+        { minScore: 70, level: 'docker' },
+        { minScore: 40, level: 'vm' },
+        { minScore: 0, level: 'process' },
+      ])
+      .refine((bands) => bands.some((band) => band.minScore === 0), {
+        message: 'a band with minScore 0 is required',
+      }),
+    anomaly: z
+      .object({
+        /** How far from a baseline counts as a spike */
+        sensitivity: z.enum(['low', 'medium', 'high']).default('medium'),
+        /** Executions a baseline needs before it is used */
+        minSamples: z.number().int().min(1).default(5),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+export type SecurityPolicy = z.infer<typeof SecurityPolicySchema>;
+export type RiskLevel = z.infer<typeof RiskLevelSchema>;
+
+/**
+ * Policy together with where it came from and its version hash
+ */
+export interface LoadedSecurityPolicy {
+  policy: SecurityPolicy;
+  hash: string;
+  source: string | null; // null for the built-in defaults
+}
+
+/**
+ * Built-in policy (used when no policy file exists)
+ */
+export const DEFAULT_SECURITY_POLICY: SecurityPolicy =
+  SecurityPolicySchema.parse({});
+
+/**
+ * Validate a parsed policy document
+ *
+ * @throws {Error} Listing every invalid field
+ */
+export function parseSecurityPolicy(
+  data: unknown,
+  source = 'policy'
+): SecurityPolicy {
+  const result = SecurityPolicySchema.safeParse(data ?? {});
+
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid security policy in ${source}: ${problems}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Version hash of a policy (stable across key order and formatting)
+ */
+export function hashSecurityPolicy(policy: SecurityPolicy): string {
+  return crypto
+    .createHash('sha256')
+    .update(canonicalize(policy))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Load the security policy from `.claude/`
+ * Falls back to the built-in policy when no file exists.
+ *
+ * @throws {Error} If a policy file exists but cannot be parsed or is invalid
+ */
+export async function loadSecurityPolicy(
+  configDir: string = path.join(process.cwd(), '.claude')
+): Promise<LoadedSecurityPolicy> {
+  for (const fileName of POLICY_FILE_NAMES) {
+    const filePath = path.join(configDir, fileName);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    let data: unknown;
+    try {
+      data = fileName.endsWith('.json')
+        ? JSON.parse(content)
+        : yaml.load(content);
+    } catch (error) {
+      throw new Error(
+        `Cannot parse security policy ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const policy = parseSecurityPolicy(data, filePath);
+    return { policy, hash: hashSecurityPolicy(policy), source: filePath };
+  }
+
+  return {
+    policy: DEFAULT_SECURITY_POLICY,
+    hash: hashSecurityPolicy(DEFAULT_SECURITY_POLICY),
+    source: null,
+  };
+}
+
+/**
+ * JSON with sorted object keys
+ */
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([key, child]) => `${JSON.stringify(key)}:${canonicalize(child)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,351 @@
+import crypto from 'crypto';
+import { promises as fs, readFileSync } from 'fs';
+import path from 'path';
+import { PIIToken } from '../types';
+import { AuditLogger } from '../audit/logger';
+
+/**
+ * Environment variable holding the vault key (32 bytes, base64 or hex)
+ */
+export const VAULT_KEY_ENV = 'MCP_PII_VAULT_KEY';
+
+/**
+ * Environment variable pointing to a file containing the vault key
+ */
+export const VAULT_KEYFILE_ENV = 'MCP_PII_VAULT_KEYFILE';
+
+/**
+ * Scope names double as file names
+ */
+const SCOPE_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+const KEY_LENGTH = 32; // AES-256
+const IV_LENGTH = 12; // Recommended for GCM
+const DEFAULT_TTL_MS = 3600000; // 1 hour
+const DEFAULT_GRANT_TTL_MS = 30000; // 30 seconds
+
+/**
+ * Encrypted vault entry (plaintext never leaves `reveal`)
+ */
+interface VaultEntry {
+  token: string;
+  type: PIIToken['type'];
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Permission to detokenize values for a single tool call
+ * Only grants issued by the vault itself are honored
+ */
+export interface DetokenizationGrant {
+  readonly scope: string;
+  readonly toolName: string;
+  readonly expiresAt: number;
+}
+
+export interface TokenVaultOptions {
+  key: Buffer;
+  vaultDir?: string;
+  defaultTTL?: number;
+  auditLogger?: AuditLogger;
+}
+
+/**
+ * Encrypted store for reversible PII tokenization
+ *
+ * Values are encrypted with AES-256-GCM as soon as they are stored, both in
+ * memory and at rest, and bound to their scope and token as additional
+ * authenticated data. Plaintext is only returned through `reveal`, which
+ * requires a short-lived grant for a specific tool call and is audit-logged.
+ */
+export class TokenVault {
+  private key: Buffer;
+  private vaultDir: string;
+  private defaultTTL: number;
+  private auditLogger: AuditLogger;
+  private scopes: Map<string, Map<string, VaultEntry>> = new Map();
+  private issuedGrants: WeakSet<DetokenizationGrant> = new WeakSet();
+
+  constructor(options: TokenVaultOptions) {
+    if (options.key.length !== KEY_LENGTH) {
+      throw new Error(
+        `Token vault key must be ${KEY_LENGTH} bytes, got ${options.key.length}`
+      );
+    }
+
+    this.key = options.key;
+    this.vaultDir =
+      options.vaultDir || path.join(process.cwd(), '.claude', 'vault');
+    this.defaultTTL = options.defaultTTL ?? DEFAULT_TTL_MS;
+    this.auditLogger = options.auditLogger || new AuditLogger();
+  }
+
+  /**
+   * Create a vault from MCP_PII_VAULT_KEY / MCP_PII_VAULT_KEYFILE
+   * Returns null when no key is configured (tokenization stays one-way)
+   */
+  static fromEnvironment(
+    options: Omit<TokenVaultOptions, 'key'> = {}
+  ): TokenVault | null {
+    const key = TokenVault.loadKey();
+    return key ? new TokenVault({ ...options, key }) : null;
+  }
+
+  /**
+   * Load the vault key from the environment or key file
+   *
+   * @throws {Error} If a key is configured but is not 32 bytes
+   */
+  static loadKey(env: NodeJS.ProcessEnv = process.env): Buffer | null {
+    let raw = env[VAULT_KEY_ENV];
+
+    if (!raw && env[VAULT_KEYFILE_ENV]) {
+      raw = readFileSync(env[VAULT_KEYFILE_ENV] as string, 'utf-8');
+    }
+
+    if (!raw) {
+      return null;
+    }
+
+    const trimmed = raw.trim();
+    const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+      ? Buffer.from(trimmed, 'hex')
+      : Buffer.from(trimmed, 'base64');
+
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(
+        `${VAULT_KEY_ENV} must decode to ${KEY_LENGTH} bytes (base64 or hex)`
+      );
+    }
+
+    return key;
+  }
+
+  /**
+   * Encrypt and store a PII value under a token
+   */
+  store(
+    scope: string,
+    token: string,
+    type: PIIToken['type'],
+    value: string,
+    ttl: number = this.defaultTTL
+  ): void {
+    this.assertScope(scope);
+
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    cipher.setAAD(Buffer.from(`${scope}:${token}`));
+    const ciphertext = Buffer.concat([
+      cipher.update(value, 'utf-8'),
+      cipher.final(),
+    ]);
+
+    const now = new Date();
+    this.getScope(scope).set(token, {
+      token,
+      type,
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttl).toISOString(),
+    });
+  }
+
+  /**
+   * Check whether a live entry exists for a token
+   */
+  has(scope: string, token: string): boolean {
+    const entry = this.scopes.get(scope)?.get(token);
+    return entry !== undefined && !this.isExpired(entry);
+  }
+
+  /**
+   * Issue a grant allowing detokenization for one tool call
+   * Must only be called by the host-side tool-call path, never exposed to
+   * generated code
+   */
+  grantToolCall(
+    scope: string,
+    toolName: string,
+    ttl: number = DEFAULT_GRANT_TTL_MS
+  ): DetokenizationGrant {
+    this.assertScope(scope);
+
+    const grant: DetokenizationGrant = Object.freeze({
+      scope,
+      toolName,
+      expiresAt: Date.now() + ttl,
+    });
+    this.issuedGrants.add(grant);
+
+    return grant;
+  }
+
+  /**
+   * Check that a grant was issued by this vault and has not expired
+   */
+  isValidGrant(grant: DetokenizationGrant | undefined): boolean {
+    return (
+      grant !== undefined &&
+      this.issuedGrants.has(grant) &&
+      grant.expiresAt > Date.now()
+    );
+  }
+
+  /**
+   * Decrypt the value behind a token (audited)
+   *
+   * @throws {Error} If the grant is invalid or the token is unknown/expired
+   */
+  reveal(grant: DetokenizationGrant, token: string): string {
+    if (!this.isValidGrant(grant)) {
+      throw new Error(
+        'Detokenization is only permitted for tool calls inside the sandbox boundary'
+      );
+    }
+
+    const entry = this.scopes.get(grant.scope)?.get(token);
+    if (!entry || this.isExpired(entry)) {
+      void this.auditLogger.logSecurity(
+        'warning',
+        'PII detokenization failed: unknown or expired token',
+        { scope: grant.scope, toolName: grant.toolName, token }
+      );
+      throw new Error(
+        `Token ${token} is unknown or expired in scope ${grant.scope}`
+      );
+    }
+
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.key,
+      Buffer.from(entry.iv, 'base64')
+    );
+    decipher.setAAD(Buffer.from(`${grant.scope}:${token}`));
+    decipher.setAuthTag(Buffer.from(entry.authTag, 'base64'));
+    const value = Buffer.concat([
+      decipher.update(Buffer.from(entry.ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+
+    void this.auditLogger.logSecurity('info', 'PII detokenized for tool call', {
+      scope: grant.scope,
+      toolName: grant.toolName,
+      token,
+      type: entry.type,
+    });
+
+    return value;
+  }
+
+  /**
+   * Write a scope's encrypted entries to disk
+   */
+  async persist(scope: string): Promise<void> {
+    this.assertScope(scope);
+
+    const entries = Array.from(this.getScope(scope).values()).filter(
+      (entry) => !this.isExpired(entry)
+    );
+
+    await fs.mkdir(this.vaultDir, { recursive: true, mode: 0o700 });
+
+    const filePath = this.getScopePath(scope);
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(
+      tmpPath,
+      JSON.stringify({ version: 1, scope, entries }, null, 2),
+      { encoding: 'utf-8', mode: 0o600 }
+    );
+    await fs.rename(tmpPath, filePath);
+  }
+
+  /**
+   * Load a scope's encrypted entries from disk
+   * Expired entries are dropped; returns number of live entries
+   */
+  async load(scope: string): Promise<number> {
+    this.assertScope(scope);
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.getScopePath(scope), 'utf-8');
+    } catch {
+      return 0;
+    }
+
+    const data = JSON.parse(content) as { entries: VaultEntry[] };
+    const entries = this.getScope(scope);
+    for (const entry of data.entries) {
+      if (!this.isExpired(entry)) {
+        entries.set(entry.token, entry);
+      }
+    }
+
+    return entries.size;
+  }
+
+  /**
+   * Remove expired entries from memory
+   */
+  purgeExpired(): number {
+    let removed = 0;
+
+    for (const entries of this.scopes.values()) {
+      for (const [token, entry] of entries.entries()) {
+        if (this.isExpired(entry)) {
+          entries.delete(token);
+          removed++;
+        }
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Drop a scope from memory and disk (end of session)
+   */
+  async dropScope(scope: string): Promise<void> {
+    this.assertScope(scope);
+
+    this.scopes.delete(scope);
+    await fs.rm(this.getScopePath(scope), { force: true });
+  }
+
+  /**
+   * Never serialize the key alongside the ciphertexts
+   */
+  toJSON(): Record<string, unknown> {
+    return { vaultDir: this.vaultDir, scopes: Array.from(this.scopes.keys()) };
+  }
+
+  private getScope(scope: string): Map<string, VaultEntry> {
+    let entries = this.scopes.get(scope);
+    if (!entries) {
+      entries = new Map();
+      this.scopes.set(scope, entries);
+    }
+    return entries;
+  }
+
+  private getScopePath(scope: string): string {
+    return path.join(this.vaultDir, `${scope}.json`);
+  }
+
+  private isExpired(entry: VaultEntry): boolean {
+    return new Date(entry.expiresAt).getTime() <= Date.now();
+  }
+
+  private assertScope(scope: string): void {
+    if (!SCOPE_PATTERN.test(scope)) {
+      throw new Error(`Invalid token vault scope: ${scope}`);
+    }
+  }
+}
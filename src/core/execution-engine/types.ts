@@ -27,6 +27,24 @@ export interface MCPToolSchema {
     type: string;
     properties?: Record<string, unknown>;
   };
+  annotations?: MCPToolAnnotations;
+}
+
+/**
+ * Behaviour hints an MCP server gives for a tool
+ * Hints come from the server unverified; a missing hint is read as the
+ * cautious default.
+ */
+export interface MCPToolAnnotations {
+  title?: string;
+  /** The tool does not modify its environment */
+  readOnlyHint?: boolean;
+  /** The tool may delete or overwrite data */
+  destructiveHint?: boolean;
+  /** Repeating a call with the same arguments has no further effect */
+  idempotentHint?: boolean;
+  /** The tool reaches outside systems */
+  openWorldHint?: boolean;
 }
 
 export interface MCPParameter {
@@ -52,12 +70,29 @@ export interface MCPExample {
  * Generated code wrapper
  */
 export interface CodeWrapper {
-  language: 'typescript' | 'python';
+  language: SandboxLanguage;
   code: string;
   dependencies: string[];
   estimatedTokens: number;
 }
 
+/**
+ * Languages the generator targets and the sandboxes know how to run
+ * JavaScript with imports or exports runs as an ES module, other JavaScript
+ * (such as the snippets of SandboxManager.executeInSandbox) as a script.
+ * Deno runs TypeScript natively under its permission flags.
+ */
+export type SandboxLanguage =
+  'typescript' | 'python' | 'javascript' | 'deno' | 'bash';
+
+/**
+ * Receives sandbox output as it is produced
+ */
+export type SandboxOutputListener = (
+  stream: 'stdout' | 'stderr',
+  data: string
+) => void;
+
 /**
  * Sandbox configuration
  */
@@ -82,6 +117,16 @@ export interface SandboxConfig {
    * Variables matching dangerous patterns (KEY, SECRET, TOKEN, PASSWORD, etc.) will be rejected
    */
   allowedEnvVars?: string[];
+  /** Host handler for tool calls made by the sandboxed code (the tool bridge) */
+  toolBridge?: ToolCallHandler;
+}
+
+/**
+ * Host side of the tool bridge: runs one tool call from sandboxed code
+ * Rejections with a string `code` pass that code back to the sandbox.
+ */
+export interface ToolCallHandler {
+  handle(tool: string, args: unknown): Promise<unknown>;
 }
 
 /**
@@ -98,6 +143,51 @@ export interface ExecutionResult {
     tokensInSummary: number;
   };
   piiTokenized: boolean;
+  /** Issues raised while running, e.g. connections refused by the network policy */
+  securityIssues?: SecurityIssue[];
+  /** Served from the execution result cache instead of running */
+  cached?: boolean;
+  /** Per-step outcome when an execution plan ran */
+  steps?: PlanStepResult[];
+  /** Pending approval request when the execution was held for review */
+  approvalRequestId?: string;
+}
+
+/**
+ * One step of an execution plan: an MCP tool call or a transform
+ */
+export interface PlanStep {
+  /** Unique name; later steps refer to the result by it */
+  id: string;
+  /** MCP tool to call (omit for a transform step) */
+  tool?: string;
+  /** Tool arguments; `{ "$ref": "stepId.path.to.value" }` inserts an earlier result */
+  args?: Record<string, unknown>;
+  /** Transform body in the plan's language; gets `steps` (results so far) and returns a value */
+  code?: string;
+  /** Steps that must succeed first (steps referenced in `args` are added) */
+  dependsOn?: string[];
+  /** 'abort' (default) skips all remaining steps, 'continue' only skips dependents */
+  onError?: 'abort' | 'continue';
+}
+
+/**
+ * Tool calls chained in one sandbox run; intermediate results stay in the
+ * sandbox and only the output step's result is returned
+ */
+export interface ExecutionPlan {
+  intent: string;
+  steps: PlanStep[];
+  /** Step whose result is returned (default: the last step) */
+  output?: string;
+}
+
+export interface PlanStepResult {
+  id: string;
+  tool?: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  error?: string;
+  durationMs?: number;
 }
 
 /**
@@ -116,6 +206,8 @@ export interface SecurityIssue {
   description: string;
   line?: number;
   suggestion?: string;
+  /** Remote host (network issues) */
+  host?: string;
 }
 
 /**
@@ -123,7 +215,18 @@ export interface SecurityIssue {
  */
 export interface PIIToken {
   token: string; // e.g., "[EMAIL_1]"
-  type: 'email' | 'phone' | 'name' | 'ssn' | 'credit_card';
+  type:
+    | 'email'
+    | 'phone'
+    | 'name'
+    | 'ssn'
+    | 'credit_card'
+    | 'iban'
+    | 'ip_address'
+    | 'api_key'
+    | 'national_id'
+    | 'vat_number'
+    | 'custom';
   hashedValue: string; // For lookup
 }
 
@@ -145,7 +248,7 @@ export interface WorkspaceState {
   createdAt: Date;
   lastAccessedAt: Date;
   code: string;
-  language: 'typescript' | 'python';
+  language: SandboxLanguage;
   status: 'pending' | 'running' | 'completed' | 'failed';
   result?: ExecutionResult;
 }
@@ -159,6 +262,16 @@ export interface AuditLogEntry {
   severity: 'info' | 'warning' | 'error' | 'critical';
   message: string;
   metadata?: Record<string, unknown>;
+  /** Security policy in force when the entry was written */
+  policy?: { version: string; hash: string };
+  /** Position in the hash chain (set when persisted) */
+  seq?: number;
+  /** Hash of the previous entry in the chain */
+  prevHash?: string;
+  /** SHA-256 of this entry without `hash` and `mac` */
+  hash?: string;
+  /** HMAC of `hash`, when an audit HMAC key is configured */
+  mac?: string;
 }
 
 /**
@@ -197,7 +310,10 @@ export interface Anomaly {
     | 'resource_spike'
     | 'suspicious_pattern'
     | 'repeated_failure'
-    | 'unusual_timing';
+    | 'unusual_timing'
+    | 'output_spike'
+    | 'new_network_host'
+    | 'approval_bypass';
   description: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
   timestamp: Date;
@@ -212,6 +328,10 @@ export interface CacheEntry {
   createdAt: Date;
   expiresAt: Date;
   hits: number;
+  /** Categories of the tools involved (they decide the TTL) */
+  categories?: string[];
+  /** Vault scope the PII tokens of a tokenized result resolve in */
+  vaultScope?: string;
 }
 
 /**
@@ -1,81 +1,365 @@
-import { ExecutionResult, CacheEntry } from '../types';
+import { ExecutionResult, CacheEntry, MCPToolSchema } from '../types';
+import { canonicalize } from '../security/security-policy';
+import { promises as fs } from 'fs';
+import path from 'path';
 import crypto from 'crypto';
+import { z } from 'zod';
+
+/**
+ * How executions use the cache
+ * - `read-write`: serve hits and store new results (default)
+ * - `refresh`: always run, then replace the stored result
+ * - `off`: neither read nor write
+ */
+export type CacheMode = 'read-write' | 'refresh' | 'off';
+
+/**
+ * Inputs that identify an execution result
+ */
+export interface CacheKeyInput {
+  /** User request (normalized before hashing) */
+  intent: string;
+  /** Tools the wrapper was generated from (their schemas are hashed) */
+  tools: MCPToolSchema[];
+  language: string;
+  sandbox: string;
+}
+
+/**
+ * Key inputs known before the sandbox type is selected
+ */
+export type CacheScope = Omit<CacheKeyInput, 'sandbox'>;
+
+export interface CacheManagerOptions {
+  /** Directory for persisted entries (default: `.cache/executions`) */
+  directory?: string;
+  /** Persist entries to disk (default: true) */
+  persist?: boolean;
+  mode?: CacheMode;
+  /** TTL for read-only tools without a category-specific TTL (default: 1 hour) */
+  defaultTTL?: number;
+  /** TTL per tool category in milliseconds; also caches its other tools */
+  ttlByCategory?: Record<string, number>;
+  /** Maximum number of entries before LRU eviction (default: 500) */
+  maxEntries?: number;
+  /** Maximum total size of serialized entries (default: 50MB) */
+  maxSizeBytes?: number;
+}
+
+export interface CacheSetOptions {
+  /** TTL in milliseconds (default: from the tool categories) */
+  ttl?: number;
+  /** Vault scope of the session that tokenized the result */
+  vaultScope?: string;
+}
+
+/**
+ * Settings files read from `.claude/`; the local file wins
+ */
+const CACHE_SETTINGS_FILES = ['settings.json', 'settings.local.json'];
+
+/**
+ * `cache` section of `.claude/settings.json`
+ */
+const CacheSettingsSchema = z
+  .object({
+    /** TTL for read-only tools without a category-specific TTL */
+    defaultTTLSeconds: z.number().positive().optional(),
+    /** TTL per tool category; also caches its other tools */
+    ttlSecondsByCategory: z.record(z.number().nonnegative()).default({}),
+  })
+  .strict();
+
+export type CacheSettings = z.infer<typeof CacheSettingsSchema>;
+
+/**
+ * Load the `cache` section from `.claude/settings.json`, overridden by
+ * `.claude/settings.local.json`
+ *
+ * @returns null when no settings file configures the cache
+ * @throws {Error} If a settings file cannot be parsed or is invalid
+ */
+export async function loadCacheSettings(
+  configDir: string = path.join(process.cwd(), '.claude')
+): Promise<CacheSettings | null> {
+  let settings: CacheSettings | null = null;
+
+  for (const fileName of CACHE_SETTINGS_FILES) {
+    const filePath = path.join(configDir, fileName);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    let data: { cache?: unknown };
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Cannot parse settings ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (data.cache !== undefined) {
+      const result = CacheSettingsSchema.safeParse(data.cache);
+      if (!result.success) {
+        const problems = result.error.issues
+          .map((issue) => `cache.${issue.path.join('.')}: ${issue.message}`)
+          .join('; ');
+        throw new Error(`Invalid cache settings in ${filePath}: ${problems}`);
+      }
+      settings = result.data;
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Distinct categories of the given tools (they decide the TTL)
+ */
+export function toolCategories(tools: MCPToolSchema[]): string[] {
+  return Array.from(
+    new Set(
+      tools
+        .map((tool) => tool.category)
+        .filter((category): category is string => Boolean(category))
+    )
+  );
+}
+
+/**
+ * Cache index record, in least-recently-used order
+ */
+interface IndexRecord {
+  size: number;
+  entry?: CacheEntry;
+}
 
 /**
  * Manages caching of execution results
- * Reduces redundant executions for identical code
+ *
+ * Entries are content-addressed by the normalized intent, the hashes of the
+ * tool schemas, the language and the sandbox type, and persisted as one JSON
+ * file each so identical requests are served across CLI invocations. A tool
+ * schema change yields a new key, so stale results are never returned.
+ *
+ * Only results of tools that do not change anything are cached: tools their
+ * server marks read-only, and tools of a category with a configured TTL.
+ * Code calling any other tool runs every time, since serving its result
+ * would skip the tool's side effects.
+ *
+ * Results with tokenized PII are stored with the vault scope their tokens
+ * resolve in, and only served to that scope: another session could neither
+ * detokenize them nor tell them apart from its own tokens.
  */
 export class CacheManager {
-  private cache: Map<string, CacheEntry> = new Map();
-  private defaultTTL: number = 3600000; // 1 hour in milliseconds
+  private directory: string;
+  private persist: boolean;
+  private mode: CacheMode;
+  private defaultTTL: number;
+  private ttlByCategory: Map<string, number>;
+  private maxEntries: number;
+  private maxSizeBytes: number;
+  private index: Map<string, IndexRecord> = new Map();
+  private loaded: Promise<void> | null = null;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: CacheManagerOptions = {}) {
+    this.directory =
+      options.directory || path.join(process.cwd(), '.cache', 'executions');
+    this.persist = options.persist ?? true;
+    this.mode = options.mode ?? 'read-write';
+    this.defaultTTL = options.defaultTTL ?? 3600000; // 1 hour in milliseconds
+    this.ttlByCategory = new Map(Object.entries(options.ttlByCategory ?? {}));
+    this.maxEntries = options.maxEntries ?? 500;
+    this.maxSizeBytes = options.maxSizeBytes ?? 50 * 1024 * 1024;
+  }
+
+  /**
+   * Build the cache key for an execution
+   */
+  static createKey(input: CacheKeyInput): string {
+    const intent = input.intent
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/[.!?]+$/, '');
+    const tools = input.tools
+      .map(
+        (tool) =>
+          `${tool.name}:${crypto.createHash('sha256').update(canonicalize(tool)).digest('hex')}`
+      )
+      .sort();
+
+    return crypto
+      .createHash('sha256')
+      .update(
+        canonicalize({
+          intent,
+          tools,
+          language: input.language,
+          sandbox: input.sandbox,
+        })
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Whether results of code calling these tools may be cached
+   * Each tool must be marked read-only, or its category have a TTL.
+   */
+  isCacheable(tools: MCPToolSchema[]): boolean {
+    return tools.every(
+      (tool) =>
+        tool.annotations?.readOnlyHint === true ||
+        (tool.category !== undefined && this.ttlByCategory.has(tool.category))
+    );
+  }
 
   /**
    * Get cached result
+   * Always misses in `refresh` and `off` mode, and for tokenized results of
+   * another vault scope.
+   *
+   * @param vaultScope - Vault scope of the current session
    */
-  get(code: string): ExecutionResult | null {
-    const key = this.generateKey(code);
-    const entry = this.cache.get(key);
+  async get(key: string, vaultScope?: string): Promise<ExecutionResult | null> {
+    if (this.mode !== 'read-write') {
+      return null;
+    }
+
+    await this.load();
+    const record = this.index.get(key);
+    const entry = record && (record.entry ?? (await this.readEntry(key)));
 
-    if (!entry) {
+    if (!record || !entry) {
+      this.index.delete(key);
+      this.misses++;
       return null;
     }
 
     // Check if expired
     if (entry.expiresAt < new Date()) {
-      this.cache.delete(key);
+      await this.delete(key);
+      this.misses++;
+      return null;
+    }
+
+    // Tokens of another session's scope cannot be resolved here
+    if (entry.value.piiTokenized && entry.vaultScope !== vaultScope) {
+      record.entry = entry;
+      this.misses++;
       return null;
     }
 
-    // Update hit count
+    // Update hit count and move to the most recently used position
     entry.hits++;
+    record.entry = entry;
+    this.index.delete(key);
+    this.index.set(key, record);
+    this.hits++;
+
+    if (this.persist) {
+      // File mtime records recency for the next process
+      const now = new Date();
+      await fs.utimes(this.entryPath(key), now, now).catch(() => undefined);
+    }
 
     return entry.value;
   }
 
   /**
    * Set cache entry
+   * The TTL is the shortest TTL of the given tool categories. Tokenized
+   * results without a vault scope are not stored.
    */
-  set(code: string, result: ExecutionResult, ttl?: number): void {
-    const key = this.generateKey(code);
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + (ttl || this.defaultTTL));
+  async set(
+    key: string,
+    result: ExecutionResult,
+    categories: string[] = [],
+    options: CacheSetOptions = {}
+  ): Promise<void> {
+    if (this.mode === 'off' || (result.piiTokenized && !options.vaultScope)) {
+      return;
+    }
 
+    await this.load();
+    const now = new Date();
     const entry: CacheEntry = {
       key,
       value: result,
       createdAt: now,
-      expiresAt,
+      expiresAt: new Date(
+        now.getTime() + (options.ttl ?? this.resolveTTL(categories))
+      ),
       hits: 0,
+      categories,
+      ...(result.piiTokenized && { vaultScope: options.vaultScope }),
     };
 
-    this.cache.set(key, entry);
+    const data = JSON.stringify(entry);
+    const size = Buffer.byteLength(data);
+    if (size > this.maxSizeBytes) {
+      return;
+    }
+
+    if (this.persist) {
+      // Write atomically (temp file, then rename)
+      await fs.mkdir(this.directory, { recursive: true });
+      const tmpPath = `${this.entryPath(key)}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, data, 'utf-8');
+      await fs.rename(tmpPath, this.entryPath(key));
+    }
+
+    this.index.delete(key);
+    this.index.set(key, { size, entry });
+    await this.evict();
   }
 
   /**
    * Delete cache entry
    */
-  delete(code: string): boolean {
-    const key = this.generateKey(code);
-    return this.cache.delete(key);
+  async delete(key: string): Promise<boolean> {
+    await this.load();
+    const existed = this.index.delete(key);
+
+    if (this.persist) {
+      await fs.rm(this.entryPath(key), { force: true });
+    }
+
+    return existed;
   }
 
   /**
    * Clear all cache
    */
-  clear(): void {
-    this.cache.clear();
+  async clear(): Promise<void> {
+    this.index.clear();
+    this.loaded = Promise.resolve();
+
+    if (this.persist) {
+      await fs.rm(this.directory, { recursive: true, force: true });
+    }
   }
 
   /**
    * Clean up expired entries
    */
-  cleanup(): number {
+  async cleanup(): Promise<number> {
+    await this.load();
     const now = new Date();
     let removed = 0;
 
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.expiresAt < now) {
-        this.cache.delete(key);
+    for (const key of Array.from(this.index.keys())) {
+      const entry = this.index.get(key)?.entry ?? (await this.readEntry(key));
+      if (!entry || entry.expiresAt < now) {
+        await this.delete(key);
         removed++;
       }
     }
@@ -83,34 +367,41 @@ export class CacheManager {
     return removed;
   }
 
-  /**
-   * Generate cache key from code
-   */
-  private generateKey(code: string): string {
-    return crypto.createHash('sha256').update(code).digest('hex');
-  }
-
   /**
    * Get cache statistics
    */
   getStats(): {
     size: number;
+    sizeBytes: number;
+    hits: number;
+    misses: number;
+    hitRate: number;
+    evictions: number;
     totalHits: number;
     entries: Array<{ key: string; hits: number; age: number }>;
   } {
     const now = new Date();
     const entries: Array<{ key: string; hits: number; age: number }> = [];
-    let totalHits = 0;
+    let sizeBytes = 0;
 
-    for (const [key, entry] of this.cache.entries()) {
-      const age = now.getTime() - entry.createdAt.getTime();
-      entries.push({ key, hits: entry.hits, age });
-      totalHits += entry.hits;
+    for (const [key, record] of this.index.entries()) {
+      sizeBytes += record.size;
+      if (record.entry) {
+        const age = now.getTime() - record.entry.createdAt.getTime();
+        entries.push({ key, hits: record.entry.hits, age });
+      }
     }
 
+    const lookups = this.hits + this.misses;
+
     return {
-      size: this.cache.size,
-      totalHits,
+      size: this.index.size,
+      sizeBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      evictions: this.evictions,
+      totalHits: this.hits,
       entries: entries.sort((a, b) => b.hits - a.hits),
     };
   }
@@ -121,4 +412,132 @@ export class CacheManager {
   setDefaultTTL(milliseconds: number): void {
     this.defaultTTL = milliseconds;
   }
+
+  /**
+   * Set the TTL for results of tools in a category
+   */
+  setCategoryTTL(category: string, milliseconds: number): void {
+    this.ttlByCategory.set(category, milliseconds);
+  }
+
+  /**
+   * Apply the TTLs of the `cache` settings section
+   */
+  applySettings(settings: CacheSettings): void {
+    if (settings.defaultTTLSeconds !== undefined) {
+      this.defaultTTL = settings.defaultTTLSeconds * 1000;
+    }
+    for (const [category, seconds] of Object.entries(
+      settings.ttlSecondsByCategory
+    )) {
+      this.ttlByCategory.set(category, seconds * 1000);
+    }
+  }
+
+  /**
+   * Change how executions use the cache (e.g. `--refresh`, `--no-cache`)
+   */
+  setMode(mode: CacheMode): void {
+    this.mode = mode;
+  }
+
+  getMode(): CacheMode {
+    return this.mode;
+  }
+
+  /**
+   * Shortest TTL among the categories (default TTL when none is configured)
+   */
+  private resolveTTL(categories: string[]): number {
+    const ttls = categories
+      .map((category) => this.ttlByCategory.get(category))
+      .filter((ttl): ttl is number => ttl !== undefined);
+
+    return ttls.length > 0 ? Math.min(...ttls) : this.defaultTTL;
+  }
+
+  /**
+   * Drop least recently used entries until within the bounds
+   */
+  private async evict(): Promise<void> {
+    let totalSize = 0;
+    for (const record of this.index.values()) {
+      totalSize += record.size;
+    }
+
+    for (const [key, record] of Array.from(this.index.entries())) {
+      if (this.index.size <= this.maxEntries && totalSize <= this.maxSizeBytes)
+        break;
+
+      await this.delete(key);
+      totalSize -= record.size;
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Index persisted entries once, oldest access first
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.persist ? this.scanDirectory() : Promise.resolve();
+    }
+    return this.loaded;
+  }
+
+  private async scanDirectory(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    const records: Array<{ key: string; size: number; mtime: number }> = [];
+    for (const file of files) {
+      if (!/^[a-f0-9]{64}\.json$/.test(file)) continue;
+      try {
+        const stat = await fs.stat(path.join(this.directory, file));
+        records.push({
+          key: file.slice(0, -'.json'.length),
+          size: stat.size,
+          mtime: stat.mtimeMs,
+        });
+      } catch {
+        // Removed by another process
+      }
+    }
+
+    for (const record of records.sort((a, b) => a.mtime - b.mtime)) {
+      if (!this.index.has(record.key)) {
+        this.index.set(record.key, { size: record.size });
+      }
+    }
+  }
+
+  /**
+   * Read a persisted entry (null if missing or unreadable)
+   */
+  private async readEntry(key: string): Promise<CacheEntry | null> {
+    if (!this.persist) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(
+        await fs.readFile(this.entryPath(key), 'utf-8')
+      ) as CacheEntry;
+      return {
+        ...parsed,
+        createdAt: new Date(parsed.createdAt),
+        expiresAt: new Date(parsed.expiresAt),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
 }
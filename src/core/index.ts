@@ -17,14 +17,39 @@ export { ExecutionOrchestrator } from './execution-engine/orchestrator';
 export { MCPOrchestrator } from './execution-engine/mcp-code-api/orchestrator';
 export { SchemaParser } from './execution-engine/mcp-code-api/schema-parser';
 export { CodeAPIGenerator } from './execution-engine/mcp-code-api/generator';
+export type { CodeGeneratorOptions } from './execution-engine/mcp-code-api/generator';
+export { SchemaTypeBuilder } from './execution-engine/mcp-code-api/schema-types';
 export { MCPCodeRuntime } from './execution-engine/mcp-code-api/runtime';
 export {
   RealMCPClient,
   MCPClientPool,
 } from './execution-engine/mcp-code-api/mcp-client';
+export { MCPServerSupervisor } from './execution-engine/mcp-code-api/supervisor';
+export {
+  StdioTransport,
+  SSETransport,
+  StreamableHTTPTransport,
+} from './execution-engine/mcp-code-api/transports';
+export {
+  createTransport,
+  loadMCPServers,
+} from './execution-engine/mcp-code-api/server-config';
+export {
+  diffToolSchemas,
+  readToolSchemaFile,
+  writeToolSchemaFile,
+} from './execution-engine/mcp-code-api/schema-sync';
+export {
+  ToolBridge,
+  ToolBridgeError,
+} from './execution-engine/mcp-code-api/tool-bridge';
 
 // Execution Engine - Discovery
 export { ToolIndexer } from './execution-engine/discovery/tool-indexer';
+export { HashingEmbeddingProvider } from './execution-engine/discovery/embeddings';
+export type { EmbeddingProvider } from './execution-engine/discovery/embeddings';
+export { HybridToolSearch } from './execution-engine/discovery/hybrid-search';
+export { DiscoveryFeedback } from './execution-engine/discovery/discovery-feedback';
 export { RelevanceScorer } from './execution-engine/discovery/relevance-scorer';
 
 // Types
@@ -1,5 +1,14 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { MCPOrchestrator } from '@/core/execution-engine/mcp-code-api/orchestrator';
+import { DiscoveryFeedback } from '@/core/execution-engine/discovery/discovery-feedback';
+import { HybridToolSearch } from '@/core/execution-engine/discovery/hybrid-search';
+import {
+  ExecutionEvent,
+  ExecutionEvents,
+} from '@/core/execution-engine/events';
+import { ToolBridge } from '@/core/execution-engine/mcp-code-api/tool-bridge';
+import { ApprovalGate } from '@/core/execution-engine/security/approval-gate';
+import { parseSecurityPolicy } from '@/core/execution-engine/security/security-policy';
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
@@ -154,6 +163,110 @@ describe('MCP Orchestrator Integration', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('No relevant tools found');
     });
+
+    it('should learn only from the tools an execution called', async () => {
+      orchestrator.setToolSearch(
+        new HybridToolSearch({
+          feedback: new DiscoveryFeedback({ file: null }),
+        })
+      );
+      orchestrator.setToolBridge(
+        new ToolBridge(
+          {
+            callTool: async (toolName) => {
+              if (toolName === 'test_write_file') throw new Error('disk full');
+              return 'contents';
+            },
+          },
+          { schemas: (name) => orchestrator.getToolSchema(name) }
+        )
+      );
+      await orchestrator.initialize();
+      const history = async (tool: string) =>
+        (await orchestrator.explainDiscovery('I need to read files')).find(
+          (explanation) => explanation.tool.name === tool
+        )?.history;
+
+      // The generated wrappers only define functions; nothing is called
+      await orchestrator.execute('I need to read files', 'javascript');
+      expect(await history('test_read_file')).toBeUndefined();
+
+      const result = await orchestrator.executePlan(
+        {
+          intent: 'I need to read files',
+          steps: [
+            { id: 'read', tool: 'test_read_file', args: { path: 'a.txt' } },
+            {
+              id: 'write',
+              tool: 'test_write_file',
+              args: { path: 'b.txt', content: 'x' },
+              onError: 'continue',
+            },
+          ],
+          output: 'read',
+        },
+        'javascript'
+      );
+
+      expect(result.success).toBe(true);
+      expect(await history('test_read_file')).toMatchObject({ failures: 0 });
+      expect((await history('test_read_file'))?.successes).toBeGreaterThan(0);
+      expect(await history('test_write_file')).toMatchObject({ successes: 0 });
+      expect((await history('test_write_file'))?.failures).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Progress Events', () => {
+    it('should report phases on the given event bus', async () => {
+      await orchestrator.initialize();
+      const events = new ExecutionEvents();
+      const seen: ExecutionEvent[] = [];
+      events.subscribe((event) => seen.push(event));
+
+      await orchestrator.execute('I need to read files', 'typescript', {
+        events,
+      });
+
+      const phases = seen
+        .filter((event) => event.type === 'phase:start')
+        .map((event) => (event.type === 'phase:start' ? event.phase : ''));
+      expect(phases.slice(0, 3)).toEqual([
+        'discovery',
+        'generation',
+        'validation',
+      ]);
+      expect(
+        seen.filter((event) => event.type === 'phase:end').length
+      ).toBeGreaterThanOrEqual(phases.length - 1);
+    });
+  });
+
+  describe('Approval', () => {
+    it('should hold executions the policy marks for approval', async () => {
+      const approvalsDir = path.join(tempToolsDir, 'approvals');
+      const gate = new ApprovalGate(approvalsDir);
+      orchestrator = new MCPOrchestrator(tempToolsDir, { approvalGate: gate });
+      orchestrator.setSecurityPolicy(
+        parseSecurityPolicy({
+          approval: { levels: ['low', 'medium', 'high', 'critical'] },
+        })
+      );
+      await orchestrator.initialize();
+
+      const result = await orchestrator.execute(
+        'I need to read files',
+        'javascript'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.approvalRequestId).toMatch(/^approval-/);
+      const request = await gate.getRequest(result.approvalRequestId as string);
+      expect(request).toMatchObject({
+        status: 'pending',
+        userRequest: 'I need to read files',
+      });
+      expect(request?.tools).toContain('test_read_file');
+    });
   });
 
   describe('Error Handling', () => {
@@ -161,9 +274,13 @@ describe('MCP Orchestrator Integration', () => {
       await orchestrator.initialize();
 
       // This should complete without throwing
-      const result = await orchestrator.execute('invalid intent', 'typescript', {
-        timeout: 100,
-      });
+      const result = await orchestrator.execute(
+        'invalid intent',
+        'typescript',
+        {
+          timeout: 100,
+        }
+      );
 
       expect(result).toBeDefined();
       expect(result.metrics).toBeDefined();
@@ -237,8 +237,7 @@ except Exception as e:
         const sandbox = new ProcessSandbox({
           ...defaultConfig,
           networkPolicy: {
-            allowedDomains: [],
-            blockedDomains: ['*'],
+            mode: 'none',
           },
         });
 
@@ -255,10 +254,65 @@ except Exception as e:
         const result = await sandbox.execute(code, 'python');
 
         expect(result.success).toBe(true);
-        // Network access should be denied (implementation dependent)
-        // This is a best-effort test
+        expect(result.output).toContain('Network blocked: PermissionError');
+        expect(result.securityIssues?.[0]?.type).toBe('network_blocked');
+        expect(result.securityIssues?.[0]?.description).toContain(
+          'google.com:80'
+        );
       }
     );
+
+    it.skipIf(!hasPython)(
+      'should route HTTP through the egress proxy and refuse other hosts',
+      async () => {
+        const sandbox = new ProcessSandbox({
+          ...defaultConfig,
+          networkPolicy: {
+            mode: 'whitelist',
+            allowed: ['*.allowed.test'],
+          },
+        });
+
+        const code = `
+import urllib.request
+try:
+    urllib.request.urlopen('http://denied.test/')
+except Exception as e:
+    print(f"Proxy refused: {e}")
+`;
+
+        const result = await sandbox.execute(code, 'python');
+
+        expect(result.output).toContain('Proxy refused: HTTP Error 403');
+        expect(result.securityIssues).toHaveLength(1);
+        expect(result.securityIssues?.[0]?.description).toContain(
+          'http access to denied.test:80'
+        );
+      }
+    );
+
+    it('should block raw sockets from Node.js scripts', async () => {
+      const sandbox = new ProcessSandbox({
+        ...defaultConfig,
+        networkPolicy: {
+          mode: 'whitelist',
+          allowed: [],
+        },
+      });
+
+      const code = `
+const socket = require('net').connect(80, '203.0.113.7');
+socket.on('connect', () => console.log('SECURITY BREACH'));
+socket.on('error', (error) => console.log('Blocked: ' + error.code));
+`;
+
+      const result = await sandbox.execute(code, 'javascript');
+
+      expect(result.output).toContain('Blocked: EACCES');
+      expect(result.securityIssues?.[0]?.description).toContain(
+        'tcp access to 203.0.113.7:80'
+      );
+    });
   });
 
   describe('Resource Limits', () => {
@@ -0,0 +1,254 @@
+/// <reference types="vitest" />
+import dgram from 'dgram';
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  AlertManager,
+  loadAlertSettings,
+} from '../../../src/core/execution-engine/audit/alerts';
+import {
+  AlertSink,
+  SecurityAlert,
+  SyslogSink,
+  WebhookSink,
+} from '../../../src/core/execution-engine/audit/alert-sinks';
+import { AuditLogger } from '../../../src/core/execution-engine/audit/logger';
+
+describe('Security alerts', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'alerts-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const alert = (overrides: Partial<SecurityAlert> = {}): SecurityAlert => ({
+    source: 'audit',
+    severity: 'critical',
+    title: 'Sandbox escape attempt',
+    timestamp: new Date('2024-05-01T12:00:00Z'),
+    ...overrides,
+  });
+
+  const recorder = (name: string) => {
+    const sent: SecurityAlert[] = [];
+    const sink: AlertSink = {
+      name,
+      send: async (received) => {
+        sent.push(received);
+      },
+    };
+    return { sink, sent };
+  };
+
+  describe('AlertManager', () => {
+    it('should route alerts by severity', async () => {
+      const pager = recorder('pager');
+      const archive = recorder('archive');
+      const manager = new AlertManager([
+        { sink: pager.sink, minSeverity: 'critical' },
+        { sink: archive.sink, minSeverity: 'high' },
+      ]);
+
+      manager.notify(alert({ severity: 'high', title: 'Repeated failures' }));
+      manager.notify(alert());
+      manager.notify(alert({ severity: 'medium', title: 'Warning' }));
+      await manager.flush();
+
+      expect(pager.sent.map((a) => a.title)).toEqual([
+        'Sandbox escape attempt',
+      ]);
+      expect(archive.sent.map((a) => a.title)).toEqual([
+        'Repeated failures',
+        'Sandbox escape attempt',
+      ]);
+    });
+
+    it('should deduplicate and rate limit', async () => {
+      const { sink, sent } = recorder('sink');
+      const manager = new AlertManager([{ sink, minSeverity: 'high' }], {
+        dedupWindow: 60000,
+        rateLimit: { maxAlerts: 2, window: 60000 },
+      });
+
+      for (let i = 0; i < 3; i++) {
+        manager.notify(alert());
+      }
+      manager.notify(alert({ title: 'Second' }));
+      manager.notify(alert({ title: 'Third' }));
+      await manager.flush();
+
+      expect(sent.map((a) => a.title)).toEqual([
+        'Sandbox escape attempt',
+        'Second',
+      ]);
+      expect(manager.getStats()).toMatchObject({
+        sent: 2,
+        suppressed: 2,
+        rateLimited: 1,
+      });
+    });
+
+    it('should count failed deliveries without throwing', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const manager = new AlertManager([
+        {
+          sink: {
+            name: 'broken',
+            send: () => Promise.reject(new Error('down')),
+          },
+          minSeverity: 'low',
+        },
+      ]);
+
+      manager.notify(alert());
+      await manager.flush();
+
+      expect(manager.getStats().failed).toBe(1);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('broken failed: down')
+      );
+      warn.mockRestore();
+    });
+
+    it('should alert on critical security audit entries', async () => {
+      const { sink, sent } = recorder('sink');
+      const manager = new AlertManager([{ sink, minSeverity: 'critical' }]);
+      const logger = new AuditLogger(path.join(dir, 'audit.log'));
+      logger.setAlertManager(manager);
+
+      await logger.logSecurity('warning', 'Risky code');
+      await logger.logSecurity('critical', 'Sandbox escape attempt', {
+        workspaceId: 'ws-1',
+      });
+      await manager.flush();
+
+      expect(sent).toEqual([
+        expect.objectContaining({
+          source: 'audit',
+          severity: 'critical',
+          title: 'Sandbox escape attempt',
+          details: expect.objectContaining({ workspaceId: 'ws-1' }),
+        }),
+      ]);
+    });
+  });
+
+  describe('sinks', () => {
+    it('should POST JSON to a webhook', async () => {
+      const bodies: unknown[] = [];
+      const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          bodies.push({
+            contentType: req.headers['content-type'],
+            token: req.headers['x-token'],
+            body: JSON.parse(body),
+          });
+          res.writeHead(204).end();
+        });
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve)
+      );
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        await new WebhookSink({
+          url: `http://127.0.0.1:${port}/alerts`,
+          headers: { 'x-token': 'secret' },
+        }).send(alert({ details: { workspaceId: 'ws-1' } }));
+      } finally {
+        server.close();
+      }
+
+      expect(bodies).toEqual([
+        {
+          contentType: 'application/json',
+          token: 'secret',
+          body: expect.objectContaining({
+            severity: 'critical',
+            title: 'Sandbox escape attempt',
+            timestamp: '2024-05-01T12:00:00.000Z',
+            details: { workspaceId: 'ws-1' },
+          }),
+        },
+      ]);
+    });
+
+    it('should send RFC 5424 messages over UDP', async () => {
+      const collector = dgram.createSocket('udp4');
+      await new Promise<void>((resolve) =>
+        collector.bind(0, '127.0.0.1', resolve)
+      );
+      const received = new Promise<string>((resolve) =>
+        collector.once('message', (message) => resolve(message.toString()))
+      );
+
+      const sink = new SyslogSink({
+        port: collector.address().port,
+        appName: 'cac',
+      });
+      await sink.send(alert({ title: 'Escape "attempt"' }));
+      const message = await received;
+      await sink.close();
+      collector.close();
+
+      // facility 13 (log audit) * 8 + severity 2 (critical)
+      expect(message).toMatch(
+        /^<106>1 2024-05-01T12:00:00\.000Z \S+ cac \d+ AUDIT \[alert@32473 severity="critical" title="Escape \\"attempt\\""\] Escape "attempt"$/
+      );
+    });
+
+    it('should load sinks from settings with local overrides', async () => {
+      const configDir = path.join(dir, '.claude');
+      await fs.mkdir(configDir);
+      await fs.writeFile(
+        path.join(configDir, 'settings.json'),
+        JSON.stringify({
+          alerts: { sinks: [{ type: 'webhook', url: 'https://example.com' }] },
+        })
+      );
+      await fs.writeFile(
+        path.join(configDir, 'settings.local.json'),
+        JSON.stringify({
+          alerts: {
+            sinks: [{ type: 'file', path: 'alerts.log', minSeverity: 'low' }],
+          },
+        })
+      );
+
+      const settings = await loadAlertSettings(configDir);
+      expect(settings?.sinks).toEqual([
+        { type: 'file', path: 'alerts.log', minSeverity: 'low' },
+      ]);
+
+      const manager = AlertManager.fromSettings(settings!, dir);
+      manager.notify(alert({ severity: 'low' }));
+      await manager.close();
+
+      const [line] = (
+        await fs.readFile(path.join(dir, 'alerts.log'), 'utf-8')
+      ).split('\n');
+      expect(JSON.parse(line!)).toMatchObject({
+        severity: 'low',
+        title: 'Sandbox escape attempt',
+      });
+
+      await fs.writeFile(
+        path.join(configDir, 'settings.local.json'),
+        JSON.stringify({ alerts: { sinks: [{ type: 'pager' }] } })
+      );
+      await expect(loadAlertSettings(configDir)).rejects.toThrow(
+        /Invalid alert settings/
+      );
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AnomalyDetector } from '../../../src/core/execution-engine/audit/anomaly-detector';
+import { AuditLogEntry } from '../../../src/core/execution-engine/types';
+
+describe('AnomalyDetector', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'anomaly-'));
+    file = path.join(dir, 'baselines.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const train = (
+    detector: AnomalyDetector,
+    tool: string,
+    times: number[],
+    extra: { networkHosts?: string[]; outputSize?: number } = {}
+  ) => {
+    for (const time of times) {
+      detector.analyze(time, 20, [], { tools: [tool], ...extra });
+    }
+  };
+
+  const types = (
+    detector: AnomalyDetector,
+    ...args: Parameters<AnomalyDetector['analyze']>
+  ) => detector.analyze(...args).anomalies.map((anomaly) => anomaly.type);
+
+  it('should flag a spike on one tool that the global mean would hide', () => {
+    const detector = new AnomalyDetector({ file: null });
+    train(detector, 'slow_report', [5000, 5200, 4900, 5100, 5050]);
+    train(detector, 'fast_lookup', [100, 110, 95, 105, 100]);
+
+    // Well below the slow tool's times, so global statistics would not see it
+    expect(types(detector, 900, 20, [], { tools: ['fast_lookup'] })).toEqual([
+      'resource_spike',
+    ]);
+    expect(types(detector, 5300, 20, [], { tools: ['slow_report'] })).toEqual(
+      []
+    );
+  });
+
+  it('should not let a single outlier hide later spikes', () => {
+    const detector = new AnomalyDetector({ file: null });
+    train(detector, 'tool', [100, 105, 98, 102, 100, 30000, 101]);
+
+    const [anomaly] = detector.analyze(600, 20, [], {
+      tools: ['tool'],
+    }).anomalies;
+
+    expect(anomaly?.type).toBe('resource_spike');
+    expect(anomaly?.description).toContain('median (101ms) for tool tool');
+  });
+
+  it('should wait for enough samples and honour the sensitivity', () => {
+    const times = [100, 104, 98, 102, 100];
+    const low = new AnomalyDetector({ file: null, sensitivity: 'low' });
+    const high = new AnomalyDetector({ file: null, sensitivity: 'high' });
+    const early = new AnomalyDetector({ file: null, minSamples: 10 });
+    for (const detector of [low, high, early]) {
+      train(detector, 'tool', times);
+    }
+
+    expect(types(low, 125, 20, [], { tools: ['tool'] })).toEqual([]);
+    expect(types(high, 125, 20, [], { tools: ['tool'] })).toEqual([
+      'resource_spike',
+    ]);
+    expect(types(early, 5000, 20, [], { tools: ['tool'] })).toEqual([]);
+  });
+
+  it('should flag output size spikes and first-seen hosts', () => {
+    const detector = new AnomalyDetector({ file: null });
+    train(detector, 'tool', [100, 100, 100, 100, 100], {
+      outputSize: 2000,
+      networkHosts: ['api.example.com'],
+    });
+
+    expect(
+      types(detector, 100, 20, [], {
+        tools: ['tool'],
+        outputSize: 500000,
+        networkHosts: ['api.example.com', 'exfil.test'],
+      })
+    ).toEqual(['output_spike', 'new_network_host']);
+
+    // Recorded, so the host is known from now on
+    expect(
+      types(detector, 100, 20, [], {
+        tools: ['tool'],
+        outputSize: 2000,
+        networkHosts: ['exfil.test'],
+      })
+    ).toEqual([]);
+  });
+
+  it('should detect approval bypass attempts', () => {
+    const detector = new AnomalyDetector({ file: null });
+    const attempt = (id: string): AuditLogEntry => ({
+      timestamp: new Date(),
+      type: 'error',
+      severity: 'error',
+      message: `Approval request ${id} is rejected, not approved`,
+      metadata: { context: 'resumeApproved', approvalRequestId: id },
+    });
+
+    const detection = detector.inspectLogs([attempt('a1'), attempt('a2')]);
+
+    expect(detection.riskLevel).toBe('critical');
+    expect(detection.anomalies).toEqual([
+      expect.objectContaining({
+        type: 'approval_bypass',
+        description: expect.stringContaining('(a1, a2)'),
+      }),
+    ]);
+  });
+
+  it('should persist baselines across restarts', async () => {
+    const detector = new AnomalyDetector({ file });
+    train(detector, 'tool', [100, 102, 98, 101, 99]);
+    await detector.save();
+
+    const restarted = new AnomalyDetector({ file });
+    await restarted.load();
+
+    expect(restarted.getStats()).toMatchObject({
+      historySize: 5,
+      avgExecutionTime: 100,
+      baselines: 2,
+    });
+    expect(types(restarted, 900, 20, [], { tools: ['tool'] })).toEqual([
+      'resource_spike',
+    ]);
+  });
+});
@@ -0,0 +1,280 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApprovalGate } from '../../../src/core/execution-engine/security/approval-gate';
+import type { RiskAssessment } from '../../../src/core/execution-engine/security/risk-assessor';
+import type { SecurityValidation } from '../../../src/core/execution-engine/types';
+
+describe('ApprovalGate', () => {
+  let approvalsDir: string;
+  let gate: ApprovalGate;
+
+  const riskAssessment: RiskAssessment = {
+    riskLevel: 'high',
+    riskScore: 75,
+    factors: [
+      {
+        name: 'System Access',
+        score: 60,
+        description: 'System/process access detected - HIGH RISK',
+        details: '1 system operations detected',
+      },
+    ],
+    recommendation: 'HIGH RISK - Requires approval before execution.',
+    requiresApproval: true,
+  };
+
+  const validation: SecurityValidation = {
+    isSecure: false,
+    riskScore: 75,
+    issues: [],
+    requiresApproval: true,
+  };
+
+  const code = 'console.log("high risk");';
+
+  beforeEach(async () => {
+    approvalsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'approvals-'));
+    gate = new ApprovalGate(approvalsDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(approvalsDir, { recursive: true, force: true });
+  });
+
+  describe('persistence', () => {
+    it('should persist requests so another instance can read them', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation,
+        {
+          language: 'typescript',
+          userRequest: 'delete temp files',
+        }
+      );
+
+      const otherProcessGate = new ApprovalGate(approvalsDir);
+      const loaded = await otherProcessGate.getRequest(request.id);
+
+      expect(loaded?.code).toBe(code);
+      expect(loaded?.codeHash).toBe(
+        ApprovalGate.hashRequest({ code, language: 'typescript' })
+      );
+      expect(loaded?.userRequest).toBe('delete temp files');
+      expect(loaded?.requestedAt).toBeInstanceOf(Date);
+    });
+
+    it('should list pending requests only by default', async () => {
+      const first = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation
+      );
+      await gate.requestApproval(code, riskAssessment, validation);
+      await gate.reject(first.id, 'reviewer', 'not needed');
+
+      expect(await gate.getPendingApprovals()).toHaveLength(1);
+      expect(await gate.listRequests()).toHaveLength(2);
+    });
+
+    it('should reject malformed request IDs', async () => {
+      expect(await gate.getRequest('../../etc/passwd')).toBeUndefined();
+    });
+  });
+
+  describe('decisions', () => {
+    it('should record approver, reason and pinned hash', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation
+      );
+
+      expect(
+        await gate.approve(request.id, 'alice', request.codeHash, 'read-only')
+      ).toBe(true);
+
+      const approved = await new ApprovalGate(approvalsDir).getRequest(
+        request.id
+      );
+      expect(approved?.status).toBe('approved');
+      expect(approved?.approvedBy).toBe('alice');
+      expect(approved?.reason).toBe('read-only');
+      expect(approved?.approvedCodeHash).toBe(request.codeHash);
+    });
+
+    it('should not decide a request twice', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation
+      );
+
+      await gate.reject(request.id, 'bob', 'unsafe');
+
+      expect(await gate.approve(request.id, 'alice', request.codeHash)).toBe(
+        false
+      );
+    });
+
+    it('should refuse code swapped before approval', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation
+      );
+
+      const filePath = path.join(approvalsDir, `${request.id}.json`);
+      const stored = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      stored.code = 'require("child_process").exec("rm -rf /");';
+      stored.codeHash = ApprovalGate.hashRequest(stored);
+      await fs.writeFile(filePath, JSON.stringify(stored));
+
+      await expect(
+        gate.approve(request.id, 'alice', request.codeHash)
+      ).rejects.toThrow('reviewed hash');
+      expect((await gate.getRequest(request.id))?.status).toBe('pending');
+    });
+
+    it('should refuse tools or language swapped before approval', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation,
+        { language: 'typescript', tools: ['read_file'] }
+      );
+
+      const filePath = path.join(approvalsDir, `${request.id}.json`);
+      const stored = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      await fs.writeFile(
+        filePath,
+        JSON.stringify({ ...stored, tools: ['read_file', 'delete_repo'] })
+      );
+      await expect(
+        gate.approve(request.id, 'alice', request.codeHash)
+      ).rejects.toThrow('reviewed hash');
+
+      await fs.writeFile(
+        filePath,
+        JSON.stringify({ ...stored, language: 'bash' })
+      );
+      await expect(
+        gate.approve(request.id, 'alice', request.codeHash)
+      ).rejects.toThrow('reviewed hash');
+      expect((await gate.getRequest(request.id))?.status).toBe('pending');
+    });
+
+    it('should show the hash of the stored code', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation
+      );
+
+      expect(gate.formatRequest(request)).toContain(
+        `Code Hash:  ${ApprovalGate.hashRequest({ code })}`
+      );
+    });
+  });
+
+  describe('consumeApproval', () => {
+    it('should return the approved request once', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation
+      );
+      await gate.approve(request.id, 'alice', request.codeHash);
+
+      const consumed = await gate.consumeApproval(request.id, code);
+
+      expect(consumed.code).toBe(code);
+      await expect(gate.consumeApproval(request.id)).rejects.toThrow(
+        'executed'
+      );
+    });
+
+    it('should let only one concurrent resume claim the approval', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation
+      );
+      await gate.approve(request.id, 'alice', request.codeHash);
+
+      const results = await Promise.allSettled([
+        gate.consumeApproval(request.id),
+        new ApprovalGate(approvalsDir).consumeApproval(request.id),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+    });
+
+    it('should refuse requests that are not approved', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation
+      );
+
+      await expect(gate.consumeApproval(request.id)).rejects.toThrow(
+        'not approved'
+      );
+    });
+
+    it('should refuse code swapped after approval', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation
+      );
+      await gate.approve(request.id, 'alice', request.codeHash);
+
+      const filePath = path.join(approvalsDir, `${request.id}.json`);
+      const stored = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      stored.code = 'require("child_process").exec("rm -rf /");';
+      await fs.writeFile(filePath, JSON.stringify(stored));
+
+      await expect(gate.consumeApproval(request.id)).rejects.toThrow(
+        'approved hash'
+      );
+    });
+
+    it('should refuse tools swapped after approval', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation,
+        { language: 'typescript', tools: ['read_file'] }
+      );
+      await gate.approve(request.id, 'alice', request.codeHash);
+
+      const filePath = path.join(approvalsDir, `${request.id}.json`);
+      const stored = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      stored.tools = ['read_file', 'delete_repo'];
+      await fs.writeFile(filePath, JSON.stringify(stored));
+
+      await expect(gate.consumeApproval(request.id)).rejects.toThrow(
+        'approved hash'
+      );
+    });
+
+    it('should refuse caller code that differs from the approved code', async () => {
+      const request = await gate.requestApproval(
+        code,
+        riskAssessment,
+        validation
+      );
+      await gate.approve(request.id, 'alice', request.codeHash);
+
+      await expect(
+        gate.consumeApproval(request.id, 'console.log("other");')
+      ).rejects.toThrow('does not match');
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import {
+  AuditLogger,
+  GENESIS_HASH,
+} from '../../../src/core/execution-engine/audit/logger';
+import { ComplianceManager } from '../../../src/core/execution-engine/audit/compliance';
+import { canonicalize } from '../../../src/core/execution-engine/security/security-policy';
+import { AuditLogEntry } from '../../../src/core/execution-engine/types';
+
+describe('Audit log hash chain', () => {
+  let logDir: string;
+  let logFile: string;
+
+  beforeEach(async () => {
+    logDir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-chain-'));
+    logFile = path.join(logDir, 'audit.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(logDir, { recursive: true, force: true });
+  });
+
+  const readLines = async () =>
+    (await fs.readFile(logFile, 'utf-8')).trim().split('\n');
+
+  it('should chain entries and verify them', async () => {
+    const logger = new AuditLogger(logFile);
+    await logger.logDiscovery('list issues', 2);
+    await logger.logSecurity('warning', 'Risky code', { workspaceId: 'ws-1' });
+    await logger.logExecution('ws-1', 'code', {
+      success: true,
+      summary: 'ok',
+      metrics: { executionTime: 1, memoryUsed: '1M', tokensInSummary: 1 },
+      piiTokenized: false,
+    });
+
+    const entries = (await readLines()).map(
+      (line) => JSON.parse(line) as AuditLogEntry
+    );
+    expect(entries.map((entry) => entry.seq)).toEqual([0, 1, 2]);
+    expect(entries[0]?.prevHash).toBe(GENESIS_HASH);
+    expect(entries[1]?.prevHash).toBe(entries[0]?.hash);
+
+    const verification = await logger.verify();
+    expect(verification).toMatchObject({
+      valid: true,
+      entries: 3,
+      lastHash: entries[2]?.hash,
+      issues: [],
+    });
+  });
+
+  it('should keep one chain for concurrent writes', async () => {
+    const logger = new AuditLogger(logFile);
+    const other = new AuditLogger(logFile);
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        (i % 2 ? logger : other).logSecurity('info', `event ${i}`)
+      )
+    );
+
+    expect((await logger.verify()).valid).toBe(true);
+    expect((await readLines()).length).toBe(10);
+  });
+
+  it('should keep one chain for writers in other processes', async () => {
+    // A fresh module instance has its own chain state, like another process
+    vi.resetModules();
+    const { AuditLogger: OtherProcessLogger } =
+      await import('../../../src/core/execution-engine/audit/logger');
+    const logger = new AuditLogger(logFile, { maxFileSize: 1500 });
+    const other = new OtherProcessLogger(logFile, { maxFileSize: 1500 });
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        (i % 2 ? logger : other).logSecurity('info', `event ${i}`)
+      )
+    );
+
+    expect(await logger.verify()).toMatchObject({
+      valid: true,
+      entries: 20,
+    });
+    expect(await fs.readdir(logDir)).not.toContain('audit.log.lock');
+  });
+
+  it('should take over a lock left by a process that died', async () => {
+    await fs.writeFile(`${logFile}.lock`, '2147483646');
+    const logger = new AuditLogger(logFile);
+
+    await logger.logSecurity('info', 'after crash');
+
+    expect(await readLines()).toHaveLength(1);
+    expect(await fs.readdir(logDir)).toEqual(['audit.log']);
+  });
+
+  it('should detect edited and removed entries', async () => {
+    const logger = new AuditLogger(logFile);
+    for (let i = 0; i < 4; i++) {
+      await logger.logSecurity('info', `event ${i}`);
+    }
+
+    const lines = await readLines();
+    lines[1] = lines[1]!.replace('event 1', 'event X');
+    lines.splice(2, 1);
+    await fs.writeFile(logFile, lines.join('\n') + '\n');
+
+    const { valid, issues } = await logger.verify();
+
+    expect(valid).toBe(false);
+    expect(issues).toEqual([
+      expect.objectContaining({ line: 2, seq: 1, problem: 'hash_mismatch' }),
+      expect.objectContaining({ line: 3, seq: 3, problem: 'chain_broken' }),
+      expect.objectContaining({ line: 3, seq: 3, problem: 'gap' }),
+    ]);
+  });
+
+  it('should detect re-hashed forgeries with an HMAC key', async () => {
+    const logger = new AuditLogger(logFile, { hmacKey: 'secret' });
+    await logger.logSecurity('critical', 'Sandbox escape attempt');
+
+    // Forge the entry and recompute its hash without knowing the key
+    const [line] = await readLines();
+    const entry = JSON.parse(line!) as AuditLogEntry;
+    const forged = {
+      ...entry,
+      severity: 'info',
+      hash: undefined,
+      mac: undefined,
+    };
+    entry.severity = 'info';
+    entry.hash = crypto
+      .createHash('sha256')
+      .update(canonicalize(JSON.parse(JSON.stringify(forged))))
+      .digest('hex');
+    await fs.writeFile(logFile, JSON.stringify(entry) + '\n');
+
+    expect((await new AuditLogger(logFile).verify()).valid).toBe(true);
+    expect((await logger.verify()).issues).toEqual([
+      expect.objectContaining({ problem: 'mac_mismatch' }),
+    ]);
+  });
+
+  it('should rotate into gzip archives and keep the chain across them', async () => {
+    const logger = new AuditLogger(logFile, { maxFileSize: 600 });
+    for (let i = 0; i < 12; i++) {
+      await logger.logSecurity('info', `event ${i}`, {
+        workspaceId: `ws-${i % 3}`,
+      });
+    }
+
+    const archives = (await fs.readdir(logDir)).filter((name) =>
+      name.endsWith('.log.gz')
+    );
+    expect(archives.length).toBeGreaterThan(1);
+
+    expect(await logger.verify()).toMatchObject({ valid: true, entries: 12 });
+
+    const matches: string[] = [];
+    for await (const entry of logger.query({ workspaceId: 'ws-1' })) {
+      matches.push(entry.message);
+    }
+    expect(matches).toEqual(['event 1', 'event 4', 'event 7', 'event 10']);
+  });
+
+  it('should query by type, severity and date range', async () => {
+    const logger = new AuditLogger(logFile);
+    await logger.logSecurity('critical', 'Sandbox escape attempt');
+    await logger.logDiscovery('query', 1);
+    await logger.logSecurity('info', 'Code validation completed');
+
+    const collect = async (filter: Parameters<AuditLogger['query']>[0]) => {
+      const messages: string[] = [];
+      for await (const entry of logger.query(filter)) {
+        messages.push(entry.message);
+      }
+      return messages;
+    };
+
+    expect(await collect({ type: 'security' })).toHaveLength(2);
+    expect(await collect({ severity: ['critical'] })).toEqual([
+      'Sandbox escape attempt',
+    ]);
+    expect(await collect({ since: new Date(Date.now() + 60000) })).toEqual([]);
+    expect(await collect({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('should build compliance reports from the persisted trail', async () => {
+    const start = new Date(Date.now() - 1000);
+    const writer = new AuditLogger(logFile, { maxFileSize: 400 });
+    await writer.logSecurity('critical', 'Sandbox escape attempt');
+    for (let i = 0; i < 4; i++) {
+      await writer.logExecution(`ws-${i}`, 'code', {
+        success: true,
+        summary: 'ok',
+        metrics: { executionTime: 1, memoryUsed: '1M', tokensInSummary: 1 },
+        piiTokenized: false,
+      });
+    }
+
+    // A fresh logger has nothing in memory, as after a restart
+    const reader = new AuditLogger(logFile);
+    const report = await new ComplianceManager(reader).generateReport(
+      start,
+      new Date()
+    );
+
+    expect(reader.getRecentLogs()).toEqual([]);
+    expect(report.metrics.totalExecutions).toBe(4);
+    expect(report.metrics.sandboxEscapes).toBe(1);
+  });
+});
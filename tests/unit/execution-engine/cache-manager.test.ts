@@ -0,0 +1,329 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { vi } from 'vitest';
+import {
+  CacheKeyInput,
+  CacheManager,
+  loadCacheSettings,
+} from '../../../src/core/execution-engine/workspace/cache-manager';
+import { AuditLogger } from '../../../src/core/execution-engine/audit/logger';
+import { MCPCodeRuntime } from '../../../src/core/execution-engine/mcp-code-api/runtime';
+import { SandboxManager } from '../../../src/core/execution-engine/sandbox/sandbox-manager';
+import {
+  ExecutionResult,
+  MCPToolSchema,
+} from '../../../src/core/execution-engine/types';
+
+describe('CacheManager', () => {
+  let cacheDir: string;
+
+  const tool: MCPToolSchema = {
+    name: 'github_get_repo',
+    description: 'Get GitHub repository information',
+    category: 'integrations',
+    parameters: [
+      { name: 'repo', type: 'string', description: 'Repo', required: true },
+    ],
+    annotations: { readOnlyHint: true },
+  };
+  const input: CacheKeyInput = {
+    intent: 'Get the React repository',
+    tools: [tool],
+    language: 'typescript',
+    sandbox: 'process',
+  };
+  const result = (output: unknown): ExecutionResult => ({
+    success: true,
+    output,
+    summary: 'ok',
+    metrics: { executionTime: 5, memoryUsed: '1M', tokensInSummary: 1 },
+    piiTokenized: false,
+  });
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'execution-cache-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  describe('createKey', () => {
+    it('should normalize the intent', () => {
+      expect(
+        CacheManager.createKey({
+          ...input,
+          intent: '  get the REACT   repository. ',
+        })
+      ).toBe(CacheManager.createKey(input));
+    });
+
+    it('should change with tool schemas, language and sandbox type', () => {
+      const key = CacheManager.createKey(input);
+      const changedTool = {
+        ...tool,
+        parameters: [
+          ...tool.parameters!,
+          { ...tool.parameters![0]!, name: 'owner' },
+        ],
+      };
+
+      expect(
+        CacheManager.createKey({ ...input, tools: [changedTool] })
+      ).not.toBe(key);
+      expect(CacheManager.createKey({ ...input, language: 'python' })).not.toBe(
+        key
+      );
+      expect(CacheManager.createKey({ ...input, sandbox: 'docker' })).not.toBe(
+        key
+      );
+    });
+  });
+
+  it('should persist results across instances', async () => {
+    const key = CacheManager.createKey(input);
+    await new CacheManager({ directory: cacheDir }).set(key, result('data'));
+
+    const cache = new CacheManager({ directory: cacheDir });
+
+    expect(await cache.get(key)).toEqual(result('data'));
+    expect(await cache.get('missing')).toBeNull();
+    expect(cache.getStats()).toMatchObject({
+      size: 1,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+    });
+  });
+
+  it('should skip reads in refresh mode and skip everything when off', async () => {
+    const key = CacheManager.createKey(input);
+    const refresh = new CacheManager({ directory: cacheDir, mode: 'refresh' });
+    await refresh.set(key, result('fresh'));
+
+    expect(await refresh.get(key)).toBeNull();
+    expect(
+      await new CacheManager({ directory: cacheDir }).get(key)
+    ).toMatchObject({ output: 'fresh' });
+
+    const off = new CacheManager({ directory: cacheDir, mode: 'off' });
+    await off.set(key, result('ignored'));
+
+    expect(await off.get(key)).toBeNull();
+    expect(
+      await new CacheManager({ directory: cacheDir }).get(key)
+    ).toMatchObject({ output: 'fresh' });
+  });
+
+  it('should apply the shortest TTL of the tool categories', async () => {
+    vi.useFakeTimers();
+    try {
+      const cache = new CacheManager({
+        persist: false,
+        ttlByCategory: { integrations: 1000, core: 60000 },
+      });
+      await cache.set('a', result('a'), ['core', 'integrations']);
+      await cache.set('b', result('b'), ['core']);
+
+      vi.advanceTimersByTime(2000);
+
+      expect(await cache.get('a')).toBeNull();
+      expect(await cache.get('b')).not.toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should load TTLs from the cache settings', async () => {
+    await fs.writeFile(
+      path.join(cacheDir, 'settings.json'),
+      JSON.stringify({
+        cache: {
+          defaultTTLSeconds: 60,
+          ttlSecondsByCategory: { integrations: 1 },
+        },
+      })
+    );
+    await fs.writeFile(
+      path.join(cacheDir, 'settings.local.json'),
+      JSON.stringify({ cache: { ttlSecondsByCategory: { core: 5 } } })
+    );
+    const settings = await loadCacheSettings(cacheDir);
+
+    expect(settings).toEqual({ ttlSecondsByCategory: { core: 5 } });
+
+    vi.useFakeTimers();
+    try {
+      const cache = new CacheManager({ persist: false });
+      cache.applySettings(settings!);
+      await cache.set('a', result('a'), ['core']);
+      await cache.set('b', result('b'));
+
+      vi.advanceTimersByTime(10000);
+
+      expect(await cache.get('a')).toBeNull();
+      expect(await cache.get('b')).not.toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+
+    await fs.writeFile(
+      path.join(cacheDir, 'settings.local.json'),
+      JSON.stringify({ cache: { defaultTTLSeconds: -1 } })
+    );
+    await expect(loadCacheSettings(cacheDir)).rejects.toThrow(
+      /cache\.defaultTTLSeconds/
+    );
+    expect(await loadCacheSettings(path.join(cacheDir, 'missing'))).toBeNull();
+  });
+
+  it('should serve tokenized results only to their vault scope', async () => {
+    const tokenized = { ...result('[EMAIL_1]'), piiTokenized: true };
+    const cache = new CacheManager({ directory: cacheDir });
+    await cache.set('unscoped', tokenized);
+    await cache.set('scoped', tokenized, [], { vaultScope: 'session-a' });
+
+    expect(await cache.get('unscoped', 'session-a')).toBeNull();
+    expect(await cache.get('scoped', 'session-b')).toBeNull();
+    expect(await cache.get('scoped')).toBeNull();
+    expect(await cache.get('scoped', 'session-a')).toEqual(tokenized);
+    expect(await fs.readdir(cacheDir)).toEqual(['scoped.json']);
+  });
+
+  it('should evict the least recently used entries', async () => {
+    const cache = new CacheManager({ directory: cacheDir, maxEntries: 2 });
+    await cache.set('a', result('a'));
+    await cache.set('b', result('b'));
+    await cache.get('a');
+    await cache.set('c', result('c'));
+
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('a')).not.toBeNull();
+    expect(cache.getStats().evictions).toBe(1);
+    expect((await fs.readdir(cacheDir)).length).toBe(2);
+  });
+
+  it('should be used by the runtime after security validation', async () => {
+    const execute = vi
+      .spyOn(SandboxManager.prototype, 'execute')
+      .mockResolvedValue(result('from sandbox'));
+    const auditLogger = new AuditLogger(path.join(cacheDir, 'audit.log'));
+    const runtime = new MCPCodeRuntime({ vault: null, auditLogger });
+    runtime.setCache(new CacheManager({ directory: cacheDir }));
+    const wrapper = {
+      code: 'console.log("hello");',
+      language: 'typescript' as const,
+      dependencies: [],
+      estimatedTokens: 5,
+    };
+    const scope = {
+      intent: input.intent,
+      tools: [tool],
+      language: 'typescript',
+    };
+
+    const first = await runtime.execute(wrapper, {}, undefined, scope);
+    const second = await runtime.execute(wrapper, {}, undefined, scope);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ cached: true, output: 'from sandbox' });
+    expect(auditLogger.getRecentLogs()).toEqual([
+      expect.objectContaining({
+        type: 'execution',
+        message: 'Cached result returned',
+        metadata: expect.objectContaining({ sandbox: 'process' }),
+      }),
+    ]);
+  });
+
+  it('should only cache read-only tools or categories with a TTL', () => {
+    const createIssue: MCPToolSchema = {
+      name: 'github_create_issue',
+      description: 'Create a GitHub issue',
+      category: 'integrations',
+    };
+    const cache = new CacheManager({ persist: false });
+
+    expect(cache.isCacheable([tool])).toBe(true);
+    expect(cache.isCacheable([tool, createIssue])).toBe(false);
+    expect(
+      cache.isCacheable([
+        { ...createIssue, annotations: { readOnlyHint: false } },
+      ])
+    ).toBe(false);
+
+    cache.setCategoryTTL('integrations', 60000);
+    expect(cache.isCacheable([tool, createIssue])).toBe(true);
+  });
+
+  it('should run code calling tools that change data every time', async () => {
+    const execute = vi
+      .spyOn(SandboxManager.prototype, 'execute')
+      .mockResolvedValue(result('created'));
+    const cache = new CacheManager({ directory: cacheDir });
+    const runtime = new MCPCodeRuntime({ vault: null });
+    runtime.setCache(cache);
+    const wrapper = {
+      code: 'console.log("hello");',
+      language: 'typescript' as const,
+      dependencies: [],
+      estimatedTokens: 5,
+    };
+    const scope = {
+      intent: 'Open an issue',
+      tools: [{ ...tool, name: 'github_create_issue', annotations: {} }],
+      language: 'typescript',
+    };
+
+    await runtime.execute(wrapper, {}, undefined, scope);
+    const second = await runtime.execute(wrapper, {}, undefined, scope);
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(second.cached).toBeUndefined();
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('should return and cache runtime output with PII tokenized', async () => {
+    vi.spyOn(SandboxManager.prototype, 'execute').mockResolvedValue(
+      result({ owner: { email: 'alice@example.com' }, stars: 5 })
+    );
+    const runtime = new MCPCodeRuntime({ vault: null });
+    runtime.setCache(new CacheManager({ directory: cacheDir }));
+    const wrapper = {
+      code: 'console.log("hello");',
+      language: 'typescript' as const,
+      dependencies: [],
+      estimatedTokens: 5,
+    };
+    const scope = {
+      intent: input.intent,
+      tools: [tool],
+      language: 'typescript',
+    };
+
+    const first = await runtime.execute(wrapper, {}, undefined, scope);
+    const second = await runtime.execute(wrapper, {}, undefined, scope);
+
+    expect(first).toMatchObject({
+      piiTokenized: true,
+      output: { owner: { email: '[EMAIL_1]' }, stars: 5 },
+    });
+    expect(second).toMatchObject({ cached: true, output: first.output });
+
+    // Another session cannot resolve the first session's tokens
+    const other = new MCPCodeRuntime({ vault: null });
+    other.setCache(new CacheManager({ directory: cacheDir }));
+    expect(
+      (await other.execute(wrapper, {}, undefined, scope)).cached
+    ).toBeUndefined();
+    for (const file of await fs.readdir(cacheDir)) {
+      expect(
+        await fs.readFile(path.join(cacheDir, file), 'utf-8')
+      ).not.toContain('alice@example.com');
+    }
+  });
+});
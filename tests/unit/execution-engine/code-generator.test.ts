@@ -49,9 +49,45 @@ describe('CodeAPIGenerator', () => {
 
   it('should estimate token count', async () => {
     const wrapper = await generator.generateTypeScript([sampleSchema]);
+    const twoTools = await generator.generateTypeScript([
+      sampleSchema,
+      { ...sampleSchema, name: 'another_function' }
+    ]);
 
     expect(wrapper.estimatedTokens).toBeGreaterThan(0);
-    expect(wrapper.estimatedTokens).toBeLessThan(1000); // Should be small
+    expect(wrapper.estimatedTokens).toBeLessThan(2000); // Mostly the shared client
+    // Each further tool should be small
+    expect(twoTools.estimatedTokens - wrapper.estimatedTokens).toBeLessThan(150);
+  });
+
+  it('should emit argument schemas for validation before each call', async () => {
+    const typescript = await generator.generateTypeScript([sampleSchema]);
+    const python = await generator.generatePython([sampleSchema]);
+    const argumentSchema = {
+      type: 'object',
+      properties: { param1: { type: 'string' }, param2: { type: 'number' } },
+      required: ['param1'],
+      additionalProperties: false
+    };
+
+    expect(typescript.code).toContain(
+      `const SCHEMAS: Record<string, Schema> = ${JSON.stringify({ test_function: argumentSchema })};`
+    );
+    expect(python.code).toContain(
+      `json.loads(${JSON.stringify(JSON.stringify({ test_function: argumentSchema }))})`
+    );
+    // No placeholder results and nothing scheduled at import time
+    expect(typescript.code).not.toContain('data: null');
+    expect(python.code).not.toContain('create_task');
+  });
+
+  it('should never start MCP servers itself', async () => {
+    const typescript = await generator.generateTypeScript([sampleSchema]);
+    const python = await generator.generatePython([sampleSchema]);
+
+    expect(typescript.code).not.toContain('child_process');
+    expect(python.code).not.toContain('create_subprocess_exec');
+    expect(typescript.dependencies).toEqual([]);
   });
 
   it('should extract dependencies', async () => {
@@ -111,4 +111,115 @@ describe('CodeValidator', () => {
       expect(results[i].isSecure).toBe(false);
     }
   });
+
+  describe('AST analysis', () => {
+    it('should ignore dangerous patterns inside comments and strings', async () => {
+      const code = [
+        '// never call eval() here',
+        'const message = "eval( is not allowed";',
+        'console.log(message);',
+      ].join('\n');
+      const validation = await validator.validate(code);
+
+      expect(validation.issues).toEqual([]);
+      expect(validation.isSecure).toBe(true);
+    });
+
+    it('should detect computed access to dangerous globals', async () => {
+      const code = [
+        'const x = 1;',
+        "const run = globalThis['ev' + 'al'];",
+      ].join('\n');
+      const validation = await validator.validate(code);
+
+      const issue = validation.issues.find(
+        (i) => i.type === 'computed_global_access'
+      );
+      expect(issue?.severity).toBe('critical');
+      expect(issue?.line).toBe(2);
+      expect(validation.requiresApproval).toBe(true);
+    });
+
+    it('should resolve concatenated module names', async () => {
+      const validation = await validator.validate(
+        "const cp = require('child' + '_process');"
+      );
+
+      expect(
+        validation.issues.some(
+          (i) => i.type === 'process_execution' && i.line === 1
+        )
+      ).toBe(true);
+      expect(validation.isSecure).toBe(false);
+    });
+
+    it('should flag dynamic imports with computed names', async () => {
+      const validation = await validator.validate(
+        'const name = getName();\nawait import(name);'
+      );
+
+      const issue = validation.issues.find((i) => i.type === 'dynamic_import');
+      expect(issue?.line).toBe(2);
+    });
+
+    it('should flag file writes outside the workspace', async () => {
+      const validation = await validator.validate(
+        "import { writeFileSync } from 'fs';\nwriteFileSync('../../etc/hosts', 'x');"
+      );
+
+      expect(
+        validation.issues.some(
+          (i) => i.type === 'file_write_outside_workspace' && i.line === 2
+        )
+      ).toBe(true);
+    });
+
+    describe('python', () => {
+      it('should detect subprocess and os.system calls', async () => {
+        const code = [
+          'import subprocess',
+          'import os',
+          '# os.system is mentioned in this comment',
+          "os.system('ls')",
+        ].join('\n');
+        const validation = await validator.validate(code, 'python');
+
+        const lines = validation.issues
+          .filter((i) => i.type === 'process_execution')
+          .map((i) => i.line);
+        expect(lines).toEqual([1, 4]);
+      });
+
+      it('should detect getattr on builtins and raw sockets', async () => {
+        const code = [
+          'import builtins, socket',
+          "fn = getattr(builtins, 'ev' + 'al')",
+          'sock = socket.socket()',
+        ].join('\n');
+        const validation = await validator.validate(code, 'python');
+
+        expect(
+          validation.issues.some(
+            (i) => i.type === 'computed_global_access' && i.line === 2
+          )
+        ).toBe(true);
+        expect(
+          validation.issues.filter((i) => i.type === 'network_access').length
+        ).toBeGreaterThan(0);
+      });
+
+      it('should flag writes outside the workspace', async () => {
+        const validation = await validator.validate(
+          "with open('/etc/passwd', 'a') as f:\n    f.write('x')",
+          'python'
+        );
+
+        expect(
+          validation.issues.some(
+            (i) => i.type === 'file_write_outside_workspace' && i.line === 1
+          )
+        ).toBe(true);
+      });
+    });
+  });
 });
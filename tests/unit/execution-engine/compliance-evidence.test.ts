@@ -0,0 +1,118 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLogger } from '../../../src/core/execution-engine/audit/logger';
+import { ComplianceManager } from '../../../src/core/execution-engine/audit/compliance';
+import { formatEvidencePack } from '../../../src/core/execution-engine/audit/evidence-export';
+
+describe('Compliance evidence packs', () => {
+  let logDir: string;
+  let logFile: string;
+  let logger: AuditLogger;
+  const start = new Date(Date.now() - 60000);
+
+  const result = {
+    success: true,
+    summary: 'ok',
+    metrics: { executionTime: 1, memoryUsed: '1M', tokensInSummary: 1 },
+    piiTokenized: false,
+  };
+
+  beforeEach(async () => {
+    logDir = await fs.mkdtemp(path.join(os.tmpdir(), 'compliance-'));
+    logFile = path.join(logDir, 'audit.log');
+    logger = new AuditLogger(logFile);
+
+    await logger.logSecurity('info', 'Security policy loaded');
+    await logger.logDiscovery('email report to jane.doe@example.com', 2);
+    await logger.logSecurity('info', 'Code validation completed: low risk', {
+      riskScore: 5,
+    });
+    await logger.logExecution('ws-1', 'code', result);
+  });
+
+  afterEach(async () => {
+    await fs.rm(logDir, { recursive: true, force: true });
+  });
+
+  const generate = () =>
+    new ComplianceManager(new AuditLogger(logFile)).generateEvidencePack(
+      start,
+      new Date()
+    );
+
+  it('should map audit events to controls', async () => {
+    const pack = await generate();
+    const control = (id: string) => pack.controls.find((c) => c.id === id);
+
+    expect(pack.auditChain.valid).toBe(true);
+    expect(control('SOC2 CC6.1')).toMatchObject({
+      status: 'pass',
+      eventCount: 2,
+    });
+    expect(control('GDPR Art. 30')).toMatchObject({
+      status: 'pass',
+      eventCount: 1,
+    });
+    expect(control('HIPAA §164.312(b)')?.eventCount).toBe(4);
+    expect(pack.compliance).toEqual({ soc2: true, gdpr: true, hipaa: true });
+  });
+
+  it('should report failing controls with reasons', async () => {
+    await logger.logSecurity('critical', 'Sandbox escape attempt detected');
+
+    const pack = await generate();
+    const failing = pack.controls.filter((c) => c.status === 'fail');
+
+    expect(failing.map((c) => c.id)).toEqual(
+      expect.arrayContaining(['SOC2 CC6.8', 'SOC2 CC7.3', 'GDPR Art. 32'])
+    );
+    expect(failing.find((c) => c.id === 'SOC2 CC6.8')?.reasons).toEqual([
+      '1 sandbox escape(s) recorded',
+    ]);
+    expect(pack.compliance.soc2).toBe(false);
+  });
+
+  it('should fail integrity controls when the chain is tampered with', async () => {
+    const lines = (await fs.readFile(logFile, 'utf-8')).split('\n');
+    lines[3] = lines[3]!.replace('"success":true', '"success":false');
+    await fs.writeFile(logFile, lines.join('\n'));
+
+    const pack = await generate();
+    const integrity = pack.controls.find(
+      (c) => c.id === 'HIPAA §164.312(c)(1)'
+    );
+
+    expect(pack.auditChain.valid).toBe(false);
+    expect(integrity?.status).toBe('fail');
+    expect(integrity?.reasons[0]).toContain('hash_mismatch');
+  });
+
+  it('should tokenize PII in sample entries', async () => {
+    const pack = await generate();
+    const samples = pack.controls.flatMap((c) => c.samples);
+    const discovery = samples.find((s) => s.type === 'discovery');
+
+    expect(discovery?.metadata?.query).toMatch(/\[EMAIL_\w+\]/);
+    expect(JSON.stringify(samples)).not.toContain('jane.doe@example.com');
+  });
+
+  it('should export Markdown, JSON and self-contained HTML', async () => {
+    await logger.logSecurity('error', '<script>alert(1)</script>');
+    const pack = await generate();
+
+    const markdown = formatEvidencePack(pack, 'markdown');
+    expect(markdown).toContain('| SOC2 CC6.1 | Logical access security |');
+    expect(markdown).toContain('Audit chain: Verified');
+
+    const json = JSON.parse(formatEvidencePack(pack, 'json'));
+    expect(json.controls).toHaveLength(pack.controls.length);
+
+    const html = formatEvidencePack(pack, 'html');
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).not.toMatch(/<link|src=/);
+  });
+});
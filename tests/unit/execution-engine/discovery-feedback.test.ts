@@ -0,0 +1,139 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DiscoveryFeedback } from '../../../src/core/execution-engine/discovery/discovery-feedback';
+import { HybridToolSearch } from '../../../src/core/execution-engine/discovery/hybrid-search';
+import type { MCPToolSchema } from '../../../src/core/execution-engine/types';
+
+const tool = (name: string, description: string): MCPToolSchema => ({
+  name,
+  description,
+  parameters: [],
+});
+
+const TOOLS = [
+  tool('github_search_issues', 'Search GitHub issues and pull requests'),
+  tool('jira_search', 'Search Jira issues with JQL'),
+  tool('read_file', 'Read a file from the filesystem'),
+];
+
+describe('DiscoveryFeedback', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'discovery-feedback-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should learn priors from outcomes of similar intents', async () => {
+    const feedback = new DiscoveryFeedback({ file: null });
+    await feedback.record({
+      intent: 'find open bugs in the tracker',
+      tools: ['jira_search'],
+      success: true,
+    });
+    await feedback.record({
+      intent: 'find open bugs assigned to me',
+      tools: ['github_search_issues'],
+      success: false,
+    });
+    await feedback.record({
+      intent: 'read the changelog',
+      tools: ['read_file'],
+      success: true,
+    });
+
+    const priors = await feedback.priors('find open bugs');
+    expect(priors.get('jira_search')?.value).toBeGreaterThan(0);
+    expect(priors.get('github_search_issues')?.value).toBeLessThan(0);
+    // Unrelated intents do not count
+    expect(priors.has('read_file')).toBe(false);
+  });
+
+  it('should weigh tools the user picked more than discovered ones', async () => {
+    const feedback = new DiscoveryFeedback({ file: null });
+    const outcome = { intent: 'find open bugs', success: true };
+    await feedback.record({ ...outcome, tools: ['jira_search'] });
+    await feedback.record({
+      ...outcome,
+      tools: ['github_search_issues'],
+      override: true,
+    });
+
+    const priors = await feedback.priors('find open bugs');
+    expect(priors.get('github_search_issues')?.successes).toBe(2);
+    expect(priors.get('jira_search')?.successes).toBe(1);
+  });
+
+  it('should persist outcomes and keep only the newest', async () => {
+    const file = path.join(dir, 'feedback.json');
+    const feedback = new DiscoveryFeedback({ file, maxOutcomes: 2 });
+    for (const success of [false, true, true]) {
+      await feedback.record({
+        intent: 'find open bugs',
+        tools: ['jira_search'],
+        success,
+      });
+    }
+
+    const reloaded = new DiscoveryFeedback({ file });
+    expect(
+      (await reloaded.priors('find open bugs')).get('jira_search')
+    ).toEqual({ value: 2 / 3, successes: 2, failures: 0 });
+    expect(reloaded.size).toBe(2);
+  });
+
+  it('should re-rank tools and explain the scores', async () => {
+    const search = new HybridToolSearch({
+      feedback: new DiscoveryFeedback({ file: null }),
+    });
+    await search.sync(TOOLS);
+    const before = await search.search('search open issues');
+    expect(before.map((r) => r.tool.name)).toEqual([
+      'github_search_issues',
+      'jira_search',
+    ]);
+    expect(await search.search('find open bugs')).toEqual([]);
+
+    for (let i = 0; i < 3; i++) {
+      for (const intent of ['search open issues', 'find open bugs']) {
+        await search.recordOutcome({
+          intent,
+          tools: ['jira_search'],
+          success: true,
+        });
+        await search.recordOutcome({
+          intent,
+          tools: ['github_search_issues'],
+          success: false,
+        });
+      }
+    }
+
+    const explained = await search.explain('search open issues');
+    expect(explained.map((r) => r.tool.name)).toEqual([
+      'jira_search',
+      'github_search_issues',
+      'read_file',
+    ]);
+    // The other intent shares a word, so it counts a little as well
+    expect(explained[0]).toMatchObject({
+      included: true,
+      history: { failures: 0 },
+    });
+    expect(explained[0]?.history?.successes).toBeCloseTo(3.6);
+    expect(explained[1]?.prior).toBeLessThan(0);
+    expect(explained[1]?.score).toBeLessThan(before[0]?.score ?? 0);
+    expect(explained[2]).toMatchObject({ included: false, prior: 0 });
+    expect(explained[2]?.history).toBeUndefined();
+
+    // Learned from outcomes alone; no word of the intent matches
+    expect(
+      (await search.search('find open bugs')).map((r) => r.tool.name)
+    ).toEqual(['jira_search']);
+  });
+});
@@ -0,0 +1,165 @@
+/// <reference types="vitest" />
+import { vi } from 'vitest';
+import {
+  ExecutionEvent,
+  ExecutionEvents,
+  TokenizedOutput,
+} from '../../../src/core/execution-engine/events';
+import { MCPCodeRuntime } from '../../../src/core/execution-engine/mcp-code-api/runtime';
+import { SandboxManager } from '../../../src/core/execution-engine/sandbox/sandbox-manager';
+import { VMSandbox } from '../../../src/core/execution-engine/sandbox/vm-sandbox';
+import { PIITokenizer } from '../../../src/core/execution-engine/security/pii-tokenizer';
+import { ExecutionResult } from '../../../src/core/execution-engine/types';
+
+const RESULT: ExecutionResult = {
+  success: true,
+  summary: 'done',
+  metrics: { executionTime: 1, memoryUsed: '0M', tokensInSummary: 1 },
+  piiTokenized: false,
+};
+
+describe('ExecutionEvents', () => {
+  it('should deliver events by type and to catch-all subscribers', () => {
+    const events = new ExecutionEvents();
+    const stdout: string[] = [];
+    const all: string[] = [];
+    events.on('stdout', (event) => stdout.push(event.data));
+    const unsubscribe = events.subscribe((event) => all.push(event.type));
+
+    events.emit({ type: 'stdout', data: 'hello' });
+    events.log('note');
+    unsubscribe();
+    events.emit({ type: 'stdout', data: 'again' });
+
+    expect(stdout).toEqual(['hello', 'again']);
+    expect(all).toEqual(['stdout', 'log']);
+  });
+
+  it('should forward events from forks to the parent', () => {
+    const parent = new ExecutionEvents();
+    const fork = parent.fork();
+    const seen: ExecutionEvent[] = [];
+    parent.subscribe((event) => seen.push(event));
+
+    fork.startPhase('discovery', 'Finding tools...');
+    fork.endPhase('discovery', 'Found 2 tools');
+
+    expect(seen.map((event) => event.type)).toEqual([
+      'phase:start',
+      'phase:end',
+    ]);
+    expect(seen[1]).toMatchObject({
+      phase: 'discovery',
+      message: 'Found 2 tools',
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it('should stream events of one execution as they happen', async () => {
+    const events = new ExecutionEvents();
+    const stream = events.stream(async (bus) => {
+      bus.startPhase('execution', 'Running...');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      bus.emit({ type: 'stdout', data: 'line\n' });
+      bus.endPhase('execution');
+      bus.emit({ type: 'result', result: RESULT });
+    });
+
+    // A concurrent execution on another fork must not leak in
+    events.fork().emit({ type: 'stdout', data: 'other' });
+
+    const types: string[] = [];
+    for await (const event of stream) {
+      types.push(event.type);
+    }
+
+    expect(types).toEqual(['phase:start', 'stdout', 'phase:end', 'result']);
+  });
+
+  it('should rethrow execution errors from the stream', async () => {
+    const events = new ExecutionEvents();
+    const stream = events.stream(async (bus) => {
+      bus.log('starting');
+      throw new Error('boom');
+    });
+
+    const seen: string[] = [];
+    await expect(
+      (async () => {
+        for await (const event of stream) seen.push(event.type);
+      })()
+    ).rejects.toThrow('boom');
+    expect(seen).toEqual(['log']);
+  });
+
+  it('should tokenize PII split across output chunks', () => {
+    const events = new ExecutionEvents();
+    const seen: string[] = [];
+    events.subscribe((event) => {
+      if (event.type === 'stdout' || event.type === 'stderr') {
+        seen.push(`${event.type}:${event.data}`);
+      }
+    });
+    const output = new TokenizedOutput(events, new PIITokenizer());
+
+    output.write('stdout', 'owner: alice@exa');
+    output.write('stderr', 'card 4111 1111 ');
+    output.write('stdout', 'mple.com\nnext: bob@');
+    output.write('stderr', '1111 1111\n');
+    output.write('stdout', 'example.com');
+    output.flush();
+
+    expect(seen).toEqual([
+      'stdout:owner: [EMAIL_1]\n',
+      'stderr:card [CREDIT_CARD_1]\n',
+      'stdout:next: [EMAIL_2]',
+    ]);
+  });
+
+  it('should stream runtime sandbox output with PII tokenized', async () => {
+    vi.spyOn(SandboxManager.prototype, 'execute').mockImplementation(
+      async (_code, _language, _config, _workspaceId, onOutput) => {
+        onOutput?.('stdout', 'Found alice@');
+        onOutput?.('stdout', 'example.com\n');
+        return RESULT;
+      }
+    );
+    const runtime = new MCPCodeRuntime({ vault: null });
+    const events = new ExecutionEvents();
+    const stdout: string[] = [];
+    events.on('stdout', (event) => stdout.push(event.data));
+
+    try {
+      await runtime.execute(
+        {
+          code: 'console.log("hello");',
+          language: 'typescript',
+          dependencies: [],
+          estimatedTokens: 5,
+        },
+        {},
+        events
+      );
+    } finally {
+      vi.restoreAllMocks();
+    }
+
+    expect(stdout).toEqual(['Found [EMAIL_1]\n']);
+  });
+
+  it('should receive VM sandbox console output as stdout chunks', async () => {
+    const sandbox = new VMSandbox({
+      type: 'vm',
+      resourceLimits: { cpu: 1, memory: '128M', timeout: 1000 },
+    });
+    const chunks: string[] = [];
+
+    await sandbox.execute(
+      'console.log("step", 1); console.error("oops"); 42',
+      'javascript',
+      (stream, data) => chunks.push(`${stream}:${data}`)
+    );
+
+    expect(chunks).toEqual(['stdout:step 1\n', 'stderr:oops\n']);
+  });
+});
@@ -0,0 +1,173 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { vi } from 'vitest';
+import { ExecutionEvents } from '../../../src/core/execution-engine/events';
+import { ExecutionOrchestrator } from '../../../src/core/execution-engine/orchestrator';
+import { ApprovalGate } from '../../../src/core/execution-engine/security/approval-gate';
+
+const tools = [
+  {
+    name: 'read_file',
+    description: 'Read a file from disk',
+    parameters: [
+      {
+        name: 'path',
+        type: 'string',
+        description: 'File path',
+        required: true,
+      },
+    ],
+    returns: { type: 'string', description: 'File contents' },
+    annotations: { readOnlyHint: true },
+  },
+];
+
+/**
+ * Executions through a tools directory (the `mcp-execute` path)
+ * Discovery runs on the MCP orchestrator; validation, approval, audit and
+ * anomaly detection are shared with every other execution.
+ */
+describe('Execution pipeline', () => {
+  let dir: string;
+  let orchestrator: ExecutionOrchestrator;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'execution-pipeline-'));
+    await fs.mkdir(path.join(dir, 'tools', 'core'), { recursive: true });
+    await fs.writeFile(
+      path.join(dir, 'tools', 'core', 'tools.json'),
+      JSON.stringify(tools)
+    );
+    // Templates are looked up from the working directory
+    await fs.symlink(path.join(process.cwd(), 'src'), path.join(dir, 'src'));
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    orchestrator = new ExecutionOrchestrator(path.join(dir, 'tools'), {
+      console: false,
+    });
+  });
+
+  afterEach(async () => {
+    await orchestrator.shutdown();
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should audit the run and feed anomaly baselines', async () => {
+    await orchestrator.initialize();
+
+    const result = await orchestrator.execute('read a file', 'javascript');
+
+    expect(result.success).toBe(true);
+    const messages = orchestrator
+      .getAuditLogger()
+      .getRecentLogs(20)
+      .map((entry) => `${entry.type}: ${entry.message}`);
+    expect(messages).toEqual(
+      expect.arrayContaining([
+        'discovery: Tool discovery completed',
+        'security: Code validation completed: low risk',
+        'execution: Code execution completed',
+      ])
+    );
+    expect(orchestrator.getStats().anomaly.historySize).toBe(1);
+    await expect(
+      fs.access(path.join(dir, '.claude', 'anomaly-baselines.json'))
+    ).resolves.toBeUndefined();
+  }, 30000);
+
+  it('should audit results served from the cache', async () => {
+    await orchestrator.initialize();
+
+    await orchestrator.execute('read a file', 'javascript');
+    const cached = await orchestrator.execute('read a file', 'javascript');
+
+    expect(cached.cached).toBe(true);
+    expect(
+      orchestrator
+        .getAuditLogger()
+        .getRecentLogs(1)
+        .map((entry) => `${entry.type}: ${entry.message}`)
+    ).toEqual(['execution: Cached result returned']);
+  }, 30000);
+
+  it('should hold runs the policy marks for approval', async () => {
+    await fs.mkdir(path.join(dir, '.claude'), { recursive: true });
+    await fs.writeFile(
+      path.join(dir, '.claude', 'security-policy.json'),
+      JSON.stringify({
+        approval: { levels: ['low', 'medium', 'high', 'critical'] },
+      })
+    );
+    await orchestrator.initialize();
+
+    const result = await orchestrator.execute('read a file', 'javascript');
+
+    expect(result.success).toBe(false);
+    expect(result.approvalRequestId).toMatch(/^approval-/);
+    const request = await orchestrator
+      .getApprovalGate()
+      .getRequest(result.approvalRequestId as string);
+    expect(request?.status).toBe('pending');
+    await expect(
+      fs.access(
+        path.join(
+          dir,
+          '.claude',
+          'approvals',
+          `${result.approvalRequestId}.json`
+        )
+      )
+    ).resolves.toBeUndefined();
+  }, 30000);
+
+  it('should weigh the approved tools when resuming', async () => {
+    await fs.mkdir(path.join(dir, '.claude'), { recursive: true });
+    await fs.writeFile(
+      path.join(dir, '.claude', 'security-policy.json'),
+      JSON.stringify({
+        approval: { levels: ['low', 'medium', 'high', 'critical'] },
+        toolRiskMultipliers: { read_file: 3 },
+      })
+    );
+    await orchestrator.initialize();
+    const held = await orchestrator.execute('read a file', 'javascript');
+    const gate = orchestrator.getApprovalGate();
+    const request = await gate.getRequest(held.approvalRequestId as string);
+    await gate.approve(
+      request!.id,
+      'reviewer',
+      ApprovalGate.hashRequest(request!)
+    );
+
+    const messages: string[] = [];
+    const events = new ExecutionEvents();
+    events.subscribe((event) => {
+      if (event.type === 'phase:end') messages.push(event.message);
+    });
+    await orchestrator.resumeApproved(request!.id, undefined, { events });
+
+    expect(request?.tools).toEqual(['read_file']);
+    expect(messages).toContain(
+      `Risk Score: ${request!.riskAssessment.riskScore}/100 (${request!.riskAssessment.riskLevel}), approved by reviewer`
+    );
+  }, 30000);
+
+  it('should hold every Bash script for approval', async () => {
+    await orchestrator.initialize();
+
+    const result = await orchestrator.execute('read a file', 'bash');
+
+    expect(result.success).toBe(false);
+    const request = await orchestrator
+      .getApprovalGate()
+      .getRequest(result.approvalRequestId as string);
+    expect(request?.language).toBe('bash');
+    expect(request?.validation.issues).toEqual([
+      expect.objectContaining({ type: 'unverified_language' }),
+    ]);
+  }, 30000);
+});
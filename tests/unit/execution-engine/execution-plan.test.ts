@@ -0,0 +1,236 @@
+/// <reference types="vitest" />
+import ts from 'typescript';
+import { vi } from 'vitest';
+import { MCPCodeRuntime } from '../../../src/core/execution-engine/mcp-code-api/runtime';
+import {
+  PLAN_RESULT_MARKER,
+  applyPlanOutput,
+  parseExecutionPlan,
+  parsePlanOutput,
+  renderPlanRunner,
+} from '../../../src/core/execution-engine/mcp-code-api/plan';
+import { SandboxManager } from '../../../src/core/execution-engine/sandbox/sandbox-manager';
+import {
+  ExecutionPlan,
+  ExecutionResult,
+} from '../../../src/core/execution-engine/types';
+
+describe('Execution plans', () => {
+  const tools = ['github_list_issues', 'slack_post_message'];
+
+  const triage = {
+    intent: 'Post open bugs to Slack',
+    steps: [
+      {
+        id: 'notify',
+        tool: 'slack_post_message',
+        args: { channel: '#bugs', text: { $ref: 'format.text' } },
+      },
+      {
+        id: 'format',
+        code: 'return { text: steps.issues.map((i) => i.title).join(", ") };',
+        dependsOn: ['issues'],
+      },
+      {
+        id: 'issues',
+        tool: 'github_list_issues',
+        args: { labels: ['bug'] },
+      },
+    ],
+  };
+
+  /**
+   * Run the rendered TypeScript runner against a stub client
+   */
+  const run = async (
+    plan: ExecutionPlan,
+    call: (tool: string, args: unknown) => unknown
+  ): Promise<string> => {
+    const lines: string[] = [];
+    const { outputText } = ts.transpileModule(
+      renderPlanRunner(plan, 'typescript'),
+      {
+        compilerOptions: { target: ts.ScriptTarget.ES2020 },
+      }
+    );
+    const done = new Promise<void>((resolve) => {
+      const log = (line: string) => {
+        lines.push(line);
+        if (line.startsWith(PLAN_RESULT_MARKER)) resolve();
+      };
+      new Function('mcpClient', 'console', outputText)(
+        { call: async (tool: string, args: unknown) => call(tool, args) },
+        { log, error: log }
+      );
+    });
+    await done;
+    return lines.join('\n');
+  };
+
+  const sandboxResult: ExecutionResult = {
+    success: true,
+    output: '',
+    summary: '',
+    metrics: { executionTime: 10, memoryUsed: '1MB', tokensInSummary: 0 },
+  };
+
+  describe('parseExecutionPlan', () => {
+    it('should order steps by dependencies, including $ref', () => {
+      const plan = parseExecutionPlan(triage, tools);
+
+      expect(plan.steps.map((step) => step.id)).toEqual([
+        'issues',
+        'format',
+        'notify',
+      ]);
+      expect(plan.steps[2]).toMatchObject({
+        dependsOn: ['format'],
+        onError: 'abort',
+      });
+      expect(plan.output).toBe('notify');
+    });
+
+    it('should list every problem', () => {
+      expect(() =>
+        parseExecutionPlan(
+          {
+            intent: 'Broken',
+            steps: [
+              { id: 'a', tool: 'jira_search' },
+              { id: 'a', tool: 'github_list_issues', dependsOn: ['missing'] },
+            ],
+            output: 'z',
+          },
+          tools
+        )
+      ).toThrow(
+        'Invalid execution plan: duplicate step id a; step a calls unknown tool jira_search; step a depends on unknown step missing; output refers to unknown step z'
+      );
+
+      expect(() =>
+        parseExecutionPlan({
+          intent: 'Cycle',
+          steps: [
+            { id: 'a', tool: 'x', args: { v: { $ref: 'b.value' } } },
+            { id: 'b', tool: 'y', dependsOn: ['a'] },
+          ],
+        })
+      ).toThrow('dependency cycle between steps a, b');
+
+      expect(() =>
+        parseExecutionPlan({
+          intent: 'Shape',
+          steps: [{ id: 'a.b', tool: 'x', code: 'return 1;' }],
+        })
+      ).toThrow(
+        /steps\.0\.id: must be a name.*steps\.0: a step needs either tool or code/
+      );
+    });
+  });
+
+  describe('runner', () => {
+    it('should chain tool calls and print only the output step', async () => {
+      const plan = parseExecutionPlan(triage, tools);
+      const calls: unknown[] = [];
+
+      const output = await run(plan, (tool, args) => {
+        calls.push({ tool, args });
+        return tool === 'github_list_issues'
+          ? [{ title: 'Crash' }, { title: 'Leak' }]
+          : { ok: true };
+      });
+
+      expect(calls).toEqual([
+        { tool: 'github_list_issues', args: { labels: ['bug'] } },
+        {
+          tool: 'slack_post_message',
+          args: { channel: '#bugs', text: 'Crash, Leak' },
+        },
+      ]);
+
+      const result = applyPlanOutput(sandboxResult, parsePlanOutput(output)!);
+      expect(result).toMatchObject({
+        success: true,
+        output: { ok: true },
+        summary: 'Plan completed: 3/3 steps succeeded. Output: {"ok":true}',
+      });
+    });
+
+    it('should skip dependents of a failed step marked continue', async () => {
+      const plan = parseExecutionPlan({
+        intent: 'Best effort',
+        steps: [
+          { id: 'issues', tool: 'github_list_issues', onError: 'continue' },
+          { id: 'notify', tool: 'slack_post_message', dependsOn: ['issues'] },
+          { id: 'ping', tool: 'slack_post_message' },
+        ],
+      });
+
+      const output = await run(plan, (tool) => {
+        if (tool === 'github_list_issues') throw new Error('rate limited');
+        return 'pong';
+      });
+      const result = applyPlanOutput(sandboxResult, parsePlanOutput(output)!);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('pong');
+      expect(result.steps?.map((step) => step.status)).toEqual([
+        'failed',
+        'skipped',
+        'succeeded',
+      ]);
+      expect(result.steps?.[1]?.error).toBe(
+        'dependency issues did not succeed'
+      );
+    });
+
+    it('should abort the plan on a failing step', async () => {
+      const plan = parseExecutionPlan(triage, tools);
+
+      const output = await run(plan, () => {
+        throw new Error('401 Unauthorized');
+      });
+      const result = applyPlanOutput(sandboxResult, parsePlanOutput(output)!);
+
+      expect(result).toMatchObject({
+        success: false,
+        output: null,
+        summary: 'Plan failed: 0/3 steps succeeded, 1 failed, 2 skipped',
+        error: 'Step issues failed: 401 Unauthorized',
+      });
+    });
+  });
+
+  it('should ignore output without a plan report', () => {
+    expect(parsePlanOutput('Error: boom')).toBeNull();
+    expect(parsePlanOutput({ steps: [] })).toBeNull();
+  });
+
+  it('should tokenize the output step before previewing it', async () => {
+    const output = { note: `${'x'.repeat(280)} alice@example.com` };
+    vi.spyOn(SandboxManager.prototype, 'execute').mockResolvedValue({
+      ...sandboxResult,
+      output: `${PLAN_RESULT_MARKER}${JSON.stringify({
+        steps: [{ id: 'note', status: 'succeeded' }],
+        output,
+        aborted: null,
+      })}\n`,
+    });
+
+    const result = await new MCPCodeRuntime({ vault: null }).execute({
+      code: 'console.log("plan");',
+      language: 'typescript',
+      dependencies: [],
+      estimatedTokens: 5,
+    });
+    vi.restoreAllMocks();
+
+    expect(result).toMatchObject({
+      success: true,
+      piiTokenized: true,
+      output: { note: `${'x'.repeat(280)} [EMAIL_1]` },
+    });
+    expect(result.summary).toContain('[EMAIL_1]');
+    expect(result.summary).not.toContain('alice@');
+  });
+});
@@ -0,0 +1,229 @@
+/// <reference types="vitest" />
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { promisify } from 'util';
+import { CodeAPIGenerator } from '../../../src/core/execution-engine/mcp-code-api/generator';
+import {
+  ToolBridge,
+  ToolBridgeTarget,
+} from '../../../src/core/execution-engine/mcp-code-api/tool-bridge';
+import { ProcessSandbox } from '../../../src/core/execution-engine/sandbox/process-sandbox';
+import {
+  MCPToolSchema,
+  SandboxConfig,
+} from '../../../src/core/execution-engine/types';
+
+const schemas: MCPToolSchema[] = [
+  {
+    name: 'echo',
+    description: 'Echo the message',
+    parameters: [
+      { name: 'message', type: 'string', description: '', required: true },
+      { name: 'count', type: 'number', description: '', required: false },
+    ],
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', maxLength: 20 },
+        count: { type: 'integer', minimum: 1 },
+      },
+      required: ['message'],
+    },
+  },
+  {
+    name: 'explode',
+    description: 'Always fails',
+    parameters: [
+      { name: 'reason', type: 'string', description: '', required: true },
+    ],
+  },
+];
+
+const TS_DRIVER = `
+const attempt = async (call: () => Promise<any>) => {
+  try {
+    console.log(JSON.stringify(await call()));
+  } catch (error: any) {
+    console.log(error.name + ' ' + error.code + ': ' + error.message);
+  }
+};
+
+(async () => {
+  await attempt(() => echo('hi'));
+  await attempt(() => echo('a'.repeat(30), 0.5));
+  await attempt(() => explode('test'));
+})();
+`;
+
+const PY_DRIVER = `
+async def _attempt(call):
+    try:
+        print(json.dumps(await call))
+    except MCPToolError as error:
+        print(type(error).__name__ + ' ' + error.code + ': ' + str(error))
+
+async def _main():
+    await _attempt(echo('hi'))
+    await _attempt(echo('a' * 30, 0.5))
+    await _attempt(explode('test'))
+
+asyncio.run(_main())
+`;
+
+/**
+ * Generated TypeScript with the driver appended, as a CommonJS script
+ */
+const transpile = (code: string) =>
+  ts.transpileModule(code + TS_DRIVER, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+    },
+  }).outputText;
+
+const lines = (output: unknown) => String(output).trim().split('\n');
+
+describe('Generated MCP client', () => {
+  let dir: string;
+  let calls: string[];
+  let slowCalls: number;
+
+  const target: ToolBridgeTarget = {
+    callTool: async (toolName, params) => {
+      calls.push(toolName);
+      if (slowCalls > 0) {
+        slowCalls--;
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+      if (toolName === 'explode') throw new Error('boom');
+      return [{ type: 'text', text: JSON.stringify(params) }];
+    },
+  };
+
+  const config = (timeout = 5000): SandboxConfig => ({
+    type: 'process',
+    resourceLimits: { cpu: 1, memory: '256M', timeout: 20000 },
+    toolBridge: new ToolBridge(target, {
+      schemas: (name) => schemas.find((schema) => schema.name === name),
+      timeout,
+    }).open({ tools: ['echo', 'explode'] }),
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'generated-client-'));
+    calls = [];
+    slowCalls = 0;
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should validate arguments and raise typed errors in TypeScript', async () => {
+    const wrapper = await new CodeAPIGenerator().generateTypeScript(schemas);
+
+    const result = await new ProcessSandbox(config()).execute(
+      transpile(wrapper.code),
+      'javascript'
+    );
+
+    expect(lines(result.output)).toEqual([
+      '[{"type":"text","text":"{\\"message\\":\\"hi\\"}"}]',
+      'MCPValidationError invalid_arguments: echo: args.message: must be at most 20 characters; args.count: expected integer, got number',
+      'MCPToolError tool_error: explode: boom',
+    ]);
+    // Invalid arguments never reach the host
+    expect(calls).toEqual(['echo', 'explode']);
+  });
+
+  it('should validate arguments and raise typed errors in Python', async () => {
+    const wrapper = await new CodeAPIGenerator().generatePython(schemas);
+
+    const result = await new ProcessSandbox(config()).execute(
+      wrapper.code + PY_DRIVER,
+      'python'
+    );
+
+    expect(result.success).toBe(true);
+    expect(lines(result.output)).toEqual([
+      '[{"type": "text", "text": "{\\"message\\":\\"hi\\"}"}]',
+      'MCPValidationError invalid_arguments: echo: args.message: must be at most 20 characters; args.count: expected integer, got number',
+      'MCPToolError tool_error: explode: boom',
+    ]);
+    expect(calls).toEqual(['echo', 'explode']);
+  });
+
+  it('should retry calls of idempotent tools that time out', async () => {
+    const generator = new CodeAPIGenerator({ retries: 1 });
+    const idempotent = schemas.map((schema) => ({
+      ...schema,
+      annotations: { idempotentHint: true },
+    }));
+    slowCalls = 1;
+
+    const node = await new ProcessSandbox(config(200)).execute(
+      transpile((await generator.generateTypeScript(idempotent)).code),
+      'javascript'
+    );
+    expect(lines(node.output)[0]).toBe(
+      '[{"type":"text","text":"{\\"message\\":\\"hi\\"}"}]'
+    );
+    expect(calls.slice(0, 2)).toEqual(['echo', 'echo']);
+
+    calls = [];
+    slowCalls = 2;
+    const python = await new ProcessSandbox(config(200)).execute(
+      (await generator.generatePython(idempotent)).code + PY_DRIVER,
+      'python'
+    );
+    expect(lines(python.output)[0]).toBe(
+      'MCPTimeoutError timeout: echo: echo did not answer within 200ms'
+    );
+    expect(calls.slice(0, 2)).toEqual(['echo', 'echo']);
+  });
+
+  it('should call other tools once when they time out', async () => {
+    const generator = new CodeAPIGenerator({ retries: 1 });
+    slowCalls = 1;
+
+    const node = await new ProcessSandbox(config(200)).execute(
+      transpile((await generator.generateTypeScript(schemas)).code),
+      'javascript'
+    );
+    expect(lines(node.output)[0]).toBe(
+      'MCPTimeoutError timeout: echo: echo did not answer within 200ms'
+    );
+    expect(calls).toEqual(['echo', 'explode']);
+
+    calls = [];
+    slowCalls = 1;
+    const python = await new ProcessSandbox(config(200)).execute(
+      (await generator.generatePython(schemas)).code + PY_DRIVER,
+      'python'
+    );
+    expect(lines(python.output)[0]).toBe(
+      'MCPTimeoutError timeout: echo: echo did not answer within 200ms'
+    );
+    expect(calls).toEqual(['echo', 'explode']);
+  });
+
+  it('should refuse to call tools outside the sandbox', async () => {
+    const wrapper = await new CodeAPIGenerator().generateTypeScript(schemas);
+    const script = path.join(dir, 'script.js');
+    await fs.writeFile(script, transpile(wrapper.code));
+
+    const { stdout } = await promisify(execFile)(process.execPath, [script], {
+      timeout: 20000,
+    });
+
+    expect(wrapper.code).not.toContain('child_process');
+    expect(lines(stdout)).toEqual([
+      'MCPToolError unavailable: mcp: no tool bridge; run this code through the execution engine',
+      'MCPValidationError invalid_arguments: echo: args.message: must be at most 20 characters; args.count: expected integer, got number',
+      'MCPToolError unavailable: mcp: no tool bridge; run this code through the execution engine',
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  EmbeddingProvider,
+  HashingEmbeddingProvider,
+  tokenize,
+} from '../../../src/core/execution-engine/discovery/embeddings';
+import { HybridToolSearch } from '../../../src/core/execution-engine/discovery/hybrid-search';
+import type { MCPToolSchema } from '../../../src/core/execution-engine/types';
+
+const tool = (name: string, description: string): MCPToolSchema => ({
+  name,
+  description,
+  parameters: [],
+});
+
+const TOOLS = [
+  tool('github_review_queue', 'Fetch PRs requiring reviewer action'),
+  tool('github_list_issues', 'List issues in a repository'),
+  tool('github_create_issue', 'Create a GitHub issue'),
+  tool('read_file', 'Read a file from the filesystem'),
+  tool('slack_post_message', 'Post a message to a Slack channel'),
+];
+
+/**
+ * Counts the texts it embeds
+ */
+class CountingProvider implements EmbeddingProvider {
+  readonly id: string;
+  embedded: string[] = [];
+  private inner = new HashingEmbeddingProvider();
+
+  constructor(id = 'counting') {
+    this.id = id;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return this.inner.embed(texts);
+  }
+}
+
+describe('HybridToolSearch', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hybrid-search-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should tokenize names, abbreviations and word forms alike', () => {
+    expect(tokenize('githubReviewQueue')).toEqual(['github', 'review', 'queu']);
+    expect(tokenize('Fetch PRs requiring reviewer action')).toEqual(
+      tokenize('fetch pull requests requires review action')
+    );
+  });
+
+  it('should find tools described in other words than the query', async () => {
+    const search = new HybridToolSearch();
+    await search.sync(TOOLS);
+
+    const results = await search.search(
+      'list my pull requests awaiting review'
+    );
+    expect(results[0]?.tool.name).toBe('github_review_queue');
+    expect(results[0]?.cosine).toBeGreaterThan(0.3);
+
+    expect(
+      (await search.search('send a slack message')).map((r) => r.tool.name)
+    ).toEqual(['slack_post_message']);
+    expect(await search.search('bake a sourdough loaf')).toEqual([]);
+  });
+
+  it('should only re-embed tools whose schema changed', async () => {
+    const provider = new CountingProvider();
+    const search = new HybridToolSearch({ embeddings: provider });
+
+    expect(await search.sync(TOOLS)).toBe(5);
+    expect(await search.sync(TOOLS)).toBe(0);
+
+    const changed = [
+      ...TOOLS.slice(1, 4),
+      tool('slack_post_message', 'Post a message to a Slack thread'),
+    ];
+    expect(await search.sync(changed)).toBe(1);
+    expect(provider.embedded.at(-1)).toContain('Slack thread');
+    // Removed tools are no longer found
+    expect(
+      (await search.search('pull request review')).map((r) => r.tool.name)
+    ).not.toContain('github_review_queue');
+  });
+
+  it('should persist vectors and rebuild them for another model', async () => {
+    const indexPath = path.join(dir, 'discovery', 'tool-vectors.json');
+    await new HybridToolSearch({
+      embeddings: new CountingProvider(),
+      indexPath,
+    }).sync(TOOLS);
+
+    const restarted = new CountingProvider();
+    expect(
+      await new HybridToolSearch({ embeddings: restarted, indexPath }).sync(
+        TOOLS
+      )
+    ).toBe(0);
+    expect(restarted.embedded).toEqual([]);
+
+    const otherModel = new CountingProvider('other-model');
+    expect(
+      await new HybridToolSearch({ embeddings: otherModel, indexPath }).sync(
+        TOOLS
+      )
+    ).toBe(5);
+  });
+});
@@ -0,0 +1,200 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ToolIndexer } from '../../../src/core/execution-engine/discovery/tool-indexer';
+import {
+  MCPClientPool,
+  RealMCPClient,
+} from '../../../src/core/execution-engine/mcp-code-api/mcp-client';
+import { Logger } from '../../../src/core/utils/logger';
+
+/**
+ * stdio MCP server with paginated listings, resources, prompts, progress
+ * and logging; calling `learn` adds a tool and announces the change
+ */
+const FAKE_SERVER = `
+const readline = require('readline');
+const send = (message) =>
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\\n');
+const tools = [{ name: 'echo' }, { name: 'learn' }, { name: 'methods' }];
+const methods = [];
+
+const page = (items, cursor) => {
+  const start = Number(cursor || 0);
+  const next = start + 2 < items.length ? String(start + 2) : undefined;
+  return { items: items.slice(start, start + 2), nextCursor: next };
+};
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, method, params = {} } = JSON.parse(line);
+  methods.push(method);
+  const reply = (result) => send({ id, result });
+
+  switch (method) {
+    case 'initialize':
+      return reply({ protocolVersion: params.protocolVersion, capabilities: { tools: { listChanged: true }, resources: { subscribe: true } } });
+    case 'tools/list': {
+      const { items, nextCursor } = page(tools, params.cursor);
+      return reply({ tools: items, nextCursor });
+    }
+    case 'tools/call':
+      if (params.name === 'learn') {
+        tools.push({ name: 'learned', description: 'New tool' });
+        send({ method: 'notifications/tools/list_changed' });
+        return reply({ content: [] });
+      }
+      if (params.name === 'methods') {
+        return reply({ content: methods.filter((m) => m.startsWith('notifications/')) });
+      }
+      for (let i = 1; i <= 2; i++) {
+        send({ method: 'notifications/progress', params: { progressToken: params._meta && params._meta.progressToken, progress: i, total: 2 } });
+      }
+      send({ method: 'notifications/message', params: { level: 'warning', logger: 'echo', data: 'slow disk' } });
+      return reply({ content: [{ type: 'text', text: 'done' }] });
+    case 'resources/list': {
+      const all = ['a', 'b', 'c'].map((n) => ({ uri: 'file:///' + n, name: n }));
+      const { items, nextCursor } = page(all, params.cursor);
+      return reply({ resources: items, nextCursor });
+    }
+    case 'resources/read':
+      return reply({ contents: [{ uri: params.uri, mimeType: 'text/plain', text: 'hello' }] });
+    case 'resources/subscribe':
+      reply({});
+      return send({ method: 'notifications/resources/updated', params: { uri: params.uri } });
+    case 'prompts/list':
+      return reply({ prompts: [{ name: 'review', arguments: [{ name: 'file', required: true }] }] });
+    case 'prompts/get':
+      return reply({
+        description: 'Review a file',
+        messages: [{ role: 'user', content: { type: 'text', text: 'Review ' + params.arguments.file } }],
+      });
+  }
+});
+`;
+
+describe('MCP protocol', () => {
+  let dir: string;
+  let server: string;
+  let client: RealMCPClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-protocol-'));
+    server = path.join(dir, 'fake-server.js');
+    await fs.writeFile(server, FAKE_SERVER);
+  });
+
+  afterEach(async () => {
+    await client?.disconnect();
+    await fs.rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should follow pagination and confirm initialization', async () => {
+    client = new RealMCPClient(process.execPath, [server]);
+    await client.connect();
+
+    expect(client.getAvailableTools()).toEqual(['echo', 'learn', 'methods']);
+    expect(client.getServerCapabilities()).toMatchObject({
+      resources: { subscribe: true },
+    });
+    expect(await client.callTool('methods', {})).toEqual([
+      'notifications/initialized',
+    ]);
+    expect((await client.listResources()).map((r) => r.name)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('should read resources, subscribe to them and render prompts', async () => {
+    client = new RealMCPClient(process.execPath, [server]);
+    await client.connect();
+
+    await expect(client.readResource('file:///a')).resolves.toEqual([
+      { uri: 'file:///a', mimeType: 'text/plain', text: 'hello' },
+    ]);
+    const updated = new Promise((resolve) =>
+      client.once('resource:updated', resolve)
+    );
+    await client.subscribeResource('file:///a');
+    await expect(updated).resolves.toBe('file:///a');
+
+    expect(await client.listPrompts()).toEqual([
+      { name: 'review', arguments: [{ name: 'file', required: true }] },
+    ]);
+    await expect(
+      client.getPrompt('review', { file: 'index.ts' })
+    ).resolves.toEqual({
+      description: 'Review a file',
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Review index.ts' } },
+      ],
+    });
+  });
+
+  it('should report progress and route server logs', async () => {
+    const logger = new Logger('mcp:test');
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    client = new RealMCPClient(process.execPath, [server], { logger });
+    await client.connect();
+
+    const progress: unknown[] = [];
+    await client.callTool(
+      'echo',
+      {},
+      { onProgress: (update) => progress.push(update) }
+    );
+
+    expect(progress).toEqual([
+      { progress: 1, total: 2, message: undefined },
+      { progress: 2, total: 2, message: undefined },
+    ]);
+    expect(warn).toHaveBeenCalledWith('[echo] slow disk');
+  });
+
+  it('should re-index tools when a server announces a change', async () => {
+    const pool = new MCPClientPool();
+    const indexer = new ToolIndexer();
+    // Watching before the server is added indexes its first listing too
+    indexer.watch(pool);
+    await pool.addServer('fake', process.execPath, [server]);
+    expect(indexer.getAllTools().map((tool) => tool.name)).toEqual([
+      'echo',
+      'learn',
+      'methods',
+    ]);
+
+    const changed = new Promise((resolve) =>
+      pool.once('tools:changed', (_server, tools) => resolve(tools))
+    );
+    await pool.callTool('learn', {});
+    await changed;
+
+    expect(indexer.getTool('learned')).toEqual({
+      name: 'learned',
+      description: 'New tool',
+      inputSchema: undefined,
+    });
+    expect(pool.getAllTools().get('learned')).toBe('fake');
+    await pool.disconnectAll();
+  });
+
+  it('should fail to connect when the server cannot list its tools', async () => {
+    const broken = path.join(dir, 'broken-server.js');
+    await fs.writeFile(
+      broken,
+      FAKE_SERVER.replace(
+        "case 'tools/list': {",
+        "case 'tools/list': {\n      return send({ id, error: { code: -32603, message: 'backend down' } });"
+      )
+    );
+    client = new RealMCPClient(process.execPath, [broken]);
+
+    // An empty listing would read as every tool removed
+    await expect(client.connect()).rejects.toThrow('backend down');
+    expect(client.getAvailableTools()).toEqual([]);
+  });
+});
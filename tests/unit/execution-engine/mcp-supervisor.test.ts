@@ -0,0 +1,165 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  MCPClientPool,
+  RealMCPClient,
+} from '../../../src/core/execution-engine/mcp-code-api/mcp-client';
+
+/**
+ * stdio MCP server that crashes on `crash`, never answers `hang`, and
+ * stops answering pings on `freeze`; START_FAILS makes it exit at once
+ */
+const FAKE_SERVER = `
+const readline = require('readline');
+if (process.env.START_FAILS) process.exit(3);
+const send = (message) =>
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\\n');
+let frozen = false;
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, method, params = {} } = JSON.parse(line);
+  const reply = (result) => send({ id, result });
+
+  switch (method) {
+    case 'initialize':
+      return reply({ protocolVersion: params.protocolVersion, capabilities: {} });
+    case 'tools/list':
+      return reply({ tools: [{ name: 'echo' }, { name: 'crash' }, { name: 'hang' }, { name: 'freeze' }] });
+    case 'ping':
+      return frozen ? undefined : reply({});
+    case 'tools/call':
+      if (params.name === 'crash') {
+        setTimeout(() => process.exit(1), 20);
+        return;
+      }
+      if (params.name === 'hang') return;
+      if (params.name === 'freeze') frozen = true;
+      return reply({ content: [{ type: 'text', text: String(process.pid) }] });
+  }
+});
+`;
+
+describe('MCP server supervision', () => {
+  let dir: string;
+  let server: string;
+  let pool: MCPClientPool;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-supervisor-'));
+    server = path.join(dir, 'fake-server.js');
+    await fs.writeFile(server, FAKE_SERVER);
+  });
+
+  afterEach(async () => {
+    await pool?.disconnectAll();
+    await fs.rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const pid = async () =>
+    ((await pool.callTool('echo', {})) as Array<{ text: string }>)[0]?.text;
+
+  it('should reject in-flight requests when the server exits', async () => {
+    const client = new RealMCPClient(process.execPath, [server]);
+    await client.connect();
+
+    const hanging = client.callTool('hang', {});
+    await expect(client.callTool('crash', {})).rejects.toThrow(
+      'MCP server exited with code 1'
+    );
+    await expect(hanging).rejects.toThrow('MCP server exited with code 1');
+    await expect(client.callTool('echo', {})).rejects.toThrow(
+      'MCP Client not connected'
+    );
+  });
+
+  it('should restart a crashed server and count the failed call', async () => {
+    pool = new MCPClientPool({ initialDelay: 10, pingInterval: 0 });
+    await pool.addServer('fake', process.execPath, [server]);
+    const first = await pid();
+
+    const restarted = new Promise((resolve) =>
+      pool.once('server:restarted', resolve)
+    );
+    await expect(pool.callTool('crash', {})).rejects.toThrow(/exited/);
+    await expect(restarted).resolves.toBe('fake');
+
+    // The new process has the same tools and answers calls
+    const second = await pid();
+    expect(second).not.toBe(first);
+    expect(pool.getHealth()).toEqual([
+      expect.objectContaining({
+        name: 'fake',
+        state: 'healthy',
+        tools: 4,
+        restarts: 1,
+        calls: 3,
+        errors: 1,
+        lastError: 'MCP server exited with code 1',
+      }),
+    ]);
+  });
+
+  it('should give up on a server that keeps crashing', async () => {
+    pool = new MCPClientPool({
+      initialDelay: 10,
+      maxRestarts: 2,
+      pingInterval: 0,
+    });
+    await pool.addServer('fake', process.execPath, [server]);
+
+    // Every restart from now on exits before it answers
+    process.env.START_FAILS = '1';
+    try {
+      const failed = new Promise<Error>((resolve) =>
+        pool.once('server:failed', (_name, error) => resolve(error))
+      );
+      await expect(pool.callTool('crash', {})).rejects.toThrow(/exited/);
+      expect((await failed).message).toMatch(
+        /MCP server fake crashed 3 times within 60000ms/
+      );
+    } finally {
+      delete process.env.START_FAILS;
+    }
+
+    expect(pool.getHealth()[0]).toMatchObject({ state: 'failed' });
+    await expect(pool.callTool('echo', {})).rejects.toThrow(
+      /MCP server fake is failed/
+    );
+  });
+
+  it('should record ping latency and restart a server that stops answering', async () => {
+    pool = new MCPClientPool({
+      initialDelay: 10,
+      pingInterval: 0,
+      pingTimeout: 50,
+      maxPingFailures: 2,
+    });
+    await pool.addServer('fake', process.execPath, [server]);
+
+    await pool.pingAll();
+    const health = pool.getHealth()[0];
+    expect(health?.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(health?.averageLatencyMs).toBe(health?.latencyMs);
+    expect(health?.lastPingAt).toBeInstanceOf(Date);
+
+    const first = await pid();
+    await pool.callTool('freeze', {});
+    await pool.pingAll();
+    expect(pool.getHealth()[0]).toMatchObject({
+      state: 'degraded',
+      lastError: 'ping failed: Request timeout: ping',
+    });
+
+    const restarted = new Promise((resolve) =>
+      pool.once('server:restarted', resolve)
+    );
+    await pool.pingAll();
+    await restarted;
+    expect(await pid()).not.toBe(first);
+  });
+});
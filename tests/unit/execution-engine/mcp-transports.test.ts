@@ -0,0 +1,478 @@
+/// <reference types="vitest" />
+import { ChildProcess } from 'child_process';
+import { getEventListeners } from 'events';
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  MCPClientPool,
+  RealMCPClient,
+} from '../../../src/core/execution-engine/mcp-code-api/mcp-client';
+import {
+  createTransport,
+  loadMCPServers,
+} from '../../../src/core/execution-engine/mcp-code-api/server-config';
+import {
+  JSONRPCMessage,
+  SSETransport,
+  StdioTransport,
+  StreamableHTTPTransport,
+} from '../../../src/core/execution-engine/mcp-code-api/transports';
+
+const TOOLS = [{ name: 'echo' }, { name: 'slow' }];
+
+/**
+ * Answer a request the way the fake servers do; `slow` never answers
+ */
+function answer(message: JSONRPCMessage): JSONRPCMessage | null {
+  switch (message.method) {
+    case 'initialize':
+      return {
+        jsonrpc: '2.0',
+        id: message.id,
+        result: {
+          protocolVersion: message.params.protocolVersion,
+          capabilities: {},
+        },
+      };
+    case 'tools/list':
+      return { jsonrpc: '2.0', id: message.id, result: { tools: TOOLS } };
+    case 'tools/call':
+      if (message.params.name === 'slow') return null;
+      return {
+        jsonrpc: '2.0',
+        id: message.id,
+        result: {
+          content: [
+            { type: 'text', text: JSON.stringify(message.params.arguments) },
+          ],
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Stdio server that initializes and lists `slow`, but never answers calls
+ */
+const STDIO_SERVER = `
+require('readline').createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, method, params } = JSON.parse(line);
+  const result =
+    method === 'initialize'
+      ? { protocolVersion: params.protocolVersion, capabilities: {} }
+      : method === 'tools/list'
+        ? { tools: [{ name: 'slow' }] }
+        : undefined;
+  if (result) process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id, result }) + '\\n');
+});
+`;
+
+const readBody = (req: http.IncomingMessage) =>
+  new Promise<JSONRPCMessage>((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(JSON.parse(body)));
+  });
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+describe('MCP transports', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: Array<{ method: string; session?: string; body?: unknown }>;
+  const held = new Set<http.ServerResponse>();
+
+  beforeEach(() => {
+    received = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    for (const res of held) res.destroy();
+    held.clear();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  describe('StreamableHTTPTransport', () => {
+    beforeEach(async () => {
+      // Answers JSON, except tool calls which stream their result
+      server = http.createServer(async (req, res) => {
+        const session = req.headers['mcp-session-id'] as string | undefined;
+        if (req.method !== 'POST') {
+          received.push({ method: req.method ?? '', session });
+          res.writeHead(req.method === 'DELETE' ? 200 : 405).end();
+          return;
+        }
+
+        const message = await readBody(req);
+        received.push({ method: 'POST', session, body: message });
+        if (session && session !== 'session-1') {
+          res.writeHead(404).end();
+          return;
+        }
+
+        const response = answer(message);
+        if (message.id === undefined) {
+          res.writeHead(202).end();
+        } else if (message.method === 'tools/call') {
+          res.writeHead(200, { 'content-type': 'text/event-stream' });
+          res.write(': keep-alive\n\n');
+          if (response) {
+            res.end(
+              `id: 1\r\nevent: message\r\ndata: ${JSON.stringify(response)}\r\n\r\n`
+            );
+          } else {
+            held.add(res);
+          }
+        } else if (response) {
+          res
+            .writeHead(200, {
+              'content-type': 'application/json',
+              'mcp-session-id': 'session-1',
+            })
+            .end(JSON.stringify(response));
+        } else {
+          held.add(res);
+        }
+      });
+      baseUrl = await listen(server);
+    });
+
+    it('should keep the session across requests and end it on disconnect', async () => {
+      const client = new RealMCPClient(
+        new StreamableHTTPTransport(`${baseUrl}/mcp`)
+      );
+      await client.connect();
+
+      expect(client.sessionId).toBe('session-1');
+      expect(client.getProtocolVersion()).toBe('2025-03-26');
+      expect(client.getAvailableTools()).toEqual(['echo', 'slow']);
+      await expect(client.callTool('echo', { message: 'hi' })).resolves.toEqual(
+        [{ type: 'text', text: '{"message":"hi"}' }]
+      );
+      await client.disconnect();
+
+      const requests = received.map(({ method, session }) => [method, session]);
+      expect(requests[0]).toEqual(['POST', undefined]);
+      // The standalone GET stream opens alongside the next request
+      expect(requests.slice(1, -1)).toEqual(
+        expect.arrayContaining([
+          ['GET', 'session-1'],
+          ['POST', 'session-1'],
+          ['POST', 'session-1'],
+          ['POST', 'session-1'],
+        ])
+      );
+      expect(requests.at(-1)).toEqual(['DELETE', 'session-1']);
+      expect(requests).toHaveLength(6);
+    });
+
+    it('should cancel requests that time out or are aborted', async () => {
+      const client = new RealMCPClient(
+        new StreamableHTTPTransport(`${baseUrl}/mcp`),
+        [],
+        { timeout: 50 }
+      );
+      await client.connect();
+
+      await expect(client.callTool('slow', {})).rejects.toThrow(
+        'Request timeout: tools/call'
+      );
+      const controller = new AbortController();
+      const call = client.callTool('slow', {}, { signal: controller.signal });
+      controller.abort();
+      await expect(call).rejects.toThrow('Request cancelled: tools/call');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const cancelled = received
+        .map(({ body }) => body as JSONRPCMessage | undefined)
+        .filter((body) => body?.method === 'notifications/cancelled')
+        .map((body) => body?.params);
+      expect(cancelled).toEqual([
+        { requestId: 3, reason: 'timeout' },
+        { requestId: 4, reason: 'aborted' },
+      ]);
+      await client.disconnect();
+    });
+
+    it('should detach request signals from the transport once answered', async () => {
+      const transport = new StreamableHTTPTransport(`${baseUrl}/mcp`);
+      const client = new RealMCPClient(transport);
+      await client.connect();
+      const signal = (transport as unknown as { controller: AbortController })
+        .controller.signal;
+      const listeners = getEventListeners(signal, 'abort').length;
+
+      for (let n = 0; n < 5; n++) {
+        await client.callTool('echo', { n });
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(getEventListeners(signal, 'abort')).toHaveLength(listeners);
+      await client.disconnect();
+    });
+
+    it('should retry requests that cannot connect', async () => {
+      const fetch = vi.spyOn(globalThis, 'fetch');
+      const closed = http.createServer();
+      const closedUrl = await listen(closed);
+      await new Promise((resolve) => closed.close(resolve));
+      const client = new RealMCPClient(
+        new StreamableHTTPTransport(`${closedUrl}/mcp`, {
+          reconnect: { maxRetries: 2, initialDelay: 10 },
+        })
+      );
+
+      await expect(client.connect()).rejects.toThrow('fetch failed');
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not resend a request the server may have received', async () => {
+      const client = new RealMCPClient(
+        new StreamableHTTPTransport(`${baseUrl}/mcp`, {
+          reconnect: { initialDelay: 10 },
+        })
+      );
+      await client.connect();
+      // The connection drops while the server handles the call
+      server.removeAllListeners('request');
+      server.on('request', async (req, res) => {
+        if (req.method !== 'POST') {
+          res.writeHead(405).end();
+          return;
+        }
+        received.push({ method: 'POST', body: await readBody(req) });
+        req.socket.destroy();
+      });
+      received = [];
+
+      await expect(client.callTool('echo', { n: 1 })).rejects.toThrow(
+        'fetch failed'
+      );
+      expect(received).toHaveLength(1);
+      await client.disconnect();
+    });
+
+    it('should refuse a server answering another protocol version', async () => {
+      server.removeAllListeners('request');
+      server.on('request', async (req, res) => {
+        const message = await readBody(req);
+        received.push({ method: 'POST', body: message });
+        res.writeHead(200, { 'content-type': 'application/json' }).end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id: message.id,
+            result: { protocolVersion: '2024-11-05', capabilities: {} },
+          })
+        );
+      });
+      const client = new RealMCPClient(
+        new StreamableHTTPTransport(`${baseUrl}/mcp`)
+      );
+
+      await expect(client.connect()).rejects.toThrow(
+        'MCP server answered with protocol version 2024-11-05; this transport supports 2025-03-26'
+      );
+      expect(received[0]?.body).toMatchObject({
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26' },
+      });
+    });
+
+    it('should report an expired session', async () => {
+      const transport = new StreamableHTTPTransport(`${baseUrl}/mcp`);
+      const client = new RealMCPClient(transport);
+      await client.connect();
+
+      // Pretend the server restarted and forgot the session
+      (transport as unknown as { session: string }).session = 'stale';
+      await expect(client.callTool('echo', {})).rejects.toThrow(
+        'MCP session stale expired'
+      );
+      expect(transport.sessionId).toBeUndefined();
+      await client.disconnect();
+    });
+  });
+
+  describe('SSETransport', () => {
+    let streams: http.ServerResponse[];
+
+    beforeEach(async () => {
+      streams = [];
+      // Legacy server: replies arrive on the GET stream
+      server = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (req.method === 'GET' && url.pathname === '/sse') {
+          received.push({ method: 'GET' });
+          res.writeHead(200, { 'content-type': 'text/event-stream' });
+          res.write(
+            `event: endpoint\ndata: /messages?sessionId=s${streams.length + 1}\n\n`
+          );
+          streams.push(res);
+          held.add(res);
+          return;
+        }
+
+        const message = await readBody(req);
+        received.push({
+          method: 'POST',
+          session: url.searchParams.get('sessionId') ?? undefined,
+          body: message,
+        });
+        res.writeHead(202).end();
+        const response = answer(message);
+        if (response) {
+          const data = JSON.stringify(response);
+          // Split across lines and writes like a real stream may be
+          streams.at(-1)?.write(`event: message\ndata: ${data.slice(0, 10)}\n`);
+          streams.at(-1)?.write(`data: ${data.slice(10)}\n\n`);
+        }
+      });
+      baseUrl = await listen(server);
+    });
+
+    it('should post to the announced endpoint and reconnect a dropped stream', async () => {
+      const client = new RealMCPClient(
+        new SSETransport(`${baseUrl}/sse`, {
+          reconnect: { initialDelay: 10 },
+        })
+      );
+      const disconnected = vi.fn();
+      client.on('disconnected', disconnected);
+      await client.connect();
+
+      expect(client.sessionId).toBe('s1');
+      expect(client.getProtocolVersion()).toBe('2024-11-05');
+      // Multi-line data is joined with newlines, which JSON allows
+      await expect(client.callTool('echo', { n: 1 })).resolves.toEqual([
+        { type: 'text', text: '{"n":1}' },
+      ]);
+
+      streams[0]?.destroy();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await expect(client.callTool('echo', { n: 2 })).resolves.toEqual([
+        { type: 'text', text: '{"n":2}' },
+      ]);
+
+      expect(client.sessionId).toBe('s2');
+      expect(received.filter(({ method }) => method === 'GET')).toHaveLength(2);
+      expect(disconnected).not.toHaveBeenCalled();
+      await client.disconnect();
+      expect(disconnected).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('StdioTransport', () => {
+    beforeEach(() => {
+      // Nothing is served over HTTP
+      server = http.createServer();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should fail pending requests when the server process errors', async () => {
+      const transport = new StdioTransport(process.execPath, [
+        '-e',
+        STDIO_SERVER,
+      ]);
+      const client = new RealMCPClient(transport);
+      const disconnected = vi.fn();
+      client.on('disconnected', disconnected);
+      await client.connect();
+      const child = (transport as unknown as { process: ChildProcess }).process;
+      const exited = new Promise((resolve) => child.once('exit', resolve));
+
+      const call = client.callTool('slow', {});
+      child.emit('error', new Error('kill EPERM'));
+      child.emit('error', new Error('write EPIPE'));
+
+      await expect(call).rejects.toThrow('kill EPERM');
+      await exited;
+      expect(disconnected).toHaveBeenCalledWith(new Error('kill EPERM'));
+      expect(disconnected).toHaveBeenCalledTimes(1);
+      await client.disconnect();
+    });
+  });
+
+  describe('server config', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-transports-'));
+      server = http.createServer(async (req, res) => {
+        if (req.method !== 'POST') {
+          res.writeHead(405).end();
+          return;
+        }
+        const response = answer(await readBody(req));
+        res
+          .writeHead(response ? 200 : 202, {
+            'content-type': 'application/json',
+          })
+          .end(response ? JSON.stringify(response) : undefined);
+      });
+      baseUrl = await listen(server);
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should select the transport of each configured server', async () => {
+      const configPath = path.join(dir, '.mcp.json');
+      await fs.writeFile(
+        configPath,
+        JSON.stringify({
+          mcpServers: {
+            local: { command: 'node', args: ['server.js'] },
+            remote: { type: 'http', url: `${baseUrl}/mcp` },
+            legacy: {
+              type: 'sse',
+              url: 'https://example.com/sse',
+              headers: { authorization: 'Bearer token' },
+            },
+          },
+        })
+      );
+
+      const servers = await loadMCPServers(configPath);
+      expect(createTransport(servers.local!)).toBeInstanceOf(StdioTransport);
+      expect(createTransport(servers.remote!)).toBeInstanceOf(
+        StreamableHTTPTransport
+      );
+      expect(createTransport(servers.legacy!)).toBeInstanceOf(SSETransport);
+
+      const pool = new MCPClientPool();
+      await pool.addServer('remote', servers.remote!);
+      await expect(pool.callTool('echo', { via: 'pool' })).resolves.toEqual([
+        { type: 'text', text: '{"via":"pool"}' },
+      ]);
+      await pool.disconnectAll();
+    });
+
+    it('should reject invalid entries', async () => {
+      const configPath = path.join(dir, '.mcp.json');
+      await fs.writeFile(
+        configPath,
+        JSON.stringify({
+          mcpServers: { remote: { type: 'http', url: 'file:///tmp/socket' } },
+        })
+      );
+
+      await expect(loadMCPServers(configPath)).rejects.toThrow(
+        /Invalid MCP server config/
+      );
+      await expect(
+        loadMCPServers(path.join(dir, 'missing.json'))
+      ).resolves.toEqual({});
+    });
+  });
+});
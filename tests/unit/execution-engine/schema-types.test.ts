@@ -0,0 +1,257 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { CodeAPIGenerator } from '../../../src/core/execution-engine/mcp-code-api/generator';
+import { SchemaTypeBuilder } from '../../../src/core/execution-engine/mcp-code-api/schema-types';
+import { ProcessSandbox } from '../../../src/core/execution-engine/sandbox/process-sandbox';
+import { MCPToolSchema } from '../../../src/core/execution-engine/types';
+
+const label = {
+  type: 'object',
+  description: 'An issue label',
+  properties: {
+    name: { type: 'string' },
+    color: { type: 'string', description: 'Hex colour' },
+  },
+  required: ['name'],
+};
+
+const searchIssues: MCPToolSchema = {
+  name: 'search_issues',
+  description: 'Search issues',
+  parameters: [
+    {
+      name: 'query',
+      type: 'string',
+      description: 'Search query',
+      required: true,
+    },
+    { name: 'filter', type: 'object', description: 'Filters', required: false },
+    { name: 'tree', type: 'object', description: 'Tree', required: false },
+  ],
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+      filter: {
+        type: 'object',
+        properties: {
+          state: { enum: ['open', 'closed'] },
+          since: { type: ['string', 'null'], format: 'date-time' },
+          labels: { type: 'array', items: label },
+        },
+        required: ['state'],
+      },
+      tree: { $ref: '#/$defs/Node' },
+    },
+    required: ['query'],
+    $defs: {
+      Node: {
+        type: 'object',
+        properties: {
+          value: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+          children: { type: 'array', items: { $ref: '#/$defs/Node' } },
+        },
+      },
+    },
+  } as MCPToolSchema['inputSchema'],
+  outputSchema: {
+    type: 'object',
+    properties: {
+      total: { type: 'integer' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            labels: { type: 'array', items: label },
+          },
+          required: ['id'],
+        },
+      },
+    },
+  },
+};
+
+const createLabel: MCPToolSchema = {
+  name: 'create_label',
+  description: 'Create a label',
+  parameters: [
+    { name: 'label', type: 'object', description: 'The label', required: true },
+  ],
+  inputSchema: { type: 'object', properties: { label }, required: ['label'] },
+  outputSchema: label,
+};
+
+describe('SchemaTypeBuilder', () => {
+  it('should declare nested objects as interfaces with docs', () => {
+    const types = new SchemaTypeBuilder('typescript');
+
+    expect(
+      types.typeOf(searchIssues.inputSchema?.properties?.filter, 'Filter')
+    ).toBe('Filter');
+    expect(types.declarations()).toBe(
+      [
+        '/**',
+        ' * An issue label',
+        ' */',
+        'export interface FilterLabelsItem {',
+        '  name: string;',
+        '  /** Hex colour */',
+        '  color?: string;',
+        '}',
+        '',
+        'export interface Filter {',
+        '  state: "open" | "closed";',
+        '  /** (format: date-time) */',
+        '  since?: string | null;',
+        '  labels?: FilterLabelsItem[];',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('should resolve recursive references and share equal declarations', () => {
+    const types = new SchemaTypeBuilder('typescript');
+    const input = searchIssues.inputSchema;
+
+    expect(types.typeOf(input?.properties?.tree, 'Tree', input)).toBe('Node');
+    expect(types.typeOf(label, 'First')).toBe('First');
+    expect(
+      types.typeOf({ ...label, description: 'Same fields' }, 'Second')
+    ).toBe('First');
+    expect(types.declarations()).toContain(
+      'export interface Node {\n  value?: string | number;\n  children?: Node[];\n}'
+    );
+  });
+
+  it('should declare TypedDicts for Python', () => {
+    const types = new SchemaTypeBuilder('python');
+    const input = searchIssues.inputSchema;
+
+    expect(types.typeOf(input?.properties?.filter, 'Filter', input)).toBe(
+      'Filter'
+    );
+    expect(types.typeOf(input?.properties?.tree, 'Tree', input)).toBe('Node');
+    expect(types.typeOf({ type: ['integer', 'null'] }, 'Count')).toBe(
+      'Optional[int]'
+    );
+    expect(types.declarations()).toContain(
+      [
+        'class _FilterRequired(TypedDict):',
+        '    state: Literal["open", "closed"]',
+        '',
+        '',
+        'class Filter(_FilterRequired, total=False):',
+        '    # (format: date-time)',
+        '    since: Optional[str]',
+        '    labels: List[FilterLabelsItem]',
+      ].join('\n')
+    );
+    expect(types.declarations()).toContain(
+      "class Node(TypedDict, total=False):\n    value: Union[str, int]\n    children: List['Node']"
+    );
+  });
+});
+
+describe('Generated types', () => {
+  const generator = new CodeAPIGenerator();
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'schema-types-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Type errors of the generated code followed by the usage
+   */
+  const typeErrors = async (code: string, usage: string) => {
+    const file = path.join(dir, 'wrapper.ts');
+    await fs.writeFile(file, code + usage);
+    const program = ts.createProgram([file], {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.NodeNext,
+      moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      types: ['node'],
+      typeRoots: [path.join(process.cwd(), 'node_modules', '@types')],
+      skipLibCheck: true,
+    });
+    return ts
+      .getPreEmitDiagnostics(program)
+      .map((diagnostic) =>
+        ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+      );
+  };
+
+  it('should type-check calls against the tool contracts', async () => {
+    const wrapper = await generator.generateTypeScript([
+      searchIssues,
+      createLabel,
+    ]);
+
+    expect(wrapper.code).toContain(
+      'export async function searchIssues(\n  query: string,\n  filter?: SearchIssuesFilter,\n  tree?: Node\n): Promise<SearchIssuesResult> {'
+    );
+    // The label is declared once for both tools
+    expect(wrapper.code.match(/^export interface/gm)).toHaveLength(5);
+    expect(wrapper.code).toContain(
+      'label: SearchIssuesFilterLabelsItem\n): Promise<SearchIssuesFilterLabelsItem>'
+    );
+
+    const valid = `
+export async function usage(): Promise<number | undefined> {
+  const result = await searchIssues('bug', { state: 'open', since: null }, { children: [{ value: 1 }] });
+  const created = await createLabel({ name: 'p1' });
+  return result.items?.[0]?.id ?? created.name.length;
+}
+`;
+    expect(await typeErrors(wrapper.code, valid)).toEqual([]);
+
+    const invalid = `
+export async function usage(): Promise<void> {
+  await searchIssues('bug', { state: 'stale' });
+  await createLabel({ color: 'red' });
+}
+`;
+    const errors = await typeErrors(wrapper.code, invalid);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain(`'"stale"' is not assignable`);
+    expect(errors[1]).toContain(`Property 'name' is missing`);
+  }, 30000);
+
+  it('should emit TypedDicts that Python accepts', async () => {
+    const wrapper = await generator.generatePython([searchIssues, createLabel]);
+
+    expect(wrapper.code).toContain(
+      '    query: str,\n    filter: Optional[SearchIssuesFilter] = None,\n    tree: Optional[Node] = None\n) -> SearchIssuesResult:'
+    );
+    expect(wrapper.code).toContain(
+      '    Args:\n        query: Search query\n        filter: Filters\n        tree: Tree'
+    );
+
+    const result = await new ProcessSandbox({
+      type: 'process',
+      resourceLimits: { cpu: 1, memory: '256M', timeout: 20000 },
+    }).execute(
+      wrapper.code +
+        '\nprint(sorted(SearchIssuesFilter.__required_keys__), sorted(SearchIssuesFilter.__optional_keys__))' +
+        '\nprint(create_label.__annotations__["return"].__name__)',
+      'python'
+    );
+
+    expect(result.success).toBe(true);
+    expect(String(result.output).trim().split('\n')).toEqual([
+      "['state'] ['labels', 'since']",
+      'SearchIssuesFilterLabelsItem',
+    ]);
+  });
+});
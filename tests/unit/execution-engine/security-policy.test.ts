@@ -0,0 +1,182 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_SECURITY_POLICY,
+  hashSecurityPolicy,
+  loadSecurityPolicy,
+  parseSecurityPolicy,
+} from '../../../src/core/execution-engine/security/security-policy';
+import { CodeValidator } from '../../../src/core/execution-engine/security/code-validator';
+import { RiskAssessor } from '../../../src/core/execution-engine/security/risk-assessor';
+import { SandboxManager } from '../../../src/core/execution-engine/sandbox/sandbox-manager';
+
+describe('Security policy', () => {
+  describe('loadSecurityPolicy', () => {
+    let configDir: string;
+
+    beforeEach(async () => {
+      configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'security-policy-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(configDir, { recursive: true, force: true });
+    });
+
+    it('should fall back to the built-in policy', async () => {
+      const loaded = await loadSecurityPolicy(configDir);
+
+      expect(loaded.source).toBeNull();
+      expect(loaded.policy).toEqual(DEFAULT_SECURITY_POLICY);
+      expect(loaded.hash).toBe(hashSecurityPolicy(DEFAULT_SECURITY_POLICY));
+    });
+
+    it('should load a YAML policy and fill in defaults', async () => {
+      await fs.writeFile(
+        path.join(configDir, 'security-policy.yaml'),
+        [
+          'version: "2024.1"',
+          'forbiddenApis: [process.env]',
+          'toolRiskMultipliers:',
+          '  deleteRepository: 2',
+        ].join('\n')
+      );
+
+      const loaded = await loadSecurityPolicy(configDir);
+
+      expect(loaded.source).toBe(path.join(configDir, 'security-policy.yaml'));
+      expect(loaded.policy.version).toBe('2024.1');
+      expect(loaded.policy.toolRiskMultipliers.deleteRepository).toBe(2);
+      expect(loaded.policy.riskLevels).toEqual(
+        DEFAULT_SECURITY_POLICY.riskLevels
+      );
+    });
+
+    it('should load a JSON policy', async () => {
+      await fs.writeFile(
+        path.join(configDir, 'security-policy.json'),
+        JSON.stringify({ version: 'json', allowedModules: ['fs'] })
+      );
+
+      const loaded = await loadSecurityPolicy(configDir);
+
+      expect(loaded.policy.allowedModules).toEqual(['fs']);
+    });
+
+    it('should fail closed on an invalid policy', async () => {
+      await fs.writeFile(
+        path.join(configDir, 'security-policy.yaml'),
+        'riskLevels:\n  high: 90\n  critical: 50\nunknownKey: true\n'
+      );
+
+      await expect(loadSecurityPolicy(configDir)).rejects.toThrow(
+        /Invalid security policy.*unknownKey/
+      );
+    });
+
+    it('should reject unparseable files', async () => {
+      await fs.writeFile(
+        path.join(configDir, 'security-policy.json'),
+        '{ not json'
+      );
+
+      await expect(loadSecurityPolicy(configDir)).rejects.toThrow(
+        'Cannot parse security policy'
+      );
+    });
+  });
+
+  describe('parseSecurityPolicy', () => {
+    it('should require a sandbox band starting at 0', () => {
+      expect(() =>
+        parseSecurityPolicy({ sandbox: [{ minScore: 50, level: 'docker' }] })
+      ).toThrow('a band with minScore 0 is required');
+    });
+
+    it('should hash independently of key order', () => {
+      const a = parseSecurityPolicy({ version: 'x', forbiddenApis: ['eval'] });
+      const b = parseSecurityPolicy({ forbiddenApis: ['eval'], version: 'x' });
+
+      expect(hashSecurityPolicy(a)).toBe(hashSecurityPolicy(b));
+      expect(hashSecurityPolicy(a)).not.toBe(
+        hashSecurityPolicy(DEFAULT_SECURITY_POLICY)
+      );
+    });
+  });
+
+  describe('enforcement', () => {
+    it('should block forbidden APIs outside comments', async () => {
+      const validator = new CodeValidator();
+      validator.setPolicy(
+        parseSecurityPolicy({ forbiddenApis: ['process.env'] })
+      );
+
+      const blocked = await validator.validate('const k = process.env.KEY;');
+      const commented = await validator.validate('// process.env.KEY\n1;');
+
+      expect(blocked.isSecure).toBe(false);
+      expect(blocked.issues.some((i) => i.type === 'forbidden_api')).toBe(true);
+      expect(commented.issues.some((i) => i.type === 'forbidden_api')).toBe(
+        false
+      );
+    });
+
+    it('should block modules outside the allowlist', async () => {
+      const validator = new CodeValidator();
+      validator.setPolicy(parseSecurityPolicy({ allowedModules: ['path'] }));
+
+      const allowed = await validator.validate("import path from 'path';");
+      const blocked = await validator.validate("import fs from 'fs';");
+
+      expect(allowed.isSecure).toBe(true);
+      expect(blocked.isSecure).toBe(false);
+      expect(blocked.issues[0].type).toBe('module_not_allowed');
+    });
+
+    it('should scale risk by tool multipliers and approval levels', async () => {
+      const validator = new CodeValidator();
+      const assessor = new RiskAssessor();
+      const code = 'const data = await fetch(url);';
+      const validation = await validator.validate(code);
+      const baseline = assessor.assess(code, validation);
+      expect(baseline.riskScore).toBeGreaterThan(0);
+
+      assessor.setPolicy(
+        parseSecurityPolicy({
+          toolRiskMultipliers: { deleteRepository: 3 },
+          approval: { levels: ['medium', 'high', 'critical'] },
+        })
+      );
+      const scaled = assessor.assess(code, validation, ['deleteRepository']);
+
+      expect(scaled.riskScore).toBe(Math.min(100, baseline.riskScore * 3));
+      expect(assessor.assess(code, validation, ['other']).riskScore).toBe(
+        baseline.riskScore
+      );
+      expect(scaled.requiresApproval).toBe(scaled.riskLevel !== 'low');
+    });
+
+    it('should map risk bands to sandbox levels', () => {
+      const manager = new SandboxManager();
+      manager.setPolicy(
+        parseSecurityPolicy({
+          sandbox: [
+            { minScore: 0, level: 'vm' },
+            { minScore: 20, level: 'docker' },
+          ],
+        })
+      );
+
+      const select = (riskScore: number) =>
+        manager.selectSandboxLevel({
+          riskScore,
+          codeType: 'typescript',
+          operations: [],
+        });
+
+      expect(select(0.1)).toBe('vm');
+      expect(select(0.2)).toBe('docker');
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/// <reference types="vitest" />
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  TokenVault,
+  VAULT_KEY_ENV,
+  VAULT_KEYFILE_ENV,
+} from '../../../src/core/execution-engine/security/token-vault';
+import { PIITokenizer } from '../../../src/core/execution-engine/security/pii-tokenizer';
+import { AuditLogger } from '../../../src/core/execution-engine/audit/logger';
+
+describe('TokenVault', () => {
+  let vaultDir: string;
+  let auditLogger: AuditLogger;
+  let vault: TokenVault;
+  const key = crypto.randomBytes(32);
+
+  beforeEach(async () => {
+    vaultDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vault-'));
+    auditLogger = new AuditLogger(path.join(vaultDir, 'audit.log'));
+    vault = new TokenVault({ key, vaultDir, auditLogger });
+  });
+
+  afterEach(async () => {
+    // Detokenization is audited without awaiting the write
+    await auditLogger.flush();
+    await fs.rm(vaultDir, { recursive: true, force: true });
+  });
+
+  describe('loadKey', () => {
+    it('should return null when no key is configured', () => {
+      expect(TokenVault.loadKey({})).toBeNull();
+    });
+
+    it('should accept hex and base64 keys', () => {
+      expect(
+        TokenVault.loadKey({ [VAULT_KEY_ENV]: key.toString('hex') })
+      ).toEqual(key);
+      expect(
+        TokenVault.loadKey({ [VAULT_KEY_ENV]: key.toString('base64') })
+      ).toEqual(key);
+    });
+
+    it('should read the key from a key file', async () => {
+      const keyFile = path.join(vaultDir, 'vault.key');
+      await fs.writeFile(keyFile, `${key.toString('base64')}\n`);
+
+      expect(TokenVault.loadKey({ [VAULT_KEYFILE_ENV]: keyFile })).toEqual(key);
+    });
+
+    it('should reject keys of the wrong length', () => {
+      expect(() => TokenVault.loadKey({ [VAULT_KEY_ENV]: 'c2hvcnQ=' })).toThrow(
+        '32 bytes'
+      );
+    });
+  });
+
+  describe('reveal', () => {
+    it('should reveal values only with a grant issued by the vault', () => {
+      vault.store('session-1', '[EMAIL_1]', 'email', 'john@example.com');
+
+      const grant = vault.grantToolCall('session-1', 'crm.updateContact');
+      expect(vault.reveal(grant, '[EMAIL_1]')).toBe('john@example.com');
+
+      const forged = { ...grant };
+      expect(() => vault.reveal(forged, '[EMAIL_1]')).toThrow(
+        'sandbox boundary'
+      );
+    });
+
+    it('should refuse expired grants and entries', () => {
+      vault.store('session-1', '[EMAIL_1]', 'email', 'john@example.com', -1);
+
+      const grant = vault.grantToolCall('session-1', 'crm.updateContact');
+      expect(() => vault.reveal(grant, '[EMAIL_1]')).toThrow(
+        'unknown or expired'
+      );
+
+      const expiredGrant = vault.grantToolCall('session-1', 'crm', -1);
+      expect(vault.isValidGrant(expiredGrant)).toBe(false);
+    });
+
+    it('should not reveal tokens from another scope', () => {
+      vault.store('session-1', '[EMAIL_1]', 'email', 'john@example.com');
+
+      const grant = vault.grantToolCall('session-2', 'crm.updateContact');
+      expect(() => vault.reveal(grant, '[EMAIL_1]')).toThrow(
+        'unknown or expired'
+      );
+    });
+
+    it('should audit detokenization without plaintext', async () => {
+      const logSecurity = vi.spyOn(auditLogger, 'logSecurity');
+      vault.store('session-1', '[EMAIL_1]', 'email', 'john@example.com');
+
+      vault.reveal(vault.grantToolCall('session-1', 'crm'), '[EMAIL_1]');
+
+      expect(logSecurity).toHaveBeenCalledWith(
+        'info',
+        'PII detokenized for tool call',
+        expect.objectContaining({ toolName: 'crm', token: '[EMAIL_1]' })
+      );
+      expect(JSON.stringify(logSecurity.mock.calls)).not.toContain(
+        'john@example.com'
+      );
+    });
+  });
+
+  describe('persistence', () => {
+    it('should persist only ciphertext and reload with the same key', async () => {
+      vault.store('session-1', '[EMAIL_1]', 'email', 'john@example.com');
+      await vault.persist('session-1');
+
+      const content = await fs.readFile(
+        path.join(vaultDir, 'session-1.json'),
+        'utf-8'
+      );
+      expect(content).not.toContain('john@example.com');
+
+      const reloaded = new TokenVault({ key, vaultDir, auditLogger });
+      expect(await reloaded.load('session-1')).toBe(1);
+      expect(
+        reloaded.reveal(reloaded.grantToolCall('session-1', 'crm'), '[EMAIL_1]')
+      ).toBe('john@example.com');
+    });
+
+    it('should fail to decrypt with a different key', async () => {
+      vault.store('session-1', '[EMAIL_1]', 'email', 'john@example.com');
+      await vault.persist('session-1');
+
+      const other = new TokenVault({
+        key: crypto.randomBytes(32),
+        vaultDir,
+        auditLogger,
+      });
+      await other.load('session-1');
+
+      expect(() =>
+        other.reveal(other.grantToolCall('session-1', 'crm'), '[EMAIL_1]')
+      ).toThrow();
+    });
+
+    it('should reject scopes that are not safe file names', () => {
+      expect(() =>
+        vault.store('../etc', '[EMAIL_1]', 'email', 'john@example.com')
+      ).toThrow('Invalid token vault scope');
+    });
+
+    it('should drop a scope from memory and disk', async () => {
+      vault.store('session-1', '[EMAIL_1]', 'email', 'john@example.com');
+      await vault.persist('session-1');
+
+      await vault.dropScope('session-1');
+
+      expect(vault.has('session-1', '[EMAIL_1]')).toBe(false);
+      await expect(
+        fs.access(path.join(vaultDir, 'session-1.json'))
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('with PIITokenizer', () => {
+    it('should show tokens to the model and real values to the tool', () => {
+      const tokenizer = new PIITokenizer({ vault, scope: 'session-1' });
+      const tokenized = tokenizer.tokenize('Update john@example.com');
+
+      expect(tokenized).toBe('Update [EMAIL_1]');
+
+      const grant = vault.grantToolCall('session-1', 'crm.updateContact');
+      expect(
+        tokenizer.detokenizeValue(
+          { email: '[EMAIL_1]', tags: ['[EMAIL_1]'], count: 1 },
+          grant
+        )
+      ).toEqual({
+        email: 'john@example.com',
+        tags: ['john@example.com'],
+        count: 1,
+      });
+    });
+
+    it('should restore tokenized keys for the tool', () => {
+      const tokenizer = new PIITokenizer({ vault, scope: 'session-1' });
+      const { value } = tokenizer.tokenizeValue({
+        'john@example.com': { role: 'admin' },
+      });
+
+      expect(value).toEqual({ '[EMAIL_1]': { role: 'admin' } });
+      const grant = vault.grantToolCall('session-1', 'crm.updateRoles');
+      expect(tokenizer.detokenizeValue(value, grant)).toEqual({
+        'john@example.com': { role: 'admin' },
+      });
+    });
+
+    it('should refuse detokenization without a grant', () => {
+      const tokenizer = new PIITokenizer({ vault, scope: 'session-1' });
+      tokenizer.tokenize('john@example.com');
+
+      expect(() => tokenizer.detokenize('[EMAIL_1]')).toThrow(
+        'sandbox boundary'
+      );
+    });
+
+    it('should refuse grants for another scope', () => {
+      const tokenizer = new PIITokenizer({ vault, scope: 'session-1' });
+      tokenizer.tokenize('john@example.com');
+
+      const grant = vault.grantToolCall('session-2', 'crm');
+      expect(() => tokenizer.detokenize('[EMAIL_1]', grant)).toThrow(
+        'cannot be used in scope session-1'
+      );
+    });
+
+    it('should not expose plaintext or the key when serialized', () => {
+      const tokenizer = new PIITokenizer({ vault, scope: 'session-1' });
+      tokenizer.tokenize('secret@example.com');
+
+      const serialized = JSON.stringify(tokenizer);
+      expect(serialized).not.toContain('secret@example.com');
+      expect(serialized).not.toContain(key.toString('hex'));
+      expect(serialized).not.toContain(key.toString('base64'));
+    });
+  });
+});
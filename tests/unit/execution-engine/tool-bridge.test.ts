@@ -0,0 +1,284 @@
+/// <reference types="vitest" />
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLogger } from '../../../src/core/execution-engine/audit/logger';
+import { MCPClientPool } from '../../../src/core/execution-engine/mcp-code-api/mcp-client';
+import {
+  ToolBridge,
+  ToolBridgeTarget,
+  validateToolArguments,
+} from '../../../src/core/execution-engine/mcp-code-api/tool-bridge';
+import { ProcessSandbox } from '../../../src/core/execution-engine/sandbox/process-sandbox';
+import { VMSandbox } from '../../../src/core/execution-engine/sandbox/vm-sandbox';
+import {
+  MCPToolSchema,
+  SandboxConfig,
+} from '../../../src/core/execution-engine/types';
+
+/**
+ * Minimal stdio MCP server: `echo` returns its arguments, `explode` fails
+ * the request and `missing_repo` reports a tool error in its result
+ */
+const FAKE_SERVER = `
+const readline = require('readline');
+const reply = (id, result, error) =>
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id, result, error }) + '\\n');
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, method, params } = JSON.parse(line);
+  if (method === 'initialize') {
+    return reply(id, { protocolVersion: params.protocolVersion, capabilities: {} });
+  }
+  if (method === 'tools/list') {
+    return reply(id, { tools: [{ name: 'echo' }, { name: 'explode' }, { name: 'missing_repo' }] });
+  }
+  if (method === 'tools/call' && params.name === 'echo') {
+    return reply(id, { content: [{ type: 'text', text: JSON.stringify(params.arguments) }] });
+  }
+  if (method === 'tools/call' && params.name === 'missing_repo') {
+    return reply(id, { content: [{ type: 'text', text: 'repository not found' }], isError: true });
+  }
+  reply(id, undefined, { code: -32000, message: 'boom' });
+});
+`;
+
+const schemas: MCPToolSchema[] = [
+  {
+    name: 'echo',
+    description: 'Echo the message',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', maxLength: 20 },
+        count: { type: 'integer', minimum: 1 },
+      },
+      required: ['message'],
+    },
+  },
+  {
+    name: 'explode',
+    description: 'Always fails',
+    parameters: [
+      { name: 'reason', type: 'string', description: '', required: true },
+    ],
+  },
+  {
+    name: 'missing_repo',
+    description: 'Reports a tool error',
+    parameters: [],
+  },
+];
+
+const schemaOf = (name: string) =>
+  schemas.find((schema) => schema.name === name);
+
+describe('Tool bridge', () => {
+  let dir: string;
+  let auditLogger: AuditLogger;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tool-bridge-'));
+    auditLogger = new AuditLogger(path.join(dir, 'audit.log'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('validateToolArguments', () => {
+    it('should check arguments against the input schema', () => {
+      expect(
+        validateToolArguments(schemas[0]!, { message: 'hi', count: 2 })
+      ).toEqual([]);
+      expect(
+        validateToolArguments(schemas[0]!, {
+          message: 'x'.repeat(21),
+          count: 0.5,
+        })
+      ).toEqual([
+        'args.message: must be at most 20 characters',
+        'args.count: expected integer, got number',
+      ]);
+    });
+
+    it('should fall back to the parameter list', () => {
+      expect(validateToolArguments(schemas[1]!, {})).toEqual([
+        'args.reason: is required',
+      ]);
+      expect(
+        validateToolArguments(schemas[1]!, { reason: 'x', force: true })
+      ).toEqual(['args.force: is not a parameter']);
+    });
+  });
+
+  describe('ToolBridge', () => {
+    const recorder = () => {
+      const calls: unknown[] = [];
+      const target: ToolBridgeTarget = {
+        callTool: async (tool, params) => {
+          calls.push({ tool, params });
+          return { ok: true };
+        },
+      };
+      return { target, calls };
+    };
+
+    it('should only forward allowed tools with valid arguments', async () => {
+      const { target, calls } = recorder();
+      const results: Array<[string, boolean]> = [];
+      const bridge = new ToolBridge(target, { schemas: schemaOf, auditLogger });
+      const handler = bridge.open({
+        tools: ['echo'],
+        workspaceId: 'ws-1',
+        prepareArguments: (_tool, args) => ({ ...args, message: 'restored' }),
+        onResult: (tool, success) => results.push([tool, success]),
+      });
+
+      await expect(handler.handle('echo', { message: 'hi' })).resolves.toEqual({
+        ok: true,
+      });
+      await expect(
+        handler.handle('explode', { reason: 'x' })
+      ).rejects.toMatchObject({ code: 'tool_not_allowed' });
+      await expect(handler.handle('echo', { count: 1 })).rejects.toMatchObject({
+        code: 'invalid_arguments',
+      });
+
+      expect(calls).toEqual([
+        { tool: 'echo', params: { message: 'restored' } },
+      ]);
+      expect(bridge.getStats()).toEqual({ calls: 1, refused: 2, failed: 0 });
+      // Refused calls never reached a tool
+      expect(results).toEqual([['echo', true]]);
+      expect(
+        auditLogger.getRecentLogs().map((entry) => [entry.type, entry.message])
+      ).toEqual([
+        ['execution', 'Tool call echo completed'],
+        [
+          'security',
+          'Tool call refused: explode is not allowed for this execution',
+        ],
+        [
+          'security',
+          'Tool call refused: invalid arguments for echo: args.message: is required',
+        ],
+      ]);
+      // Argument names only, never values
+      expect(auditLogger.getRecentLogs()[0]?.metadata).toMatchObject({
+        tool: 'echo',
+        workspaceId: 'ws-1',
+        argumentNames: ['message'],
+      });
+    });
+
+    it('should limit calls per execution and time out slow tools', async () => {
+      const bridge = new ToolBridge(
+        { callTool: () => new Promise(() => {}) },
+        { schemas: schemaOf, maxCalls: 1, timeout: 20 }
+      );
+      const handler = bridge.open({ tools: ['echo'] });
+
+      await expect(
+        handler.handle('echo', { message: 'hi' })
+      ).rejects.toMatchObject({ code: 'timeout' });
+      await expect(
+        handler.handle('echo', { message: 'hi' })
+      ).rejects.toMatchObject({ code: 'call_limit' });
+      // The limit is per execution
+      await expect(
+        bridge.open({ tools: ['echo'] }).handle('echo', { message: 'hi' })
+      ).rejects.toMatchObject({ code: 'timeout' });
+    });
+  });
+
+  describe('with a live MCP server', () => {
+    let pool: MCPClientPool;
+    let bridge: ToolBridge;
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const server = path.join(dir, 'fake-server.js');
+      await fs.writeFile(server, FAKE_SERVER);
+      pool = new MCPClientPool();
+      await pool.addServer('fake', process.execPath, [server]);
+      bridge = new ToolBridge(pool, { schemas: schemaOf, auditLogger });
+    });
+
+    afterEach(async () => {
+      await pool.disconnectAll();
+      vi.restoreAllMocks();
+    });
+
+    const config = (overrides: Partial<SandboxConfig> = {}): SandboxConfig => ({
+      type: 'process',
+      resourceLimits: { cpu: 1, memory: '256M', timeout: 20000 },
+      toolBridge: bridge.open({ tools: ['echo', 'explode', 'missing_repo'] }),
+      ...overrides,
+    });
+
+    it('should serve calls from a process sandbox behind a network policy', async () => {
+      const code = `
+        (async () => {
+          const echoed = await globalThis.__mcpBridge.call('echo', { message: 'hi' });
+          console.log(JSON.stringify(echoed));
+          try {
+            await globalThis.__mcpBridge.call('explode', { reason: 'test' });
+          } catch (error) {
+            console.log(error.code + ': ' + error.message);
+          }
+          try {
+            await globalThis.__mcpBridge.call('missing_repo', {});
+          } catch (error) {
+            console.log(error.code + ': ' + error.message);
+          }
+        })();
+      `;
+
+      const result = await new ProcessSandbox(
+        config({ networkPolicy: { mode: 'none' } })
+      ).execute(code, 'javascript');
+
+      expect(result.success).toBe(true);
+      expect(result.securityIssues).toBeUndefined();
+      expect(String(result.output).trim().split('\n')).toEqual([
+        '[{"type":"text","text":"{\\"message\\":\\"hi\\"}"}]',
+        'tool_error: boom',
+        'tool_error: repository not found',
+      ]);
+      expect(bridge.getStats()).toMatchObject({ calls: 1, failed: 2 });
+    });
+
+    it('should serve calls from the Python client stub', async () => {
+      const code = [
+        'import asyncio',
+        'async def main():',
+        "    print(await __mcp_bridge__.call('echo', {'message': 'py'}))",
+        '    try:',
+        "        await __mcp_bridge__.call('missing', {})",
+        '    except __mcp_bridge__.Error as error:',
+        '        print(error.code)',
+        'asyncio.run(main())',
+      ].join('\n');
+
+      const result = await new ProcessSandbox(config()).execute(code, 'python');
+
+      expect(result.success).toBe(true);
+      expect(String(result.output).trim().split('\n')).toEqual([
+        `[{'type': 'text', 'text': '{"message":"py"}'}]`,
+        'tool_not_allowed',
+      ]);
+    });
+
+    it('should expose the bridge in the VM sandbox', async () => {
+      const result = await new VMSandbox({
+        ...config(),
+        type: 'vm',
+      }).execute(
+        "__mcpBridge.call('echo', { message: 'vm' }).then((content) => content[0].text)",
+        'javascript'
+      );
+
+      expect(result.output).toBe('{"message":"vm"}');
+    });
+  });
+});
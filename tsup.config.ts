@@ -11,12 +11,13 @@ export default defineConfig({
   clean: true,
   shims: true,
   banner: {
-    js: '#!/usr/bin/env node'
+    js: '#!/usr/bin/env node',
   },
   target: 'node18',
   onSuccess: async () => {
     // Copy Handlebars templates to dist/core (for core imports)
-    const coreTemplatesDir = 'dist/core/execution-engine/mcp-code-api/templates';
+    const coreTemplatesDir =
+      'dist/core/execution-engine/mcp-code-api/templates';
     mkdirSync(coreTemplatesDir, { recursive: true });
 
     copyFileSync(
@@ -29,6 +30,11 @@ export default defineConfig({
       join(coreTemplatesDir, 'python-wrapper.py.hbs')
     );
 
+    copyFileSync(
+      'src/core/execution-engine/mcp-code-api/templates/bash-wrapper.sh.hbs',
+      join(coreTemplatesDir, 'bash-wrapper.sh.hbs')
+    );
+
     // Copy Handlebars templates to dist/cli (for cli imports)
     const cliTemplatesDir = 'dist/cli/execution-engine/mcp-code-api/templates';
     mkdirSync(cliTemplatesDir, { recursive: true });
@@ -43,6 +49,11 @@ export default defineConfig({
       join(cliTemplatesDir, 'python-wrapper.py.hbs')
     );
 
+    copyFileSync(
+      'src/core/execution-engine/mcp-code-api/templates/bash-wrapper.sh.hbs',
+      join(cliTemplatesDir, 'bash-wrapper.sh.hbs')
+    );
+
     console.log('✓ Copied MCP templates to dist/core and dist/cli');
-  }
+  },
 });